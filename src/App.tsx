@@ -1,29 +1,98 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import type { Note } from './types';
 import { useNotes } from './hooks/useNotes';
+import type { RemoteNotesChange } from './hooks/useNotes';
 import { useUserPreferences } from './hooks/useUserPreferences';
+import { useNotebooks } from './hooks/useNotebooks';
 import { NotesList } from './components/NotesList';
 import { NoteEditor } from './components/NoteEditor';
 import { DeleteConfirmationModal } from './components/DeleteConfirmationModal';
+import { EmptyTrashConfirmationModal } from './components/EmptyTrashConfirmationModal';
+import { BackupRestoreModal } from './components/BackupRestoreModal';
+import { AISettingsModal } from './components/AISettingsModal';
 import { AIService } from './services/aiService';
-import { StickyNote, Sparkles, Menu, X } from 'lucide-react';
+import type { MockScenario } from './services/aiMockProvider';
+import { StorageQuotaError } from './services/database';
+import { MarkdownService } from './services/markdownService';
+import type { ParsedBackup, RestoreStrategy } from './services/backupService';
+import { replaceTags } from './utils/tags';
+import { StickyNote, Sparkles, Menu, X, AlertTriangle, DatabaseBackup, Bot } from 'lucide-react';
 
 function App() {
+  const { preferences, updatePreference, replacePreferences } = useUserPreferences();
+
+  const [selectedNote, setSelectedNote] = useState<Note | null>(null);
+  const [remoteNoteUpdate, setRemoteNoteUpdate] = useState<Note | null>(null);
+  const [selectedNotebookId, setSelectedNotebookId] = useState<string | null>(null);
+  const [isSidebarOpen, setIsSidebarOpen] = useState(true);
+  const [isMobile, setIsMobile] = useState(false);
+  const [noteToDelete, setNoteToDelete] = useState<Note | null>(null);
+  const [showEmptyTrashConfirm, setShowEmptyTrashConfirm] = useState(false);
+  const [quarantineNoticeDismissed, setQuarantineNoticeDismissed] = useState(false);
+  const [showBackupModal, setShowBackupModal] = useState(false);
+  const [showAISettings, setShowAISettings] = useState(false);
+  const [transferNotice, setTransferNotice] = useState<{ isError: boolean; message: string } | null>(null);
+
+  // Keep the open note in step with edits saved in another tab
+  const handleRemoteChange = ({ updated, deletedIds }: RemoteNotesChange) => {
+    if (!selectedNote) return;
+
+    const remote = updated.find(n => n.id === selectedNote.id);
+    if (deletedIds.includes(selectedNote.id) || remote?.deletedAt) {
+      setSelectedNote(null);
+      if (isMobile) {
+        setIsSidebarOpen(true);
+      }
+    } else if (remote) {
+      setSelectedNote(remote);
+      setRemoteNoteUpdate(remote);
+    }
+  };
+
   const {
     notes,
+    trashedNotes,
     loading,
+    storageError,
+    clearStorageError,
+    quarantinedCount,
     createNote,
+    updateNote,
+    renameNoteLinks,
     saveNote,
+    importNotes,
+    restoreNotes,
+    moveNoteToNotebook,
+    trashNotebookNotes,
+    renameTag,
+    mergeTags,
+    deleteTag,
     deleteNote,
+    restoreNote,
+    purgeNote,
+    emptyTrash,
     pinNote
-  } = useNotes();
-
-  const { preferences } = useUserPreferences();
+  } = useNotes({
+    trashRetentionDays: preferences.trashRetentionDays,
+    onRemoteChange: handleRemoteChange
+  });
+
+  // Applied while rendering, so AI calls from the editor's effects already use these settings
+  const isAIAvailable = useMemo(() => {
+    const aiService = AIService.getInstance();
+    aiService.configure(preferences.aiSettings);
+    return aiService.isAvailable();
+  }, [preferences.aiSettings]);
 
-  const [selectedNote, setSelectedNote] = useState<Note | null>(null);
-  const [isSidebarOpen, setIsSidebarOpen] = useState(true);
-  const [isMobile, setIsMobile] = useState(false);
-  const [noteToDelete, setNoteToDelete] = useState<Note | null>(null);
+  const {
+    notebooks,
+    loading: notebooksLoading,
+    createNotebook,
+    renameNotebook,
+    moveNotebook,
+    deleteNotebook,
+    restoreNotebooks
+  } = useNotebooks();
 
   useEffect(() => {
     const checkMobile = () => {
@@ -48,7 +117,8 @@ function App() {
   // No need to auto-select notes here in the new version
 
   const handleCreateNote = () => {
-    const newNote = createNote();
+    // New notes go into the notebook being viewed
+    const newNote = createNote(selectedNotebookId ?? undefined);
     setSelectedNote(newNote);
     if (isMobile) {
       setIsSidebarOpen(false);
@@ -62,6 +132,13 @@ function App() {
     }
   };
 
+  // Following a [[link]] to a missing note creates it with the linked title
+  const handleCreateLinkedNote = (title: string) => {
+    const newNote = createNote(selectedNotebookId ?? undefined);
+    updateNote({ id: newNote.id, title });
+    handleEditNote({ ...newNote, title });
+  };
+
   const handleSaveNote = (noteData: Partial<Note>) => {
     const saved = saveNote(noteData);
     if (saved) {
@@ -79,21 +156,29 @@ function App() {
     }
   };
 
-  // Handle delete request - shows confirmation modal
+  // Handle delete request - moves the note to the trash, where it can be restored
   const handleDeleteNote = (id: string) => {
-    const noteToDeleteFound = notes.find(n => n.id === id);
+    deleteNote(id);
+    if (selectedNote?.id === id) {
+      setSelectedNote(null);
+      if (isMobile) {
+        setIsSidebarOpen(true);
+      }
+    }
+  };
+
+  // Handle permanent delete request from the trash - shows confirmation modal
+  const handlePurgeNote = (id: string) => {
+    const noteToDeleteFound = trashedNotes.find(n => n.id === id);
     if (noteToDeleteFound) {
       setNoteToDelete(noteToDeleteFound);
     }
   };
 
-  // Confirm deletion after password verification (if encrypted)
+  // Confirm permanent deletion after password verification (if encrypted)
   const confirmDeleteNote = () => {
     if (noteToDelete) {
-      deleteNote(noteToDelete.id);
-      if (selectedNote?.id === noteToDelete.id) {
-        setSelectedNote(null);
-      }
+      purgeNote(noteToDelete.id);
       setNoteToDelete(null);
     }
   };
@@ -103,6 +188,112 @@ function App() {
     setNoteToDelete(null);
   };
 
+  // Confirm emptying the trash; encrypted notes are kept by emptyTrash
+  const confirmEmptyTrash = () => {
+    emptyTrash();
+    setShowEmptyTrashConfirm(false);
+  };
+
+  // Export every active note as a zip of Markdown files
+  const handleExportNotes = async () => {
+    try {
+      const { exported, skippedEncrypted } = await MarkdownService.getInstance().exportWorkspace(notes);
+      const skipped = skippedEncrypted > 0
+        ? ` ${skippedEncrypted} encrypted ${skippedEncrypted === 1 ? 'note was' : 'notes were'} skipped.`
+        : '';
+      setTransferNotice({ isError: false, message: `Exported ${exported} ${exported === 1 ? 'note' : 'notes'}.${skipped}` });
+    } catch (error) {
+      console.error('Error exporting notes:', error);
+      setTransferNotice({ isError: true, message: 'Failed to export notes.' });
+    }
+  };
+
+  // Import Markdown files, folders of Markdown files or zip archives
+  const handleImportNotes = async (files: File[]) => {
+    try {
+      const { notes: imported, failed } = await MarkdownService.getInstance().importFiles(files);
+      importNotes(imported);
+      const failedText = failed.length > 0 ? ` Could not read: ${failed.join(', ')}.` : '';
+      setTransferNotice({
+        isError: imported.length === 0,
+        message: `Imported ${imported.length} ${imported.length === 1 ? 'note' : 'notes'}.${failedText}`
+      });
+    } catch (error) {
+      console.error('Error importing notes:', error);
+      setTransferNotice({ isError: true, message: 'Failed to import notes.' });
+    }
+  };
+
+  // Apply a validated backup; the open note may no longer exist afterwards
+  const handleRestoreBackup = (backup: ParsedBackup, strategy: RestoreStrategy, restoreSettings: boolean) => {
+    restoreNotes(backup.notes, strategy, backup.attachments);
+    restoreNotebooks(backup.notebooks, strategy);
+    if (restoreSettings) {
+      replacePreferences(backup.preferences);
+    }
+    setSelectedNote(null);
+    setSelectedNotebookId(null);
+    setTransferNotice({
+      isError: false,
+      message: `Restored ${backup.notes.length} ${backup.notes.length === 1 ? 'note' : 'notes'} from backup.`
+    });
+  };
+
+  // Bulk tag edits also reach the open note so a later save does not bring back the old tags
+  const applyTagChangeToOpenNote = (sources: string[], target: string | null) => {
+    if (!selectedNote?.tags) return;
+    const tags = replaceTags(selectedNote.tags, sources, target);
+    if (tags === selectedNote.tags) return;
+    const updated = { ...selectedNote, tags };
+    setSelectedNote(updated);
+    setRemoteNoteUpdate(updated);
+  };
+
+  const handleRenameTag = (from: string, to: string) => {
+    renameTag(from, to);
+    applyTagChangeToOpenNote([from], to);
+  };
+
+  const handleMergeTags = (sources: string[], target: string) => {
+    mergeTags(sources, target);
+    applyTagChangeToOpenNote(sources, target);
+  };
+
+  const handleDeleteTag = (tag: string) => {
+    deleteTag(tag);
+    applyTagChangeToOpenNote([tag], null);
+  };
+
+  // Saved searches ("smart folders") live in the preferences
+  const handleSaveSearch = (name: string, query: string) => {
+    updatePreference('savedSearches', [
+      ...preferences.savedSearches,
+      { id: `search-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, name, query }
+    ]);
+  };
+
+  const handleRenameSearch = (id: string, name: string) => {
+    updatePreference('savedSearches', preferences.savedSearches.map(search =>
+      search.id === id ? { ...search, name } : search
+    ));
+  };
+
+  const handleDeleteSearch = (id: string) => {
+    updatePreference('savedSearches', preferences.savedSearches.filter(search => search.id !== id));
+  };
+
+  // Deleting a notebook removes its nested notebooks and sends their notes to the trash
+  const handleDeleteNotebook = (id: string) => {
+    const removedIds = deleteNotebook(id);
+    trashNotebookNotes(removedIds);
+    if (selectedNotebookId && removedIds.includes(selectedNotebookId)) {
+      setSelectedNotebookId(null);
+    }
+    if (selectedNote?.notebookId && removedIds.includes(selectedNote.notebookId)) {
+      handleCloseEditor();
+    }
+  };
+
   const handleCloseSidebar = () => {
     if (isMobile) {
       setIsSidebarOpen(false);
@@ -116,7 +307,7 @@ function App() {
     }
   };
 
-  if (loading) {
+  if (loading || notebooksLoading) {
     return (
       <div className="h-screen flex items-center justify-center bg-white">
         <div className="text-center">
@@ -148,6 +339,27 @@ function App() {
           </div>
         </div>
 
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setShowAISettings(true)}
+            className="flex items-center gap-1.5 px-2 py-1 text-xs text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded transition-colors mobile-no-tap-highlight"
+            aria-label="AI settings"
+            title="AI settings"
+          >
+            <Bot size={14} />
+            <span className="hidden sm:inline">AI</span>
+          </button>
+          <button
+            onClick={() => setShowBackupModal(true)}
+            className="flex items-center gap-1.5 px-2 py-1 text-xs text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded transition-colors mobile-no-tap-highlight"
+            aria-label="Backup and restore"
+            title="Backup and restore"
+          >
+            <DatabaseBackup size={14} />
+            <span className="hidden sm:inline">Backup</span>
+          </button>
+        </div>
+
         {/* <div className="text-xs text-gray-500 hidden sm:block">
           {notes.length} {notes.length === 1 ? 'note' : 'notes'}
         </div> */}
@@ -167,10 +379,35 @@ function App() {
         `}>
           <NotesList
             notes={notes}
+            trashedNotes={trashedNotes}
             onCreateNote={handleCreateNote}
             onEditNote={handleEditNote}
             onDeleteNote={handleDeleteNote}
             onPinNote={pinNote}
+            onRestoreNote={restoreNote}
+            onPurgeNote={handlePurgeNote}
+            onEmptyTrash={() => setShowEmptyTrashConfirm(true)}
+            trashRetentionDays={preferences.trashRetentionDays}
+            onTrashRetentionChange={(days) => updatePreference('trashRetentionDays', days)}
+            fuzzySearchThreshold={preferences.fuzzySearchThreshold}
+            onFuzzySearchThresholdChange={(threshold) => updatePreference('fuzzySearchThreshold', threshold)}
+            onImportNotes={handleImportNotes}
+            onExportNotes={handleExportNotes}
+            notebooks={notebooks}
+            selectedNotebookId={selectedNotebookId}
+            onSelectNotebook={setSelectedNotebookId}
+            onCreateNotebook={createNotebook}
+            onRenameNotebook={renameNotebook}
+            onDeleteNotebook={handleDeleteNotebook}
+            onMoveNotebook={moveNotebook}
+            onMoveNote={moveNoteToNotebook}
+            onRenameTag={handleRenameTag}
+            onMergeTags={handleMergeTags}
+            onDeleteTag={handleDeleteTag}
+            savedSearches={preferences.savedSearches}
+            onSaveSearch={handleSaveSearch}
+            onRenameSearch={handleRenameSearch}
+            onDeleteSearch={handleDeleteSearch}
             selectedNoteId={selectedNote?.id}
           />
         </div>
@@ -198,6 +435,11 @@ function App() {
               isMobile={isMobile}
               enableGrammarCheck={preferences.enableGrammarCheck}
               enableAIInsights={preferences.enableAI}
+              remoteUpdate={remoteNoteUpdate}
+              onOpenNote={handleEditNote}
+              onCreateLinkedNote={handleCreateLinkedNote}
+              onRenameNote={renameNoteLinks}
+              onOpenAISettings={() => setShowAISettings(true)}
             />
           ) : (
             <div className="h-full flex flex-col items-center justify-center p-6 bg-white">
@@ -244,14 +486,84 @@ function App() {
       </div>
 
       {/* Environment Variable Warning - Made Minimal */}
-      {!import.meta.env.VITE_GEMINI_API_KEY && (
+      {!isAIAvailable && (
         <div className="fixed bottom-4 right-4 bg-amber-50 border border-amber-200 rounded px-3 py-2 max-w-xs text-xs">
           <div className="flex items-start gap-2">
             <Sparkles size={14} className="text-amber-600 mt-0.5 flex-shrink-0" />
             <div>
               <p className="font-medium text-amber-900">AI Features Disabled</p>
-              <p className="text-amber-700 mt-0.5">Add VITE_GEMINI_API_KEY to enable AI</p>
+              <p className="text-amber-700 mt-0.5">
+                Add an API key or a local server in{' '}
+                <button onClick={() => setShowAISettings(true)} className="underline hover:text-amber-900">
+                  AI settings
+                </button>
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Storage Error Banner */}
+      {storageError && (
+        <div className="fixed bottom-4 left-4 z-50 bg-red-50 border border-red-200 rounded px-3 py-2 max-w-sm text-xs" role="alert">
+          <div className="flex items-start gap-2">
+            <AlertTriangle size={14} className="text-red-600 mt-0.5 flex-shrink-0" />
+            <div className="flex-1">
+              <p className="font-medium text-red-900">
+                {storageError instanceof StorageQuotaError ? 'Storage Full' : 'Storage Error'}
+              </p>
+              <p className="text-red-700 mt-0.5">{storageError.message}</p>
+            </div>
+            <button
+              onClick={clearStorageError}
+              className="p-0.5 text-red-400 hover:text-red-700 transition-colors"
+              aria-label="Dismiss storage error"
+            >
+              <X size={12} />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Import/Export Result */}
+      {transferNotice && !storageError && (
+        <div
+          className={`fixed bottom-4 left-4 z-50 border rounded px-3 py-2 max-w-sm text-xs ${
+            transferNotice.isError ? 'bg-red-50 border-red-200 text-red-700' : 'bg-gray-50 border-gray-200 text-gray-700'
+          }`}
+          role="status"
+        >
+          <div className="flex items-start gap-2">
+            <p className="flex-1">{transferNotice.message}</p>
+            <button
+              onClick={() => setTransferNotice(null)}
+              className="p-0.5 text-gray-400 hover:text-gray-700 transition-colors"
+              aria-label="Dismiss notice"
+            >
+              <X size={12} />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Quarantine Notice - records that failed validation during an upgrade */}
+      {quarantinedCount > 0 && !quarantineNoticeDismissed && !storageError && !transferNotice && (
+        <div className="fixed bottom-4 left-4 z-50 bg-amber-50 border border-amber-200 rounded px-3 py-2 max-w-sm text-xs" role="status">
+          <div className="flex items-start gap-2">
+            <AlertTriangle size={14} className="text-amber-600 mt-0.5 flex-shrink-0" />
+            <div className="flex-1">
+              <p className="font-medium text-amber-900">Some notes need attention</p>
+              <p className="text-amber-700 mt-0.5">
+                {quarantinedCount} stored {quarantinedCount === 1 ? 'note' : 'notes'} could not be read and {quarantinedCount === 1 ? 'was' : 'were'} kept aside instead of being deleted.
+              </p>
             </div>
+            <button
+              onClick={() => setQuarantineNoticeDismissed(true)}
+              className="p-0.5 text-amber-400 hover:text-amber-700 transition-colors"
+              aria-label="Dismiss notice"
+            >
+              <X size={12} />
+            </button>
           </div>
         </div>
       )}
@@ -264,6 +576,33 @@ function App() {
           onCancel={cancelDeleteNote}
         />
       )}
+
+      {/* Empty Trash Confirmation Modal */}
+      {showEmptyTrashConfirm && (
+        <EmptyTrashConfirmationModal
+          trashedNotes={trashedNotes}
+          onConfirm={confirmEmptyTrash}
+          onCancel={() => setShowEmptyTrashConfirm(false)}
+        />
+      )}
+
+      {/* Backup & Restore Modal */}
+      <BackupRestoreModal
+        isOpen={showBackupModal}
+        onClose={() => setShowBackupModal(false)}
+        notes={[...notes, ...trashedNotes]}
+        notebooks={notebooks}
+        preferences={preferences}
+        onRestore={handleRestoreBackup}
+      />
+
+      {/* AI Provider Settings Modal */}
+      <AISettingsModal
+        isOpen={showAISettings}
+        onClose={() => setShowAISettings(false)}
+        settings={preferences.aiSettings}
+        onChange={(settings) => updatePreference('aiSettings', settings)}
+      />
     </div>
   );
 }
@@ -353,14 +692,23 @@ const testGrammarChecker = async () => {
 
 // Test API availability
 const testAPIAvailability = () => {
-  console.log('🔑 API Key available:', !!import.meta.env.VITE_GEMINI_API_KEY);
-  console.log('🔑 API Key length:', import.meta.env.VITE_GEMINI_API_KEY?.length || 0);
-  console.log('🔑 API Key prefix:', import.meta.env.VITE_GEMINI_API_KEY?.substring(0, 10) + '...');
+  const aiService = AIService.getInstance();
+  aiService.getProviders().forEach(provider => {
+    console.log(`🔑 ${provider.label} configured:`, provider.isConfigured());
+  });
+  AIService.FEATURES.forEach(({ id }) => {
+    const route = aiService.getRoute(id);
+    console.log(`🧭 ${id}:`, route ? `${route.provider} / ${route.model}` : 'unavailable');
+  });
 };
 
 // Make test functions available globally
 (window as any).testGrammarChecker = testGrammarChecker;
 (window as any).testAPIAvailability = testAPIAvailability;
+// Answers AI requests from offline fixtures, e.g. setAIMockScenario('malformed'); null goes back to the real providers
+Object.assign(window, {
+  setAIMockScenario: (scenario: MockScenario | null) => AIService.getInstance().setMockScenario(scenario)
+});
 (window as any).testGrammarExamples = async () => {
   // Test with the examples from user's request separately for easy access
   const examples = [
@@ -0,0 +1,77 @@
+import React, { useState, useEffect } from 'react';
+import { AIAuthError, AINotConfiguredError, AIRateLimitError } from '../services/aiErrors';
+import type { AIError } from '../services/aiErrors';
+import { Settings, Clock } from 'lucide-react';
+
+interface AIErrorNoticeProps {
+  error: AIError;
+  // Shown for errors only a change of settings can fix
+  onOpenSettings?: () => void;
+  onRetry?: () => void;
+  className?: string;
+}
+
+// Message and next step for a failed AI request: open the settings when the key or
+// provider is missing or refused, otherwise retry once any requested wait is over
+export const AIErrorNotice: React.FC<AIErrorNoticeProps> = ({
+  error,
+  onOpenSettings,
+  onRetry,
+  className = ''
+}) => {
+  const retryAfterMs = error instanceof AIRateLimitError ? error.retryAfterMs : undefined;
+  const [secondsLeft, setSecondsLeft] = useState(() => Math.ceil((retryAfterMs ?? 0) / 1000));
+
+  // Count down the wait the provider asked for
+  useEffect(() => {
+    if (!retryAfterMs) return;
+    const retryAt = Date.now() + retryAfterMs;
+    setSecondsLeft(Math.ceil(retryAfterMs / 1000));
+    const timer = setInterval(() => {
+      const left = Math.max(0, Math.ceil((retryAt - Date.now()) / 1000));
+      setSecondsLeft(left);
+      if (left === 0) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [error, retryAfterMs]);
+
+  const needsSettings = error instanceof AINotConfiguredError || error instanceof AIAuthError;
+
+  return (
+    <div className={className}>
+      <p>
+        {error instanceof AIRateLimitError
+          ? secondsLeft > 0
+            ? `Rate limit exceeded. You can try again in ${secondsLeft} ${secondsLeft === 1 ? 'second' : 'seconds'}.`
+            : retryAfterMs ? 'Rate limit exceeded. You can try again now.' : error.message
+          : error.message}
+      </p>
+
+      {needsSettings && onOpenSettings && (
+        <button
+          onClick={onOpenSettings}
+          className="mt-2 inline-flex items-center gap-1 text-sm font-medium underline hover:opacity-80"
+        >
+          <Settings size={14} />
+          Open AI settings
+        </button>
+      )}
+
+      {!needsSettings && onRetry && (
+        secondsLeft > 0 ? (
+          <span className="mt-2 inline-flex items-center gap-1 text-sm opacity-80">
+            <Clock size={14} />
+            Waiting {secondsLeft}s...
+          </span>
+        ) : (
+          <button
+            onClick={onRetry}
+            className="mt-2 text-sm underline hover:opacity-80"
+          >
+            Try Again
+          </button>
+        )
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,11 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { AIService } from '../services/aiService';
 import type { ContentInsight, NoteSuggestion } from '../services/aiService';
-import { Sparkles, Lightbulb, Hash, FileText, TrendingUp, Loader2, ChevronDown, ChevronUp, RefreshCw } from 'lucide-react';
+import { toAIError } from '../services/aiErrors';
+import type { AIError } from '../services/aiErrors';
+import { Sparkles, Lightbulb, Hash, FileText, TrendingUp, Loader2, ChevronDown, ChevronUp, RefreshCw, Database } from 'lucide-react';
 import type { Note } from '../types';
+import { AIErrorNotice } from './AIErrorNotice';
 
 interface AIInsightsProps {
   note: Note;
@@ -10,6 +13,7 @@ interface AIInsightsProps {
   isVisible: boolean;
   onClose: () => void;
   isMobile?: boolean;
+  onOpenAISettings?: () => void;
 }
 
 export const AIInsights: React.FC<AIInsightsProps> = ({ 
@@ -17,12 +21,21 @@ export const AIInsights: React.FC<AIInsightsProps> = ({
   allNotes, 
   isVisible, 
   onClose: _onClose, // Rename to indicate it's provided but not used in this component
-  isMobile = false
+  isMobile = false,
+  onOpenAISettings
 }) => {
   const [insights, setInsights] = useState<ContentInsight[]>([]);
   const [suggestions, setSuggestions] = useState<NoteSuggestion[]>([]);
+  // Waiting for the first part of the answer
   const [loading, setLoading] = useState(false);
-  const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set(['summary']));
+  // Until the whole answer and the suggestions have arrived
+  const [streaming, setStreaming] = useState(false);
+  // The summary is the first insight and opens as it streams in
+  const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set(['insight-0']));
+  // When the insights shown were saved, if they came from the AI cache
+  const [cachedAt, setCachedAt] = useState<Date | null>(null);
+  const [error, setError] = useState<AIError | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     if (isVisible && note && note.content.trim()) {
@@ -31,7 +44,11 @@ export const AIInsights: React.FC<AIInsightsProps> = ({
         generateInsights();
       }, 1000); // Wait 1 second after content stops changing
 
-      return () => clearTimeout(timeoutId);
+      return () => {
+        clearTimeout(timeoutId);
+        // Drops the request for the previous note or content
+        abortRef.current?.abort();
+      };
     } else if (isVisible && (!note.content || !note.content.trim())) {
       // Clear insights if no content
       setInsights([]);
@@ -39,11 +56,21 @@ export const AIInsights: React.FC<AIInsightsProps> = ({
     }
   }, [isVisible, note.id, note.content, note.title]);
 
-  const generateInsights = async () => {
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // A refresh the user asks for skips the cache and goes ahead of background AI requests
+  const generateInsights = async (refresh = false) => {
+    const options = { priority: refresh ? 'user' as const : 'background' as const, fresh: refresh };
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+
     const trimmedContent = note.content.trim();
     if (!trimmedContent) {
       setInsights([]);
       setSuggestions([]);
+      setError(null);
       return;
     }
 
@@ -56,40 +83,55 @@ export const AIInsights: React.FC<AIInsightsProps> = ({
         confidence: 1.0
       }]);
       setSuggestions([]);
+      setError(null);
       setLoading(false);
+      setStreaming(false);
       return;
     }
 
     setLoading(true);
+    setStreaming(true);
+    setSuggestions([]);
+    setCachedAt(null);
+    setError(null);
+    let contentInsights: ContentInsight[] = [];
     try {
       const aiService = AIService.getInstance();
       
-      // Generate content insights
-      const contentInsights = await aiService.generateInsights(note.content, note.title);
+      // Generate content insights, showing them as they are written
+      for await (const partial of aiService.streamInsights(note.content, note.title, { ...options, signal, onCacheHit: setCachedAt, noteId: note.id })) {
+        contentInsights = partial;
+        setInsights(partial);
+        setLoading(false);
+      }
       setInsights(contentInsights.length > 0 ? contentInsights : [{
         type: 'summary',
         title: 'No Insights Available',
         content: 'Unable to generate insights at this time. The AI service may be temporarily unavailable.',
         confidence: 0.0
       }]);
+      setLoading(false);
 
       // Generate note suggestions
       const noteSuggestions = await aiService.generateNoteSuggestions(
         { title: note.title, content: note.content },
-        allNotes.map(n => ({ id: n.id, title: n.title, content: n.content }))
+        allNotes.map(n => ({ id: n.id, title: n.title, content: n.content })),
+        { ...options, signal }
       );
       setSuggestions(noteSuggestions);
     } catch (error) {
+      // Another note or a newer request took over
+      if (signal.aborted) return;
       console.error('Error generating insights:', error);
-      setInsights([{
-        type: 'summary',
-        title: 'Error',
-        content: 'Failed to generate insights. Please check your internet connection and try again.',
-        confidence: 0.0
-      }]);
+      setError(toAIError(error));
+      // Insights that arrived before a failed suggestions request stay
+      if (contentInsights.length === 0) setInsights([]);
       setSuggestions([]);
     } finally {
-      setLoading(false);
+      if (abortRef.current === controller) {
+        setLoading(false);
+        setStreaming(false);
+      }
     }
   };
 
@@ -140,13 +182,13 @@ export const AIInsights: React.FC<AIInsightsProps> = ({
           
           {/* Refresh button only */}
           <button
-            onClick={() => generateInsights()}
-            disabled={loading}
+            onClick={() => generateInsights(true)}
+            disabled={streaming}
             className="p-2 rounded-full bg-white/80 hover:bg-purple-50 active:bg-purple-100 text-gray-600 hover:text-purple-600 transition-colors disabled:opacity-50 shadow-sm mobile-no-tap-highlight"
             title="Refresh insights"
             aria-label="Refresh insights"
           >
-            <RefreshCw className={loading ? 'animate-spin' : ''} size={18} />
+            <RefreshCw className={streaming ? 'animate-spin' : ''} size={18} />
           </button>
         </div>
         <div className="text-xs text-gray-500 leading-relaxed">
@@ -171,12 +213,32 @@ export const AIInsights: React.FC<AIInsightsProps> = ({
           </div>
         ) : (
           <>
+            {/* Error State */}
+            {error && (
+              <AIErrorNotice
+                error={error}
+                onOpenSettings={onOpenAISettings}
+                onRetry={() => generateInsights(true)}
+                className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-600"
+              />
+            )}
+
             {/* Content Insights */}
             {insights.length > 0 && (
               <div className="space-y-4">
                 <div className="flex items-center gap-2">
                   <div className="w-1 h-4 bg-gradient-to-b from-blue-500 to-purple-500 rounded-full"></div>
                   <h4 className="font-semibold text-gray-800 text-sm">Content Analysis</h4>
+                  {streaming && <Loader2 size={14} className="animate-spin text-purple-500" aria-label="Receiving insights" />}
+                  {cachedAt && !streaming && (
+                    <span
+                      className="flex items-center gap-1 text-xs text-gray-400"
+                      title={`Saved ${cachedAt.toLocaleString()}. Refresh to analyze again.`}
+                    >
+                      <Database size={12} />
+                      Cached
+                    </span>
+                  )}
                 </div>
                 {insights.map((insight, index) => (
                   <div 
@@ -350,7 +412,7 @@ export const AIInsights: React.FC<AIInsightsProps> = ({
                   Write more content to unlock AI-powered analysis, summaries, and smart suggestions.
                 </p>
                 <button
-                  onClick={generateInsights}
+                  onClick={() => generateInsights(true)}
                   className="px-4 py-2 bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 active:from-purple-800 active:to-blue-800 text-white rounded-lg shadow-sm flex items-center gap-2 mx-auto mobile-no-tap-highlight transition-all duration-200"
                 >
                   <Sparkles size={16} />
@@ -366,10 +428,11 @@ export const AIInsights: React.FC<AIInsightsProps> = ({
       {!loading && (insights.length > 0 || suggestions.length > 0) && !isMobile && (
         <div className="p-4 border-t border-gray-200 bg-gradient-to-r from-purple-50 to-blue-50 mobile-safe-area animate-fade-in" style={{ animationDelay: '700ms' }}>
           <button
-            onClick={generateInsights}
-            className="w-full px-4 py-2.5 bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 active:from-purple-800 active:to-blue-800 text-white rounded-lg shadow-sm flex items-center justify-center gap-2 transition-all duration-300 mobile-no-tap-highlight transform hover:scale-[1.02] active:scale-[0.98]"
+            onClick={() => generateInsights(true)}
+            disabled={streaming}
+            className="w-full px-4 py-2.5 bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 active:from-purple-800 active:to-blue-800 text-white rounded-lg shadow-sm flex items-center justify-center gap-2 transition-all duration-300 mobile-no-tap-highlight transform hover:scale-[1.02] active:scale-[0.98] disabled:opacity-60"
           >
-            <RefreshCw size={18} className={loading ? "animate-spin" : ""} />
+            <RefreshCw size={18} className={streaming ? "animate-spin" : ""} />
             <span className="font-medium">Refresh AI Insights</span>
           </button>
           <div className="flex items-center justify-center gap-2 mt-3">
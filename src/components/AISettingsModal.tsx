@@ -0,0 +1,244 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { AIFeature, AIModelChoice, AIProviderId, AISettings } from '../types';
+import { AIService } from '../services/aiService';
+import { X, Bot, AlertTriangle, Trash2 } from 'lucide-react';
+
+interface AISettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: AISettings;
+  onChange: (settings: AISettings) => void;
+}
+
+interface ModelPickerProps {
+  choice: AIModelChoice;
+  // Label for the "use default" option; features offer it, the default does not
+  inheritLabel?: string;
+  inherits?: boolean;
+  onChange: (choice: AIModelChoice | null) => void;
+  ariaLabel: string;
+}
+
+const ModelPicker: React.FC<ModelPickerProps> = ({ choice, inheritLabel, inherits = false, onChange, ariaLabel }) => {
+  const providers = AIService.getInstance().getProviders();
+  const provider = providers.find(p => p.id === choice.provider);
+  const listId = `ai-models-${ariaLabel.replace(/\W+/g, '-').toLowerCase()}`;
+
+  const handleProviderChange = (value: string) => {
+    if (value === '') {
+      onChange(null);
+      return;
+    }
+    const next = providers.find(p => p.id === value);
+    onChange({ provider: value as AIProviderId, model: next?.suggestedModels[0] ?? '' });
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={inherits ? '' : choice.provider}
+        onChange={(e) => handleProviderChange(e.target.value)}
+        className="text-sm border border-gray-300 rounded px-2 py-1 bg-white focus:outline-none focus:ring-2 focus:ring-blue-200"
+        aria-label={`${ariaLabel} provider`}
+      >
+        {inheritLabel && <option value="">{inheritLabel}</option>}
+        {providers.map(p => (
+          <option key={p.id} value={p.id}>{p.label}</option>
+        ))}
+      </select>
+      {!inherits && (
+        <>
+          <input
+            value={choice.model}
+            onChange={(e) => onChange({ ...choice, model: e.target.value })}
+            list={listId}
+            placeholder="Model"
+            className="flex-1 min-w-0 text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-200"
+            aria-label={`${ariaLabel} model`}
+          />
+          <datalist id={listId}>
+            {provider?.suggestedModels.map(model => <option key={model} value={model} />)}
+          </datalist>
+        </>
+      )}
+    </div>
+  );
+};
+
+export const AISettingsModal: React.FC<AISettingsModalProps> = ({
+  isOpen,
+  onClose,
+  settings,
+  onChange
+}) => {
+  // Providers in use that cannot be reached yet; the address field can fix the local one
+  const unconfigured = useMemo(() => {
+    const used = new Set<AIProviderId>([
+      settings.default.provider,
+      ...Object.values(settings.features).map(choice => choice!.provider)
+    ]);
+    const openaiReady = settings.openaiBaseUrl.trim() !== '';
+    return AIService.getInstance().getProviders().filter(p =>
+      used.has(p.id) && !(p.id === 'openai' ? openaiReady : p.isConfigured())
+    );
+  }, [settings]);
+
+  // Answers saved in the AI cache; null until counted
+  const [cacheSize, setCacheSize] = useState<number | null>(null);
+  const [clearingCache, setClearingCache] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    AIService.getInstance().getCacheSize().then(size => {
+      if (!cancelled) setCacheSize(size);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleClearCache = async () => {
+    setClearingCache(true);
+    try {
+      await AIService.getInstance().clearCaches();
+      setCacheSize(0);
+    } catch (error) {
+      console.error('Error clearing AI cache:', error);
+    } finally {
+      setClearingCache(false);
+    }
+  };
+
+  const mockScenario = AIService.getInstance().getMockScenario();
+
+  const setFeature = (feature: AIFeature, choice: AIModelChoice | null) => {
+    const features = { ...settings.features };
+    if (choice) {
+      features[feature] = choice;
+    } else {
+      delete features[feature];
+    }
+    onChange({ ...settings, features });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col overflow-hidden animate-scale-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gray-100 rounded-xl">
+              <Bot className="text-gray-700" size={22} />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-800">AI Settings</h2>
+              <p className="text-sm text-gray-500">Choose which provider and model each feature uses</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {mockScenario && (
+            <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg text-xs text-blue-800">
+              Every feature is answered offline by the mock provider ("{mockScenario}" scenario).
+              These settings take effect once VITE_AI_MOCK is unset.
+            </div>
+          )}
+
+          {!mockScenario && unconfigured.length > 0 && (
+            <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800">
+              <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+              <ul className="space-y-0.5">
+                {unconfigured.map(p => (
+                  <li key={p.id}><span className="font-medium">{p.label}</span> is not set up. {p.setupHint}.</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <section>
+            <h3 className="text-sm font-semibold text-gray-800 mb-1">Default model</h3>
+            <p className="text-xs text-gray-500 mb-3">Used by every feature without its own choice below.</p>
+            <ModelPicker
+              choice={settings.default}
+              onChange={(choice) => choice && onChange({ ...settings, default: choice })}
+              ariaLabel="Default"
+            />
+          </section>
+
+          <section>
+            <h3 className="text-sm font-semibold text-gray-800 mb-1">Per feature</h3>
+            <p className="text-xs text-gray-500 mb-3">
+              E.g. a small, fast model for grammar checks and a stronger one for insights.
+            </p>
+            <div className="space-y-2">
+              {AIService.FEATURES.map(({ id, label }) => (
+                <div key={id} className="grid grid-cols-[8rem_1fr] items-center gap-2">
+                  <span className="text-sm text-gray-700">{label}</span>
+                  <ModelPicker
+                    choice={settings.features[id] ?? settings.default}
+                    inheritLabel="Default"
+                    inherits={!settings.features[id]}
+                    onChange={(choice) => setFeature(id, choice)}
+                    ariaLabel={label}
+                  />
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-sm font-semibold text-gray-800 mb-1">OpenAI-compatible server</h3>
+            <p className="text-xs text-gray-500 mb-3">
+              Address of the API, e.g. http://localhost:11434/v1 for Ollama or http://localhost:8080/v1 for llama.cpp.
+              Servers that need a key read it from VITE_OPENAI_API_KEY, which is only sent to the server at VITE_OPENAI_API_URL.
+            </p>
+            <input
+              value={settings.openaiBaseUrl}
+              onChange={(e) => onChange({ ...settings, openaiBaseUrl: e.target.value })}
+              placeholder="http://localhost:11434/v1"
+              className="w-full text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-200"
+              aria-label="Server address"
+            />
+          </section>
+
+          <section>
+            <h3 className="text-sm font-semibold text-gray-800 mb-1">Cache</h3>
+            <p className="text-xs text-gray-500 mb-3">
+              Definitions, insights and grammar checks are saved in this browser and reused for the same text and model.
+            </p>
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm text-gray-700">
+                {cacheSize === null ? 'Counting saved answers...' : `${cacheSize} saved ${cacheSize === 1 ? 'answer' : 'answers'}`}
+              </span>
+              <button
+                onClick={handleClearCache}
+                disabled={clearingCache || cacheSize === 0}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+              >
+                <Trash2 size={14} />
+                Clear AI cache
+              </button>
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
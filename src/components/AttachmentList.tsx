@@ -0,0 +1,107 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { Attachment } from '../types';
+import { AttachmentService } from '../services/attachmentService';
+import { formatFileSize, getAttachmentIds, isImageType } from '../utils/attachments';
+import { Paperclip, ImageIcon, FileIcon, Download, Trash2 } from 'lucide-react';
+
+interface AttachmentListProps {
+  noteId: string;
+  // Note content, to mark attachments it no longer refers to
+  content: string;
+  // Called after an attachment was deleted, to remove it from the content
+  onDeleted: (id: string) => void;
+}
+
+export const AttachmentList: React.FC<AttachmentListProps> = ({ noteId, content, onDeleted }) => {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const referencedIds = useMemo(() => new Set(getAttachmentIds(content)), [content]);
+
+  // Reloads whenever this note's attachments change, e.g. after a paste in the editor
+  useEffect(() => {
+    let cancelled = false;
+    const service = AttachmentService.getInstance();
+    const load = () => {
+      service.getForNote(noteId)
+        .then(loaded => {
+          if (!cancelled) setAttachments(loaded);
+        })
+        .catch(loadError => console.error('Error loading attachments:', loadError));
+    };
+
+    load();
+    const unsubscribe = service.subscribe(changedId => {
+      if (changedId === noteId) load();
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [noteId]);
+
+  const handleDownload = (attachment: Attachment) => {
+    setError(null);
+    AttachmentService.getInstance().download(noteId, attachment.id).catch(downloadError => {
+      console.error('Error downloading attachment:', downloadError);
+      setError(`"${attachment.name}" could not be downloaded.`);
+    });
+  };
+
+  const handleDelete = (attachment: Attachment) => {
+    setError(null);
+    AttachmentService.getInstance().delete(noteId, attachment.id)
+      .then(() => onDeleted(attachment.id))
+      .catch(deleteError => {
+        console.error('Error deleting attachment:', deleteError);
+        setError(`"${attachment.name}" could not be deleted.`);
+      });
+  };
+
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="mt-4 p-3 bg-white border border-gray-200 rounded-lg">
+      <div className="flex items-center gap-2 mb-2">
+        <Paperclip size={14} className="text-gray-500" />
+        <span className="text-sm font-medium text-gray-700">
+          {attachments.length} {attachments.length === 1 ? 'attachment' : 'attachments'}
+        </span>
+      </div>
+      <ul className="space-y-1">
+        {attachments.map(attachment => {
+          const Icon = isImageType(attachment.type) ? ImageIcon : FileIcon;
+          return (
+            <li key={attachment.id} className="flex items-center gap-2 px-2 py-1.5 rounded hover:bg-gray-50">
+              <Icon size={16} className="flex-shrink-0 text-gray-400" />
+              <div className="min-w-0 flex-1">
+                <p className="text-sm text-gray-800 truncate" title={attachment.name}>{attachment.name}</p>
+                <p className="text-xs text-gray-500">
+                  {formatFileSize(attachment.size)}
+                  {!referencedIds.has(attachment.id) && ' · not shown in the note'}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleDownload(attachment)}
+                disabled={!!attachment.encryption}
+                className="p-1.5 rounded text-gray-500 hover:text-gray-800 hover:bg-gray-100 disabled:opacity-40"
+                title="Download"
+              >
+                <Download size={14} />
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(attachment)}
+                className="p-1.5 rounded text-gray-500 hover:text-red-600 hover:bg-red-50"
+                title="Delete attachment"
+              >
+                <Trash2 size={14} />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      {error && <p className="mt-2 text-xs text-red-600" role="alert">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,291 @@
+import React, { useState, useRef, useMemo } from 'react';
+import type { Note, Notebook } from '../types';
+import type { UserPreferences } from '../hooks/useUserPreferences';
+import { BackupService, BackupValidationError } from '../services/backupService';
+import type { ParsedBackup, RestoreStrategy } from '../services/backupService';
+import { AIService } from '../services/aiService';
+import { AttachmentService } from '../services/attachmentService';
+import { X, DatabaseBackup, Download, Upload, AlertTriangle } from 'lucide-react';
+import { clsx } from 'clsx';
+
+interface BackupRestoreModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  notes: Note[];
+  notebooks: Notebook[];
+  preferences: UserPreferences;
+  onRestore: (backup: ParsedBackup, strategy: RestoreStrategy, restoreSettings: boolean) => void;
+}
+
+const STRATEGIES: Array<{ value: RestoreStrategy; label: string; description: string }> = [
+  {
+    value: 'merge',
+    label: 'Merge',
+    description: 'Add new notes and keep whichever copy of each note was updated most recently.'
+  },
+  {
+    value: 'copies',
+    label: 'Import as copies',
+    description: 'Add every note from the backup as a new note. Nothing existing is changed.'
+  },
+  {
+    value: 'replace',
+    label: 'Replace everything',
+    description: 'Delete all current notes, including the trash, and use the backup instead.'
+  }
+];
+
+export const BackupRestoreModal: React.FC<BackupRestoreModalProps> = ({
+  isOpen,
+  onClose,
+  notes,
+  notebooks,
+  preferences,
+  onRestore
+}) => {
+  const [backup, setBackup] = useState<ParsedBackup | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [strategy, setStrategy] = useState<RestoreStrategy>('merge');
+  const [restoreSettings, setRestoreSettings] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const preview = useMemo(
+    () => backup ? BackupService.getInstance().previewRestore(notes, backup.notes) : null,
+    [backup, notes]
+  );
+
+  const resetRestore = () => {
+    setBackup(null);
+    setFileName('');
+    setErrors([]);
+    setStrategy('merge');
+    setRestoreSettings(false);
+  };
+
+  const handleClose = () => {
+    resetRestore();
+    onClose();
+  };
+
+  const handleDownload = async () => {
+    const service = BackupService.getInstance();
+    setIsDownloading(true);
+    setDownloadError(null);
+    try {
+      const attachments = await AttachmentService.getInstance().exportForBackup(notes.map(note => note.id));
+      const glossary = await AIService.getInstance().getGlossaryEntries();
+      service.downloadBackup(
+        service.createBackup(notes, notebooks, preferences, glossary, attachments)
+      );
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      setDownloadError('Attachments could not be read, so no backup was created. Please try again.');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    resetRestore();
+    setFileName(file.name);
+    try {
+      setBackup(BackupService.getInstance().parseBackup(await file.text()));
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      setErrors(error instanceof BackupValidationError ? error.errors : ['The file could not be read.']);
+    }
+  };
+
+  const handleRestore = () => {
+    if (!backup) return;
+    AIService.getInstance().importGlossaryEntries(backup.glossary).catch(error => {
+      console.error('Error restoring glossary:', error);
+    });
+    onRestore(backup, strategy, restoreSettings);
+    handleClose();
+  };
+
+  if (!isOpen) return null;
+
+  const previewRows = preview ? [
+    { label: 'New notes', value: preview.added },
+    { label: 'Newer in backup', value: preview.newerInBackup },
+    { label: 'Newer here', value: preview.newerLocally },
+    { label: 'Unchanged', value: preview.unchanged },
+    { label: 'Only here', value: preview.onlyLocal }
+  ] : [];
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in"
+      onClick={handleClose}
+    >
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col overflow-hidden animate-scale-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gray-100 rounded-xl">
+              <DatabaseBackup className="text-gray-700" size={22} />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-800">Backup & Restore</h2>
+              <p className="text-sm text-gray-500">Save or restore your whole workspace</p>
+            </div>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Backup */}
+          <section>
+            <h3 className="text-sm font-semibold text-gray-800 mb-1">Create backup</h3>
+            <p className="text-xs text-gray-500 mb-3">
+              Includes all {notes.length} notes with their attachments (encrypted notes stay encrypted),
+              {' '}{notebooks.length} notebooks, your settings and saved glossary definitions.
+            </p>
+            <button
+              onClick={handleDownload}
+              disabled={isDownloading}
+              className="flex items-center gap-2 px-3 py-1.5 bg-gray-900 hover:bg-gray-800 disabled:opacity-60 text-white text-sm rounded-lg transition-colors"
+            >
+              <Download size={14} />
+              {isDownloading ? 'Preparing backup...' : 'Download backup'}
+            </button>
+            {downloadError && (
+              <p className="mt-2 text-xs text-red-600" role="alert">{downloadError}</p>
+            )}
+          </section>
+
+          {/* Restore */}
+          <section className="border-t border-gray-200 pt-6">
+            <h3 className="text-sm font-semibold text-gray-800 mb-1">Restore from backup</h3>
+            <p className="text-xs text-gray-500 mb-3">Nothing changes until you confirm the restore.</p>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-2 px-3 py-1.5 border border-gray-300 hover:bg-gray-50 text-gray-700 text-sm rounded-lg transition-colors"
+            >
+              <Upload size={14} />
+              {fileName ? 'Choose another file' : 'Choose backup file'}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={handleFileSelected}
+            />
+
+            {errors.length > 0 && (
+              <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-xs text-red-700" role="alert">
+                <div className="flex items-center gap-2 font-medium mb-1">
+                  <AlertTriangle size={14} />
+                  {fileName} cannot be restored
+                </div>
+                <ul className="list-disc pl-5 space-y-0.5 max-h-32 overflow-y-auto">
+                  {errors.map((message, index) => (
+                    <li key={index}>{message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {backup && preview && (
+              <div className="mt-4 space-y-4">
+                <p className="text-xs text-gray-600">
+                  <span className="font-medium">{fileName}</span> — {backup.notes.length} notes,{' '}
+                  {backup.notebooks.length} notebooks, saved{' '}
+                  {backup.exportedAt.toLocaleString()}
+                </p>
+
+                <div className="grid grid-cols-5 gap-2 text-center">
+                  {previewRows.map(row => (
+                    <div key={row.label} className="p-2 bg-gray-50 rounded-lg">
+                      <p className="text-lg font-semibold text-gray-900">{row.value}</p>
+                      <p className="text-[11px] leading-tight text-gray-500">{row.label}</p>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="space-y-2">
+                  {STRATEGIES.map(option => (
+                    <label
+                      key={option.value}
+                      className={clsx(
+                        'flex items-start gap-3 p-3 border rounded-lg cursor-pointer transition-colors',
+                        strategy === option.value ? 'border-gray-900 bg-gray-50' : 'border-gray-200 hover:bg-gray-50'
+                      )}
+                    >
+                      <input
+                        type="radio"
+                        name="restore-strategy"
+                        value={option.value}
+                        checked={strategy === option.value}
+                        onChange={() => setStrategy(option.value)}
+                        className="mt-0.5"
+                      />
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">{option.label}</p>
+                        <p className="text-xs text-gray-500">{option.description}</p>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={restoreSettings}
+                    onChange={(e) => setRestoreSettings(e.target.checked)}
+                  />
+                  Also restore settings from the backup
+                </label>
+
+                {strategy === 'replace' && preview.onlyLocal > 0 && (
+                  <p className="text-xs text-red-600">
+                    {preview.onlyLocal} {preview.onlyLocal === 1 ? 'note' : 'notes'} not in the backup will be permanently deleted.
+                  </p>
+                )}
+              </div>
+            )}
+          </section>
+        </div>
+
+        {backup && (
+          <div className="flex justify-end gap-2 px-6 py-4 border-t border-gray-200">
+            <button
+              onClick={handleClose}
+              className="px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleRestore}
+              className={clsx(
+                'px-4 py-2 text-sm text-white rounded-lg transition-colors',
+                strategy === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-gray-900 hover:bg-gray-800'
+              )}
+            >
+              Restore
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -93,7 +93,7 @@ export const DeleteConfirmationModal: React.FC<DeleteConfirmationModalProps> = (
             <div className="p-2 bg-red-100 rounded-lg">
               <Trash2 size={20} className="text-red-600" />
             </div>
-            <h2 className="text-lg font-semibold text-gray-900">Delete Note</h2>
+            <h2 className="text-lg font-semibold text-gray-900">Delete Permanently</h2>
           </div>
           <button
             onClick={onCancel}
@@ -114,7 +114,7 @@ export const DeleteConfirmationModal: React.FC<DeleteConfirmationModalProps> = (
                 This action cannot be undone
               </p>
               <p className="text-sm text-amber-700 mt-1">
-                The note "{note.title || 'Untitled'}" will be permanently deleted.
+                The note "{note.title || 'Untitled'}" will be permanently removed from the trash.
               </p>
             </div>
           </div>
@@ -188,7 +188,7 @@ export const DeleteConfirmationModal: React.FC<DeleteConfirmationModalProps> = (
             ) : (
               <>
                 <Trash2 size={16} />
-                Delete Note
+                Delete Forever
               </>
             )}
           </button>
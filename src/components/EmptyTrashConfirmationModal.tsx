@@ -0,0 +1,98 @@
+import React from 'react';
+import type { Note } from '../types';
+import { Trash2, X, AlertTriangle } from 'lucide-react';
+
+interface EmptyTrashConfirmationModalProps {
+  trashedNotes: Note[];
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export const EmptyTrashConfirmationModal: React.FC<EmptyTrashConfirmationModalProps> = ({
+  trashedNotes,
+  onConfirm,
+  onCancel
+}) => {
+  // Encrypted notes stay, since purging them needs their password
+  const purgeCount = trashedNotes.filter(note => !note.isEncrypted).length;
+  const keptCount = trashedNotes.length - purgeCount;
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && purgeCount > 0) {
+      onConfirm();
+    } else if (e.key === 'Escape') {
+      onCancel();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in"
+      onClick={onCancel}
+    >
+      <div
+        className="bg-white rounded-xl shadow-xl max-w-md w-full overflow-hidden scale-in"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-red-100 rounded-lg">
+              <Trash2 size={20} className="text-red-600" />
+            </div>
+            <h2 className="text-lg font-semibold text-gray-900">Empty Trash</h2>
+          </div>
+          <button
+            onClick={onCancel}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            <X size={20} className="text-gray-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-4">
+          <div className="flex items-start gap-3 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+            <AlertTriangle size={20} className="text-amber-600 flex-shrink-0 mt-0.5" />
+            <div>
+              <p className="text-sm font-medium text-amber-800">
+                This action cannot be undone
+              </p>
+              <p className="text-sm text-amber-700 mt-1">
+                {purgeCount} {purgeCount === 1 ? 'note' : 'notes'} will be permanently removed from the trash.
+              </p>
+            </div>
+          </div>
+
+          {keptCount > 0 && (
+            <p className="text-sm text-gray-600">
+              {keptCount} encrypted {keptCount === 1 ? 'note stays' : 'notes stay'} in the trash.
+              Delete {keptCount === 1 ? 'it' : 'them'} one at a time with {keptCount === 1 ? 'its' : 'their'} password.
+            </p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-3 p-4 border-t border-gray-200 bg-gray-50">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={purgeCount === 0}
+            autoFocus
+            className="px-4 py-2 text-sm font-medium text-white rounded-lg transition-colors flex items-center gap-2 bg-red-600 hover:bg-red-700 disabled:bg-red-300 disabled:cursor-not-allowed"
+          >
+            <Trash2 size={16} />
+            Delete Forever
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import type { Note } from '../types';
 import { EncryptionService } from '../services/encryptionService';
+import { AttachmentService } from '../services/attachmentService';
 import { 
   Lock, 
   Unlock, 
@@ -137,6 +138,8 @@ export const EncryptionModal: React.FC<EncryptionModalProps> = ({
       });
 
       const encryptionResult = await encryptionService.encrypt(contentToEncrypt, password);
+      // Attachments are locked with the same password before the note is saved
+      await AttachmentService.getInstance().encryptForNote(note.id, password);
 
       // Save encrypted note
       onSave({
@@ -177,6 +180,7 @@ export const EncryptionModal: React.FC<EncryptionModalProps> = ({
 
       // Parse decrypted content
       const parsedContent = JSON.parse(decryptedContent);
+      await AttachmentService.getInstance().decryptForNote(note.id, password);
 
       // Save decrypted note
       onSave({
@@ -1,22 +1,110 @@
-import React, { useMemo, useState, useCallback } from 'react';
+import React, { useMemo, useState, useCallback, useEffect, useRef } from 'react';
 import { AIService } from '../services/aiService';
+import { AttachmentService } from '../services/attachmentService';
 import { GlossaryModal } from './GlossaryModal';
+import { WIKI_LINK_PATTERN, wikiLinkKey } from '../utils/wikiLinks';
+import { normalizeUrl } from '../utils/links';
+import { readAttachmentElement } from '../utils/attachments';
 
 interface GlossaryHighlighterProps {
   content: string;
   className?: string;
+  // Keys (see wikiLinkKey) of note titles that [[links]] can resolve to
+  linkableTitles?: Set<string>;
+  onWikiLinkClick?: (title: string) => void;
+  // Note whose attachments the content shows
+  noteId?: string;
+  // Offered when a definition cannot be fetched for want of a key or provider
+  onOpenAISettings?: () => void;
 }
 
+/**
+ * Turns [[Note Title]] text into clickable links. Links to notes that do not
+ * exist yet get a separate class.
+ */
+const renderWikiLinks = (doc: Document, linkableTitles: Set<string>) => {
+  const walker = doc.createTreeWalker(doc.body, NodeFilter.SHOW_TEXT);
+  const textNodes: Text[] = [];
+  while (walker.nextNode()) textNodes.push(walker.currentNode as Text);
+
+  textNodes.forEach(textNode => {
+    const text = textNode.textContent || '';
+    const matches = Array.from(text.matchAll(WIKI_LINK_PATTERN));
+    if (matches.length === 0) return;
+
+    const fragment = doc.createDocumentFragment();
+    let lastIndex = 0;
+    matches.forEach(match => {
+      const title = match[1].trim();
+      fragment.appendChild(doc.createTextNode(text.slice(lastIndex, match.index)));
+      const link = doc.createElement('a');
+      link.className = linkableTitles.has(wikiLinkKey(title)) ? 'wiki-link' : 'wiki-link wiki-link-missing';
+      link.setAttribute('data-wiki-title', title);
+      link.setAttribute('href', '#');
+      link.textContent = title;
+      fragment.appendChild(link);
+      lastIndex = match.index + match[0].length;
+    });
+    fragment.appendChild(doc.createTextNode(text.slice(lastIndex)));
+    textNode.parentNode?.replaceChild(fragment, textNode);
+  });
+};
+
+/**
+ * Makes web links open in a new tab without access to this page. Links to
+ * anything but http(s) and mailto targets, e.g. javascript: URLs, become plain text.
+ */
+const prepareLinks = (doc: Document) => {
+  doc.querySelectorAll('a').forEach(link => {
+    const href = normalizeUrl(link.getAttribute('href') || '');
+    if (!href) {
+      link.replaceWith(...Array.from(link.childNodes));
+      return;
+    }
+    link.setAttribute('href', href);
+    link.setAttribute('target', '_blank');
+    link.setAttribute('rel', 'noopener noreferrer');
+  });
+};
+
 const GlossaryHighlighter: React.FC<GlossaryHighlighterProps> = ({
   content,
-  className = ""
+  className = "",
+  linkableTitles,
+  onWikiLinkClick,
+  noteId,
+  onOpenAISettings
 }) => {
   const [selectedTerm, setSelectedTerm] = useState<string>('');
   const [showModal, setShowModal] = useState<boolean>(false);
+  const containerRef = useRef<HTMLDivElement>(null);
   
   // Handle click on glossary term
   const handleClick = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
     const target = e.target as HTMLElement;
+    const wikiLink = target.closest<HTMLElement>('.wiki-link');
+    if (wikiLink && onWikiLinkClick) {
+      e.preventDefault();
+      e.stopPropagation();
+      onWikiLinkClick(wikiLink.dataset.wikiTitle || '');
+      return;
+    }
+    // Web links open in their new tab without switching the note to editing
+    if (target.closest('a[href]:not(.wiki-link)')) {
+      e.stopPropagation();
+      return;
+    }
+    // Attached files download when clicked
+    const file = target.closest('figure.attachment-file');
+    const attachment = file && readAttachmentElement(file);
+    if (attachment && noteId) {
+      e.preventDefault();
+      e.stopPropagation();
+      AttachmentService.getInstance().download(noteId, attachment.id)
+        .catch(error => console.error('Error downloading attachment:', error));
+      return;
+    }
+
     if (target.classList.contains('glossary-term')) {
       e.preventDefault();
       e.stopPropagation();
@@ -27,7 +115,7 @@ const GlossaryHighlighter: React.FC<GlossaryHighlighterProps> = ({
         setShowModal(true);
       }
     }
-  }, []);
+  }, [onWikiLinkClick, noteId]);
 
   // Close the modal
   const handleCloseModal = useCallback(() => {
@@ -42,6 +130,14 @@ const GlossaryHighlighter: React.FC<GlossaryHighlighterProps> = ({
     
     // Remove any data-term-id attributes which may be causing display issues
     cleanContent = cleanContent.replace(/data-term-id="[^"]*"/gi, '');
+
+    const hasWikiLinks = !!onWikiLinkClick && cleanContent.includes('[[');
+    if (hasWikiLinks || /<a\b/i.test(cleanContent)) {
+      const linkDoc = new DOMParser().parseFromString(cleanContent, 'text/html');
+      prepareLinks(linkDoc);
+      if (hasWikiLinks) renderWikiLinks(linkDoc, linkableTitles || new Set());
+      cleanContent = linkDoc.body.innerHTML;
+    }
     
     // Extract plain text for term identification (while preserving valid HTML)
     const plainText = cleanContent.replace(/<[^>]*>/g, '');
@@ -55,19 +151,19 @@ const GlossaryHighlighter: React.FC<GlossaryHighlighterProps> = ({
       const terms = aiService.identifyKeyTerms(plainText);
 
       if (terms.length === 0) {
-        return <div dangerouslySetInnerHTML={{ __html: cleanContent }} />;
+        return <div dangerouslySetInnerHTML={{ __html: cleanContent }} onClick={handleClick} />;
       }
 
       // Use DOM parser to properly handle HTML without breaking it
       const parser = new DOMParser();
       const doc = parser.parseFromString(cleanContent, 'text/html');
       
-      // Find all text nodes in the document
+      // Find all text nodes in the document, leaving links and attachments alone
       const textNodes: Node[] = [];
       const findTextNodes = (node: Node) => {
         if (node.nodeType === Node.TEXT_NODE) {
           textNodes.push(node);
-        } else {
+        } else if (!(node instanceof Element && (node.tagName === 'A' || node.classList.contains('attachment')))) {
           node.childNodes.forEach(findTextNodes);
         }
       };
@@ -125,12 +221,19 @@ const GlossaryHighlighter: React.FC<GlossaryHighlighterProps> = ({
       );
     } catch (error) {
       console.error('Error processing glossary terms:', error);
-      return <div dangerouslySetInnerHTML={{ __html: cleanContent }} />;
+      return <div dangerouslySetInnerHTML={{ __html: cleanContent }} onClick={handleClick} />;
+    }
+  }, [content, handleClick, linkableTitles, onWikiLinkClick]);
+
+  // Attached images are shown from their stored data
+  useEffect(() => {
+    if (containerRef.current && noteId) {
+      AttachmentService.getInstance().showImages(containerRef.current, noteId);
     }
-  }, [content, handleClick]);
+  }, [processedContent, noteId]);
 
   return (
-    <div className={`glossary-container relative ${className}`}>
+    <div ref={containerRef} className={`glossary-container relative ${className}`}>
       {processedContent}
       
       {/* Modal that appears on term click */}
@@ -138,6 +241,10 @@ const GlossaryHighlighter: React.FC<GlossaryHighlighterProps> = ({
         <GlossaryModal 
           term={selectedTerm}
           onClose={handleCloseModal}
+          onOpenAISettings={onOpenAISettings && (() => {
+            handleCloseModal();
+            onOpenAISettings();
+          })}
         />
       )}
       
@@ -219,6 +326,23 @@ const GlossaryHighlighter: React.FC<GlossaryHighlighterProps> = ({
           animation: pulse 1.5s infinite;
         }
         
+        .glossary-container .wiki-link {
+          color: #1d4ed8;
+          text-decoration: underline;
+          text-decoration-color: rgba(29, 78, 216, 0.35);
+          text-underline-offset: 2px;
+          cursor: pointer;
+        }
+
+        .glossary-container .wiki-link:hover {
+          text-decoration-color: currentColor;
+        }
+
+        .glossary-container .wiki-link-missing {
+          color: #9ca3af;
+          text-decoration-style: dashed;
+        }
+
         @keyframes pulse {
           0% { transform: scale(0.95); box-shadow: 0 0 0 0 rgba(79, 70, 229, 0.7); }
           70% { transform: scale(1); box-shadow: 0 0 0 6px rgba(79, 70, 229, 0); }
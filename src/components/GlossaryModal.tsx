@@ -1,24 +1,29 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { AIService } from '../services/aiService';
+import { toAIError } from '../services/aiErrors';
+import type { AIError } from '../services/aiErrors';
 import {
   Loader2,
   X,
   BookOpen,
   ExternalLink
 } from 'lucide-react';
+import { AIErrorNotice } from './AIErrorNotice';
 
 interface GlossaryModalProps {
   term: string;
   onClose: () => void;
+  onOpenAISettings?: () => void;
 }
 
 export const GlossaryModal: React.FC<GlossaryModalProps> = ({
   term,
-  onClose
+  onClose,
+  onOpenAISettings
 }) => {
   const [definition, setDefinition] = useState<string>('');
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<AIError | null>(null);
   const modalRef = useRef<HTMLDivElement>(null);
   const initialFocusRef = useRef<HTMLButtonElement>(null);
 
@@ -69,7 +74,7 @@ export const GlossaryModal: React.FC<GlossaryModalProps> = ({
       const def = await aiService.getTermDefinition(term);
       setDefinition(def);
     } catch (err) {
-      setError('Failed to load definition. Please try again.');
+      setError(toAIError(err));
       console.error('Error fetching definition:', err);
     } finally {
       setLoading(false);
@@ -106,15 +111,12 @@ export const GlossaryModal: React.FC<GlossaryModalProps> = ({
               <p className="text-sm">Loading definition...</p>
             </div>
           ) : error ? (
-            <div className="py-6 text-center">
-              <p className="text-sm text-red-600 mb-3">{error}</p>
-              <button
-                onClick={fetchDefinition}
-                className="px-3 py-1.5 bg-gray-900 text-white text-sm rounded hover:bg-gray-800 transition-colors"
-              >
-                Try Again
-              </button>
-            </div>
+            <AIErrorNotice
+              error={error}
+              onOpenSettings={onOpenAISettings}
+              onRetry={fetchDefinition}
+              className="py-6 text-center text-sm text-red-600"
+            />
           ) : (
             <div>
               {/* Definition */}
@@ -1,28 +1,38 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { AIService } from '../services/aiService';
-import { Loader2, Info, X } from 'lucide-react';
+import { toAIError } from '../services/aiErrors';
+import type { AIError } from '../services/aiErrors';
+import { Loader2, Info, X, Database } from 'lucide-react';
+import { AIErrorNotice } from './AIErrorNotice';
 
 interface GlossaryTooltipProps {
   term: string;
   position: { x: number; y: number };
   onClose: () => void;
+  onOpenAISettings?: () => void;
 }
 
 export const GlossaryTooltip: React.FC<GlossaryTooltipProps> = ({
   term,
   position,
-  onClose
+  onClose,
+  onOpenAISettings
 }) => {
   const [definition, setDefinition] = useState<string>('');
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string>('');
+  const [error, setError] = useState<AIError | null>(null);
+  // Set when the definition came from the AI cache
+  const [cachedAt, setCachedAt] = useState<Date | null>(null);
   const tooltipRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
-    if (term && !definition) {
+    if (term) {
       fetchDefinition();
     }
-  }, [term, definition]);
+    // Closing the tooltip or moving to another term cancels the request
+    return () => abortRef.current?.abort();
+  }, [term]);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -47,18 +57,30 @@ export const GlossaryTooltip: React.FC<GlossaryTooltipProps> = ({
   }, [onClose]);
 
   const fetchDefinition = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     setLoading(true);
-    setError('');
+    setError(null);
+    setDefinition('');
+    setCachedAt(null);
     
     try {
       const aiService = AIService.getInstance();
-      const def = await aiService.getTermDefinition(term);
-      setDefinition(def);
+      // Shows the definition as it is written
+      for await (const partial of aiService.streamTermDefinition(term, { signal: controller.signal, onCacheHit: setCachedAt })) {
+        setDefinition(partial);
+        setLoading(false);
+      }
     } catch (err) {
-      setError('Failed to load definition');
+      if (controller.signal.aborted) return;
+      setError(toAIError(err));
       console.error('Error fetching definition:', err);
     } finally {
-      setLoading(false);
+      if (abortRef.current === controller) {
+        setLoading(false);
+      }
     }
   };
 
@@ -129,6 +151,11 @@ export const GlossaryTooltip: React.FC<GlossaryTooltipProps> = ({
         <div className="flex items-center gap-2">
           <Info size={16} className="text-blue-400 flex-shrink-0" />
           <div className="font-medium text-blue-400">{term}</div>
+          {cachedAt && (
+            <span title={`Saved ${cachedAt.toLocaleString()}`} aria-label="Cached definition">
+              <Database size={12} className="text-gray-500" />
+            </span>
+          )}
         </div>
         <button
           onClick={onClose}
@@ -151,15 +178,12 @@ export const GlossaryTooltip: React.FC<GlossaryTooltipProps> = ({
         )}
         
         {error && (
-          <div className="text-red-400 text-sm flex flex-col gap-2">
-            <span>{error}</span>
-            <button 
-              onClick={fetchDefinition} 
-              className="text-xs bg-gray-800 hover:bg-gray-700 px-3 py-1 rounded"
-            >
-              Try again
-            </button>
-          </div>
+          <AIErrorNotice
+            error={error}
+            onOpenSettings={onOpenAISettings}
+            onRetry={fetchDefinition}
+            className="text-red-400 text-sm"
+          />
         )}
         
         {definition && !loading && (
@@ -1,7 +1,11 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { AIService } from '../services/aiService';
-import { AlertCircle, CheckCircle, RefreshCw, Loader2, ChevronDown, ChevronUp } from 'lucide-react';
+import { toAIError } from '../services/aiErrors';
+import type { AIError } from '../services/aiErrors';
+import { htmlToPlainText } from '../utils/plainText';
+import { AlertCircle, CheckCircle, RefreshCw, Loader2, ChevronDown, ChevronUp, Database } from 'lucide-react';
 import { clsx } from 'clsx';
+import { AIErrorNotice } from './AIErrorNotice';
 
 interface GrammarSuggestion {
   original: string;
@@ -18,39 +22,60 @@ interface GrammarSuggestion {
 
 interface GrammarCheckProps {
   content: string;
+  // Lets cached results be deleted with the note
+  noteId?: string;
   onApplySuggestion: (suggestion: GrammarSuggestion) => void;
+  onOpenAISettings?: () => void;
   className?: string;
 }
 
 export const GrammarCheck: React.FC<GrammarCheckProps> = ({
   content,
+  noteId,
   onApplySuggestion,
+  onOpenAISettings,
   className = ""
 }) => {
   const [suggestions, setSuggestions] = useState<GrammarSuggestion[]>([]);
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<AIError | null>(null);
   const [lastCheckedContent, setLastCheckedContent] = useState('');
   const [expandedCards, setExpandedCards] = useState<Set<number>>(new Set());
+  // When the suggestions shown were saved, if they came from the AI cache
+  const [cachedAt, setCachedAt] = useState<Date | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
-  const checkGrammar = useCallback(async () => {
-    const plainText = content.replace(/<[^>]*>/g, '').trim();
+  // A refresh the user asks for skips the cache and goes ahead of background AI requests
+  const checkGrammar = useCallback(async (refresh = false) => {
+    const plainText = htmlToPlainText(content);
     
     if (!plainText || plainText.length < 10) {
       return;
     }
 
     // Don't recheck same content
-    if (plainText === lastCheckedContent) {
+    if (plainText === lastCheckedContent && !refresh) {
       return;
     }
 
+    // A check of older text that is still queued is no longer needed
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     setLoading(true);
     setError(null);
+    setCachedAt(null);
 
     try {
       const aiService = AIService.getInstance();
-      const grammarResults = await aiService.checkGrammar(plainText);
+      const grammarResults = await aiService.checkGrammar(content, {
+        signal: controller.signal,
+        priority: refresh ? 'user' : 'background',
+        fresh: refresh,
+        onCacheHit: setCachedAt,
+        noteId
+      });
       
       // Convert AI service results to component format
       const formattedSuggestions: GrammarSuggestion[] = grammarResults.map((result) => ({
@@ -70,17 +95,22 @@ export const GrammarCheck: React.FC<GrammarCheckProps> = ({
       setLastCheckedContent(plainText);
       setExpandedCards(new Set()); // Reset expanded cards
     } catch (err) {
+      if (controller.signal.aborted) return;
       console.error('Grammar check failed:', err);
-      setError('Grammar check temporarily unavailable. Please try again later.');
+      setError(toAIError(err));
       setSuggestions([]);
     } finally {
-      setLoading(false);
+      if (abortRef.current === controller) {
+        setLoading(false);
+      }
     }
-  }, [content, lastCheckedContent]);
+  }, [content, lastCheckedContent, noteId]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   // Auto-check grammar when content changes (debounced)
   useEffect(() => {
-    const plainText = content.replace(/<[^>]*>/g, '').trim();
+    const plainText = htmlToPlainText(content);
     if (!plainText || plainText.length < 10) {
       setSuggestions([]);
       return;
@@ -180,7 +210,7 @@ export const GrammarCheck: React.FC<GrammarCheckProps> = ({
   };
 
   // Empty state
-  if (!content.replace(/<[^>]*>/g, '').trim()) {
+  if (!htmlToPlainText(content)) {
     return (
       <div className={`p-4 text-center text-gray-500 ${className}`}>
         <AlertCircle size={20} className="mx-auto mb-2 text-gray-400" />
@@ -196,10 +226,19 @@ export const GrammarCheck: React.FC<GrammarCheckProps> = ({
         <div className="flex items-center gap-2">
           <h3 className="font-semibold text-gray-900">Grammar & Style</h3>
           {loading && <Loader2 size={16} className="animate-spin text-blue-500" />}
+          {cachedAt && !loading && (
+            <span
+              className="flex items-center gap-1 text-xs text-gray-400"
+              title={`Saved ${cachedAt.toLocaleString()}. Refresh to check again.`}
+            >
+              <Database size={12} />
+              Cached
+            </span>
+          )}
         </div>
         
         <button
-          onClick={checkGrammar}
+          onClick={() => checkGrammar(true)}
           disabled={loading}
           className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-full transition-colors disabled:opacity-50"
           title="Refresh grammar check"
@@ -215,13 +254,12 @@ export const GrammarCheck: React.FC<GrammarCheckProps> = ({
             <AlertCircle size={16} />
             <span className="text-sm font-medium">Error</span>
           </div>
-          <p className="text-sm text-red-600 mt-1">{error}</p>
-          <button
-            onClick={checkGrammar}
-            className="mt-2 text-sm text-red-700 hover:text-red-800 underline"
-          >
-            Try Again
-          </button>
+          <AIErrorNotice
+            error={error}
+            onOpenSettings={onOpenAISettings}
+            onRetry={() => checkGrammar(true)}
+            className="text-sm text-red-600 mt-1"
+          />
         </div>
       )}
 
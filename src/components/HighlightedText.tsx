@@ -0,0 +1,29 @@
+import React from 'react';
+import type { TextHighlight } from '../types';
+
+interface HighlightedTextProps {
+  text: string;
+  highlights: TextHighlight[];
+}
+
+// Renders text with the given ranges wrapped in <mark>
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, highlights }) => {
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+
+  [...highlights]
+    .sort((a, b) => a.start - b.start)
+    .forEach(({ start, end }) => {
+      if (start < lastIndex) return;
+      if (start > lastIndex) parts.push(text.slice(lastIndex, start));
+      parts.push(
+        <mark key={start} className="bg-yellow-100 text-inherit rounded-sm">
+          {text.slice(start, end)}
+        </mark>
+      );
+      lastIndex = end;
+    });
+  parts.push(text.slice(lastIndex));
+
+  return <>{parts}</>;
+};
@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { linkLabel, normalizeTypedUrl } from '../utils/links';
+import { Check, ExternalLink, Globe, Mail, Pencil, Unlink } from 'lucide-react';
+import { clsx } from 'clsx';
+
+interface LinkPopoverProps {
+  // Target of the link being shown or edited; empty for a new link
+  href: string;
+  top: number;
+  left: number;
+  isEditing: boolean;
+  // Asks for the link text too, when inserting a link at a caret
+  askText?: boolean;
+  onRemove: () => void;
+  // While showing a link
+  onEdit?: () => void;
+  // While editing
+  onSubmit?: (href: string, text?: string) => void;
+  // Escape in the form; the editor takes the focus back
+  onCancel?: () => void;
+  // Focus left the form, e.g. by clicking back into the note
+  onBlur?: () => void;
+}
+
+// Keeps focus in the editor so the caret stays inside the link
+const keepEditorSelection = (e: React.MouseEvent) => e.preventDefault();
+
+export const LinkPopover: React.FC<LinkPopoverProps> = ({
+  href,
+  top,
+  left,
+  isEditing,
+  askText = false,
+  onRemove,
+  onEdit,
+  onSubmit,
+  onCancel,
+  onBlur
+}) => {
+  const [url, setUrl] = useState(href);
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const normalized = normalizeTypedUrl(url);
+    if (!normalized) {
+      setError('Enter a web address (http or https) or an email address.');
+      return;
+    }
+    onSubmit?.(normalized, askText && text.trim() ? text.trim() : undefined);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onCancel?.();
+    }
+  };
+
+  if (!isEditing) {
+    const Icon = href.startsWith('mailto:') ? Mail : Globe;
+    return (
+      <div
+        className="fixed z-50 flex items-center gap-1 max-w-sm pl-3 pr-1 py-1 bg-white border border-gray-200 rounded-lg shadow-lg"
+        style={{ top, left }}
+        role="dialog"
+        aria-label="Link"
+      >
+        <Icon size={14} className="flex-shrink-0 text-gray-400" />
+        <a
+          href={href}
+          target="_blank"
+          rel="noopener noreferrer"
+          onMouseDown={keepEditorSelection}
+          className="min-w-0 mr-1 text-sm text-blue-600 hover:underline truncate"
+          title={href}
+        >
+          {linkLabel(href)}
+        </a>
+        <a
+          href={href}
+          target="_blank"
+          rel="noopener noreferrer"
+          onMouseDown={keepEditorSelection}
+          className="p-1.5 rounded text-gray-600 hover:bg-gray-100"
+          title="Open in new tab"
+        >
+          <ExternalLink size={14} />
+        </a>
+        <button
+          type="button"
+          onMouseDown={keepEditorSelection}
+          onClick={onEdit}
+          className="p-1.5 rounded text-gray-600 hover:bg-gray-100"
+          title="Edit link (Ctrl+K)"
+        >
+          <Pencil size={14} />
+        </button>
+        <button
+          type="button"
+          onMouseDown={keepEditorSelection}
+          onClick={onRemove}
+          className="p-1.5 rounded text-gray-600 hover:bg-gray-100"
+          title="Remove link"
+        >
+          <Unlink size={14} />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      onKeyDown={handleKeyDown}
+      onBlur={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) onBlur?.();
+      }}
+      className="fixed z-50 w-80 p-2 space-y-2 bg-white border border-gray-200 rounded-lg shadow-lg"
+      style={{ top, left }}
+      aria-label={href ? 'Edit link' : 'Insert link'}
+    >
+      <div className="flex items-center gap-1">
+        <input
+          value={url}
+          onChange={(e) => {
+            setUrl(e.target.value);
+            setError(null);
+          }}
+          placeholder="https://example.com"
+          autoFocus
+          className={clsx(
+            "flex-1 min-w-0 text-sm border rounded px-2 py-1 focus:outline-none focus:ring-2",
+            error ? "border-red-300 focus:ring-red-200" : "border-gray-300 focus:ring-blue-200"
+          )}
+          aria-label="Link address"
+          aria-invalid={!!error}
+        />
+        <button
+          type="submit"
+          className="p-1.5 rounded text-blue-600 hover:bg-blue-50"
+          title="Apply"
+        >
+          <Check size={16} />
+        </button>
+        {href && (
+          <button
+            type="button"
+            onClick={onRemove}
+            className="p-1.5 rounded text-gray-600 hover:bg-gray-100"
+            title="Remove link"
+          >
+            <Unlink size={16} />
+          </button>
+        )}
+      </div>
+      {askText && (
+        <input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Text (optional)"
+          className="w-full text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-200"
+          aria-label="Link text"
+        />
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </form>
+  );
+};
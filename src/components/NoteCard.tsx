@@ -1,6 +1,8 @@
-import React from 'react';
-import type { Note } from '../types';
-import { Pin, Trash2, Lock } from 'lucide-react';
+import React, { useState } from 'react';
+import type { Note, Notebook, SearchMatch } from '../types';
+import { HighlightedText } from './HighlightedText';
+import { flattenNotebookTree, NOTE_DRAG_TYPE } from '../utils/notebooks';
+import { Pin, Trash2, Lock, RotateCcw, FolderInput, Folder, Inbox, Check } from 'lucide-react';
 import { clsx } from 'clsx';
 
 interface NoteCardProps {
@@ -8,7 +10,13 @@ interface NoteCardProps {
   onEdit: (note: Note) => void;
   onDelete: (id: string) => void;
   onPin: (id: string) => void;
+  onRestore?: (id: string) => void;
+  // Enables "Move to…" and dragging the note onto a notebook
+  notebooks?: Notebook[];
+  onMove?: (id: string, notebookId: string | null) => void;
   isSelected?: boolean;
+  // Set while the list shows search results
+  searchMatch?: SearchMatch;
 }
 
 export const NoteCard: React.FC<NoteCardProps> = ({
@@ -16,10 +24,26 @@ export const NoteCard: React.FC<NoteCardProps> = ({
   onEdit,
   onDelete,
   onPin,
-  isSelected = false
+  onRestore,
+  notebooks = [],
+  onMove,
+  isSelected = false,
+  searchMatch
 }) => {
+  const [showMoveMenu, setShowMoveMenu] = useState(false);
+  const isTrashed = !!note.deletedAt;
+  const canMove = !!onMove && !isTrashed && !note.readOnly;
+
   const handleClick = () => {
-    onEdit(note);
+    // Trashed notes are read-only until restored
+    if (!isTrashed) {
+      onEdit(note);
+    }
+  };
+
+  const handleRestoreClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onRestore?.(note.id);
   };
 
   const handlePinClick = (e: React.MouseEvent) => {
@@ -27,6 +51,22 @@ export const NoteCard: React.FC<NoteCardProps> = ({
     onPin(note.id);
   };
 
+  const handleMoveClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setShowMoveMenu(prev => !prev);
+  };
+
+  const handleMoveTo = (e: React.MouseEvent, notebookId: string | null) => {
+    e.stopPropagation();
+    setShowMoveMenu(false);
+    onMove?.(note.id, notebookId);
+  };
+
+  const handleDragStart = (e: React.DragEvent) => {
+    e.dataTransfer.setData(NOTE_DRAG_TYPE, note.id);
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
   const handleDeleteClick = (e: React.MouseEvent) => {
     e.stopPropagation();
     onDelete(note.id);
@@ -51,8 +91,11 @@ export const NoteCard: React.FC<NoteCardProps> = ({
   return (
     <div
       onClick={handleClick}
+      draggable={canMove}
+      onDragStart={canMove ? handleDragStart : undefined}
       className={clsx(
-        'group px-4 py-3 cursor-pointer transition-colors mobile-no-tap-highlight border-l-2',
+        'group relative px-4 py-3 transition-colors mobile-no-tap-highlight border-l-2',
+        isTrashed ? 'cursor-default' : 'cursor-pointer',
         isSelected
           ? 'bg-white border-l-gray-900'
           : 'bg-transparent border-l-transparent hover:bg-white hover:border-l-gray-300'
@@ -65,46 +108,139 @@ export const NoteCard: React.FC<NoteCardProps> = ({
             'text-sm font-medium text-gray-900 truncate leading-tight',
             isSelected && 'font-semibold'
           )}>
-            {note.title || 'Untitled'}
+            {searchMatch && note.title
+              ? <HighlightedText text={note.title} highlights={searchMatch.titleHighlights} />
+              : note.title || 'Untitled'}
           </h3>
 
           {/* Metadata */}
           <div className="flex items-center gap-2 mt-1 text-xs text-gray-500">
-            <span>{formatDate(note.updatedAt)}</span>
+            <span>
+              {isTrashed ? `Deleted ${formatDate(note.deletedAt!).toLowerCase()}` : formatDate(note.updatedAt)}
+            </span>
 
             {note.isEncrypted && (
               <div className="flex items-center gap-0.5">
                 <Lock size={10} />
               </div>
             )}
+
+            {note.readOnly && (
+              <span title="Saved by a newer version of Smart Notes">Read-only</span>
+            )}
           </div>
         </div>
 
-        {/* Action buttons */}
-        <div className="flex items-center gap-0.5 ml-2 opacity-0 group-hover:opacity-100 transition-opacity">
-          <button
-            onClick={handlePinClick}
-            className={clsx(
-              'p-1 rounded transition-colors mobile-no-tap-highlight',
-              note.isPinned
-                ? 'text-gray-700'
-                : 'text-gray-400 hover:text-gray-700'
-            )}
-            aria-label={note.isPinned ? 'Unpin note' : 'Pin note'}
-          >
-            <Pin size={14} className={note.isPinned ? 'fill-current' : ''} strokeWidth={1.5} />
-          </button>
+        {/* Action buttons; notes from a newer version of the app cannot be changed here */}
+        <div className={clsx(
+          'flex items-center gap-0.5 ml-2 opacity-0 group-hover:opacity-100 transition-opacity',
+          note.readOnly && 'hidden'
+        )}>
+          {isTrashed ? (
+            <>
+              <button
+                onClick={handleRestoreClick}
+                className="p-1 rounded hover:text-gray-900 text-gray-400 transition-colors mobile-no-tap-highlight"
+                aria-label="Restore note"
+                title="Restore"
+              >
+                <RotateCcw size={14} strokeWidth={1.5} />
+              </button>
 
-          <button
-            onClick={handleDeleteClick}
-            className="p-1 rounded hover:text-red-600 text-gray-400 transition-colors mobile-no-tap-highlight"
-            aria-label="Delete note"
-          >
-            <Trash2 size={14} strokeWidth={1.5} />
-          </button>
+              <button
+                onClick={handleDeleteClick}
+                className="p-1 rounded hover:text-red-600 text-gray-400 transition-colors mobile-no-tap-highlight"
+                aria-label="Delete note permanently"
+                title="Delete forever"
+              >
+                <Trash2 size={14} strokeWidth={1.5} />
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                onClick={handlePinClick}
+                className={clsx(
+                  'p-1 rounded transition-colors mobile-no-tap-highlight',
+                  note.isPinned
+                    ? 'text-gray-700'
+                    : 'text-gray-400 hover:text-gray-700'
+                )}
+                aria-label={note.isPinned ? 'Unpin note' : 'Pin note'}
+              >
+                <Pin size={14} className={note.isPinned ? 'fill-current' : ''} strokeWidth={1.5} />
+              </button>
+
+              {canMove && (
+                <button
+                  onClick={handleMoveClick}
+                  className="p-1 rounded text-gray-400 hover:text-gray-700 transition-colors mobile-no-tap-highlight"
+                  aria-label="Move to notebook"
+                  title="Move to…"
+                >
+                  <FolderInput size={14} strokeWidth={1.5} />
+                </button>
+              )}
+
+              <button
+                onClick={handleDeleteClick}
+                className="p-1 rounded hover:text-red-600 text-gray-400 transition-colors mobile-no-tap-highlight"
+                aria-label="Move note to trash"
+                title="Move to trash"
+              >
+                <Trash2 size={14} strokeWidth={1.5} />
+              </button>
+            </>
+          )}
         </div>
       </div>
 
+      {/* Search result snippet */}
+      {searchMatch?.snippet && (
+        <p className="text-xs text-gray-600 leading-snug line-clamp-2">
+          <HighlightedText text={searchMatch.snippet.text} highlights={searchMatch.snippet.highlights} />
+        </p>
+      )}
+
+      {/* Move to notebook menu */}
+      {showMoveMenu && (
+        <>
+          <div
+            className="fixed inset-0 z-10"
+            onClick={(e) => {
+              e.stopPropagation();
+              setShowMoveMenu(false);
+            }}
+          />
+          <div
+            className="absolute right-2 top-9 z-20 w-52 max-h-64 overflow-y-auto py-1 bg-white border border-gray-200 rounded-lg shadow-lg"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <p className="px-3 py-1 text-xs font-medium text-gray-500">Move to…</p>
+            <button
+              onClick={(e) => handleMoveTo(e, null)}
+              className="w-full flex items-center gap-2 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100 text-left"
+            >
+              <Inbox size={13} className="text-gray-500" />
+              <span className="flex-1 truncate">No notebook</span>
+              {!note.notebookId && <Check size={13} />}
+            </button>
+            {flattenNotebookTree(notebooks).map(({ notebook, depth }) => (
+              <button
+                key={notebook.id}
+                onClick={(e) => handleMoveTo(e, notebook.id)}
+                className="w-full flex items-center gap-2 py-1.5 pr-3 text-sm text-gray-700 hover:bg-gray-100 text-left"
+                style={{ paddingLeft: 12 + depth * 12 }}
+              >
+                <Folder size={13} className="text-gray-500 flex-shrink-0" />
+                <span className="flex-1 truncate">{notebook.name}</span>
+                {note.notebookId === notebook.id && <Check size={13} />}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
       {/* Tags */}
       {note.tags && note.tags.length > 0 && !note.isEncrypted && (
         <div className="flex flex-wrap gap-1 mt-2">
@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useRef } from 'react';
-import type { Note } from '../types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import type { Note, NoteRevision, RevisionAction } from '../types';
 import { RichTextEditor } from './RichTextEditor';
 import { GlossaryHighlighter } from './GlossaryHighlighter';
 import { AIInsights } from './AIInsights';
@@ -7,9 +7,19 @@ import { GrammarCheck } from './GrammarCheck';
 import { EncryptionModal } from './EncryptionModal';
 import { TagSuggestions } from './TagSuggestions';
 import { TranslationModal } from './TranslationModal';
+import { RevisionHistoryModal } from './RevisionHistoryModal';
+import { AttachmentList } from './AttachmentList';
 import { AIService } from '../services/aiService';
+import type { AIPriority } from '../services/aiScheduler';
+import { RevisionService } from '../services/revisionService';
+import { AICacheService } from '../services/aiCache';
+import { MarkdownService } from '../services/markdownService';
+import type { RevisionSnapshot } from '../services/revisionService';
 import { useTouchGestures } from '../hooks/useTouchGestures';
 import { useResizablePanel } from '../hooks/useResizablePanel';
+import { findNoteByTitle, getBacklinks, getWikiLinkSnippet, wikiLinkKey } from '../utils/wikiLinks';
+import { removeAttachmentFromHtml } from '../utils/attachments';
+import { htmlToPlainText } from '../utils/plainText';
 import {
   Save,
   Pin,
@@ -26,7 +36,11 @@ import {
   Languages,
   Loader2,
   GripVertical,
-  GripHorizontal
+  GripHorizontal,
+  History,
+  AlertTriangle,
+  FileDown,
+  Link2
 } from 'lucide-react';
 import { clsx } from 'clsx';
 
@@ -40,6 +54,16 @@ interface NoteEditorProps {
   isMobile?: boolean;
   enableGrammarCheck?: boolean;
   enableAIInsights?: boolean;
+  // Latest version of this note saved in another tab
+  remoteUpdate?: Note | null;
+  // Follows a [[link]] or backlink to another note
+  onOpenNote: (note: Note) => void;
+  // Follows a [[link]] to a title no note has yet
+  onCreateLinkedNote: (title: string) => void;
+  // Points [[links]] to the note at its new title once a rename is committed
+  onRenameNote: (id: string, previousTitle: string, newTitle: string) => void;
+  // Offered when an AI request fails for want of a key or provider
+  onOpenAISettings: () => void;
 }
 
 export const NoteEditor: React.FC<NoteEditorProps> = ({
@@ -51,7 +75,12 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
   onClose,
   isMobile = false,
   enableGrammarCheck = true,
-  enableAIInsights = true
+  enableAIInsights = true,
+  remoteUpdate = null,
+  onOpenNote,
+  onCreateLinkedNote,
+  onRenameNote,
+  onOpenAISettings
 }) => {
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
@@ -60,15 +89,20 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
   const [showAIInsights, setShowAIInsights] = useState(false);
   const [showEncryptionModal, setShowEncryptionModal] = useState(false);
   const [showTranslationModal, setShowTranslationModal] = useState(false);
+  const [showHistoryModal, setShowHistoryModal] = useState(false);
   const [isGrammarCheckExpanded, setIsGrammarCheckExpanded] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [showInsightTooltip, setShowInsightTooltip] = useState(false);
   const [showGrammarTooltip, setShowGrammarTooltip] = useState(false);
   const [isGeneratingTitle, setIsGeneratingTitle] = useState(false);
+  const [conflictNote, setConflictNote] = useState<Note | null>(null);
 
   const editorRef = useRef<HTMLDivElement>(null);
   const lastSavedContentRef = useRef('');
   const lastSavedTitleRef = useRef('');
+  // The title [[links]] to this note were last brought in line with
+  const linkedTitleRef = useRef('');
+  const handledRemoteRef = useRef<Note | null>(null);
 
   // Resizable AI Insights sidebar (horizontal)
   const {
@@ -104,11 +138,14 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
       setTags(note.tags || []);
       lastSavedContentRef.current = note.content;
       lastSavedTitleRef.current = note.title;
+      linkedTitleRef.current = note.title;
       setHasChanges(false);
+      setConflictNote(null);
 
       // New notes with content start in view mode, empty notes start in edit mode
       const hasContent = note.content && note.content.trim().length > 0;
-      setIsEditing(!hasContent || note.isEncrypted || false);
+      // Notes saved by a newer version of the app can only be viewed
+      setIsEditing(!note.readOnly && (!hasContent || note.isEncrypted || false));
 
       // Show AI insights tooltip for first time users
       const hasSeenAITooltip = localStorage.getItem('hasSeenAITooltip');
@@ -153,6 +190,7 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
       setContent('');
       lastSavedContentRef.current = '';
       lastSavedTitleRef.current = '';
+      linkedTitleRef.current = '';
       setHasChanges(false);
       setIsEditing(true); // Start in edit mode for new notes
     }
@@ -165,15 +203,54 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
     setHasChanges(titleChanged || contentChanged);
   }, [title, content]);
 
+  // Merge a version saved in another tab: apply it when there is nothing unsaved here,
+  // otherwise ask which version to keep
+  useEffect(() => {
+    if (!remoteUpdate || remoteUpdate === handledRemoteRef.current) return;
+    handledRemoteRef.current = remoteUpdate;
+    if (!note || remoteUpdate.id !== note.id) return;
+
+    if (remoteUpdate.title === title && remoteUpdate.content === content) {
+      setTags(remoteUpdate.tags || []);
+      lastSavedContentRef.current = remoteUpdate.content;
+      lastSavedTitleRef.current = remoteUpdate.title;
+      linkedTitleRef.current = remoteUpdate.title;
+      setConflictNote(null);
+      return;
+    }
+
+    // Only metadata such as tags changed; unsaved text edits are kept
+    if (remoteUpdate.title === lastSavedTitleRef.current && remoteUpdate.content === lastSavedContentRef.current) {
+      setTags(remoteUpdate.tags || []);
+      return;
+    }
+
+    // Encrypting elsewhere locks the note here too; unsaved plaintext cannot be merged into it
+    if (!hasChanges || remoteUpdate.isEncrypted) {
+      setTitle(remoteUpdate.title);
+      setContent(remoteUpdate.isEncrypted ? '🔒 This note is encrypted. Click unlock to view content.' : remoteUpdate.content);
+      setTags(remoteUpdate.tags || []);
+      lastSavedContentRef.current = remoteUpdate.content;
+      lastSavedTitleRef.current = remoteUpdate.title;
+      linkedTitleRef.current = remoteUpdate.title;
+      setHasChanges(false);
+      setConflictNote(null);
+      return;
+    }
+
+    setConflictNote(remoteUpdate);
+  }, [remoteUpdate, note, title, content, hasChanges]);
+
   // Auto-save with debouncing - includes title generation for untitled notes
+  // (paused while a conflict with another tab is unresolved)
   useEffect(() => {
-    if (hasChanges) {
+    if (hasChanges && !conflictNote) {
       const timeoutId = setTimeout(() => {
         handleSaveWithTitleGeneration();
       }, 2000);
       return () => clearTimeout(timeoutId);
     }
-  }, [hasChanges, title, content]);
+  }, [hasChanges, title, content, conflictNote]);
 
   // Generate title when switching away from an untitled note
   useEffect(() => {
@@ -192,19 +269,19 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
   // Check if note needs a title
   const needsTitleGeneration = (): boolean => {
     const currentTitle = title.trim();
-    const plainContent = content ? content.replace(/<[^>]*>/g, '').trim() : '';
+    const plainContent = htmlToPlainText(content);
     const hasContent = plainContent.length > 10;
     const isUntitled = !currentTitle || currentTitle === '' || currentTitle === 'Untitled Note' || currentTitle.startsWith('🔒 Untitled');
     const isNotEncrypted = !note?.isEncrypted;
     const isNotGenerating = !isGeneratingTitle;
-    return isUntitled && hasContent && isNotEncrypted && isNotGenerating;
+    return isUntitled && hasContent && isNotEncrypted && isNotGenerating && AIService.getInstance().isAvailable('titles');
   };
 
-  // Generate title using AI
-  const generateTitleForNote = async (): Promise<string | null> => {
+  // Generate title using AI; saving waits for it, closing lets it finish in the background
+  const generateTitleForNote = async (priority: AIPriority = 'background'): Promise<string | null> => {
     try {
       const aiService = AIService.getInstance();
-      const generatedTitle = await aiService.generateTitle(content);
+      const generatedTitle = await aiService.generateTitle(content, { priority });
       if (generatedTitle && generatedTitle !== 'Untitled Note') {
         return generatedTitle;
       }
@@ -252,7 +329,7 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
     // Generate title if needed
     if (needsTitleGeneration()) {
       setIsGeneratingTitle(true);
-      const generatedTitle = await generateTitleForNote();
+      const generatedTitle = await generateTitleForNote('user');
       if (generatedTitle) {
         finalTitle = generatedTitle;
         setTitle(generatedTitle); // Update local state
@@ -271,14 +348,29 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
     };
 
     onSave(noteData);
+    recordRevision({ title: finalTitle, content, tags }, 'edit');
     lastSavedContentRef.current = content;
     lastSavedTitleRef.current = finalTitle;
     setHasChanges(false);
   };
 
+  // Rewrites [[links]] to the old title. Only for renames the user commits (leaving the
+  // title field or saving), so links do not follow every half-typed title on autosave;
+  // the 'Untitled Note' fallback is never linked to or from.
+  const commitTitleRename = () => {
+    const previousTitle = linkedTitleRef.current;
+    const newTitle = title.trim();
+    if (!note || note.isEncrypted || !newTitle || newTitle === 'Untitled Note') return;
+    linkedTitleRef.current = newTitle;
+    if (previousTitle.trim() && previousTitle !== 'Untitled Note' && previousTitle !== newTitle) {
+      onRenameNote(note.id, previousTitle, newTitle);
+    }
+  };
+
   // Basic save without title generation (for immediate saves)
   const handleSave = () => {
     if (!title.trim() && !content.trim()) return;
+    commitTitleRename();
 
     const noteData: Partial<Note> = {
       id: note?.id,
@@ -291,11 +383,112 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
     };
 
     onSave(noteData);
+    recordRevision({ title: title || 'Untitled Note', content, tags }, 'edit');
     lastSavedContentRef.current = content;
     lastSavedTitleRef.current = title;
     setHasChanges(false);
   };
 
+  // Titles offered by the [[link]] autocomplete
+  const linkSuggestions = useMemo(
+    () => allNotes.filter(n => n.id !== note?.id && n.title.trim()).map(n => n.title),
+    [allNotes, note?.id]
+  );
+
+  const linkableTitles = useMemo(() => new Set(allNotes.map(n => wikiLinkKey(n.title))), [allNotes]);
+
+  const backlinks = useMemo(() => note ? getBacklinks(allNotes, note) : [], [allNotes, note]);
+
+  // Opens the linked note, or creates it when no note has that title yet
+  const handleOpenWikiLink = (linkTitle: string) => {
+    const target = findNoteByTitle(allNotes, linkTitle);
+    if (target?.id === note?.id) return;
+
+    if (hasChanges) handleSave();
+    if (target) {
+      onOpenNote(target);
+    } else {
+      onCreateLinkedNote(linkTitle);
+    }
+  };
+
+  const handleOpenBacklink = (source: Note) => {
+    if (hasChanges) handleSave();
+    onOpenNote(source);
+  };
+
+  // Snapshot the note into its revision history (never for encrypted notes)
+  const recordRevision = (snapshot: RevisionSnapshot, action: RevisionAction) => {
+    if (!note || note.isEncrypted) return;
+    RevisionService.getInstance()
+      .record(note.id, snapshot, action)
+      .catch(error => console.error('Error recording revision:', error));
+  };
+
+  // Apply a destructive change (AI action or restore) and save it immediately,
+  // snapshotting the current text first so the change can be undone from history
+  const applyTrackedChange = (next: RevisionSnapshot, action: RevisionAction) => {
+    if (!note) return;
+
+    recordRevision({ title: title || 'Untitled Note', content, tags }, 'edit');
+
+    setTitle(next.title);
+    setContent(next.content);
+    setTags(next.tags);
+    onSave({
+      id: note.id,
+      title: next.title,
+      content: next.content,
+      tags: next.tags,
+      isPinned: note.isPinned,
+      isEncrypted: note.isEncrypted,
+      encryptionData: note.encryptionData,
+    });
+    recordRevision(next, action);
+
+    lastSavedContentRef.current = next.content;
+    lastSavedTitleRef.current = next.title;
+    setHasChanges(false);
+  };
+
+  // Resolve a conflict by saving this tab's version over the other tab's
+  const handleKeepLocalVersion = () => {
+    setConflictNote(null);
+    handleSave();
+  };
+
+  // Resolve a conflict by taking the other tab's version; local edits stay in history
+  const handleUseRemoteVersion = () => {
+    if (!conflictNote) return;
+
+    recordRevision({ title: title || 'Untitled Note', content, tags }, 'edit');
+    setTitle(conflictNote.title);
+    setContent(conflictNote.content);
+    setTags(conflictNote.tags || []);
+    lastSavedContentRef.current = conflictNote.content;
+    lastSavedTitleRef.current = conflictNote.title;
+    linkedTitleRef.current = conflictNote.title;
+    setHasChanges(false);
+    setConflictNote(null);
+  };
+
+  // Download the note as it currently reads in the editor, including unsaved edits
+  const handleExportMarkdown = () => {
+    if (!note || note.isEncrypted) return;
+    try {
+      MarkdownService.getInstance().exportNote({ ...note, title: title || 'Untitled Note', content, tags });
+    } catch (error) {
+      console.error('Error exporting note:', error);
+    }
+  };
+
+  const handleRestoreRevision = (revision: NoteRevision) => {
+    applyTrackedChange(
+      { title: revision.title, content: revision.content, tags: revision.tags },
+      'restore'
+    );
+  };
+
   const handleEncryptionSuccess = (updatedNoteData: Partial<Note>) => {
     if (updatedNoteData.isEncrypted) {
       setContent('🔒 This note is encrypted. Click unlock to view content.');
@@ -313,6 +506,21 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
         ...updatedNoteData,
         updatedAt: new Date()
       });
+
+      const revisions = RevisionService.getInstance();
+      if (updatedNoteData.isEncrypted) {
+        // History and AI answers hold plaintext, so they must not outlive encryption
+        revisions.deleteForNotes([note.id])
+          .catch(error => console.error('Error clearing revision history:', error));
+        AICacheService.getInstance().deleteForNotes([note.id])
+          .catch(error => console.error('Error clearing AI answers:', error));
+      } else if (updatedNoteData.content !== undefined) {
+        revisions.record(note.id, {
+          title: updatedNoteData.title ?? note.title,
+          content: updatedNoteData.content,
+          tags: updatedNoteData.tags ?? note.tags ?? []
+        }, 'decrypt').catch(error => console.error('Error recording revision:', error));
+      }
     }
 
     // Hide modal
@@ -321,7 +529,7 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
 
   const handleGrammarSuggestion = (suggestion: any) => {
     const newContent = content.replace(suggestion.original, suggestion.suggestion);
-    setContent(newContent);
+    applyTrackedChange({ title: title || 'Untitled Note', content: newContent, tags }, 'grammar');
   };
 
   return (
@@ -365,7 +573,7 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
               )}
 
               {/* Edit/View Toggle for mobile */}
-              {note && !note.isEncrypted && content && (
+              {note && !note.isEncrypted && !note.readOnly && content && (
                 <div className="flex border border-gray-200 rounded-lg overflow-hidden button-pop edit-view-toggle relative">
                   <button
                     onClick={() => setIsEditing(false)}
@@ -435,6 +643,30 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
                 </button>
               )}
 
+              {/* History Button - Mobile */}
+              {note && !note.isEncrypted && (
+                <button
+                  onClick={() => setShowHistoryModal(true)}
+                  className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-all duration-300 button-pop"
+                  aria-label="Show revision history"
+                  title="Revision history"
+                >
+                  <History size={16} />
+                </button>
+              )}
+
+              {/* Export Button - Mobile */}
+              {note && !note.isEncrypted && (
+                <button
+                  onClick={handleExportMarkdown}
+                  className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-all duration-300 button-pop"
+                  aria-label="Export as Markdown"
+                  title="Export as Markdown"
+                >
+                  <FileDown size={16} />
+                </button>
+              )}
+
               {/* Translation Button - Mobile */}
               {!note?.isEncrypted && content && (
                 <button
@@ -486,6 +718,8 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
                     type="text"
                     value={title}
                     onChange={(e) => setTitle(e.target.value)}
+                    onBlur={commitTitleRename}
+                    readOnly={note?.readOnly}
                     placeholder="Untitled Note (auto-generated on close)"
                     className="text-2xl font-bold bg-transparent border-none outline-none flex-1 min-w-0 focus-border"
                   />
@@ -502,7 +736,7 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
 
               <div className="flex items-center gap-1 sm:gap-2 flex-shrink-0 slide-up-fade">
                 {/* Edit/View Toggle for Desktop */}
-                {note && !note.isEncrypted && content && (
+                {note && !note.isEncrypted && !note.readOnly && content && (
                   <div className="hidden sm:flex border border-gray-200 rounded-lg overflow-hidden button-pop shadow-sm edit-view-toggle relative">
                     <button
                       onClick={() => setIsEditing(false)}
@@ -601,6 +835,30 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
                   </button>
                 )}
 
+                {note && !note.isEncrypted && (
+                  <button
+                    onClick={() => setShowHistoryModal(true)}
+                    className="p-2 sm:px-3 rounded-full sm:rounded-lg transition-all duration-300 mobile-no-tap-highlight flex items-center gap-2 button-pop text-gray-600 hover:bg-gray-100 active:bg-gray-200 hover:border hover:border-gray-200"
+                    aria-label="Show revision history"
+                    title="Revision history"
+                  >
+                    <History size={isMobile ? 20 : 18} className="transition-transform duration-300" />
+                    <span className="hidden sm:inline text-sm font-medium">History</span>
+                  </button>
+                )}
+
+                {note && !note.isEncrypted && (
+                  <button
+                    onClick={handleExportMarkdown}
+                    className="p-2 sm:px-3 rounded-full sm:rounded-lg transition-all duration-300 mobile-no-tap-highlight flex items-center gap-2 button-pop text-gray-600 hover:bg-gray-100 active:bg-gray-200 hover:border hover:border-gray-200"
+                    aria-label="Export as Markdown"
+                    title="Export as Markdown"
+                  >
+                    <FileDown size={isMobile ? 20 : 18} className="transition-transform duration-300" />
+                    <span className="hidden sm:inline text-sm font-medium">Export</span>
+                  </button>
+                )}
+
                 {note && (
                   <>
                     <button
@@ -647,8 +905,8 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
                     <button
                       onClick={() => onDelete(note.id)}
                       className="p-2 text-red-600 hover:bg-red-50 active:bg-red-100 rounded-full sm:rounded-lg transition-all duration-300 mobile-no-tap-highlight button-pop"
-                      aria-label="Delete note"
-                      title="Delete note"
+                      aria-label="Move note to trash"
+                      title="Move to trash"
                     >
                       <Trash2 size={isMobile ? 20 : 18} className="transition-transform duration-300 hover:scale-110" />
                     </button>
@@ -689,6 +947,39 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
         )}
       </div>
 
+      {/* Conflict with a version saved in another tab */}
+      {conflictNote && (
+        <div className="flex-shrink-0 flex flex-col sm:flex-row sm:items-center gap-2 px-4 py-2 bg-amber-50 border-b border-amber-200 text-sm text-amber-800">
+          <div className="flex items-center gap-2 flex-1 min-w-0">
+            <AlertTriangle size={16} className="flex-shrink-0" />
+            <span>This note was changed in another tab while you were editing it.</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleKeepLocalVersion}
+              className="px-3 py-1 text-xs font-medium bg-amber-600 text-white rounded hover:bg-amber-700 transition-colors"
+            >
+              Keep mine
+            </button>
+            <button
+              onClick={handleUseRemoteVersion}
+              className="px-3 py-1 text-xs font-medium text-amber-800 border border-amber-300 rounded hover:bg-amber-100 transition-colors"
+              title="Your edits are kept in the revision history"
+            >
+              Use theirs
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Saved by a newer version of the app in another tab */}
+      {note?.readOnly && (
+        <div className="flex-shrink-0 flex items-center gap-2 px-4 py-2 bg-amber-50 border-b border-amber-200 text-sm text-amber-800">
+          <AlertTriangle size={16} className="flex-shrink-0" />
+          <span>This note was saved by a newer version of Smart Notes, so it can only be viewed here. Reload the page to edit it.</span>
+        </div>
+      )}
+
       {/* Main Content - Responsive Layout */}
       <div className="flex-1 flex overflow-hidden">
         {/* Editor Area */}
@@ -704,6 +995,7 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
                   type="text"
                   value={title}
                   onChange={(e) => setTitle(e.target.value)}
+                  readOnly={note?.readOnly}
                   placeholder="Note title (auto-generated)..."
                   className="flex-1 text-xl font-semibold bg-transparent border-none outline-none focus-border"
                 />
@@ -738,11 +1030,17 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
                             "border-gray-300 hover:border-blue-300 focus-border bg-gray-50/30",
                             "slide-up-fade"
                           )}
-                          onClick={() => setIsEditing(true)}
+                          onClick={() => setIsEditing(!note?.readOnly)}
                         >
                           <div className="fade-in">
                             {content ? (
-                              <GlossaryHighlighter content={content} />
+                              <GlossaryHighlighter
+                                content={content}
+                                linkableTitles={linkableTitles}
+                                onWikiLinkClick={handleOpenWikiLink}
+                                noteId={note?.id}
+                                onOpenAISettings={onOpenAISettings}
+                              />
                             ) : (
                               <span className="typewriter">Click to start writing your note...</span>
                             )}
@@ -778,6 +1076,10 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
                           className="min-h-[400px] md:min-h-[500px] focus-border"
                           onFocus={() => { }} // Don't automatically switch mode on focus anymore
                           onBlur={() => { }} // Don't automatically switch mode on blur anymore
+                          linkSuggestions={linkSuggestions}
+                          onWikiLinkClick={handleOpenWikiLink}
+                          noteTitle={title}
+                          noteId={note?.id}
                         />
 
                         {/* AI Tag Suggestions - Only show in edit mode */}
@@ -788,11 +1090,49 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
                               title={title}
                               currentTags={tags}
                               onTagsUpdate={setTags}
+                              onOpenAISettings={onOpenAISettings}
                             />
                           </div>
                         )}
                       </div>
                     )}
+
+                    {/* Attachments */}
+                    {note && !note.isEncrypted && (
+                      <AttachmentList
+                        noteId={note.id}
+                        content={content}
+                        onDeleted={(id) => setContent(current => removeAttachmentFromHtml(current, id))}
+                      />
+                    )}
+
+                    {/* Backlinks */}
+                    {!note?.isEncrypted && backlinks.length > 0 && (
+                      <div className="mt-4 p-3 bg-white border border-gray-200 rounded-lg">
+                        <div className="flex items-center gap-2 mb-2">
+                          <Link2 size={14} className="text-gray-500" />
+                          <span className="text-sm font-medium text-gray-700">
+                            Linked from {backlinks.length} {backlinks.length === 1 ? 'note' : 'notes'}
+                          </span>
+                        </div>
+                        <div className="space-y-1">
+                          {backlinks.map(source => (
+                            <button
+                              key={source.id}
+                              onClick={() => handleOpenBacklink(source)}
+                              className="w-full text-left px-2 py-1.5 rounded hover:bg-gray-50 transition-colors"
+                            >
+                              <p className="text-sm font-medium text-blue-700 truncate">
+                                {source.title || 'Untitled Note'}
+                              </p>
+                              <p className="text-xs text-gray-500 line-clamp-2">
+                                {getWikiLinkSnippet(source.content, note?.title || '')}
+                              </p>
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -880,7 +1220,9 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
                       <div className="max-w-4xl mx-auto">
                         <GrammarCheck
                           content={content}
+                          noteId={note?.id}
                           onApplySuggestion={handleGrammarSuggestion}
+                          onOpenAISettings={onOpenAISettings}
                         />
                       </div>
                     </div>
@@ -923,6 +1265,7 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
                 isVisible={showAIInsights}
                 onClose={() => setShowAIInsights(false)}
                 isMobile={false}
+                onOpenAISettings={onOpenAISettings}
               />
             </div>
           </div>
@@ -969,6 +1312,7 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
                 isVisible={showAIInsights && isMobile}
                 onClose={() => setShowAIInsights(false)}
                 isMobile={true}
+                onOpenAISettings={onOpenAISettings}
               />
             </div>
 
@@ -1064,12 +1408,26 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
           content={content}
           title={title}
           onReplaceContent={(newContent) => {
-            setContent(newContent);
-            setHasChanges(true);
+            applyTrackedChange({ title: title || 'Untitled Note', content: newContent, tags }, 'translation');
+          }}
+          onOpenAISettings={() => {
+            setShowTranslationModal(false);
+            onOpenAISettings();
           }}
         />
       )}
 
+      {/* Revision History Modal */}
+      {showHistoryModal && note && (
+        <RevisionHistoryModal
+          isOpen={showHistoryModal}
+          onClose={() => setShowHistoryModal(false)}
+          noteId={note.id}
+          current={{ title: title || 'Untitled Note', content, tags }}
+          onRestore={handleRestoreRevision}
+        />
+      )}
+
       {/* Mobile Save Button - Only show if there are changes */}
       {isMobile && note && hasChanges && (
         <div className="fixed bottom-6 right-6 z-50">
@@ -0,0 +1,340 @@
+import React, { useState, useMemo } from 'react';
+import type { Note, Notebook } from '../types';
+import {
+  flattenNotebookTree,
+  getNotebookSubtreeIds,
+  NOTE_DRAG_TYPE,
+  NOTEBOOK_DRAG_TYPE
+} from '../utils/notebooks';
+import type { NotebookTreeItem } from '../utils/notebooks';
+import {
+  ChevronRight,
+  ChevronDown,
+  Folder,
+  FolderOpen,
+  FolderPlus,
+  Pencil,
+  Trash2,
+  Inbox
+} from 'lucide-react';
+import { clsx } from 'clsx';
+
+interface NotebookTreeProps {
+  notebooks: Notebook[];
+  notes: Note[];
+  selectedNotebookId: string | null;
+  onSelectNotebook: (id: string | null) => void;
+  onCreateNotebook: (name: string, parentId: string | null) => void;
+  onRenameNotebook: (id: string, name: string) => void;
+  onDeleteNotebook: (id: string) => void;
+  onMoveNotebook: (id: string, parentId: string | null) => void;
+  onMoveNote: (noteId: string, notebookId: string | null) => void;
+}
+
+type EditState =
+  | { mode: 'create'; parentId: string | null }
+  | { mode: 'rename'; id: string };
+
+// Drop target id for the "All notes" row, which moves items to the top level
+const ROOT_TARGET = 'root';
+
+const INDENT_PX = 12;
+
+export const NotebookTree: React.FC<NotebookTreeProps> = ({
+  notebooks,
+  notes,
+  selectedNotebookId,
+  onSelectNotebook,
+  onCreateNotebook,
+  onRenameNotebook,
+  onDeleteNotebook,
+  onMoveNotebook,
+  onMoveNote
+}) => {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState<EditState | null>(null);
+  const [editValue, setEditValue] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  const items = useMemo(() => flattenNotebookTree(notebooks), [notebooks]);
+
+  // Note counts include notes in nested notebooks
+  const counts = useMemo(() => {
+    const direct = new Map<string, number>();
+    notes.forEach(note => {
+      if (note.notebookId) direct.set(note.notebookId, (direct.get(note.notebookId) || 0) + 1);
+    });
+    return new Map(notebooks.map(notebook => {
+      const subtree = getNotebookSubtreeIds(notebooks, notebook.id);
+      let total = 0;
+      subtree.forEach(id => { total += direct.get(id) || 0; });
+      return [notebook.id, total];
+    }));
+  }, [notes, notebooks]);
+
+  // Hide the descendants of collapsed notebooks
+  const visibleItems = useMemo(() => {
+    const visible: NotebookTreeItem[] = [];
+    let collapsedDepth: number | null = null;
+    items.forEach(item => {
+      if (collapsedDepth !== null && item.depth > collapsedDepth) return;
+      collapsedDepth = collapsed.has(item.notebook.id) ? item.depth : null;
+      visible.push(item);
+    });
+    return visible;
+  }, [items, collapsed]);
+
+  const hasChildren = (id: string) => notebooks.some(notebook => notebook.parentId === id);
+
+  const toggleCollapsed = (id: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const startCreate = (parentId: string | null) => {
+    setEditing({ mode: 'create', parentId });
+    setEditValue('');
+    setConfirmDeleteId(null);
+    if (parentId) {
+      setCollapsed(prev => {
+        const next = new Set(prev);
+        next.delete(parentId);
+        return next;
+      });
+    }
+  };
+
+  const startRename = (notebook: Notebook) => {
+    setEditing({ mode: 'rename', id: notebook.id });
+    setEditValue(notebook.name);
+    setConfirmDeleteId(null);
+  };
+
+  const submitEdit = () => {
+    if (!editing) return;
+    const name = editValue.trim();
+    if (name) {
+      if (editing.mode === 'create') {
+        onCreateNotebook(name, editing.parentId);
+      } else {
+        onRenameNotebook(editing.id, name);
+      }
+    }
+    setEditing(null);
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      submitEdit();
+    } else if (e.key === 'Escape') {
+      setEditing(null);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent, targetId: string) => {
+    const types = Array.from(e.dataTransfer.types);
+    if (!types.includes(NOTE_DRAG_TYPE) && !types.includes(NOTEBOOK_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setDropTargetId(targetId);
+  };
+
+  const handleDrop = (e: React.DragEvent, targetId: string) => {
+    e.preventDefault();
+    setDropTargetId(null);
+    const notebookId = targetId === ROOT_TARGET ? null : targetId;
+
+    const noteId = e.dataTransfer.getData(NOTE_DRAG_TYPE);
+    if (noteId) {
+      onMoveNote(noteId, notebookId);
+      return;
+    }
+
+    const draggedNotebookId = e.dataTransfer.getData(NOTEBOOK_DRAG_TYPE);
+    if (draggedNotebookId && draggedNotebookId !== notebookId) {
+      onMoveNotebook(draggedNotebookId, notebookId);
+    }
+  };
+
+  const renderEditInput = (depth: number) => (
+    <div className="flex items-center gap-1.5 py-1 pr-2" style={{ paddingLeft: 8 + depth * INDENT_PX + 16 }}>
+      <Folder size={14} className="text-gray-400 flex-shrink-0" />
+      <input
+        autoFocus
+        value={editValue}
+        onChange={(e) => setEditValue(e.target.value)}
+        onKeyDown={handleEditKeyDown}
+        onBlur={submitEdit}
+        placeholder="Notebook name"
+        className="flex-1 min-w-0 px-1.5 py-0.5 text-sm border border-gray-300 rounded bg-white focus:outline-none focus:border-gray-400"
+        aria-label="Notebook name"
+      />
+    </div>
+  );
+
+  return (
+    <div className="py-2 border-b border-gray-200">
+      <div className="flex items-center justify-between px-4 pb-1">
+        <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">Notebooks</p>
+        <button
+          onClick={() => startCreate(null)}
+          className="p-1 text-gray-400 hover:text-gray-700 hover:bg-gray-200 rounded transition-colors"
+          title="New notebook"
+          aria-label="Create notebook"
+        >
+          <FolderPlus size={14} />
+        </button>
+      </div>
+
+      {/* All notes - also the drop target for unfiling notes */}
+      <div
+        onClick={() => onSelectNotebook(null)}
+        onDragOver={(e) => handleDragOver(e, ROOT_TARGET)}
+        onDragLeave={() => setDropTargetId(null)}
+        onDrop={(e) => handleDrop(e, ROOT_TARGET)}
+        className={clsx(
+          'flex items-center gap-1.5 mx-2 px-2 py-1 text-sm rounded cursor-pointer transition-colors',
+          selectedNotebookId === null ? 'bg-gray-200 text-gray-900' : 'text-gray-700 hover:bg-gray-100',
+          dropTargetId === ROOT_TARGET && 'ring-1 ring-gray-400 bg-gray-100'
+        )}
+      >
+        <span className="w-3.5" />
+        <Inbox size={14} className="text-gray-500 flex-shrink-0" />
+        <span className="flex-1 truncate">All notes</span>
+        <span className="text-xs text-gray-400">{notes.length}</span>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto">
+        {visibleItems.map(({ notebook, depth }) => {
+          const isSelected = selectedNotebookId === notebook.id;
+          const isCollapsed = collapsed.has(notebook.id);
+          const isEditing = editing?.mode === 'rename' && editing.id === notebook.id;
+
+          return (
+            <React.Fragment key={notebook.id}>
+              {isEditing ? renderEditInput(depth) : (
+                <div
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData(NOTEBOOK_DRAG_TYPE, notebook.id);
+                    e.dataTransfer.effectAllowed = 'move';
+                  }}
+                  onClick={() => onSelectNotebook(notebook.id)}
+                  onDragOver={(e) => handleDragOver(e, notebook.id)}
+                  onDragLeave={() => setDropTargetId(null)}
+                  onDrop={(e) => handleDrop(e, notebook.id)}
+                  className={clsx(
+                    'group flex items-center gap-1.5 mx-2 py-1 pr-2 text-sm rounded cursor-pointer transition-colors',
+                    isSelected ? 'bg-gray-200 text-gray-900' : 'text-gray-700 hover:bg-gray-100',
+                    dropTargetId === notebook.id && 'ring-1 ring-gray-400 bg-gray-100'
+                  )}
+                  style={{ paddingLeft: 8 + depth * INDENT_PX }}
+                >
+                  {hasChildren(notebook.id) ? (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        toggleCollapsed(notebook.id);
+                      }}
+                      className="text-gray-400 hover:text-gray-700"
+                      aria-label={isCollapsed ? 'Expand notebook' : 'Collapse notebook'}
+                    >
+                      {isCollapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+                    </button>
+                  ) : (
+                    <span className="w-3.5 flex-shrink-0" />
+                  )}
+                  {isSelected
+                    ? <FolderOpen size={14} className="text-gray-600 flex-shrink-0" />
+                    : <Folder size={14} className="text-gray-500 flex-shrink-0" />}
+                  <span className="flex-1 truncate">{notebook.name}</span>
+
+                  <div className="hidden group-hover:flex items-center gap-0.5">
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        startCreate(notebook.id);
+                      }}
+                      className="p-0.5 text-gray-400 hover:text-gray-700"
+                      title="New notebook inside"
+                      aria-label={`Create notebook inside ${notebook.name}`}
+                    >
+                      <FolderPlus size={12} />
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        startRename(notebook);
+                      }}
+                      className="p-0.5 text-gray-400 hover:text-gray-700"
+                      title="Rename"
+                      aria-label={`Rename ${notebook.name}`}
+                    >
+                      <Pencil size={12} />
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setConfirmDeleteId(notebook.id);
+                        setEditing(null);
+                      }}
+                      className="p-0.5 text-gray-400 hover:text-red-600"
+                      title="Delete notebook"
+                      aria-label={`Delete ${notebook.name}`}
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                  <span className="text-xs text-gray-400 group-hover:hidden">{counts.get(notebook.id) || 0}</span>
+                </div>
+              )}
+
+              {confirmDeleteId === notebook.id && (
+                <div className="mx-2 my-1 p-2 bg-red-50 border border-red-200 rounded text-xs text-red-700">
+                  <p className="mb-2">
+                    Delete “{notebook.name}”{hasChildren(notebook.id) ? ' and the notebooks inside it' : ''}?
+                    {(counts.get(notebook.id) || 0) > 0 && ` ${counts.get(notebook.id)} notes will be moved to the trash.`}
+                  </p>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => {
+                        onDeleteNotebook(notebook.id);
+                        setConfirmDeleteId(null);
+                      }}
+                      className="px-2 py-0.5 bg-red-600 hover:bg-red-700 text-white rounded transition-colors"
+                    >
+                      Delete
+                    </button>
+                    <button
+                      onClick={() => setConfirmDeleteId(null)}
+                      className="px-2 py-0.5 text-red-700 hover:bg-red-100 rounded transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {editing?.mode === 'create' && editing.parentId === notebook.id && renderEditInput(depth + 1)}
+            </React.Fragment>
+          );
+        })}
+
+        {editing?.mode === 'create' && editing.parentId === null && renderEditInput(0)}
+
+        {notebooks.length === 0 && !editing && (
+          <p className="px-4 py-1 text-xs text-gray-400">No notebooks yet</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,37 +1,305 @@
-import React, { useState } from 'react';
-import type { Note } from '../types';
+import React, { useState, useRef, useMemo } from 'react';
+import type { Note, Notebook, SavedSearch, TagFilterMode } from '../types';
 import { NoteCard } from './NoteCard';
-import { Search, Plus, StickyNote } from 'lucide-react';
+import { NotebookTree } from './NotebookTree';
+import { TagBrowser } from './TagBrowser';
+import { SavedSearchList } from './SavedSearchList';
+import { getNotebookSubtreeIds } from '../utils/notebooks';
+import { matchesTagFilter, tagKey } from '../utils/tags';
+import { SearchIndex } from '../services/searchIndex';
+import { parseQuery, createQueryPredicate, getQuerySearchTerms, QuerySyntaxError } from '../utils/searchQuery';
+import type { QueryNode } from '../utils/searchQuery';
+import { Search, Plus, StickyNote, Trash2, ArrowLeft, Upload, Download, FolderInput, BookmarkPlus } from 'lucide-react';
+import { clsx } from 'clsx';
 
 interface NotesListProps {
   notes: Note[];
+  trashedNotes: Note[];
   onCreateNote: () => void;
   onEditNote: (note: Note) => void;
   onDeleteNote: (id: string) => void;
   onPinNote: (id: string) => void;
+  onRestoreNote: (id: string) => void;
+  onPurgeNote: (id: string) => void;
+  onEmptyTrash: () => void;
+  trashRetentionDays: number;
+  onTrashRetentionChange: (days: number) => void;
+  fuzzySearchThreshold: number;
+  onFuzzySearchThresholdChange: (threshold: number) => void;
+  onImportNotes: (files: File[]) => void;
+  onExportNotes: () => void;
+  notebooks: Notebook[];
+  selectedNotebookId: string | null;
+  onSelectNotebook: (id: string | null) => void;
+  onCreateNotebook: (name: string, parentId: string | null) => void;
+  onRenameNotebook: (id: string, name: string) => void;
+  onDeleteNotebook: (id: string) => void;
+  onMoveNotebook: (id: string, parentId: string | null) => void;
+  onMoveNote: (noteId: string, notebookId: string | null) => void;
+  onRenameTag: (from: string, to: string) => void;
+  onMergeTags: (sources: string[], target: string) => void;
+  onDeleteTag: (tag: string) => void;
+  savedSearches: SavedSearch[];
+  onSaveSearch: (name: string, query: string) => void;
+  onRenameSearch: (id: string, name: string) => void;
+  onDeleteSearch: (id: string) => void;
   selectedNoteId?: string;
 }
 
+const replaceSelectedTags = (selected: string[], sources: string[], target: string): string[] => {
+  const sourceKeys = new Set(sources.map(tagKey));
+  if (!selected.some(key => sourceKeys.has(key))) return selected;
+  const kept = selected.filter(key => !sourceKeys.has(key));
+  return kept.includes(tagKey(target)) ? kept : [...kept, tagKey(target)];
+};
+
+type ParsedSearch = { ast: QueryNode | null; error: QuerySyntaxError | null };
+
+const parseSearch = (query: string): ParsedSearch => {
+  try {
+    return { ast: parseQuery(query), error: null };
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) return { ast: null, error };
+    throw error;
+  }
+};
+
+const RETENTION_OPTIONS = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 0, label: 'Never' }
+];
+
+const TYPO_TOLERANCE_OPTIONS = [
+  { threshold: 0, label: 'Off' },
+  { threshold: 0.15, label: 'Low' },
+  { threshold: 0.25, label: 'Medium' },
+  { threshold: 0.35, label: 'High' }
+];
+
 export const NotesList: React.FC<NotesListProps> = ({
   notes,
+  trashedNotes,
   onCreateNote,
   onEditNote,
   onDeleteNote,
   onPinNote,
+  onRestoreNote,
+  onPurgeNote,
+  onEmptyTrash,
+  trashRetentionDays,
+  onTrashRetentionChange,
+  fuzzySearchThreshold,
+  onFuzzySearchThresholdChange,
+  onImportNotes,
+  onExportNotes,
+  notebooks,
+  selectedNotebookId,
+  onSelectNotebook,
+  onCreateNotebook,
+  onRenameNotebook,
+  onDeleteNotebook,
+  onMoveNotebook,
+  onMoveNote,
+  onRenameTag,
+  onMergeTags,
+  onDeleteTag,
+  savedSearches,
+  onSaveSearch,
+  onRenameSearch,
+  onDeleteSearch,
   selectedNoteId
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
+  const [showTrash, setShowTrash] = useState(false);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [tagFilterMode, setTagFilterMode] = useState<TagFilterMode>('and');
+  const [savingSearchName, setSavingSearchName] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  const selectedNotebook = notebooks.find(notebook => notebook.id === selectedNotebookId);
+
+  // The selected notebook shows its own notes and those of nested notebooks
+  const visibleNotebookIds = useMemo(
+    () => selectedNotebookId ? getNotebookSubtreeIds(notebooks, selectedNotebookId) : null,
+    [notebooks, selectedNotebookId]
+  );
+
+  const parsedSearch = useMemo(() => parseSearch(searchTerm), [searchTerm]);
+
+  // Notes matching the search query, plus ranking and highlights for its words
+  const searchResults = useMemo(() => {
+    if (!parsedSearch.ast) return null;
+    const index = SearchIndex.getInstance();
+    index.update(notes);
+    index.setFuzzyThreshold(fuzzySearchThreshold);
+    const matches = createQueryPredicate(parsedSearch.ast, index);
+    return {
+      matchingIds: new Set(notes.filter(matches).map(note => note.id)),
+      ranking: index.searchEach(getQuerySearchTerms(parsedSearch.ast))
+    };
+  }, [notes, parsedSearch, fuzzySearchThreshold]);
+
+  // Smart folders update live as notes change
+  const savedSearchCounts = useMemo(() => {
+    const index = SearchIndex.getInstance();
+    index.update(notes);
+    index.setFuzzyThreshold(fuzzySearchThreshold);
+    return new Map(savedSearches.map(search => {
+      const { ast } = parseSearch(search.query);
+      if (!ast) return [search.id, search.query.trim() ? null : notes.length];
+      return [search.id, notes.filter(createQueryPredicate(ast, index)).length];
+    }));
+  }, [notes, savedSearches, fuzzySearchThreshold]);
+
+  const isSearchSaved = savedSearches.some(search => search.query.trim() === searchTerm.trim());
+
+  const handleSelectSavedSearch = (search: SavedSearch) => {
+    if (searchTerm.trim() === search.query.trim()) {
+      setSearchTerm('');
+      return;
+    }
+    setSearchTerm(search.query);
+    setSelectedTags([]);
+    onSelectNotebook(null);
+  };
+
+  const submitSaveSearch = () => {
+    if (savingSearchName?.trim() && parsedSearch.ast) {
+      onSaveSearch(savingSearchName.trim(), searchTerm.trim());
+    }
+    setSavingSearchName(null);
+  };
+
+  const handleToggleTag = (tag: string) => {
+    const key = tagKey(tag);
+    setSelectedTags(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+  };
+
+  // Keep the tag filter pointing at the renamed, merged or deleted tags
+  const handleRenameTag = (from: string, to: string) => {
+    onRenameTag(from, to);
+    setSelectedTags(prev => replaceSelectedTags(prev, [from], to));
+  };
+
+  const handleMergeTags = (sources: string[], target: string) => {
+    onMergeTags(sources, target);
+    setSelectedTags(prev => replaceSelectedTags(prev, sources, target));
+  };
+
+  const handleDeleteTag = (tag: string) => {
+    onDeleteTag(tag);
+    setSelectedTags(prev => prev.filter(key => key !== tagKey(tag)));
+  };
+
+  const clearFilters = () => {
+    setSearchTerm('');
+    setSelectedTags([]);
+  };
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    // Reset so picking the same files again still fires a change event
+    e.target.value = '';
+    if (files.length > 0) {
+      onImportNotes(files);
+    }
+  };
+
+  if (showTrash) {
+    return (
+      <div className="h-full flex flex-col bg-neutral-50">
+        <div className="p-4 border-b border-gray-200">
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setShowTrash(false)}
+                className="p-1 hover:bg-gray-200 text-gray-700 rounded transition-colors mobile-no-tap-highlight"
+                aria-label="Back to notes"
+              >
+                <ArrowLeft size={16} />
+              </button>
+              <h2 className="text-sm font-medium text-gray-700">Trash</h2>
+            </div>
+
+            {trashedNotes.length > 0 && (
+              <button
+                onClick={onEmptyTrash}
+                className="text-xs text-red-600 hover:text-red-700 transition-colors"
+                title="Permanently delete all unencrypted notes in the trash"
+              >
+                Empty trash
+              </button>
+            )}
+          </div>
+
+          <label className="flex items-center justify-between gap-2 text-xs text-gray-500">
+            <span>Auto-delete after</span>
+            <select
+              value={trashRetentionDays}
+              onChange={(e) => onTrashRetentionChange(Number(e.target.value))}
+              className="border border-gray-300 rounded px-1.5 py-0.5 bg-white text-gray-700 focus:outline-none focus:border-gray-400"
+            >
+              {RETENTION_OPTIONS.map(option => (
+                <option key={option.days} value={option.days}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="flex-1 overflow-y-auto mobile-swipeable">
+          {trashedNotes.length === 0 ? (
+            <div className="p-8 text-center">
+              <Trash2 className="mx-auto mb-2 text-gray-300" size={32} />
+              <p className="text-sm text-gray-500">Trash is empty</p>
+            </div>
+          ) : (
+            trashedNotes.map(note => (
+              <NoteCard
+                key={note.id}
+                note={note}
+                onEdit={onEditNote}
+                onDelete={onPurgeNote}
+                onPin={onPinNote}
+                onRestore={onRestoreNote}
+              />
+            ))
+          )}
+        </div>
+
+        <div className="p-3 border-t border-gray-200 text-xs text-gray-500">
+          Encrypted notes stay in the trash until deleted with their password.
+        </div>
+      </div>
+    );
+  }
+
+  const ranking = searchResults?.ranking ?? new Map();
+  const isRanked = ranking.size > 0;
 
   // Filter and sort notes
   const filteredNotes = notes
     .filter(note => {
-      const matchesSearch = !searchTerm ||
-        note.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        note.content.replace(/<[^>]*>/g, '').toLowerCase().includes(searchTerm.toLowerCase());
+      if (visibleNotebookIds && !(note.notebookId && visibleNotebookIds.has(note.notebookId))) {
+        return false;
+      }
 
-      return matchesSearch;
+      if (!matchesTagFilter(note, selectedTags, tagFilterMode)) {
+        return false;
+      }
+
+      return !searchResults || searchResults.matchingIds.has(note.id);
     })
     .sort((a, b) => {
+      // Queries with search words are ordered by relevance
+      if (isRanked) {
+        const byScore = (ranking.get(b.id)?.score || 0) - (ranking.get(a.id)?.score || 0);
+        if (byScore !== 0) return byScore;
+        return b.updatedAt.getTime() - a.updatedAt.getTime();
+      }
+
       // Pinned notes first
       if (a.isPinned && !b.isPinned) return -1;
       if (!a.isPinned && b.isPinned) return 1;
@@ -40,24 +308,75 @@ export const NotesList: React.FC<NotesListProps> = ({
       return b.updatedAt.getTime() - a.updatedAt.getTime();
     });
 
-  const pinnedNotes = filteredNotes.filter(note => note.isPinned);
-  const unpinnedNotes = filteredNotes.filter(note => !note.isPinned);
+  // Pinned notes are not grouped separately in ranked results. Trashed notes
+  // keep their pin for a restore but never count as pinned.
+  const isPinnedNote = (note: Note) => note.isPinned && !note.deletedAt;
+  const pinnedNotes = isRanked ? [] : filteredNotes.filter(isPinnedNote);
+  const unpinnedNotes = isRanked ? filteredNotes : filteredNotes.filter(note => !isPinnedNote(note));
 
   return (
     <div className="h-full flex flex-col bg-neutral-50">
       {/* Minimal Header */}
       <div className="p-4 border-b border-gray-200">
         <div className="flex items-center justify-between mb-4">
-          <h2 className="text-sm font-medium text-gray-700">All Notes</h2>
+          <h2 className="text-sm font-medium text-gray-700 truncate">
+            {selectedNotebook ? selectedNotebook.name : 'All Notes'}
+          </h2>
 
-          <button
-            onClick={onCreateNote}
-            className="p-1.5 hover:bg-gray-200 text-gray-700 rounded transition-colors mobile-no-tap-highlight"
-            title="New note"
-            aria-label="Create new note"
-          >
-            <Plus size={18} strokeWidth={2} />
-          </button>
+          <div className="flex items-center gap-0.5">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="p-1.5 hover:bg-gray-200 text-gray-500 hover:text-gray-700 rounded transition-colors mobile-no-tap-highlight"
+              title="Import Markdown files or a zip"
+              aria-label="Import Markdown files"
+            >
+              <Upload size={15} />
+            </button>
+            <button
+              onClick={() => folderInputRef.current?.click()}
+              className="p-1.5 hover:bg-gray-200 text-gray-500 hover:text-gray-700 rounded transition-colors mobile-no-tap-highlight"
+              title="Import a folder of Markdown files"
+              aria-label="Import Markdown folder"
+            >
+              <FolderInput size={15} />
+            </button>
+            <button
+              onClick={onExportNotes}
+              disabled={notes.length === 0}
+              className="p-1.5 hover:bg-gray-200 text-gray-500 hover:text-gray-700 rounded transition-colors mobile-no-tap-highlight disabled:opacity-40 disabled:hover:bg-transparent"
+              title="Export all notes as Markdown (zip)"
+              aria-label="Export all notes"
+            >
+              <Download size={15} />
+            </button>
+            <button
+              onClick={onCreateNote}
+              className="p-1.5 hover:bg-gray-200 text-gray-700 rounded transition-colors mobile-no-tap-highlight"
+              title="New note"
+              aria-label="Create new note"
+            >
+              <Plus size={18} strokeWidth={2} />
+            </button>
+          </div>
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".md,.markdown,.zip"
+            multiple
+            className="hidden"
+            onChange={handleFilesSelected}
+          />
+          {/* webkitdirectory is not in React's input typings */}
+          <input
+            ref={(el) => {
+              folderInputRef.current = el;
+              el?.setAttribute('webkitdirectory', '');
+            }}
+            type="file"
+            className="hidden"
+            onChange={handleFilesSelected}
+          />
         </div>
 
         {/* Search Bar - Minimal */}
@@ -65,28 +384,113 @@ export const NotesList: React.FC<NotesListProps> = ({
           <Search className="absolute left-2.5 top-1/2 transform -translate-y-1/2 text-gray-400" size={14} />
           <input
             type="text"
-            placeholder="Search..."
+            placeholder="Search... (try tag: or is:pinned)"
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
-            className="w-full pl-8 pr-3 py-1.5 border border-gray-300 rounded text-sm focus:outline-none focus:border-gray-400 mobile-no-tap-highlight bg-white"
+            className={clsx(
+              'w-full pl-8 pr-8 py-1.5 border rounded text-sm focus:outline-none mobile-no-tap-highlight bg-white',
+              parsedSearch.error ? 'border-red-300 focus:border-red-400' : 'border-gray-300 focus:border-gray-400'
+            )}
             aria-label="Search notes"
+            aria-invalid={!!parsedSearch.error}
           />
+          {parsedSearch.ast && !isSearchSaved && (
+            <button
+              onClick={() => setSavingSearchName('')}
+              className="absolute right-1.5 top-1/2 -translate-y-1/2 p-1 text-gray-400 hover:text-gray-700 rounded transition-colors"
+              title="Save as smart folder"
+              aria-label="Save search as smart folder"
+            >
+              <BookmarkPlus size={14} />
+            </button>
+          )}
         </div>
+
+        {parsedSearch.error && (
+          <p className="mt-1.5 text-xs text-red-600" role="alert">
+            {parsedSearch.error.message}
+            <span className="text-red-400"> (at character {parsedSearch.error.start + 1})</span>
+          </p>
+        )}
+
+        {parsedSearch.ast && (
+          <label className="mt-1.5 flex items-center justify-between gap-2 text-xs text-gray-500">
+            <span>Typo tolerance</span>
+            <select
+              value={fuzzySearchThreshold}
+              onChange={(e) => onFuzzySearchThresholdChange(Number(e.target.value))}
+              className="border border-gray-300 rounded px-1.5 py-0.5 bg-white text-gray-700 focus:outline-none focus:border-gray-400"
+            >
+              {TYPO_TOLERANCE_OPTIONS.map(option => (
+                <option key={option.threshold} value={option.threshold}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        {savingSearchName !== null && (
+          <input
+            autoFocus
+            value={savingSearchName}
+            onChange={(e) => setSavingSearchName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') submitSaveSearch();
+              if (e.key === 'Escape') setSavingSearchName(null);
+            }}
+            onBlur={submitSaveSearch}
+            placeholder="Smart folder name"
+            className="mt-1.5 w-full px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:border-gray-400 bg-white"
+            aria-label="Smart folder name"
+          />
+        )}
       </div>
 
+      <SavedSearchList
+        savedSearches={savedSearches}
+        counts={savedSearchCounts}
+        activeQuery={searchTerm}
+        onSelect={handleSelectSavedSearch}
+        onRename={onRenameSearch}
+        onDelete={onDeleteSearch}
+      />
+
+      <NotebookTree
+        notebooks={notebooks}
+        notes={notes}
+        selectedNotebookId={selectedNotebookId}
+        onSelectNotebook={onSelectNotebook}
+        onCreateNotebook={onCreateNotebook}
+        onRenameNotebook={onRenameNotebook}
+        onDeleteNotebook={onDeleteNotebook}
+        onMoveNotebook={onMoveNotebook}
+        onMoveNote={onMoveNote}
+      />
+
+      <TagBrowser
+        notes={notes}
+        selectedTags={selectedTags}
+        filterMode={tagFilterMode}
+        onToggleTag={handleToggleTag}
+        onClearTags={() => setSelectedTags([])}
+        onFilterModeChange={setTagFilterMode}
+        onRenameTag={handleRenameTag}
+        onMergeTags={handleMergeTags}
+        onDeleteTag={handleDeleteTag}
+      />
+
       {/* Notes List - Flat Design */}
       <div className="flex-1 overflow-y-auto mobile-swipeable">
         {filteredNotes.length === 0 ? (
           <div className="p-8 text-center">
-            {searchTerm ? (
+            {searchTerm || selectedTags.length > 0 ? (
               <div>
                 <Search className="mx-auto mb-2 text-gray-300" size={32} />
                 <p className="text-sm text-gray-500">No notes found</p>
                 <button
-                  onClick={() => setSearchTerm('')}
+                  onClick={clearFilters}
                   className="mt-2 text-xs text-gray-600 hover:text-gray-900"
                 >
-                  Clear search
+                  {selectedTags.length > 0 ? 'Clear filters' : 'Clear search'}
                 </button>
               </div>
             ) : (
@@ -94,8 +498,12 @@ export const NotesList: React.FC<NotesListProps> = ({
                 <div className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-gray-100 mb-3">
                   <StickyNote className="text-gray-400" size={20} />
                 </div>
-                <p className="text-sm text-gray-700 mb-1">No notes yet</p>
-                <p className="text-xs text-gray-500 mb-4">Create your first note</p>
+                <p className="text-sm text-gray-700 mb-1">
+                  {selectedNotebook ? 'This notebook is empty' : 'No notes yet'}
+                </p>
+                <p className="text-xs text-gray-500 mb-4">
+                  {selectedNotebook ? 'Create a note or drag one here' : 'Create your first note'}
+                </p>
                 <button
                   onClick={onCreateNote}
                   className="px-3 py-1.5 bg-gray-900 hover:bg-gray-800 text-white text-xs rounded transition-colors"
@@ -121,7 +529,10 @@ export const NotesList: React.FC<NotesListProps> = ({
                       onEdit={onEditNote}
                       onDelete={onDeleteNote}
                       onPin={onPinNote}
+                      notebooks={notebooks}
+                      onMove={onMoveNote}
                       isSelected={note.id === selectedNoteId}
+                      searchMatch={ranking.get(note.id)}
                     />
                   ))}
                 </div>
@@ -144,7 +555,10 @@ export const NotesList: React.FC<NotesListProps> = ({
                       onEdit={onEditNote}
                       onDelete={onDeleteNote}
                       onPin={onPinNote}
+                      notebooks={notebooks}
+                      onMove={onMoveNote}
                       isSelected={note.id === selectedNoteId}
+                      searchMatch={ranking.get(note.id)}
                     />
                   ))}
                 </div>
@@ -155,11 +569,19 @@ export const NotesList: React.FC<NotesListProps> = ({
       </div>
 
       {/* Minimal Footer */}
-      {notes.length > 0 && (
-        <div className="p-3 border-t border-gray-200">
+      {(notes.length > 0 || trashedNotes.length > 0) && (
+        <div className="p-3 border-t border-gray-200 flex items-center justify-between">
           <div className="text-xs text-gray-500">
             {filteredNotes.length} {filteredNotes.length === 1 ? 'note' : 'notes'}
           </div>
+          <button
+            onClick={() => setShowTrash(true)}
+            className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-900 transition-colors"
+            aria-label="Open trash"
+          >
+            <Trash2 size={12} />
+            Trash{trashedNotes.length > 0 ? ` (${trashedNotes.length})` : ''}
+          </button>
         </div>
       )}
     </div>
@@ -0,0 +1,233 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { NoteRevision } from '../types';
+import { RevisionService, REVISION_ACTION_LABELS } from '../services/revisionService';
+import type { RevisionSnapshot } from '../services/revisionService';
+import { diffWords } from '../utils/textDiff';
+import { htmlToPlainText } from '../utils/plainText';
+import { X, History, RotateCcw, Loader2 } from 'lucide-react';
+import { clsx } from 'clsx';
+
+interface RevisionHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  noteId: string;
+  current: RevisionSnapshot;
+  onRestore: (revision: NoteRevision) => void;
+}
+
+const CURRENT_ID = 'current';
+
+const formatTimestamp = (date: Date) =>
+  new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  }).format(date);
+
+const snapshotText = (snapshot: RevisionSnapshot) => {
+  const tagsLine = snapshot.tags.length > 0 ? `\n\nTags: ${snapshot.tags.map(t => `#${t}`).join(' ')}` : '';
+  return `${snapshot.title}\n\n${htmlToPlainText(snapshot.content)}${tagsLine}`;
+};
+
+export const RevisionHistoryModal: React.FC<RevisionHistoryModalProps> = ({
+  isOpen,
+  onClose,
+  noteId,
+  current,
+  onRestore
+}) => {
+  const [revisions, setRevisions] = useState<NoteRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>(CURRENT_ID);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    RevisionService.getInstance().getRevisions(noteId)
+      .then((loaded) => {
+        if (cancelled) return;
+        setRevisions(loaded);
+        setToId(CURRENT_ID);
+        setFromId(loaded[0]?.id ?? '');
+      })
+      .catch((err) => {
+        console.error('Error loading revision history:', err);
+        if (!cancelled) setError('Failed to load revision history.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, noteId]);
+
+  const getSnapshot = (id: string): RevisionSnapshot | undefined =>
+    id === CURRENT_ID ? current : revisions.find(r => r.id === id);
+
+  const fromSnapshot = getSnapshot(fromId);
+  const toSnapshot = getSnapshot(toId);
+
+  const segments = useMemo(() => {
+    if (!fromSnapshot || !toSnapshot) return [];
+    return diffWords(snapshotText(fromSnapshot), snapshotText(toSnapshot));
+  }, [fromSnapshot, toSnapshot]);
+
+  const hasDifferences = segments.some(segment => segment.type !== 'equal');
+
+  // Selecting a revision compares it with the one saved just before it
+  const handleSelectRevision = (index: number) => {
+    setToId(revisions[index].id);
+    setFromId(revisions[index + 1]?.id ?? revisions[index].id);
+  };
+
+  const handleRestore = (revision: NoteRevision) => {
+    onRestore(revision);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  const renderOption = (revision: NoteRevision) => (
+    <option key={revision.id} value={revision.id}>
+      {formatTimestamp(revision.createdAt)} — {REVISION_ACTION_LABELS[revision.action]}
+    </option>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden animate-scale-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gray-100 rounded-xl">
+              <History className="text-gray-700" size={22} />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-800">Revision History</h2>
+              <p className="text-sm text-gray-500">Compare earlier versions and restore one</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex-1 flex items-center justify-center py-16 text-gray-500 gap-2">
+            <Loader2 size={18} className="animate-spin" />
+            <span className="text-sm">Loading history...</span>
+          </div>
+        ) : error ? (
+          <div className="m-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">{error}</div>
+        ) : revisions.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center py-16 text-sm text-gray-500">
+            No earlier versions yet. Revisions are saved as you edit.
+          </div>
+        ) : (
+          <div className="flex-1 flex flex-col md:flex-row overflow-hidden">
+            {/* Revision List */}
+            <div className="md:w-72 flex-shrink-0 border-b md:border-b-0 md:border-r border-gray-200 overflow-y-auto max-h-48 md:max-h-none">
+              {revisions.map((revision, index) => (
+                <div
+                  key={revision.id}
+                  onClick={() => handleSelectRevision(index)}
+                  className={clsx(
+                    'group px-4 py-3 cursor-pointer border-l-2 transition-colors',
+                    toId === revision.id
+                      ? 'bg-gray-50 border-l-gray-900'
+                      : 'border-l-transparent hover:bg-gray-50'
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">
+                        {REVISION_ACTION_LABELS[revision.action]}
+                      </p>
+                      <p className="text-xs text-gray-500">{formatTimestamp(revision.createdAt)}</p>
+                    </div>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleRestore(revision);
+                      }}
+                      className="flex items-center gap-1 px-2 py-1 text-xs text-gray-600 hover:text-gray-900 hover:bg-gray-200 rounded transition-colors"
+                      title="Restore this version"
+                    >
+                      <RotateCcw size={12} />
+                      Restore
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Diff View */}
+            <div className="flex-1 flex flex-col overflow-hidden">
+              <div className="flex flex-wrap items-center gap-2 px-4 py-3 border-b border-gray-200 text-xs text-gray-600">
+                <span>Compare</span>
+                <select
+                  value={fromId}
+                  onChange={(e) => setFromId(e.target.value)}
+                  className="border border-gray-300 rounded px-2 py-1 bg-white focus:outline-none focus:border-gray-400"
+                  aria-label="Compare from"
+                >
+                  <option value={CURRENT_ID}>Current version</option>
+                  {revisions.map(renderOption)}
+                </select>
+                <span>with</span>
+                <select
+                  value={toId}
+                  onChange={(e) => setToId(e.target.value)}
+                  className="border border-gray-300 rounded px-2 py-1 bg-white focus:outline-none focus:border-gray-400"
+                  aria-label="Compare to"
+                >
+                  <option value={CURRENT_ID}>Current version</option>
+                  {revisions.map(renderOption)}
+                </select>
+              </div>
+
+              <div className="flex-1 overflow-y-auto p-4">
+                {hasDifferences ? (
+                  <div className="whitespace-pre-wrap text-sm leading-relaxed text-gray-800">
+                    {segments.map((segment, index) => (
+                      <span
+                        key={index}
+                        className={clsx(
+                          segment.type === 'added' && 'bg-green-100 text-green-800',
+                          segment.type === 'removed' && 'bg-red-100 text-red-700 line-through'
+                        )}
+                      >
+                        {segment.text}
+                      </span>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500 italic">These versions are identical.</p>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,19 @@
-import React, { useRef, useCallback, useEffect, useState } from 'react';
-import type { RichTextFormat, ToolbarAction } from '../types';
+import React, { useRef, useCallback, useEffect, useState, useMemo } from 'react';
+import type { BlockFormat, RichTextFormat, ToolbarAction } from '../types';
+import { WIKI_LINK_PATTERN, WIKI_LINK_QUERY_PATTERN, wikiLinkKey } from '../utils/wikiLinks';
+import { DOCUMENT_SCHEMA, blockText, createDocument, createParagraph, isCollapsed, linkAt } from '../utils/documentModel';
+import type { Alignment, Block, DocPosition, DocSelection, EditorState, ToggleMark } from '../utils/documentModel';
+import { applyTransaction, blockFormatAttrs, getActiveFormat } from '../utils/documentTransactions';
+import type { TableCommand, Transaction } from '../utils/documentTransactions';
+import { findDomPoint, parseDocument, readDocument, serializeDocument } from '../utils/documentHtml';
+import { INPUT_RULE_TRIGGERS, applyInputRule } from '../utils/inputRules';
+import { linkifyBlocks, linkifyRuns, normalizeUrl } from '../utils/links';
+import { MIN_IMAGE_WIDTH, attachmentHtml, readAttachmentElement } from '../utils/attachments';
+import { SlashCommandRegistry } from '../services/slashCommands';
+import { AttachmentService } from '../services/attachmentService';
+import type { SlashCommand } from '../services/slashCommands';
+import { SlashCommandMenu } from './SlashCommandMenu';
+import { LinkPopover } from './LinkPopover';
 import { 
   Bold, 
   Italic, 
@@ -7,7 +21,30 @@ import {
   AlignLeft, 
   AlignCenter, 
   AlignRight,
-  Type
+  Type,
+  FileText,
+  Loader2,
+  X,
+  Heading1,
+  Heading2,
+  Heading3,
+  List,
+  ListOrdered,
+  ListChecks,
+  TextQuote,
+  SquareCode,
+  IndentIncrease,
+  IndentDecrease,
+  Table,
+  BetweenHorizontalStart,
+  BetweenHorizontalEnd,
+  BetweenVerticalStart,
+  BetweenVerticalEnd,
+  PanelTop,
+  Trash2,
+  Grid2x2X,
+  Link,
+  Paperclip
 } from 'lucide-react';
 import { clsx } from 'clsx';
 
@@ -18,6 +55,119 @@ interface RichTextEditorProps {
   className?: string;
   onFocus?: () => void;
   onBlur?: () => void;
+  // Note titles offered after typing [[
+  linkSuggestions?: string[];
+  // Ctrl/Cmd+click on a [[link]]
+  onWikiLinkClick?: (title: string) => void;
+  // Title of the note, for AI commands in the slash menu
+  noteTitle?: string;
+  // Note that pasted, dropped or picked files are attached to; files cannot be attached without it
+  noteId?: string;
+}
+
+// An unfinished [[link]] being typed, anchored to the text node that holds it
+interface LinkQuery {
+  node: Text;
+  start: number;
+  query: string;
+  top: number;
+  left: number;
+}
+
+// A "/query" typed at the start of a block, which opens the command menu
+interface SlashQuery {
+  block: number;
+  query: string;
+  top: number;
+  left: number;
+}
+
+// Where the link popover shows: below the link at the caret, or the selection
+// being linked once the form is open with Ctrl+K
+interface LinkPopoverPosition {
+  top: number;
+  left: number;
+}
+
+interface LinkForm extends LinkPopoverPosition {
+  href: string;
+  // Inserting at a caret outside a link, which asks for the link text too
+  askText: boolean;
+}
+
+// Progress or failure of an asynchronous slash command or attachment upload
+interface CommandStatus {
+  label: string;
+  error?: string;
+}
+
+const SLASH_QUERY_PATTERN = /^\/([^/\n]{0,30})$/;
+const MAX_LINK_SUGGESTIONS = 8;
+const MAX_HISTORY = 100;
+// Keystrokes closer together than this are undone in one step
+const TYPING_GROUP_MS = 1000;
+// Width of the checkbox drawn before checklist items
+const CHECKBOX_HIT_WIDTH = 24;
+
+const BLOCK_BUTTONS: { format: BlockFormat; icon: typeof List; title: string }[] = [
+  { format: 'heading1', icon: Heading1, title: 'Heading 1 (Ctrl+Alt+1)' },
+  { format: 'heading2', icon: Heading2, title: 'Heading 2 (Ctrl+Alt+2)' },
+  { format: 'heading3', icon: Heading3, title: 'Heading 3 (Ctrl+Alt+3)' },
+  { format: 'bulletList', icon: List, title: 'Bulleted list (Ctrl+Shift+8)' },
+  { format: 'orderedList', icon: ListOrdered, title: 'Numbered list (Ctrl+Shift+7)' },
+  { format: 'checkList', icon: ListChecks, title: 'Checklist (Ctrl+Shift+9)' },
+  { format: 'quote', icon: TextQuote, title: 'Quote (Ctrl+Alt+Q)' },
+  { format: 'codeBlock', icon: SquareCode, title: 'Code block (Ctrl+Alt+C)' }
+];
+
+const TABLE_BUTTONS: { command: TableCommand; icon: typeof List; title: string }[] = [
+  { command: 'addRowAbove', icon: BetweenHorizontalStart, title: 'Insert row above' },
+  { command: 'addRowBelow', icon: BetweenHorizontalEnd, title: 'Insert row below' },
+  { command: 'deleteRow', icon: Trash2, title: 'Delete row' },
+  { command: 'addColumnLeft', icon: BetweenVerticalStart, title: 'Insert column left' },
+  { command: 'addColumnRight', icon: BetweenVerticalEnd, title: 'Insert column right' },
+  { command: 'deleteColumn', icon: Trash2, title: 'Delete column' }
+];
+const DEFAULT_TABLE_SIZE = 3;
+
+// Block shortcuts by KeyboardEvent.code, which does not depend on the keyboard layout
+const CTRL_ALT_BLOCKS: Record<string, BlockFormat> = {
+  Digit0: 'paragraph',
+  Digit1: 'heading1',
+  Digit2: 'heading2',
+  Digit3: 'heading3',
+  KeyQ: 'quote',
+  KeyC: 'codeBlock'
+};
+const CTRL_SHIFT_BLOCKS: Record<string, BlockFormat> = {
+  Digit7: 'orderedList',
+  Digit8: 'bulletList',
+  Digit9: 'checkList'
+};
+
+// Puts the browser selection where the state has it
+const setDomSelection = (editor: HTMLElement, state: EditorState) => {
+  const selection = window.getSelection();
+  if (!state.selection || !selection) return;
+  const anchor = findDomPoint(editor, state.doc, state.selection.anchor);
+  const focus = findDomPoint(editor, state.doc, state.selection.focus);
+  selection.setBaseAndExtent(anchor.node, anchor.offset, focus.node, focus.offset);
+};
+
+// The caret position under the mouse, e.g. where files are dropped
+const domPointFromMouse = (x: number, y: number): { node: Node; offset: number } | null => {
+  if (document.caretPositionFromPoint) {
+    const position = document.caretPositionFromPoint(x, y);
+    return position ? { node: position.offsetNode, offset: position.offset } : null;
+  }
+  const range = document.caretRangeFromPoint?.(x, y);
+  return range ? { node: range.startContainer, offset: range.startOffset } : null;
+};
+
+interface EditorHistory {
+  undo: EditorState[];
+  redo: EditorState[];
+  lastTypingAt: number;
 }
 
 export const RichTextEditor: React.FC<RichTextEditorProps> = ({
@@ -26,70 +176,680 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
   placeholder = "Start writing your note...",
   className = "",
   onFocus,
-  onBlur
+  onBlur,
+  linkSuggestions = [],
+  onWikiLinkClick,
+  noteTitle = '',
+  noteId
 }) => {
   const editorRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [format, setFormat] = useState<RichTextFormat>({
     bold: false,
     italic: false,
     underline: false,
-    fontSize: 16,
-    alignment: 'left'
+    fontSize: DOCUMENT_SCHEMA.defaultFontSize,
+    alignment: 'left',
+    block: 'paragraph',
+    codeLanguage: null,
+    table: null,
+    link: null
   });
   const [isFocused, setIsFocused] = useState(false);
   const [toolbarHidden, setToolbarHidden] = useState(false);
   const lastScrollY = useRef(0);
+  const [linkQuery, setLinkQuery] = useState<LinkQuery | null>(null);
+  const [activeSuggestion, setActiveSuggestion] = useState(0);
+  const [slashQuery, setSlashQuery] = useState<SlashQuery | null>(null);
+  const [activeCommand, setActiveCommand] = useState(0);
+  const [commandStatus, setCommandStatus] = useState<CommandStatus | null>(null);
+  // Block whose menu was closed with Escape; it stays closed while the "/" remains
+  const dismissedSlashBlockRef = useRef<number | null>(null);
+  const [linkPopover, setLinkPopover] = useState<LinkPopoverPosition | null>(null);
+  const [linkForm, setLinkForm] = useState<LinkForm | null>(null);
+
+  // The document model is the source of truth; the DOM is rendered from it after
+  // every transaction and read back into it after native typing
+  const stateRef = useRef<EditorState>({ doc: createDocument(), selection: null, storedMarks: null });
+  // HTML last rendered or reported through onChange, to tell our own updates from outside ones
+  const lastHtmlRef = useRef<string | null>(null);
+  const historyRef = useRef<EditorHistory>({ undo: [], redo: [], lastTypingAt: 0 });
+
+  // Titles matching the typed text, prefix matches first
+  const suggestions = useMemo(() => {
+    if (!linkQuery) return [];
+    const query = wikiLinkKey(linkQuery.query);
+    const seen = new Set<string>();
+    return linkSuggestions
+      .filter(title => {
+        const key = wikiLinkKey(title);
+        if (!key || seen.has(key) || !key.includes(query)) return false;
+        seen.add(key);
+        return true;
+      })
+      .sort((a, b) => Number(wikiLinkKey(b).startsWith(query)) - Number(wikiLinkKey(a).startsWith(query)))
+      .slice(0, MAX_LINK_SUGGESTIONS);
+  }, [linkQuery, linkSuggestions]);
+
+  const slashCommands = useMemo(
+    () => slashQuery ? SlashCommandRegistry.getInstance().search(slashQuery.query) : [],
+    [slashQuery]
+  );
 
-  const executeCommand = useCallback((command: string, value?: string) => {
-    document.execCommand(command, false, value);
+  // The browser selection as document positions, or null when it is outside the editor
+  const readSelection = useCallback((): DocSelection | null => {
+    const editor = editorRef.current;
+    const selection = window.getSelection();
+    if (!editor || !selection?.anchorNode || !selection.focusNode ||
+        !editor.contains(selection.anchorNode) || !editor.contains(selection.focusNode)) {
+      return null;
+    }
+    const { positions: [anchor, focus] } = readDocument(editor, [
+      { node: selection.anchorNode, offset: selection.anchorOffset },
+      { node: selection.focusNode, offset: selection.focusOffset }
+    ]);
+    return anchor && focus ? { anchor, focus } : null;
+  }, []);
+
+  const reportChange = useCallback((html: string) => {
+    if (html === lastHtmlRef.current) return;
+    lastHtmlRef.current = html;
+    onChange(html);
+  }, [onChange]);
+
+  // Shows attached images from their stored data, each with a handle to resize it.
+  // Reading the document back drops both again.
+  const showAttachments = useCallback(() => {
+    const editor = editorRef.current;
+    if (!editor || !noteId) return;
+    editor.querySelectorAll('figure.attachment-image').forEach(figure => {
+      const handle = document.createElement('span');
+      handle.className = 'attachment-resize-handle';
+      handle.title = 'Drag to resize, double-click for the original size';
+      figure.appendChild(handle);
+    });
+    AttachmentService.getInstance().showImages(editor, noteId);
+  }, [noteId]);
+
+  // Replaces the editor DOM with the state's document and restores the selection
+  const render = useCallback((state: EditorState) => {
+    const editor = editorRef.current;
+    stateRef.current = state;
+    setFormat(getActiveFormat(state));
+    if (!editor) return;
+
+    const html = serializeDocument(state.doc);
+    editor.innerHTML = html;
+    showAttachments();
+    reportChange(html);
+    setDomSelection(editor, state);
+  }, [reportChange, showAttachments]);
+
+  const pushHistory = useCallback((state: EditorState, isTyping = false) => {
+    const history = historyRef.current;
+    const now = Date.now();
+    const continuesTyping = isTyping && now - history.lastTypingAt < TYPING_GROUP_MS;
+    history.lastTypingAt = isTyping ? now : 0;
+    if (continuesTyping) return;
+
+    history.undo.push(state);
+    if (history.undo.length > MAX_HISTORY) history.undo.shift();
+    history.redo = [];
+  }, []);
+
+  const undo = useCallback(() => {
+    const history = historyRef.current;
+    const previous = history.undo.pop();
+    if (!previous) return;
+    history.redo.push(stateRef.current);
+    history.lastTypingAt = 0;
+    render(previous);
+  }, [render]);
+
+  const redo = useCallback(() => {
+    const history = historyRef.current;
+    const next = history.redo.pop();
+    if (!next) return;
+    history.undo.push(stateRef.current);
+    history.lastTypingAt = 0;
+    render(next);
+  }, [render]);
+
+  const dispatch = useCallback((transaction: Transaction) => {
+    const current = stateRef.current;
+    const state = { ...current, selection: readSelection() ?? current.selection };
+    const next = applyTransaction(state, transaction);
+
+    if (next.doc === state.doc) {
+      // Only the stored marks or nothing changed
+      stateRef.current = next;
+      setFormat(getActiveFormat(next));
+    } else {
+      pushHistory(state);
+      render(next);
+    }
     editorRef.current?.focus();
+  }, [readSelection, pushHistory, render]);
+
+  // Applies a Markdown shortcut completed by the typed text. The literal text is
+  // kept as an undo step of its own, so undoing right away only reverts the shortcut.
+  const runInputRule = useCallback((text: string): boolean => {
+    if (!INPUT_RULE_TRIGGERS.has(text)) return false;
+    const selection = readSelection();
+    if (!selection) return false;
+    const state = { ...stateRef.current, selection };
+    const next = applyInputRule(state, text);
+    if (!next) return false;
+
+    const literal = applyTransaction(state, text === '\n' ? { type: 'splitBlock' } : { type: 'insertText', text });
+    pushHistory(state);
+    pushHistory(literal);
+    render(next);
+    return true;
+  }, [readSelection, pushHistory, render]);
+
+  // Looks for "[[" before the caret to open the link autocomplete
+  const updateLinkQuery = useCallback(() => {
+    const selection = window.getSelection();
+    const node = selection?.anchorNode;
+    if (!selection || !selection.isCollapsed || !node || node.nodeType !== Node.TEXT_NODE ||
+        !editorRef.current?.contains(node)) {
+      setLinkQuery(null);
+      return;
+    }
+
+    const before = (node.textContent || '').slice(0, selection.anchorOffset);
+    const match = before.match(WIKI_LINK_QUERY_PATTERN);
+    if (!match) {
+      setLinkQuery(null);
+      return;
+    }
+
+    const rect = selection.getRangeAt(0).getBoundingClientRect();
+    setLinkQuery({
+      node: node as Text,
+      start: selection.anchorOffset - match[0].length,
+      query: match[1],
+      top: rect.bottom + 4,
+      left: rect.left
+    });
+    setActiveSuggestion(0);
+  }, []);
+
+  // Opens the command menu while the block holds only "/" and a query before the caret
+  const updateSlashQuery = useCallback(() => {
+    const { doc, selection } = stateRef.current;
+    const block = selection && isCollapsed(selection) ? doc.blocks[selection.focus.block] : undefined;
+    const match = block?.type === 'text' && block.kind !== 'codeBlock' && block.kind !== 'tableCell'
+      ? blockText(block).slice(0, selection!.focus.offset).match(SLASH_QUERY_PATTERN)
+      : null;
+    if (!match || !selection) {
+      dismissedSlashBlockRef.current = null;
+      setSlashQuery(null);
+      return;
+    }
+    if (dismissedSlashBlockRef.current === selection.focus.block) return;
+
+    const rect = window.getSelection()?.getRangeAt(0).getBoundingClientRect();
+    setSlashQuery({ block: selection.focus.block, query: match[1], top: (rect?.bottom ?? 0) + 4, left: rect?.left ?? 0 });
+    setActiveCommand(0);
   }, []);
 
+  // Removes the typed "/query" and runs the command in its place
+  const runSlashCommand = useCallback((command: SlashCommand) => {
+    if (!slashQuery) return;
+    setSlashQuery(null);
+    const position = { block: slashQuery.block, offset: 0 };
+    dispatch({
+      type: 'replaceRange',
+      blocks: [],
+      range: { start: position, end: { block: slashQuery.block, offset: slashQuery.query.length + 1 } }
+    });
+
+    const result = command.run({
+      position,
+      getState: () => stateRef.current,
+      dispatch,
+      html: serializeDocument(stateRef.current.doc),
+      title: noteTitle,
+      noteId
+    });
+    if (result) {
+      setCommandStatus({ label: command.label });
+      result
+        .then(() => setCommandStatus(null))
+        .catch(error => {
+          console.error(`Error running "${command.label}":`, error);
+          setCommandStatus({
+            label: command.label,
+            error: error instanceof Error ? error.message : 'Something went wrong. Please try again.'
+          });
+        });
+    }
+  }, [slashQuery, dispatch, noteTitle, noteId]);
+
+  // Stores pasted, dropped or picked files and inserts them at the position, or
+  // else at the selection. Files that fail are reported; the others are still inserted.
+  const attachFiles = useCallback(async (files: File[], position?: DocPosition) => {
+    if (!noteId || files.length === 0) return;
+    const label = files.length === 1 ? `Attaching ${files[0].name}` : `Attaching ${files.length} files`;
+    setCommandStatus({ label });
+
+    const service = AttachmentService.getInstance();
+    const blocks: Block[] = [];
+    let failure: unknown = null;
+    for (const file of files) {
+      try {
+        blocks.push({ type: 'html', html: attachmentHtml(await service.add(noteId, file)) });
+      } catch (error) {
+        console.error(`Error attaching "${file.name}":`, error);
+        failure = failure ?? error;
+      }
+    }
+
+    if (blocks.length > 0) {
+      dispatch({ type: 'insertBlocks', blocks, position });
+    }
+    setCommandStatus(failure ? {
+      label,
+      error: failure instanceof Error ? failure.message : 'The file could not be attached. Please try again.'
+    } : null);
+  }, [noteId, dispatch]);
+
+  const handleFilesPicked = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    attachFiles(files);
+  }, [attachFiles]);
+
+  // Files dragged over the editor are copied into the note where they are dropped
+  const handleDragOver = useCallback((e: React.DragEvent) => {
+    if (!noteId || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  }, [noteId]);
+
+  const handleDrop = useCallback((e: React.DragEvent) => {
+    const editor = editorRef.current;
+    const files = Array.from(e.dataTransfer.files);
+    if (!editor || !noteId || files.length === 0) return;
+
+    e.preventDefault();
+    const point = domPointFromMouse(e.clientX, e.clientY);
+    const { positions: [position] } = point && editor.contains(point.node)
+      ? readDocument(editor, [point])
+      : { positions: [null] };
+    attachFiles(files, position ?? undefined);
+  }, [noteId, attachFiles]);
+
+  // Replaces the typed "[[query" with a complete link to the chosen title
+  const insertWikiLink = useCallback((title: string) => {
+    const selection = window.getSelection();
+    const editor = editorRef.current;
+    if (!linkQuery || !selection || !editor) return;
+
+    const { node, start } = linkQuery;
+    const text = node.textContent || '';
+    let end = selection.anchorNode === node ? selection.anchorOffset : start + 2 + linkQuery.query.length;
+    if (text.slice(end, end + 2) === ']]') end += 2;
+
+    const { positions: [from, to] } = readDocument(editor, [
+      { node, offset: start },
+      { node, offset: Math.min(end, text.length) }
+    ]);
+    if (from && to) {
+      dispatch({ type: 'insertText', text: `[[${title}]]`, range: { start: from, end: to } });
+    }
+    setLinkQuery(null);
+  }, [linkQuery, dispatch]);
+
+  // Below the link element at the caret, or else below the selection
+  const getLinkPopoverPosition = useCallback((): LinkPopoverPosition | null => {
+    const editor = editorRef.current;
+    const selection = window.getSelection();
+    if (!editor || !selection?.focusNode || selection.rangeCount === 0 || !editor.contains(selection.focusNode)) {
+      return null;
+    }
+    const { focusNode } = selection;
+    const link = (focusNode instanceof Element ? focusNode : focusNode.parentElement)?.closest('a');
+    const rect = link && editor.contains(link)
+      ? link.getBoundingClientRect()
+      : selection.getRangeAt(0).getBoundingClientRect();
+    return { top: rect.bottom + 4, left: rect.left };
+  }, []);
+
+  // Ctrl+K: edits the link at the caret, or links the selected text
+  const openLinkForm = useCallback(() => {
+    const selection = readSelection();
+    const position = getLinkPopoverPosition();
+    if (!selection || !position) return;
+    const { link } = getActiveFormat({ ...stateRef.current, selection });
+    setLinkForm({
+      ...position,
+      href: link ?? '',
+      askText: isCollapsed(selection) && !linkAt(stateRef.current.doc, selection.focus)
+    });
+  }, [readSelection, getLinkPopoverPosition]);
+
+  const applyLink = useCallback((href: string | null, text?: string) => {
+    setLinkForm(null);
+    dispatch({ type: 'setLink', href, text });
+  }, [dispatch]);
+
+  const cancelLinkForm = useCallback(() => {
+    setLinkForm(null);
+    const editor = editorRef.current;
+    if (editor) {
+      editor.focus();
+      setDomSelection(editor, stateRef.current);
+    }
+  }, []);
+
+  // Shows the link at the caret while the editor has focus
+  useEffect(() => {
+    setLinkPopover(isFocused && format.link ? getLinkPopoverPosition() : null);
+  }, [format, isFocused, getLinkPopoverPosition]);
+
+  // Ctrl/Cmd+click opens a web link in a new tab, downloads an attached file, or
+  // follows the [[link]] under the caret
+  const handleEditorClick = useCallback((e: React.MouseEvent) => {
+    setSlashQuery(null);
+    const file = (e.target as HTMLElement).closest?.('figure.attachment-file');
+    if ((e.ctrlKey || e.metaKey) && file && noteId) {
+      e.preventDefault();
+      const attachment = readAttachmentElement(file);
+      if (attachment) {
+        AttachmentService.getInstance().download(noteId, attachment.id)
+          .catch(error => console.error('Error downloading attachment:', error));
+      }
+      return;
+    }
+    const link = (e.target as HTMLElement).closest?.('a[href]');
+    if ((e.ctrlKey || e.metaKey) && link && editorRef.current?.contains(link)) {
+      e.preventDefault();
+      const href = normalizeUrl(link.getAttribute('href') || '');
+      if (href) window.open(href, '_blank', 'noopener,noreferrer');
+      return;
+    }
+    if (!(e.ctrlKey || e.metaKey) || !onWikiLinkClick) {
+      updateLinkQuery();
+      return;
+    }
+
+    const selection = window.getSelection();
+    const node = selection?.anchorNode;
+    if (!selection || !node || node.nodeType !== Node.TEXT_NODE) return;
+
+    const offset = selection.anchorOffset;
+    for (const match of (node.textContent || '').matchAll(WIKI_LINK_PATTERN)) {
+      if (offset >= match.index && offset <= match.index + match[0].length) {
+        e.preventDefault();
+        onWikiLinkClick(match[1].trim());
+        return;
+      }
+    }
+  }, [onWikiLinkClick, updateLinkQuery, noteId]);
+
   const handleToolbarAction = useCallback((action: ToolbarAction) => {
     switch (action.type) {
       case 'bold':
-        executeCommand('bold');
-        setFormat(prev => ({ ...prev, bold: !prev.bold }));
-        break;
       case 'italic':
-        executeCommand('italic');
-        setFormat(prev => ({ ...prev, italic: !prev.italic }));
-        break;
       case 'underline':
-        executeCommand('underline');
-        setFormat(prev => ({ ...prev, underline: !prev.underline }));
+        dispatch({ type: 'toggleMark', mark: action.type });
         break;
       case 'fontSize':
         if (action.value) {
-          executeCommand('fontSize', action.value.toString());
-          setFormat(prev => ({ ...prev, fontSize: Number(action.value) }));
+          dispatch({ type: 'setFontSize', size: Number(action.value) });
         }
         break;
       case 'alignment':
         if (action.value) {
-          const alignmentMap = {
-            left: 'justifyLeft',
-            center: 'justifyCenter',
-            right: 'justifyRight'
-          };
-          executeCommand(alignmentMap[action.value as keyof typeof alignmentMap]);
-          setFormat(prev => ({ ...prev, alignment: action.value as 'left' | 'center' | 'right' }));
+          dispatch({ type: 'setAlignment', align: action.value as Alignment });
+        }
+        break;
+      case 'block':
+        if (action.value) {
+          dispatch({ type: 'setBlockType', attrs: blockFormatAttrs(action.value as BlockFormat) });
+        }
+        break;
+      case 'indent':
+      case 'outdent':
+        dispatch({ type: action.type });
+        break;
+      case 'codeLanguage':
+        dispatch({ type: 'setCodeLanguage', language: String(action.value ?? '') });
+        break;
+      case 'link':
+        openLinkForm();
+        break;
+      case 'insertTable':
+        dispatch({ type: 'insertTable', rows: DEFAULT_TABLE_SIZE, columns: DEFAULT_TABLE_SIZE });
+        break;
+      case 'attachFile':
+        fileInputRef.current?.click();
+        break;
+      case 'table':
+        if (action.value) {
+          dispatch({ type: 'table', command: action.value as TableCommand });
         }
         break;
     }
-  }, [executeCommand]);
+  }, [dispatch, openLinkForm]);
 
+  // Native typing changed the DOM; read it back into the model
   const handleInput = useCallback(() => {
-    if (editorRef.current) {
-      const newContent = editorRef.current.innerHTML;
-      onChange(newContent);
+    const editor = editorRef.current;
+    if (editor) {
+      const selection = window.getSelection();
+      const points = selection?.anchorNode && selection.focusNode
+        ? [
+            { node: selection.anchorNode, offset: selection.anchorOffset },
+            { node: selection.focusNode, offset: selection.focusOffset }
+          ]
+        : [];
+      const { doc, positions: [anchor, focus] } = readDocument(editor, points);
+      const state = { doc, selection: anchor && focus ? { anchor, focus } : null, storedMarks: null };
+      stateRef.current = state;
+      setFormat(getActiveFormat(state));
+      reportChange(serializeDocument(doc));
     }
-  }, [onChange]);
+    updateLinkQuery();
+    updateSlashQuery();
+  }, [reportChange, updateLinkQuery, updateSlashQuery]);
+
+  // Input the model handles itself instead of letting the browser edit the DOM
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor) return;
+
+    const formatMarks: Record<string, ToggleMark> = {
+      formatBold: 'bold',
+      formatItalic: 'italic',
+      formatUnderline: 'underline',
+      formatStrikeThrough: 'strike'
+    };
+
+    // Backspace at the start of a block is handled by the model, except between a
+    // paragraph and an HTML block, which the browser can remove on its own
+    const isAtBlockStart = (): boolean => {
+      const selection = readSelection();
+      if (!selection || !isCollapsed(selection) || selection.focus.offset !== 0) return false;
+      const { blocks } = stateRef.current.doc;
+      const block = blocks[selection.focus.block];
+      return block?.type === 'text' && (block.kind !== 'paragraph' || blocks[selection.focus.block - 1]?.type === 'text');
+    };
+
+    const handleBeforeInput = (e: InputEvent) => {
+      const typed = e.inputType === 'insertParagraph' ? '\n' : e.inputType === 'insertText' ? e.data : null;
+      if (typed && runInputRule(typed)) {
+        e.preventDefault();
+      } else if (e.inputType === 'historyUndo' || e.inputType === 'historyRedo') {
+        e.preventDefault();
+        if (e.inputType === 'historyUndo') undo(); else redo();
+      } else if (formatMarks[e.inputType]) {
+        e.preventDefault();
+        dispatch({ type: 'toggleMark', mark: formatMarks[e.inputType] });
+      } else if (e.inputType === 'insertText' && e.data && stateRef.current.storedMarks) {
+        // Typed text picks up marks toggled with a collapsed selection
+        e.preventDefault();
+        dispatch({ type: 'insertText', text: e.data });
+        historyRef.current.lastTypingAt = Date.now();
+      } else if (e.inputType === 'insertParagraph') {
+        // Enter continues lists and leaves empty items, so the model splits the block
+        e.preventDefault();
+        dispatch({ type: 'splitBlock' });
+      } else if (e.inputType === 'insertLineBreak') {
+        e.preventDefault();
+        dispatch({ type: 'insertText', text: '\n' });
+      } else if (e.inputType === 'deleteContentBackward' && isAtBlockStart()) {
+        // Backspace at the start of a block removes its list, heading or quote first
+        e.preventDefault();
+        dispatch({ type: 'joinBackward' });
+      } else if (e.inputType.startsWith('delete') && !window.getSelection()?.isCollapsed) {
+        // Deleting across lists and quotes would leave the DOM in a shape the model cannot read back
+        e.preventDefault();
+        dispatch({ type: 'replaceRange', blocks: [] });
+      } else {
+        pushHistory(stateRef.current, e.inputType.startsWith('insert') || e.inputType.startsWith('delete'));
+      }
+    };
+
+    editor.addEventListener('beforeinput', handleBeforeInput);
+    return () => editor.removeEventListener('beforeinput', handleBeforeInput);
+  }, [dispatch, undo, redo, pushHistory, readSelection, runInputRule]);
+
+  // Keep the toolbar in sync with the selection; moving the caret drops stored marks
+  useEffect(() => {
+    const handleSelectionChange = () => {
+      const selection = readSelection();
+      if (!selection) return;
+      const current = stateRef.current;
+      const moved = JSON.stringify(selection) !== JSON.stringify(current.selection);
+      if (!moved) return;
+      stateRef.current = { ...current, selection, storedMarks: null };
+      setFormat(getActiveFormat(stateRef.current));
+    };
+
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => document.removeEventListener('selectionchange', handleSelectionChange);
+  }, [readSelection]);
+
+  // Pasted HTML goes through the model so only content it supports is kept, and
+  // web addresses in pasted text become links
+  const handlePaste = useCallback((e: React.ClipboardEvent) => {
+    const html = e.clipboardData.getData('text/html');
+    const text = e.clipboardData.getData('text/plain');
+    const files = Array.from(e.clipboardData.files);
+    // Office apps put a picture of copied text on the clipboard too, so files are
+    // only attached when no text was copied, e.g. for a screenshot or a copied image
+    if (files.length > 0 && !text && noteId) {
+      e.preventDefault();
+      attachFiles(files);
+      return;
+    }
+    if (!html && !text) return;
+
+    e.preventDefault();
+    // A single URL pasted over selected text links the text
+    const selection = readSelection();
+    const [pasted, ...rest] = linkifyRuns([{ text: text.trim(), marks: {} }]);
+    if (selection && !isCollapsed(selection) && pasted?.marks.link && rest.length === 0) {
+      dispatch({ type: 'setLink', href: pasted.marks.link });
+      return;
+    }
+
+    const blocks: Block[] = html
+      ? parseDocument(html).blocks
+      : text.split(/\r?\n/).map(line => createParagraph([{ text: line, marks: {} }]));
+    dispatch({ type: 'replaceRange', blocks: linkifyBlocks(blocks) });
+  }, [dispatch, readSelection, noteId, attachFiles]);
 
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    // Navigate the slash command menu
+    if (slashQuery && slashCommands.length > 0) {
+      switch (e.key) {
+        case 'ArrowDown':
+          e.preventDefault();
+          setActiveCommand(prev => (prev + 1) % slashCommands.length);
+          return;
+        case 'ArrowUp':
+          e.preventDefault();
+          setActiveCommand(prev => (prev - 1 + slashCommands.length) % slashCommands.length);
+          return;
+        case 'Enter':
+        case 'Tab':
+          e.preventDefault();
+          runSlashCommand(slashCommands[activeCommand] || slashCommands[0]);
+          return;
+        case 'Escape':
+          e.preventDefault();
+          dismissedSlashBlockRef.current = slashQuery.block;
+          setSlashQuery(null);
+          return;
+      }
+    }
+
+    // Navigate the link autocomplete
+    if (linkQuery && suggestions.length > 0) {
+      switch (e.key) {
+        case 'ArrowDown':
+          e.preventDefault();
+          setActiveSuggestion(prev => (prev + 1) % suggestions.length);
+          return;
+        case 'ArrowUp':
+          e.preventDefault();
+          setActiveSuggestion(prev => (prev - 1 + suggestions.length) % suggestions.length);
+          return;
+        case 'Enter':
+        case 'Tab':
+          e.preventDefault();
+          insertWikiLink(suggestions[activeSuggestion] || suggestions[0]);
+          return;
+        case 'Escape':
+          e.preventDefault();
+          setLinkQuery(null);
+          return;
+      }
+    }
+
+    if (e.key === 'Tab') {
+      const { block } = format;
+      if (block === 'tableCell') {
+        e.preventDefault();
+        handleToolbarAction({ type: 'table', value: e.shiftKey ? 'previousCell' : 'nextCell' });
+      } else if (block === 'codeBlock' && !e.shiftKey) {
+        e.preventDefault();
+        dispatch({ type: 'insertText', text: '  ' });
+      } else if (block === 'bulletList' || block === 'orderedList' || block === 'checkList') {
+        e.preventDefault();
+        handleToolbarAction({ type: e.shiftKey ? 'outdent' : 'indent' });
+      }
+      return;
+    }
+
+    // Block shortcuts
+    if ((e.ctrlKey || e.metaKey) && e.altKey && CTRL_ALT_BLOCKS[e.code]) {
+      e.preventDefault();
+      handleToolbarAction({ type: 'block', value: CTRL_ALT_BLOCKS[e.code] });
+      return;
+    }
+    if ((e.ctrlKey || e.metaKey) && e.shiftKey && CTRL_SHIFT_BLOCKS[e.code]) {
+      e.preventDefault();
+      handleToolbarAction({ type: 'block', value: CTRL_SHIFT_BLOCKS[e.code] });
+      return;
+    }
+    if ((e.ctrlKey || e.metaKey) && e.key === 'Enter' && format.block === 'checkList') {
+      const selection = readSelection();
+      if (selection) {
+        e.preventDefault();
+        dispatch({ type: 'toggleChecked', block: selection.focus.block });
+      }
+      return;
+    }
+
     // Handle keyboard shortcuts
     if (e.ctrlKey || e.metaKey) {
-      switch (e.key) {
+      switch (e.key.toLowerCase()) {
         case 'b':
           e.preventDefault();
           handleToolbarAction({ type: 'bold' });
@@ -102,15 +862,102 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
           e.preventDefault();
           handleToolbarAction({ type: 'underline' });
           break;
+        case 'k':
+          e.preventDefault();
+          handleToolbarAction({ type: 'link' });
+          break;
+        case 'z':
+          e.preventDefault();
+          if (e.shiftKey) redo(); else undo();
+          break;
+        case 'y':
+          e.preventDefault();
+          redo();
+          break;
+      }
+    }
+  }, [
+    handleToolbarAction, linkQuery, suggestions, activeSuggestion, insertWikiLink, undo, redo, format, dispatch,
+    readSelection, slashQuery, slashCommands, activeCommand, runSlashCommand
+  ]);
+
+  // Dragging the handle of an image resizes it; the width is stored on release
+  const startImageResize = useCallback((e: React.MouseEvent, handle: HTMLElement) => {
+    const editor = editorRef.current;
+    const figure = handle.closest('figure');
+    const image = figure?.querySelector('img');
+    if (!editor || !figure || !image) return;
+
+    e.preventDefault();
+    const startX = e.clientX;
+    const startWidth = image.getBoundingClientRect().width;
+    const maxWidth = figure.parentElement?.clientWidth ?? editor.clientWidth;
+    let width = startWidth;
+
+    const handleMouseMove = (move: MouseEvent) => {
+      width = Math.round(Math.min(Math.max(startWidth + move.clientX - startX, MIN_IMAGE_WIDTH), maxWidth));
+      image.style.width = `${width}px`;
+    };
+    const handleMouseUp = () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+      const { positions: [position] } = readDocument(editor, [{ node: figure, offset: 0 }]);
+      if (position && width !== startWidth) {
+        dispatch({ type: 'resizeImage', block: position.block, width });
       }
+    };
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  }, [dispatch]);
+
+  // Clicking the checkbox of a checklist item toggles it
+  const handleEditorMouseDown = useCallback((e: React.MouseEvent) => {
+    const editor = editorRef.current;
+    const handle = (e.target as HTMLElement).closest?.<HTMLElement>('.attachment-resize-handle');
+    if (handle) {
+      startImageResize(e, handle);
+      return;
+    }
+    const item = (e.target as HTMLElement).closest?.('li[data-checked]');
+    if (!editor || !item || !editor.contains(item)) return;
+    if (e.clientX - item.getBoundingClientRect().left > CHECKBOX_HIT_WIDTH) return;
+
+    e.preventDefault();
+    const { positions: [position] } = readDocument(editor, [{ node: item, offset: 0 }]);
+    if (position) {
+      dispatch({ type: 'toggleChecked', block: position.block });
     }
-  }, [handleToolbarAction]);
+  }, [dispatch, startImageResize]);
+
+  // Double-clicking the resize handle shows the image at its original size again
+  const handleEditorDoubleClick = useCallback((e: React.MouseEvent) => {
+    const editor = editorRef.current;
+    const figure = (e.target as HTMLElement).closest?.('.attachment-resize-handle')?.closest('figure');
+    if (!editor || !figure) return;
 
+    e.preventDefault();
+    const { positions: [position] } = readDocument(editor, [{ node: figure, offset: 0 }]);
+    if (position) {
+      dispatch({ type: 'resizeImage', block: position.block, width: null });
+    }
+  }, [dispatch]);
+
+  // Content replaced from outside, e.g. a restored revision or a change from another tab
   useEffect(() => {
-    if (editorRef.current && editorRef.current.innerHTML !== content) {
-      editorRef.current.innerHTML = content;
+    if (content === lastHtmlRef.current) return;
+    const state = { doc: parseDocument(content), selection: null, storedMarks: null };
+    lastHtmlRef.current = content;
+    historyRef.current = { undo: [], redo: [], lastTypingAt: 0 };
+    stateRef.current = state;
+    setFormat(getActiveFormat(state));
+    if (editorRef.current) {
+      editorRef.current.innerHTML = serializeDocument(state.doc);
+      showAttachments();
     }
-  }, [content]);
+  }, [content, showAttachments]);
+
+  // Toolbar buttons must not take the focus, or the editor selection would be lost
+  const keepEditorSelection = (e: React.MouseEvent) => e.preventDefault();
 
   const handleCustomFocus = () => {
     setIsFocused(true);
@@ -125,6 +972,8 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
   
   const handleCustomBlur = () => {
     setIsFocused(false);
+    setLinkQuery(null);
+    setSlashQuery(null);
     if (onBlur) onBlur();
     
     setTimeout(() => {
@@ -150,6 +999,7 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
         {/* Bold */}
         <button
           type="button"
+          onMouseDown={keepEditorSelection}
           onClick={() => handleToolbarAction({ type: 'bold' })}
           className={clsx(
             "p-2 rounded transition-all duration-200 button-pop",
@@ -165,6 +1015,7 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
         {/* Italic */}
         <button
           type="button"
+          onMouseDown={keepEditorSelection}
           onClick={() => handleToolbarAction({ type: 'italic' })}
           className={clsx(
             "p-2 rounded transition-all duration-200 button-pop",
@@ -180,6 +1031,7 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
         {/* Underline */}
         <button
           type="button"
+          onMouseDown={keepEditorSelection}
           onClick={() => handleToolbarAction({ type: 'underline' })}
           className={clsx(
             "p-2 rounded transition-all duration-200 button-pop",
@@ -192,6 +1044,22 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
           <Underline size={18} className="transition-transform duration-200" />
         </button>
 
+        {/* Link */}
+        <button
+          type="button"
+          onMouseDown={keepEditorSelection}
+          onClick={() => handleToolbarAction({ type: 'link' })}
+          className={clsx(
+            "p-2 rounded transition-all duration-200 button-pop",
+            format.link
+              ? "bg-blue-100 text-blue-600 shadow-sm"
+              : "text-gray-600 hover:bg-gray-200"
+          )}
+          title="Link (Ctrl+K)"
+        >
+          <Link size={18} className="transition-transform duration-200" />
+        </button>
+
         <div className="h-6 w-px bg-gray-300 mx-1 transition-all duration-300" />
 
         {/* Font Size */}
@@ -202,13 +1070,12 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
             onChange={(e) => handleToolbarAction({ type: 'fontSize', value: e.target.value })}
             className="text-sm border border-gray-300 hover:border-blue-300 rounded px-2 py-1 bg-white transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-200"
           >
-            <option value="12">12px</option>
-            <option value="14">14px</option>
-            <option value="16">16px</option>
-            <option value="18">18px</option>
-            <option value="20">20px</option>
-            <option value="24">24px</option>
-            <option value="32">32px</option>
+            {!DOCUMENT_SCHEMA.fontSizes.includes(format.fontSize) && (
+              <option value={format.fontSize}>{format.fontSize}px</option>
+            )}
+            {DOCUMENT_SCHEMA.fontSizes.map(size => (
+              <option key={size} value={size}>{size}px</option>
+            ))}
           </select>
         </div>
 
@@ -217,6 +1084,7 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
         {/* Alignment */}
         <button
           type="button"
+          onMouseDown={keepEditorSelection}
           onClick={() => handleToolbarAction({ type: 'alignment', value: 'left' })}
           className={clsx(
             "p-2 rounded transition-all duration-200 button-pop",
@@ -231,6 +1099,7 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
 
         <button
           type="button"
+          onMouseDown={keepEditorSelection}
           onClick={() => handleToolbarAction({ type: 'alignment', value: 'center' })}
           className={clsx(
             "p-2 rounded transition-all duration-200 button-pop",
@@ -245,6 +1114,7 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
 
         <button
           type="button"
+          onMouseDown={keepEditorSelection}
           onClick={() => handleToolbarAction({ type: 'alignment', value: 'right' })}
           className={clsx(
             "p-2 rounded transition-all duration-200 button-pop",
@@ -256,6 +1126,175 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
         >
           <AlignRight size={18} className="transition-transform duration-200" />
         </button>
+
+        <div className="h-6 w-px bg-gray-300 mx-1 transition-all duration-300" />
+
+        {/* Block types */}
+        {BLOCK_BUTTONS.map(({ format: blockFormat, icon: Icon, title }) => (
+          <button
+            key={blockFormat}
+            type="button"
+            onMouseDown={keepEditorSelection}
+            onClick={() => handleToolbarAction({ type: 'block', value: blockFormat })}
+            className={clsx(
+              "p-2 rounded transition-all duration-200 button-pop",
+              format.block === blockFormat
+                ? "bg-blue-100 text-blue-600 shadow-sm"
+                : "text-gray-600 hover:bg-gray-200"
+            )}
+            title={title}
+          >
+            <Icon size={18} className="transition-transform duration-200" />
+          </button>
+        ))}
+
+        <button
+          type="button"
+          onMouseDown={keepEditorSelection}
+          onClick={() => handleToolbarAction({ type: 'outdent' })}
+          className="p-2 rounded transition-all duration-200 button-pop text-gray-600 hover:bg-gray-200"
+          title="Outdent (Shift+Tab)"
+        >
+          <IndentDecrease size={18} className="transition-transform duration-200" />
+        </button>
+
+        <button
+          type="button"
+          onMouseDown={keepEditorSelection}
+          onClick={() => handleToolbarAction({ type: 'indent' })}
+          className="p-2 rounded transition-all duration-200 button-pop text-gray-600 hover:bg-gray-200"
+          title="Indent (Tab)"
+        >
+          <IndentIncrease size={18} className="transition-transform duration-200" />
+        </button>
+
+        {/* Table */}
+        <button
+          type="button"
+          onMouseDown={keepEditorSelection}
+          onClick={() => handleToolbarAction({ type: 'insertTable' })}
+          className="p-2 rounded transition-all duration-200 button-pop text-gray-600 hover:bg-gray-200"
+          title="Insert table"
+        >
+          <Table size={18} className="transition-transform duration-200" />
+        </button>
+
+        {/* Attach file */}
+        {noteId && (
+          <>
+            <button
+              type="button"
+              onMouseDown={keepEditorSelection}
+              onClick={() => handleToolbarAction({ type: 'attachFile' })}
+              className="p-2 rounded transition-all duration-200 button-pop text-gray-600 hover:bg-gray-200"
+              title="Attach image or file"
+            >
+              <Paperclip size={18} className="transition-transform duration-200" />
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              onChange={handleFilesPicked}
+              className="hidden"
+              aria-hidden="true"
+              tabIndex={-1}
+            />
+          </>
+        )}
+
+        {format.table && (
+          <div className="flex items-center gap-1 pl-1 border-l border-gray-300" role="group" aria-label="Table">
+            {TABLE_BUTTONS.map(({ command, icon: Icon, title }) => (
+              <button
+                key={command}
+                type="button"
+                onMouseDown={keepEditorSelection}
+                onClick={() => handleToolbarAction({ type: 'table', value: command })}
+                className="p-2 rounded transition-all duration-200 button-pop text-gray-600 hover:bg-gray-200"
+                title={title}
+              >
+                <Icon size={18} className="transition-transform duration-200" />
+              </button>
+            ))}
+            <button
+              type="button"
+              onMouseDown={keepEditorSelection}
+              onClick={() => handleToolbarAction({ type: 'table', value: 'toggleHeader' })}
+              className={clsx(
+                "p-2 rounded transition-all duration-200 button-pop",
+                format.table.header
+                  ? "bg-blue-100 text-blue-600 shadow-sm"
+                  : "text-gray-600 hover:bg-gray-200"
+              )}
+              title="Header row"
+            >
+              <PanelTop size={18} className="transition-transform duration-200" />
+            </button>
+            <button
+              type="button"
+              onMouseDown={keepEditorSelection}
+              onClick={() => handleToolbarAction({ type: 'table', value: 'deleteTable' })}
+              className="p-2 rounded transition-all duration-200 button-pop text-red-600 hover:bg-red-50"
+              title="Delete table"
+            >
+              <Grid2x2X size={18} className="transition-transform duration-200" />
+            </button>
+          </div>
+        )}
+
+        {/* Code block language */}
+        {format.codeLanguage !== null && (
+          <input
+            key={format.codeLanguage}
+            defaultValue={format.codeLanguage}
+            placeholder="Language"
+            onBlur={(e) => {
+              if (e.target.value !== format.codeLanguage) {
+                handleToolbarAction({ type: 'codeLanguage', value: e.target.value });
+              }
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleToolbarAction({ type: 'codeLanguage', value: e.currentTarget.value });
+              }
+            }}
+            className="w-28 text-sm border border-gray-300 hover:border-blue-300 rounded px-2 py-1 bg-white transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-200"
+            aria-label="Code block language"
+          />
+        )}
+
+        {/* Slash command or attachment progress */}
+        {commandStatus && (
+          <div
+            className={clsx(
+              "ml-auto flex items-center gap-1.5 px-2 py-1 text-xs rounded",
+              commandStatus.error ? "bg-red-50 text-red-700" : "text-gray-600"
+            )}
+            role="status"
+          >
+            {commandStatus.error ? (
+              <>
+                <span>{commandStatus.error}</span>
+                <button
+                  type="button"
+                  onMouseDown={keepEditorSelection}
+                  onClick={() => setCommandStatus(null)}
+                  className="p-0.5 hover:text-red-900"
+                  aria-label="Dismiss"
+                >
+                  <X size={12} />
+                </button>
+              </>
+            ) : (
+              <>
+                <Loader2 size={14} className="animate-spin" />
+                <span>{commandStatus.label}…</span>
+              </>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Editor */}
@@ -264,6 +1303,12 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
         contentEditable
         onInput={handleInput}
         onKeyDown={handleKeyDown}
+        onMouseDown={handleEditorMouseDown}
+        onDoubleClick={handleEditorDoubleClick}
+        onPaste={handlePaste}
+        onDragOver={handleDragOver}
+        onDrop={handleDrop}
+        onClick={handleEditorClick}
         onFocus={handleCustomFocus}
         onBlur={handleCustomBlur}
         className={clsx(
@@ -271,7 +1316,7 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
           isFocused && "text-appear"
         )}
         style={{ 
-          fontSize: `${format.fontSize}px`,
+          fontSize: `${DOCUMENT_SCHEMA.defaultFontSize}px`,
           transition: 'all 0.3s ease',
           backgroundColor: isFocused ? 'rgba(249, 250, 251, 1)' : 'rgba(255, 255, 255, 1)'
         }}
@@ -279,6 +1324,74 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
         suppressContentEditableWarning={true}
       />
 
+      {/* Slash command menu */}
+      {slashQuery && slashCommands.length > 0 && (
+        <SlashCommandMenu
+          commands={slashCommands}
+          activeIndex={activeCommand}
+          top={slashQuery.top}
+          left={slashQuery.left}
+          onSelect={runSlashCommand}
+          onHover={setActiveCommand}
+        />
+      )}
+
+      {/* Link popover */}
+      {linkForm ? (
+        <LinkPopover
+          href={linkForm.href}
+          top={linkForm.top}
+          left={linkForm.left}
+          isEditing
+          askText={linkForm.askText}
+          onRemove={() => applyLink(null)}
+          onSubmit={applyLink}
+          onCancel={cancelLinkForm}
+          onBlur={() => setLinkForm(null)}
+        />
+      ) : linkPopover && format.link && !slashQuery && !linkQuery && (
+        <LinkPopover
+          href={format.link}
+          top={linkPopover.top}
+          left={linkPopover.left}
+          isEditing={false}
+          onRemove={() => applyLink(null)}
+          onEdit={openLinkForm}
+        />
+      )}
+
+      {/* Link autocomplete */}
+      {linkQuery && suggestions.length > 0 && (
+        <div
+          className="fixed z-50 w-64 max-h-64 overflow-y-auto py-1 bg-white border border-gray-200 rounded-lg shadow-lg"
+          style={{ top: linkQuery.top, left: linkQuery.left }}
+          role="listbox"
+          aria-label="Link to note"
+        >
+          {suggestions.map((title, index) => (
+            <button
+              key={title}
+              type="button"
+              // Keep focus in the editor so the caret position survives
+              onMouseDown={(e) => {
+                e.preventDefault();
+                insertWikiLink(title);
+              }}
+              onMouseEnter={() => setActiveSuggestion(index)}
+              className={clsx(
+                "w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm",
+                index === activeSuggestion ? "bg-blue-50 text-blue-700" : "text-gray-700"
+              )}
+              role="option"
+              aria-selected={index === activeSuggestion}
+            >
+              <FileText size={14} className="flex-shrink-0 text-gray-400" />
+              <span className="truncate">{title}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
       <style>{`
         .rich-text-editor:empty:before {
           content: attr(data-placeholder);
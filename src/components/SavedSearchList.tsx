@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import type { SavedSearch } from '../types';
+import { Search, Pencil, Trash2, AlertTriangle } from 'lucide-react';
+import { clsx } from 'clsx';
+
+interface SavedSearchListProps {
+  savedSearches: SavedSearch[];
+  // Matching note count per saved search; null when its query no longer parses
+  counts: Map<string, number | null>;
+  activeQuery: string;
+  onSelect: (search: SavedSearch) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const SavedSearchList: React.FC<SavedSearchListProps> = ({
+  savedSearches,
+  counts,
+  activeQuery,
+  onSelect,
+  onRename,
+  onDelete
+}) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
+
+  const submitRename = () => {
+    if (renamingId && editValue.trim()) {
+      onRename(renamingId, editValue.trim());
+    }
+    setRenamingId(null);
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      submitRename();
+    } else if (e.key === 'Escape') {
+      setRenamingId(null);
+    }
+  };
+
+  if (savedSearches.length === 0) return null;
+
+  return (
+    <div className="py-2 border-b border-gray-200">
+      <p className="px-4 pb-1 text-xs font-medium text-gray-500 uppercase tracking-wider">Smart folders</p>
+
+      <div className="max-h-40 overflow-y-auto">
+        {savedSearches.map(search => {
+          const count = counts.get(search.id);
+          const isActive = activeQuery.trim() === search.query.trim();
+
+          if (renamingId === search.id) {
+            return (
+              <div key={search.id} className="flex items-center gap-1.5 mx-2 px-2 py-1">
+                <Search size={13} className="text-gray-400 flex-shrink-0" />
+                <input
+                  autoFocus
+                  value={editValue}
+                  onChange={(e) => setEditValue(e.target.value)}
+                  onKeyDown={handleEditKeyDown}
+                  onBlur={submitRename}
+                  className="flex-1 min-w-0 px-1.5 py-0.5 text-sm border border-gray-300 rounded bg-white focus:outline-none focus:border-gray-400"
+                  aria-label="Smart folder name"
+                />
+              </div>
+            );
+          }
+
+          return (
+            <div
+              key={search.id}
+              onClick={() => onSelect(search)}
+              className={clsx(
+                'group flex items-center gap-1.5 mx-2 px-2 py-1 text-sm rounded cursor-pointer transition-colors',
+                isActive ? 'bg-gray-200 text-gray-900' : 'text-gray-700 hover:bg-gray-100'
+              )}
+              title={search.query}
+            >
+              <Search size={13} className="text-gray-400 flex-shrink-0" />
+              <span className="flex-1 truncate">{search.name}</span>
+
+              <div className="hidden group-hover:flex items-center gap-0.5">
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setRenamingId(search.id);
+                    setEditValue(search.name);
+                  }}
+                  className="p-0.5 text-gray-400 hover:text-gray-700"
+                  title="Rename"
+                  aria-label={`Rename ${search.name}`}
+                >
+                  <Pencil size={12} />
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDelete(search.id);
+                  }}
+                  className="p-0.5 text-gray-400 hover:text-red-600"
+                  title="Delete smart folder"
+                  aria-label={`Delete ${search.name}`}
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+              {count === null ? (
+                <span className="group-hover:hidden" title="This query has a syntax error">
+                  <AlertTriangle size={12} className="text-amber-500" />
+                </span>
+              ) : (
+                <span className="text-xs text-gray-400 group-hover:hidden">{count}</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React, { useEffect, useRef } from 'react';
+import type { SlashCommand } from '../services/slashCommands';
+import { clsx } from 'clsx';
+
+interface SlashCommandMenuProps {
+  commands: SlashCommand[];
+  activeIndex: number;
+  top: number;
+  left: number;
+  onSelect: (command: SlashCommand) => void;
+  onHover: (index: number) => void;
+}
+
+export const SlashCommandMenu: React.FC<SlashCommandMenuProps> = ({
+  commands,
+  activeIndex,
+  top,
+  left,
+  onSelect,
+  onHover
+}) => {
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the highlighted command visible while moving through the list with the keyboard
+  useEffect(() => {
+    const active = listRef.current?.querySelector<HTMLElement>('[aria-selected="true"]');
+    active?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  return (
+    <div
+      ref={listRef}
+      className="fixed z-50 w-72 max-h-80 overflow-y-auto py-1 bg-white border border-gray-200 rounded-lg shadow-lg"
+      style={{ top, left }}
+      role="listbox"
+      aria-label="Insert block or run command"
+    >
+      {commands.map((command, index) => {
+        const Icon = command.icon;
+        const startsGroup = index === 0 || commands[index - 1].group !== command.group;
+        return (
+          <React.Fragment key={command.id}>
+            {startsGroup && (
+              <p className="px-3 pt-2 pb-1 text-xs font-medium text-gray-500 uppercase tracking-wider">{command.group}</p>
+            )}
+            <button
+              type="button"
+              // Keep focus in the editor so the caret position survives
+              onMouseDown={(e) => {
+                e.preventDefault();
+                onSelect(command);
+              }}
+              onMouseEnter={() => onHover(index)}
+              className={clsx(
+                "w-full flex items-center gap-3 px-3 py-1.5 text-left",
+                index === activeIndex ? "bg-blue-50" : "hover:bg-gray-50"
+              )}
+              role="option"
+              aria-selected={index === activeIndex}
+            >
+              <span className="flex-shrink-0 p-1.5 border border-gray-200 rounded bg-white text-gray-600">
+                <Icon size={16} />
+              </span>
+              <span className="min-w-0">
+                <span className={clsx("block text-sm truncate", index === activeIndex ? "text-blue-700" : "text-gray-800")}>
+                  {command.label}
+                </span>
+                <span className="block text-xs text-gray-500 truncate">{command.description}</span>
+              </span>
+            </button>
+          </React.Fragment>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,242 @@
+import React, { useState, useMemo } from 'react';
+import type { Note, TagFilterMode } from '../types';
+import { summarizeTags, tagKey } from '../utils/tags';
+import { Hash, Pencil, Trash2, Merge, ChevronRight, ChevronDown } from 'lucide-react';
+import { clsx } from 'clsx';
+
+interface TagBrowserProps {
+  notes: Note[];
+  selectedTags: string[]; // tag keys, see tagKey
+  filterMode: TagFilterMode;
+  onToggleTag: (tag: string) => void;
+  onClearTags: () => void;
+  onFilterModeChange: (mode: TagFilterMode) => void;
+  onRenameTag: (from: string, to: string) => void;
+  onMergeTags: (sources: string[], target: string) => void;
+  onDeleteTag: (tag: string) => void;
+}
+
+type EditState =
+  | { mode: 'rename'; tag: string }
+  | { mode: 'merge' };
+
+export const TagBrowser: React.FC<TagBrowserProps> = ({
+  notes,
+  selectedTags,
+  filterMode,
+  onToggleTag,
+  onClearTags,
+  onFilterModeChange,
+  onRenameTag,
+  onMergeTags,
+  onDeleteTag
+}) => {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const [editing, setEditing] = useState<EditState | null>(null);
+  const [editValue, setEditValue] = useState('');
+  const [confirmDeleteTag, setConfirmDeleteTag] = useState<string | null>(null);
+
+  const tags = useMemo(() => summarizeTags(notes), [notes]);
+  const selectedNames = tags.filter(tag => selectedTags.includes(tagKey(tag.name))).map(tag => tag.name);
+
+  const startRename = (tag: string) => {
+    setEditing({ mode: 'rename', tag });
+    setEditValue(tag);
+    setConfirmDeleteTag(null);
+  };
+
+  const startMerge = () => {
+    setEditing({ mode: 'merge' });
+    setEditValue(selectedNames[0] || '');
+    setConfirmDeleteTag(null);
+  };
+
+  const submitEdit = () => {
+    if (!editing) return;
+    const name = editValue.trim().replace(/^#/, '');
+    if (name) {
+      if (editing.mode === 'rename') {
+        if (name !== editing.tag) onRenameTag(editing.tag, name);
+      } else {
+        onMergeTags(selectedNames, name);
+      }
+    }
+    setEditing(null);
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      submitEdit();
+    } else if (e.key === 'Escape') {
+      setEditing(null);
+    }
+  };
+
+  // Renaming onto another existing tag merges the two
+  const mergeTarget = editing?.mode === 'rename' && editValue.trim()
+    ? tags.find(tag =>
+        tagKey(tag.name) === tagKey(editValue.replace(/^#/, '')) && tagKey(tag.name) !== tagKey(editing.tag)
+      )
+    : undefined;
+
+  const renderEditInput = (placeholder: string) => (
+    <div className="mx-2 py-1">
+      <div className="flex items-center gap-1.5 px-2">
+        <Hash size={13} className="text-gray-400 flex-shrink-0" />
+        <input
+          autoFocus
+          value={editValue}
+          onChange={(e) => setEditValue(e.target.value)}
+          onKeyDown={handleEditKeyDown}
+          onBlur={submitEdit}
+          placeholder={placeholder}
+          className="flex-1 min-w-0 px-1.5 py-0.5 text-sm border border-gray-300 rounded bg-white focus:outline-none focus:border-gray-400"
+          aria-label={placeholder}
+        />
+      </div>
+      {mergeTarget && (
+        <p className="px-2 pt-1 text-[11px] text-gray-500">Will be merged into #{mergeTarget.name}</p>
+      )}
+    </div>
+  );
+
+  if (tags.length === 0) return null;
+
+  return (
+    <div className="py-2 border-b border-gray-200">
+      <div className="flex items-center justify-between px-4 pb-1">
+        <button
+          onClick={() => setIsCollapsed(!isCollapsed)}
+          className="flex items-center gap-1 text-xs font-medium text-gray-500 uppercase tracking-wider hover:text-gray-700"
+          aria-expanded={!isCollapsed}
+        >
+          {isCollapsed ? <ChevronRight size={12} /> : <ChevronDown size={12} />}
+          Tags
+        </button>
+
+        {selectedTags.length > 0 && (
+          <div className="flex items-center gap-2">
+            {selectedTags.length > 1 && (
+              <div className="flex text-[11px] border border-gray-300 rounded overflow-hidden" role="group" aria-label="Tag filter mode">
+                {(['and', 'or'] as const).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => onFilterModeChange(mode)}
+                    className={clsx(
+                      'px-1.5 py-0.5 uppercase transition-colors',
+                      filterMode === mode ? 'bg-gray-900 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'
+                    )}
+                    title={mode === 'and' ? 'Notes with all selected tags' : 'Notes with any selected tag'}
+                    aria-pressed={filterMode === mode}
+                  >
+                    {mode}
+                  </button>
+                ))}
+              </div>
+            )}
+            <button
+              onClick={onClearTags}
+              className="text-xs text-gray-500 hover:text-gray-900 transition-colors"
+            >
+              Clear
+            </button>
+          </div>
+        )}
+      </div>
+
+      {!isCollapsed && (
+        <>
+          <div className="max-h-48 overflow-y-auto">
+            {tags.map(tag => {
+              const isSelected = selectedTags.includes(tagKey(tag.name));
+
+              if (editing?.mode === 'rename' && editing.tag === tag.name) {
+                return <React.Fragment key={tag.name}>{renderEditInput('Tag name')}</React.Fragment>;
+              }
+
+              return (
+                <React.Fragment key={tag.name}>
+                  <div
+                    onClick={() => onToggleTag(tag.name)}
+                    className={clsx(
+                      'group flex items-center gap-1.5 mx-2 px-2 py-1 text-sm rounded cursor-pointer transition-colors',
+                      isSelected ? 'bg-gray-200 text-gray-900' : 'text-gray-700 hover:bg-gray-100'
+                    )}
+                    role="checkbox"
+                    aria-checked={isSelected}
+                  >
+                    <Hash size={13} className="text-gray-400 flex-shrink-0" />
+                    <span className="flex-1 truncate">{tag.name}</span>
+
+                    <div className="hidden group-hover:flex items-center gap-0.5">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          startRename(tag.name);
+                        }}
+                        className="p-0.5 text-gray-400 hover:text-gray-700"
+                        title="Rename"
+                        aria-label={`Rename tag ${tag.name}`}
+                      >
+                        <Pencil size={12} />
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setConfirmDeleteTag(tag.name);
+                          setEditing(null);
+                        }}
+                        className="p-0.5 text-gray-400 hover:text-red-600"
+                        title="Delete tag"
+                        aria-label={`Delete tag ${tag.name}`}
+                      >
+                        <Trash2 size={12} />
+                      </button>
+                    </div>
+                    <span className="text-xs text-gray-400 group-hover:hidden">{tag.count}</span>
+                  </div>
+
+                  {confirmDeleteTag === tag.name && (
+                    <div className="mx-2 my-1 p-2 bg-red-50 border border-red-200 rounded text-xs text-red-700">
+                      <p className="mb-2">
+                        Remove #{tag.name} from {tag.count} {tag.count === 1 ? 'note' : 'notes'}?
+                      </p>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => {
+                            onDeleteTag(tag.name);
+                            setConfirmDeleteTag(null);
+                          }}
+                          className="px-2 py-0.5 bg-red-600 hover:bg-red-700 text-white rounded transition-colors"
+                        >
+                          Delete
+                        </button>
+                        <button
+                          onClick={() => setConfirmDeleteTag(null)}
+                          className="px-2 py-0.5 text-red-700 hover:bg-red-100 rounded transition-colors"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </div>
+
+          {editing?.mode === 'merge' ? renderEditInput('Merge into tag') : selectedNames.length > 1 && (
+            <button
+              onClick={startMerge}
+              className="flex items-center gap-1.5 mx-2 mt-1 px-2 py-1 text-xs text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded transition-colors"
+            >
+              <Merge size={12} />
+              Merge {selectedNames.length} tags
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
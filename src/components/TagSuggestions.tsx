@@ -1,13 +1,19 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { AIService } from '../services/aiService';
+import type { AIPriority } from '../services/aiScheduler';
+import { toAIError } from '../services/aiErrors';
+import type { AIError } from '../services/aiErrors';
+import { htmlToPlainText } from '../utils/plainText';
 import { Sparkles, Tag, Plus, X, Loader2, RefreshCw } from 'lucide-react';
 import { clsx } from 'clsx';
+import { AIErrorNotice } from './AIErrorNotice';
 
 interface TagSuggestionsProps {
     content: string;
     title: string;
     currentTags: string[];
     onTagsUpdate: (tags: string[]) => void;
+    onOpenAISettings?: () => void;
     className?: string;
 }
 
@@ -16,16 +22,18 @@ export const TagSuggestions: React.FC<TagSuggestionsProps> = ({
     title,
     currentTags,
     onTagsUpdate,
+    onOpenAISettings,
     className = ''
 }) => {
     const [suggestedTags, setSuggestedTags] = useState<string[]>([]);
     const [loading, setLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<AIError | null>(null);
     const [lastGeneratedContent, setLastGeneratedContent] = useState('');
+    const abortRef = useRef<AbortController | null>(null);
 
     // Auto-generate tags when content changes (debounced)
     useEffect(() => {
-        const plainText = content.replace(/<[^>]*>/g, '').trim();
+        const plainText = htmlToPlainText(content);
 
         // Only generate if content is substantial and different from last time
         if (plainText.length < 50 || plainText === lastGeneratedContent) {
@@ -39,20 +47,27 @@ export const TagSuggestions: React.FC<TagSuggestionsProps> = ({
         return () => clearTimeout(timer);
     }, [content, title]);
 
-    const generateTags = async () => {
-        const plainText = content.replace(/<[^>]*>/g, '').trim();
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const generateTags = async (priority: AIPriority = 'background') => {
+        const plainText = htmlToPlainText(content);
 
         if (plainText.length < 20) {
             setSuggestedTags([]);
             return;
         }
 
+        // A request for older content that is still queued is no longer needed
+        abortRef.current?.abort();
+        const controller = new AbortController();
+        abortRef.current = controller;
+
         setLoading(true);
         setError(null);
 
         try {
             const aiService = AIService.getInstance();
-            const tags = await aiService.generateTags(content, title);
+            const tags = await aiService.generateTags(content, title, { signal: controller.signal, priority });
 
             // Filter out tags that are already applied
             const newTags = tags.filter(
@@ -64,11 +79,14 @@ export const TagSuggestions: React.FC<TagSuggestionsProps> = ({
             setSuggestedTags(newTags);
             setLastGeneratedContent(plainText);
         } catch (err) {
+            if (controller.signal.aborted) return;
             console.error('Error generating tags:', err);
-            setError('Failed to generate tag suggestions');
+            setError(toAIError(err));
             setSuggestedTags([]);
         } finally {
-            setLoading(false);
+            if (abortRef.current === controller) {
+                setLoading(false);
+            }
         }
     };
 
@@ -121,7 +139,7 @@ export const TagSuggestions: React.FC<TagSuggestionsProps> = ({
                         Tags
                     </label>
                     <button
-                        onClick={generateTags}
+                        onClick={() => generateTags('user')}
                         disabled={loading}
                         className="flex items-center gap-1 text-xs text-purple-600 hover:text-purple-700 disabled:opacity-50 transition-colors"
                         title="Generate AI tag suggestions"
@@ -180,9 +198,12 @@ export const TagSuggestions: React.FC<TagSuggestionsProps> = ({
 
                     {/* Error State */}
                     {error && (
-                        <div className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-lg p-2">
-                            {error}
-                        </div>
+                        <AIErrorNotice
+                            error={error}
+                            onOpenSettings={onOpenAISettings}
+                            onRetry={() => generateTags('user')}
+                            className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-lg p-2"
+                        />
                     )}
 
                     {/* Loading State */}
@@ -1,5 +1,7 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { AIService } from '../services/aiService';
+import { toAIError } from '../services/aiErrors';
+import type { AIError } from '../services/aiErrors';
 import { 
   X, 
   Languages, 
@@ -13,6 +15,7 @@ import {
   Globe
 } from 'lucide-react';
 import { clsx } from 'clsx';
+import { AIErrorNotice } from './AIErrorNotice';
 
 interface TranslationModalProps {
   isOpen: boolean;
@@ -20,6 +23,7 @@ interface TranslationModalProps {
   content: string;
   title: string;
   onReplaceContent: (newContent: string) => void;
+  onOpenAISettings?: () => void;
 }
 
 export const TranslationModal: React.FC<TranslationModalProps> = ({
@@ -27,16 +31,19 @@ export const TranslationModal: React.FC<TranslationModalProps> = ({
   onClose,
   content,
   title,
-  onReplaceContent
+  onReplaceContent,
+  onOpenAISettings
 }) => {
   const [selectedLanguage, setSelectedLanguage] = useState('es');
   const [translatedContent, setTranslatedContent] = useState('');
   const [detectedLanguage, setDetectedLanguage] = useState<string | null>(null);
   const [isTranslating, setIsTranslating] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  // Text for problems with the input, an AIError for failed requests
+  const [error, setError] = useState<string | AIError | null>(null);
   const [copied, setCopied] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [preserveFormatting, setPreserveFormatting] = useState(true);
+  const abortRef = useRef<AbortController | null>(null);
 
   const languages = AIService.SUPPORTED_LANGUAGES;
 
@@ -68,36 +75,54 @@ export const TranslationModal: React.FC<TranslationModalProps> = ({
     }
   }, [isOpen]);
 
+  // Closing the modal, or switching to another note under it, cancels a translation in progress
+  useEffect(() => () => abortRef.current?.abort(), [isOpen, content]);
+
   const handleTranslate = async () => {
     if (!content.trim()) {
       setError('No content to translate');
       return;
     }
 
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     setIsTranslating(true);
     setError(null);
     setTranslatedContent('');
 
     try {
       const aiService = AIService.getInstance();
-      const result = await aiService.translateContent(
+      // Shows the translation as it is written
+      for await (const result of aiService.streamTranslation(
         content,
         selectedLanguage,
-        preserveFormatting
-      );
-
-      setTranslatedContent(result.translatedContent);
-      if (result.detectedSourceLanguage) {
-        setDetectedLanguage(result.detectedSourceLanguage);
+        preserveFormatting,
+        { signal: controller.signal }
+      )) {
+        setTranslatedContent(result.translatedContent);
+        if (result.detectedSourceLanguage) {
+          setDetectedLanguage(result.detectedSourceLanguage);
+        }
       }
     } catch (err) {
+      if (controller.signal.aborted) {
+        // A stopped translation is incomplete, so it is not offered for copying or replacing
+        setTranslatedContent('');
+        return;
+      }
       console.error('Translation error:', err);
-      setError(err instanceof Error ? err.message : 'Translation failed. Please try again.');
+      setError(toAIError(err));
     } finally {
-      setIsTranslating(false);
+      if (abortRef.current === controller) {
+        setIsTranslating(false);
+      }
     }
   };
 
+  const handleStop = () => abortRef.current?.abort();
+
   const handleCopy = async () => {
     if (!translatedContent) return;
 
@@ -255,19 +280,22 @@ export const TranslationModal: React.FC<TranslationModalProps> = ({
 
           {/* Translate Button */}
           <button
-            onClick={handleTranslate}
-            disabled={isTranslating || !content.trim()}
+            onClick={isTranslating ? handleStop : handleTranslate}
+            disabled={!isTranslating && !content.trim()}
             className={clsx(
               'w-full py-3 px-4 rounded-xl font-semibold text-white transition-all duration-300 flex items-center justify-center gap-2',
-              isTranslating || !content.trim()
-                ? 'bg-gray-400 cursor-not-allowed'
-                : 'bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg hover:shadow-xl transform hover:-translate-y-0.5'
+              isTranslating
+                ? 'bg-gray-500 hover:bg-gray-600'
+                : !content.trim()
+                  ? 'bg-gray-400 cursor-not-allowed'
+                  : 'bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg hover:shadow-xl transform hover:-translate-y-0.5'
             )}
           >
             {isTranslating ? (
               <>
                 <Loader2 className="animate-spin" size={20} />
                 <span>Translating to {selectedLangInfo?.name}...</span>
+                <span className="font-normal opacity-80">Stop</span>
               </>
             ) : (
               <>
@@ -280,9 +308,18 @@ export const TranslationModal: React.FC<TranslationModalProps> = ({
 
           {/* Error Message */}
           {error && (
-            <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm animate-shake">
-              {error}
-            </div>
+            typeof error === 'string' ? (
+              <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm animate-shake">
+                {error}
+              </div>
+            ) : (
+              <AIErrorNotice
+                error={error}
+                onOpenSettings={onOpenAISettings}
+                onRetry={handleTranslate}
+                className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm animate-shake"
+              />
+            )
           )}
 
           {/* Translation Result */}
@@ -308,8 +345,9 @@ export const TranslationModal: React.FC<TranslationModalProps> = ({
               <div className="flex gap-3">
                 <button
                   onClick={handleCopy}
+                  disabled={isTranslating}
                   className={clsx(
-                    'flex-1 py-2.5 px-4 rounded-lg font-medium transition-all duration-200 flex items-center justify-center gap-2',
+                    'flex-1 py-2.5 px-4 rounded-lg font-medium transition-all duration-200 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed',
                     copied
                       ? 'bg-green-100 text-green-700 border border-green-200'
                       : 'bg-gray-100 text-gray-700 hover:bg-gray-200 border border-gray-200'
@@ -330,7 +368,8 @@ export const TranslationModal: React.FC<TranslationModalProps> = ({
                 
                 <button
                   onClick={handleReplace}
-                  className="flex-1 py-2.5 px-4 rounded-lg font-medium bg-blue-600 text-white hover:bg-blue-700 transition-all duration-200 flex items-center justify-center gap-2 shadow-md hover:shadow-lg"
+                  disabled={isTranslating}
+                  className="flex-1 py-2.5 px-4 rounded-lg font-medium bg-blue-600 text-white hover:bg-blue-700 transition-all duration-200 flex items-center justify-center gap-2 shadow-md hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   <Replace size={18} />
                   <span>Replace Note Content</span>
@@ -1,5 +1,6 @@
 import { useState, useCallback } from 'react';
 import { EncryptionService } from '../services/encryptionService';
+import { AttachmentService } from '../services/attachmentService';
 import type { Note } from '../types';
 
 export interface EncryptionState {
@@ -32,6 +33,7 @@ export const useEncryption = () => {
       });
 
       const encryptionResult = await encryptionService.encrypt(contentToEncrypt, password);
+      await AttachmentService.getInstance().encryptForNote(note.id, password);
 
       // Create encrypted note
       const encryptedNote: Note = {
@@ -83,6 +85,7 @@ export const useEncryption = () => {
 
       // Parse decrypted content
       const parsedContent = JSON.parse(decryptedContent);
+      await AttachmentService.getInstance().decryptForNote(note.id, password);
 
       // Create decrypted note
       const decryptedNote: Note = {
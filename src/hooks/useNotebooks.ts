@@ -0,0 +1,124 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Notebook } from '../types';
+import { NotebookRepository } from '../services/notebookRepository';
+import { SyncService } from '../services/syncService';
+import type { RestoreStrategy } from '../services/backupService';
+import { BackupService } from '../services/backupService';
+import { getNotebookSubtreeIds } from '../utils/notebooks';
+
+export const useNotebooks = () => {
+  const [notebooks, setNotebooks] = useState<Notebook[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Snapshot of what is currently persisted, used to write only changed notebooks
+  const persistedRef = useRef<Map<string, Notebook>>(new Map());
+
+  const loadNotebooks = useCallback(() => {
+    return NotebookRepository.getInstance().getAll().then((stored) => {
+      persistedRef.current = new Map(stored.map(notebook => [notebook.id, notebook]));
+      setNotebooks(stored);
+    });
+  }, []);
+
+  // Load notebooks from IndexedDB on mount
+  useEffect(() => {
+    loadNotebooks()
+      .catch(error => console.error('Error loading notebooks:', error))
+      .finally(() => setLoading(false));
+  }, [loadNotebooks]);
+
+  // Persist only the notebooks that changed since the last write
+  useEffect(() => {
+    if (loading) return;
+
+    const persisted = persistedRef.current;
+    const upserts = notebooks.filter(notebook => persisted.get(notebook.id) !== notebook);
+    const currentIds = new Set(notebooks.map(notebook => notebook.id));
+    const deletedIds = Array.from(persisted.keys()).filter(id => !currentIds.has(id));
+
+    if (upserts.length === 0 && deletedIds.length === 0) return;
+
+    persistedRef.current = new Map(notebooks.map(notebook => [notebook.id, notebook]));
+
+    NotebookRepository.getInstance()
+      .applyChanges(upserts, deletedIds)
+      .then(() => SyncService.getInstance().publish({ type: 'notebooks-changed' }))
+      .catch((error) => {
+        console.error('Error saving notebooks:', error);
+        // Forget the failed writes so the next change retries them
+        upserts.forEach(notebook => persistedRef.current.delete(notebook.id));
+        deletedIds.forEach(id => {
+          const previous = persisted.get(id);
+          if (previous) persistedRef.current.set(id, previous);
+        });
+      });
+  }, [notebooks, loading]);
+
+  // Reload the hierarchy when another tab changes it
+  useEffect(() => {
+    if (loading) return;
+
+    return SyncService.getInstance().subscribe((message) => {
+      if (message.type !== 'notebooks-changed') return;
+      loadNotebooks().catch(error => console.error('Error syncing notebooks from another tab:', error));
+    });
+  }, [loading, loadNotebooks]);
+
+  const createNotebook = useCallback((name: string, parentId: string | null = null): Notebook => {
+    const notebook: Notebook = {
+      id: `notebook-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      name: name.trim() || 'Untitled Notebook',
+      parentId,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    setNotebooks(prev => [...prev, notebook]);
+    return notebook;
+  }, []);
+
+  const renameNotebook = useCallback((id: string, name: string) => {
+    if (!name.trim()) return;
+    setNotebooks(prev => prev.map(notebook =>
+      notebook.id === id
+        ? { ...notebook, name: name.trim(), updatedAt: new Date() }
+        : notebook
+    ));
+  }, []);
+
+  // Re-parents a notebook; moves that would create a cycle are ignored
+  const moveNotebook = useCallback((id: string, parentId: string | null) => {
+    setNotebooks(prev => {
+      if (parentId && getNotebookSubtreeIds(prev, id).has(parentId)) return prev;
+      return prev.map(notebook =>
+        notebook.id === id
+          ? { ...notebook, parentId, updatedAt: new Date() }
+          : notebook
+      );
+    });
+  }, []);
+
+  /**
+   * Deletes a notebook with all nested notebooks and returns their ids so the
+   * caller can move the notes inside them to the trash
+   */
+  const deleteNotebook = useCallback((id: string): string[] => {
+    const removed = getNotebookSubtreeIds(notebooks, id);
+    setNotebooks(prev => prev.filter(notebook => !removed.has(notebook.id)));
+    return Array.from(removed);
+  }, [notebooks]);
+
+  // Applies notebooks from a validated backup
+  const restoreNotebooks = useCallback((incoming: Notebook[], strategy: RestoreStrategy) => {
+    setNotebooks(prev => BackupService.getInstance().applyNotebookRestore(prev, incoming, strategy));
+  }, []);
+
+  return {
+    notebooks,
+    loading,
+    createNotebook,
+    renameNotebook,
+    moveNotebook,
+    deleteNotebook,
+    restoreNotebooks
+  };
+};
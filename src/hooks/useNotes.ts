@@ -1,73 +1,246 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import type { Note } from '../types';
-
-const STORAGE_KEY = 'notes-app-data';
+import { NoteRepository } from '../services/noteRepository';
+import { RevisionService } from '../services/revisionService';
+import { AttachmentService } from '../services/attachmentService';
+import { AICacheService } from '../services/aiCache';
+import { QuarantineService } from '../services/quarantineService';
+import { toStorageError } from '../services/database';
+import { SyncService } from '../services/syncService';
+import { BackupService } from '../services/backupService';
+import { SearchIndex } from '../services/searchIndex';
+import type { BackupAttachment, RestoreStrategy } from '../services/backupService';
+import { replaceTags } from '../utils/tags';
+import { renameWikiLinks, wikiLinkKey } from '../utils/wikiLinks';
 
 // No welcome note or sample note data in this version
 
-export const useNotes = () => {
-  const [notes, setNotes] = useState<Note[]>([]);
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface RemoteNotesChange {
+  updated: Note[];
+  deletedIds: string[];
+}
+
+interface UseNotesOptions {
+  // Days a trashed note is kept before it is purged automatically; 0 disables auto-purge
+  trashRetentionDays?: number;
+  // Called after changes saved in another tab have been merged into state
+  onRemoteChange?: (change: RemoteNotesChange) => void;
+}
+
+/**
+ * Keeps [[links]] pointing at a note after its title changes. Links are left alone
+ * when another note still has the old title or already has the new one, since
+ * they may be meant for that note.
+ */
+const rewriteLinksToRenamedNote = (notes: Note[], renamed: Note, newTitle: string): Note[] => {
+  const oldKey = wikiLinkKey(renamed.title);
+  const newKey = wikiLinkKey(newTitle);
+  if (!oldKey || !newKey || oldKey === newKey) return notes;
+
+  const isAmbiguous = notes.some(note =>
+    note.id !== renamed.id && !note.deletedAt &&
+    (wikiLinkKey(note.title) === oldKey || wikiLinkKey(note.title) === newKey)
+  );
+  if (isAmbiguous) return notes;
+
+  const now = new Date();
+  return notes.map(note => {
+    if (note.isEncrypted || note.readOnly) return note;
+    const content = renameWikiLinks(note.content, renamed.title, newTitle);
+    return content === note.content ? note : { ...note, content, updatedAt: now };
+  });
+};
+
+/**
+ * Deletes attachments left behind by notes that no longer exist. Attachments of
+ * quarantined notes are kept so those notes can still be recovered.
+ */
+const removeOrphanedAttachments = (storedNotes: Note[]) => {
+  QuarantineService.getInstance().getAll()
+    .then(quarantined => AttachmentService.getInstance().removeOrphans([
+      ...storedNotes.map(note => note.id),
+      ...quarantined.flatMap(record => record.recordId ?? [])
+    ]))
+    .catch(error => console.error('Error cleaning up attachments:', error));
+};
+
+export const useNotes = ({ trashRetentionDays = 0, onRemoteChange }: UseNotesOptions = {}) => {
+  const [allNotes, setAllNotes] = useState<Note[]>([]);
   const [loading, setLoading] = useState(true);
+  const [storageError, setStorageError] = useState<Error | null>(null);
+  const [quarantinedCount, setQuarantinedCount] = useState(0);
+
+  // Snapshot of what is currently persisted, used to write only changed notes
+  const persistedRef = useRef<Map<string, Note>>(new Map());
+  const onRemoteChangeRef = useRef(onRemoteChange);
+  onRemoteChangeRef.current = onRemoteChange;
 
-  // Load notes from localStorage on mount
+  // Load notes from IndexedDB on mount (imports legacy localStorage data once)
   useEffect(() => {
-    try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (stored) {
-        const parsedNotes = JSON.parse(stored);
-        // Convert date strings back to Date objects
-        const notesWithDates = parsedNotes.map((note: any) => ({
-          ...note,
-          createdAt: new Date(note.createdAt),
-          updatedAt: new Date(note.updatedAt)
-        }));
-        
-        // Filter out any welcome notes that might exist from previous versions
-        const filteredNotes = notesWithDates.filter((note: Note) => 
-          note.id !== 'welcome-note' && note.id !== 'grammar-test-note'
-        );
-        
-        setNotes(filteredNotes);
-      } else {
-        // Start with an empty notes array
-        setNotes([]);
-        localStorage.setItem(STORAGE_KEY, JSON.stringify([]));
-      }
-    } catch (error) {
-      console.error('Error loading notes from localStorage:', error);
-    } finally {
-      setLoading(false);
-    }
+    let cancelled = false;
+    const repository = NoteRepository.getInstance();
+
+    // Count quarantined records only after loading, which may quarantine more
+    repository.getAll()
+      .then(async (storedNotes) => [storedNotes, await repository.getQuarantinedCount()] as const)
+      .then(([storedNotes, quarantined]) => {
+        if (cancelled) return;
+        persistedRef.current = new Map(storedNotes.map(note => [note.id, note]));
+        setAllNotes(storedNotes);
+        setQuarantinedCount(quarantined);
+        removeOrphanedAttachments(storedNotes);
+      })
+      .catch((error) => {
+        console.error('Error loading notes from storage:', error);
+        if (!cancelled) {
+          setStorageError(toStorageError(error, 'Failed to load notes'));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
-  // Save notes to localStorage whenever notes change
+  // Persist only the notes that changed since the last write
   useEffect(() => {
-    if (!loading) {
-      try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(notes));
-      } catch (error) {
-        console.error('Error saving notes to localStorage:', error);
-      }
-    }
-  }, [notes, loading]);
+    if (loading) return;
+
+    const persisted = persistedRef.current;
+    const upserts = allNotes.filter(note => persisted.get(note.id) !== note);
+    const currentIds = new Set(allNotes.map(note => note.id));
+    const deletedIds = Array.from(persisted.keys()).filter(id => !currentIds.has(id));
+
+    if (upserts.length === 0 && deletedIds.length === 0) return;
+
+    persistedRef.current = new Map(allNotes.map(note => [note.id, note]));
+
+    NoteRepository.getInstance()
+      .applyChanges(upserts, deletedIds)
+      .then(() => {
+        setStorageError(null);
+        SyncService.getInstance().publish({
+          type: 'notes-changed',
+          upsertedIds: upserts.map(note => note.id),
+          deletedIds
+        });
+        // Purged notes take their revision history, attachments and AI answers with them
+        RevisionService.getInstance()
+          .deleteForNotes(deletedIds)
+          .catch(error => console.error('Error deleting note history:', error));
+        AttachmentService.getInstance()
+          .deleteForNotes(deletedIds)
+          .catch(error => console.error('Error deleting attachments:', error));
+        AICacheService.getInstance()
+          .deleteForNotes(deletedIds)
+          .catch(error => console.error('Error deleting AI answers:', error));
+      })
+      .catch((error) => {
+        console.error('Error saving notes to storage:', error);
+        // Forget the failed writes so the next change retries them
+        upserts.forEach(note => persistedRef.current.delete(note.id));
+        deletedIds.forEach(id => {
+          const previous = persisted.get(id);
+          if (previous) persistedRef.current.set(id, previous);
+        });
+        setStorageError(toStorageError(error, 'Failed to save notes'));
+      });
+  }, [allNotes, loading]);
+
+  // Merge notes saved by other tabs. Merged notes are also recorded as persisted
+  // so they are not written back and re-broadcast.
+  useEffect(() => {
+    if (loading) return;
+
+    const unsubscribe = SyncService.getInstance().subscribe((message) => {
+      if (message.type !== 'notes-changed') return;
+
+      NoteRepository.getInstance()
+        .getByIds(message.upsertedIds)
+        .then((updated) => {
+          const updatedById = new Map(updated.map(note => [note.id, note]));
+          // Ids that no longer load were removed (or quarantined) in the meantime
+          const deletedIds = new Set([
+            ...message.deletedIds,
+            ...message.upsertedIds.filter(id => !updatedById.has(id))
+          ]);
+
+          updated.forEach(note => persistedRef.current.set(note.id, note));
+          deletedIds.forEach(id => persistedRef.current.delete(id));
+
+          setAllNotes(prev => {
+            const merged = prev
+              .filter(note => !deletedIds.has(note.id))
+              .map(note => updatedById.get(note.id) ?? note);
+            const existingIds = new Set(prev.map(note => note.id));
+            const added = updated.filter(note => !existingIds.has(note.id));
+            return [...added, ...merged];
+          });
+
+          onRemoteChangeRef.current?.({ updated, deletedIds: Array.from(deletedIds) });
+        })
+        .catch(error => console.error('Error merging changes from another tab:', error));
+    });
+
+    return unsubscribe;
+  }, [loading]);
+
+  // Auto-purge trashed notes past the retention period. Encrypted notes are skipped
+  // because permanently deleting them always requires the note password.
+  useEffect(() => {
+    if (loading || trashRetentionDays <= 0) return;
+
+    const purgeExpired = () => {
+      const cutoff = Date.now() - trashRetentionDays * DAY_MS;
+      setAllNotes(prev => {
+        const kept = prev.filter(note =>
+          !note.deletedAt || note.isEncrypted || note.readOnly || note.deletedAt.getTime() >= cutoff
+        );
+        return kept.length === prev.length ? prev : kept;
+      });
+    };
 
-  const createNote = useCallback((): Note => {
+    purgeExpired();
+    const intervalId = setInterval(purgeExpired, TRASH_PURGE_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [loading, trashRetentionDays]);
+
+  const notes = useMemo(() => allNotes.filter(note => !note.deletedAt), [allNotes]);
+  const trashedNotes = useMemo(
+    () => allNotes
+      .filter(note => note.deletedAt)
+      .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime()),
+    [allNotes]
+  );
+
+  const clearStorageError = useCallback(() => {
+    setStorageError(null);
+  }, []);
+
+  const createNote = useCallback((notebookId?: string): Note => {
     const newNote: Note = {
       id: `note-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       title: '',
       content: '',
       isPinned: false,
       createdAt: new Date(),
-      updatedAt: new Date()
+      updatedAt: new Date(),
+      ...(notebookId && { notebookId })
     };
 
-    setNotes(prev => [newNote, ...prev]);
+    setAllNotes(prev => [newNote, ...prev]);
     return newNote;
   }, []);
 
   const updateNote = useCallback((noteData: Partial<Note> & { id: string }) => {
-    setNotes(prev => prev.map(note => 
-      note.id === noteData.id 
+    setAllNotes(prev => prev.map(note => 
+      note.id === noteData.id && !note.readOnly
         ? { 
             ...note, 
             ...noteData, 
@@ -77,6 +250,14 @@ export const useNotes = () => {
     ));
   }, []);
 
+  // Called once a rename is committed rather than on every save of the title
+  const renameNoteLinks = useCallback((id: string, previousTitle: string, newTitle: string) => {
+    setAllNotes(prev => {
+      const renamed = prev.find(note => note.id === id);
+      return renamed ? rewriteLinksToRenamedNote(prev, { ...renamed, title: previousTitle }, newTitle) : prev;
+    });
+  }, []);
+
   const saveNote = useCallback((noteData: Partial<Note>) => {
     if (noteData.id) {
       // Update existing note
@@ -91,18 +272,107 @@ export const useNotes = () => {
         createdAt: noteData.createdAt || new Date(),
         updatedAt: new Date()
       };
-      setNotes(prev => [newNote, ...prev]);
+      setAllNotes(prev => [newNote, ...prev]);
       return newNote;
     }
   }, [updateNote]);
 
+  // Adds notes created outside the editor (e.g. imported files)
+  const importNotes = useCallback((imported: Note[]) => {
+    if (imported.length === 0) return;
+    setAllNotes(prev => [...imported, ...prev]);
+  }, []);
+
+  // Applies notes from a validated backup using the chosen merge strategy
+  const restoreNotes = useCallback((incoming: Note[], strategy: RestoreStrategy, attachments: BackupAttachment[] = []) => {
+    const backup = BackupService.getInstance();
+    // Chosen up front so the copied attachments follow their notes
+    const copyIds = strategy === 'copies' ? backup.createCopyIds(incoming) : undefined;
+    setAllNotes(prev => backup.applyRestore(prev, incoming, strategy, copyIds));
+    AttachmentService.getInstance()
+      .restoreFromBackup(attachments, strategy, copyIds)
+      .catch(error => console.error('Error restoring attachments:', error));
+  }, []);
+
+  // Files a note in a notebook, or takes it out of its notebook when notebookId is null
+  const moveNoteToNotebook = useCallback((id: string, notebookId: string | null) => {
+    setAllNotes(prev => prev.map(note =>
+      note.id === id && !note.readOnly && note.notebookId !== (notebookId ?? undefined)
+        ? { ...note, notebookId: notebookId ?? undefined, updatedAt: new Date() }
+        : note
+    ));
+  }, []);
+
+  // Sends the notes of deleted notebooks to the trash; they come back unfiled if restored
+  const trashNotebookNotes = useCallback((notebookIds: string[]) => {
+    const removed = new Set(notebookIds);
+    const now = new Date();
+    setAllNotes(prev => prev.map(note => {
+      if (!note.notebookId || !removed.has(note.notebookId) || note.readOnly) return note;
+      return note.deletedAt
+        ? { ...note, notebookId: undefined }
+        : { ...note, notebookId: undefined, deletedAt: now };
+    }));
+  }, []);
+
+  /**
+   * Renames or merges tags across every note, including the trash. A null target
+   * deletes the tags instead.
+   */
+  const replaceTagInNotes = useCallback((sources: string[], target: string | null) => {
+    const now = new Date();
+    setAllNotes(prev => prev.map(note => {
+      if (!note.tags || note.readOnly) return note;
+      const tags = replaceTags(note.tags, sources, target);
+      return tags === note.tags ? note : { ...note, tags, updatedAt: now };
+    }));
+  }, []);
+
+  const renameTag = useCallback((from: string, to: string) => {
+    if (!to.trim()) return;
+    replaceTagInNotes([from], to.trim());
+  }, [replaceTagInNotes]);
+
+  const mergeTags = useCallback((sources: string[], target: string) => {
+    if (!target.trim()) return;
+    replaceTagInNotes(sources, target.trim());
+  }, [replaceTagInNotes]);
+
+  const deleteTag = useCallback((tag: string) => {
+    replaceTagInNotes([tag], null);
+  }, [replaceTagInNotes]);
+
+  // Moves a note to the trash; it can be restored until it is purged, pinned
+  // again if it was
   const deleteNote = useCallback((id: string) => {
-    setNotes(prev => prev.filter(note => note.id !== id));
+    setAllNotes(prev => prev.map(note =>
+      note.id === id && !note.readOnly
+        ? { ...note, deletedAt: new Date() }
+        : note
+    ));
+  }, []);
+
+  const restoreNote = useCallback((id: string) => {
+    setAllNotes(prev => prev.map(note =>
+      note.id === id && !note.readOnly
+        ? { ...note, deletedAt: undefined, updatedAt: new Date() }
+        : note
+    ));
+  }, []);
+
+  // Permanently removes a note; callers must verify the password for encrypted notes first
+  const purgeNote = useCallback((id: string) => {
+    setAllNotes(prev => prev.filter(note => note.id !== id || note.readOnly));
+  }, []);
+
+  // Purges every trashed note that is not encrypted
+  const emptyTrash = useCallback(() => {
+    setAllNotes(prev => prev.filter(note => !note.deletedAt || note.isEncrypted || note.readOnly));
   }, []);
 
   const pinNote = useCallback((id: string) => {
-    setNotes(prev => prev.map(note => 
-      note.id === id 
+    setAllNotes(prev => prev.map(note => 
+      note.id === id && !note.readOnly
         ? { ...note, isPinned: !note.isPinned, updatedAt: new Date() }
         : note
     ));
@@ -116,32 +386,36 @@ export const useNotes = () => {
         id: `note-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
         title: `${originalNote.title} (Copy)`,
         isPinned: false,
+        // A copy of a note from a newer version of the app is this version's to edit
+        readOnly: undefined,
         createdAt: new Date(),
         updatedAt: new Date()
       };
-      setNotes(prev => [duplicatedNote, ...prev]);
+      setAllNotes(prev => [duplicatedNote, ...prev]);
+      AttachmentService.getInstance()
+        .copyForNote(originalNote.id, duplicatedNote.id)
+        .catch(error => console.error('Error copying attachments:', error));
       return duplicatedNote;
     }
   }, [notes]);
 
   const getNoteById = useCallback((id: string): Note | undefined => {
-    return notes.find(note => note.id === id);
-  }, [notes]);
+    return allNotes.find(note => note.id === id);
+  }, [allNotes]);
 
+  // Ranked search over the active notes
   const searchNotes = useCallback((query: string): Note[] => {
     if (!query.trim()) return notes;
-    
-    const lowercaseQuery = query.toLowerCase();
-    return notes.filter(note => 
-      note.title.toLowerCase().includes(lowercaseQuery) ||
-      note.content.replace(/<[^>]*>/g, '').toLowerCase().includes(lowercaseQuery)
-    );
+
+    const index = SearchIndex.getInstance();
+    index.update(notes);
+    return index.search(query).map(result => result.note);
   }, [notes]);
 
   const getNotesStats = useCallback(() => {
     return {
       total: notes.length,
-      pinned: notes.filter(note => note.isPinned).length,
+      pinned: notes.filter(note => note.isPinned && !note.deletedAt).length,
       recent: notes.filter(note => {
         const dayAgo = new Date();
         dayAgo.setDate(dayAgo.getDate() - 1);
@@ -152,11 +426,26 @@ export const useNotes = () => {
 
   return {
     notes,
+    trashedNotes,
     loading,
+    storageError,
+    clearStorageError,
+    quarantinedCount,
     createNote,
     updateNote,
+    renameNoteLinks,
     saveNote,
+    importNotes,
+    restoreNotes,
+    moveNoteToNotebook,
+    trashNotebookNotes,
+    renameTag,
+    mergeTags,
+    deleteTag,
     deleteNote,
+    restoreNote,
+    purgeNote,
+    emptyTrash,
     pinNote,
     duplicateNote,
     getNoteById,
@@ -1,4 +1,9 @@
 import { useState, useEffect, useCallback } from 'react';
+import { upgradeRecord } from '../services/schema';
+import type { Migration, PersistedEnvelope, SchemaDefinition } from '../services/schema';
+import { QuarantineService } from '../services/quarantineService';
+import { DEFAULT_AI_SETTINGS } from '../services/aiService';
+import type { AIModelChoice, AISettings, SavedSearch } from '../types';
 
 export interface UserPreferences {
   theme: 'light' | 'dark' | 'auto';
@@ -9,6 +14,10 @@ export interface UserPreferences {
   showWordCount: boolean;
   defaultNoteFormat: 'plain' | 'rich';
   encryptionEnabled: boolean;
+  trashRetentionDays: number; // 0 keeps trashed notes until purged manually
+  savedSearches: SavedSearch[];
+  fuzzySearchThreshold: number; // Share of a word's letters that may be mistyped in search; 0 turns it off
+  aiSettings: AISettings; // AI provider and model, overridable per feature
 }
 
 const DEFAULT_PREFERENCES: UserPreferences = {
@@ -19,11 +28,124 @@ const DEFAULT_PREFERENCES: UserPreferences = {
   autoSave: true,
   showWordCount: true,
   defaultNoteFormat: 'rich',
-  encryptionEnabled: false
+  encryptionEnabled: false,
+  trashRetentionDays: 30,
+  savedSearches: [],
+  fuzzySearchThreshold: 0.25,
+  aiSettings: DEFAULT_AI_SETTINGS
 };
 
 const STORAGE_KEY = 'smart-notes-preferences';
 
+// Allowed values for enum-like preferences; other keys are checked against the default's type
+const PREFERENCE_OPTIONS: Partial<Record<keyof UserPreferences, readonly string[]>> = {
+  theme: ['light', 'dark', 'auto'],
+  fontSize: ['small', 'medium', 'large'],
+  defaultNoteFormat: ['plain', 'rich']
+};
+
+const PREFERENCE_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Wrap legacy preferences in a versioned envelope',
+    up: (data) => ({ ...data })
+  }
+];
+
+const isSavedSearchList = (value: unknown): boolean =>
+  Array.isArray(value) && value.every(item =>
+    typeof item === 'object' && item !== null &&
+    typeof item.id === 'string' && typeof item.name === 'string' && typeof item.query === 'string'
+  );
+
+const AI_PROVIDERS: readonly string[] = ['gemini', 'groq', 'openai'];
+
+const isModelChoice = (value: unknown): value is AIModelChoice =>
+  typeof value === 'object' && value !== null &&
+  AI_PROVIDERS.includes((value as AIModelChoice).provider) && typeof (value as AIModelChoice).model === 'string';
+
+const isAISettings = (value: unknown): boolean => {
+  if (typeof value !== 'object' || value === null) return false;
+  const settings = value as AISettings;
+  return isModelChoice(settings.default) &&
+    typeof settings.openaiBaseUrl === 'string' &&
+    typeof settings.features === 'object' && settings.features !== null &&
+    Object.values(settings.features).every(isModelChoice);
+};
+
+const isPreferenceValid = (key: keyof UserPreferences, value: unknown): boolean => {
+  if (key === 'savedSearches') return isSavedSearchList(value);
+  if (key === 'aiSettings') return isAISettings(value);
+  const options = PREFERENCE_OPTIONS[key];
+  if (options) return typeof value === 'string' && options.includes(value);
+  return typeof value === typeof DEFAULT_PREFERENCES[key];
+};
+
+const validatePreferences = (data: Record<string, unknown>): string[] => {
+  return (Object.keys(DEFAULT_PREFERENCES) as Array<keyof UserPreferences>)
+    .filter(key => data[key] !== undefined && !isPreferenceValid(key, data[key]))
+    .map(key => `${key} has invalid value ${JSON.stringify(data[key])}`);
+};
+
+export const PREFERENCES_SCHEMA: SchemaDefinition<UserPreferences> = {
+  currentVersion: PREFERENCE_MIGRATIONS.length,
+  migrations: PREFERENCE_MIGRATIONS,
+  validate: validatePreferences,
+  hydrate: (data) => ({ ...DEFAULT_PREFERENCES, ...data }) as UserPreferences
+};
+
+const isEnvelope = (value: unknown): value is PersistedEnvelope<Record<string, unknown>> =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as PersistedEnvelope<unknown>).schemaVersion === 'number' &&
+  'data' in value;
+
+/**
+ * Keeps the valid fields of a rejected preferences object and falls back to defaults for the rest
+ */
+const salvagePreferences = (data: unknown): UserPreferences => {
+  if (typeof data !== 'object' || data === null) return DEFAULT_PREFERENCES;
+  const record = data as Record<string, unknown>;
+  const salvaged = { ...DEFAULT_PREFERENCES };
+  (Object.keys(DEFAULT_PREFERENCES) as Array<keyof UserPreferences>).forEach(key => {
+    if (isPreferenceValid(key, record[key])) {
+      (salvaged as Record<string, unknown>)[key] = record[key];
+    }
+  });
+  return salvaged;
+};
+
+/**
+ * Parses the stored envelope, migrating and validating it. Invalid data is
+ * quarantined and replaced by whatever fields can be salvaged.
+ */
+const parseStoredPreferences = (stored: string): UserPreferences => {
+  const parsed: unknown = JSON.parse(stored);
+  // Versions before the envelope stored the preferences object directly
+  const fromVersion = isEnvelope(parsed) ? parsed.schemaVersion : 0;
+  const data = isEnvelope(parsed) ? parsed.data : parsed;
+  const upgrade = upgradeRecord(data, fromVersion, PREFERENCES_SCHEMA);
+
+  if (upgrade.status === 'current' || upgrade.status === 'migrated') {
+    return upgrade.value;
+  }
+  // Settings saved by a newer version are not invalid; use what this version understands
+  if (upgrade.status === 'newer') {
+    return upgrade.value ?? salvagePreferences(data);
+  }
+
+  // Keep the original blob in quarantine before overwriting it with salvaged values
+  const errors = upgrade.status === 'invalid' ? upgrade.errors : ['Preferences record was retired'];
+  console.warn('Quarantined stored preferences:', errors);
+  QuarantineService.getInstance().add([{
+    source: 'preferences',
+    schemaVersion: fromVersion,
+    errors,
+    raw: parsed,
+    quarantinedAt: new Date()
+  }]).catch(error => console.error('Error quarantining preferences:', error));
+  return salvagePreferences(data);
+};
+
 export const useUserPreferences = () => {
   const [preferences, setPreferences] = useState<UserPreferences>(DEFAULT_PREFERENCES);
   const [loading, setLoading] = useState(true);
@@ -33,8 +155,7 @@ export const useUserPreferences = () => {
     try {
       const stored = localStorage.getItem(STORAGE_KEY);
       if (stored) {
-        const parsedPreferences = JSON.parse(stored);
-        setPreferences({ ...DEFAULT_PREFERENCES, ...parsedPreferences });
+        setPreferences(parseStoredPreferences(stored));
       }
     } catch (error) {
       console.error('Error loading user preferences:', error);
@@ -43,11 +164,30 @@ export const useUserPreferences = () => {
     }
   }, []);
 
+  // Pick up preference changes saved by other tabs
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== STORAGE_KEY || !event.newValue) return;
+      try {
+        setPreferences(parseStoredPreferences(event.newValue));
+      } catch (error) {
+        console.error('Error syncing user preferences from another tab:', error);
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
   // Save preferences to localStorage whenever preferences change
   useEffect(() => {
     if (!loading) {
       try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+        const envelope: PersistedEnvelope<UserPreferences> = {
+          schemaVersion: PREFERENCES_SCHEMA.currentVersion,
+          data: preferences
+        };
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(envelope));
       } catch (error) {
         console.error('Error saving user preferences:', error);
       }
@@ -65,10 +205,16 @@ export const useUserPreferences = () => {
     setPreferences(DEFAULT_PREFERENCES);
   }, []);
 
+  // Replaces every preference at once, e.g. when restoring a backup
+  const replacePreferences = useCallback((next: UserPreferences) => {
+    setPreferences(next);
+  }, []);
+
   return {
     preferences,
     loading,
     updatePreference,
-    resetPreferences
+    resetPreferences,
+    replacePreferences
   };
 };
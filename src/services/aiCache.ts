@@ -0,0 +1,175 @@
+import type { AIFeature } from '../types';
+import {
+  openDatabase,
+  requestToPromise,
+  transactionToPromise,
+  toStorageError,
+  AI_CACHE_STORE
+} from './database';
+
+// Answers kept at most; the least recently used go first
+const MAX_ENTRIES = 500;
+
+// What produced an answer besides its input; part of the answer's cache key
+export interface AICacheSource {
+  provider: string;
+  model: string;
+  promptVersion: number;
+}
+
+export interface AICacheEntry<T = unknown> {
+  key: string;
+  feature: AIFeature;
+  value: T;
+  // The term of a glossary definition, so definitions can be listed for backups
+  term?: string;
+  // The note an answer quotes, so it goes when the note is encrypted or purged
+  noteId?: string;
+  // Recorded for glossary definitions, so a restored definition keeps its key
+  source?: AICacheSource;
+  createdAt: number;
+  lastUsedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * SHA-256 of the parts an answer depends on, as hex
+ */
+export const hashCacheKey = async (parts: unknown[]): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(parts)));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Keeps AI answers in IndexedDB across reloads, bounded by age and count
+export class AICacheService {
+  private static instance: AICacheService;
+
+  static getInstance(): AICacheService {
+    if (!AICacheService.instance) {
+      AICacheService.instance = new AICacheService();
+    }
+    return AICacheService.instance;
+  }
+
+  /**
+   * The entry stored under a key, or null once it has expired. A hit counts as
+   * a use for eviction.
+   */
+  async get<T>(key: string): Promise<AICacheEntry<T> | null> {
+    const db = await openDatabase();
+    try {
+      const entry = await requestToPromise(
+        db.transaction(AI_CACHE_STORE, 'readonly').objectStore(AI_CACHE_STORE).get(key) as IDBRequest<AICacheEntry<T> | undefined>
+      );
+      if (!entry) return null;
+
+      const now = Date.now();
+      const transaction = db.transaction(AI_CACHE_STORE, 'readwrite');
+      const store = transaction.objectStore(AI_CACHE_STORE);
+      if (entry.expiresAt <= now) {
+        store.delete(key);
+      } else {
+        store.put({ ...entry, lastUsedAt: now });
+      }
+      await transactionToPromise(transaction);
+      return entry.expiresAt <= now ? null : entry;
+    } catch (error) {
+      throw toStorageError(error, 'Failed to read the AI cache');
+    }
+  }
+
+  /**
+   * Stores an answer for ttlMs, then drops expired entries and the least recently
+   * used beyond the limit
+   */
+  async set<T>(entry: Pick<AICacheEntry<T>, 'key' | 'feature' | 'value' | 'term' | 'noteId' | 'source'>, ttlMs: number): Promise<void> {
+    const db = await openDatabase();
+    const now = Date.now();
+    try {
+      const transaction = db.transaction(AI_CACHE_STORE, 'readwrite');
+      const store = transaction.objectStore(AI_CACHE_STORE);
+      store.put({ ...entry, createdAt: now, lastUsedAt: now, expiresAt: now + ttlMs });
+
+      const expired = store.index('expiresAt').openKeyCursor(IDBKeyRange.upperBound(now));
+      expired.onsuccess = () => {
+        const cursor = expired.result;
+        if (cursor) {
+          store.delete(cursor.primaryKey);
+          cursor.continue();
+        }
+      };
+
+      const count = store.count();
+      count.onsuccess = () => {
+        let excess = count.result - MAX_ENTRIES;
+        if (excess <= 0) return;
+        const oldest = store.index('lastUsedAt').openKeyCursor();
+        oldest.onsuccess = () => {
+          const cursor = oldest.result;
+          if (cursor && excess > 0) {
+            store.delete(cursor.primaryKey);
+            excess--;
+            cursor.continue();
+          }
+        };
+      };
+
+      await transactionToPromise(transaction);
+    } catch (error) {
+      throw toStorageError(error, 'Failed to save to the AI cache');
+    }
+  }
+
+  /**
+   * Entries of one feature that have not expired
+   */
+  async getAll<T>(feature: AIFeature): Promise<AICacheEntry<T>[]> {
+    const db = await openDatabase();
+    const index = db.transaction(AI_CACHE_STORE, 'readonly').objectStore(AI_CACHE_STORE).index('feature');
+    const entries = await requestToPromise(index.getAll(feature) as IDBRequest<AICacheEntry<T>[]>);
+    const now = Date.now();
+    return entries.filter(entry => entry.expiresAt > now);
+  }
+
+  /**
+   * Deletes the answers about the given notes
+   */
+  async deleteForNotes(noteIds: string[]): Promise<void> {
+    if (noteIds.length === 0) return;
+
+    const db = await openDatabase();
+    try {
+      const transaction = db.transaction(AI_CACHE_STORE, 'readwrite');
+      const store = transaction.objectStore(AI_CACHE_STORE);
+      noteIds.forEach(noteId => {
+        const request = store.index('noteId').openKeyCursor(IDBKeyRange.only(noteId));
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (cursor) {
+            store.delete(cursor.primaryKey);
+            cursor.continue();
+          }
+        };
+      });
+      await transactionToPromise(transaction);
+    } catch (error) {
+      throw toStorageError(error, 'Failed to delete from the AI cache');
+    }
+  }
+
+  async count(): Promise<number> {
+    const db = await openDatabase();
+    return requestToPromise(db.transaction(AI_CACHE_STORE, 'readonly').objectStore(AI_CACHE_STORE).count());
+  }
+
+  async clear(): Promise<void> {
+    const db = await openDatabase();
+    try {
+      const transaction = db.transaction(AI_CACHE_STORE, 'readwrite');
+      transaction.objectStore(AI_CACHE_STORE).clear();
+      await transactionToPromise(transaction);
+    } catch (error) {
+      throw toStorageError(error, 'Failed to clear the AI cache');
+    }
+  }
+}
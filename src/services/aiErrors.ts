@@ -0,0 +1,130 @@
+/**
+ * Errors from AI requests, sorted into the cases the UI tells apart. Messages
+ * are written for the user; the provider's own error is kept as the cause.
+ */
+
+interface AIErrorOptions {
+  status?: number;
+  cause?: unknown;
+}
+
+export class AIError extends Error {
+  status?: number;
+  cause?: unknown;
+  // Whether the same request may succeed on a later attempt
+  readonly retryable: boolean = false;
+
+  constructor(message: string, options: AIErrorOptions = {}) {
+    super(message);
+    this.name = 'AIError';
+    this.status = options.status;
+    this.cause = options.cause;
+  }
+}
+
+export class AINotConfiguredError extends AIError {
+  constructor() {
+    super('AI is not set up. Add an API key or a local server in AI settings.');
+    this.name = 'AINotConfiguredError';
+  }
+}
+
+export class AIAuthError extends AIError {
+  constructor(options: AIErrorOptions = {}) {
+    super('API access denied. Please check your API key permissions.', options);
+    this.name = 'AIAuthError';
+  }
+}
+
+export class AIRateLimitError extends AIError {
+  readonly retryable = true;
+  // How long the provider asked to wait, when it said
+  retryAfterMs?: number;
+
+  constructor(retryAfterMs?: number, options: AIErrorOptions = {}) {
+    super(
+      retryAfterMs
+        ? `Rate limit exceeded. Please try again in ${Math.ceil(retryAfterMs / 1000)} seconds.`
+        : 'Rate limit exceeded. Please try again later.',
+      options
+    );
+    this.name = 'AIRateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class AITimeoutError extends AIError {
+  readonly retryable = true;
+
+  constructor(options: AIErrorOptions = {}) {
+    super('The AI service took too long to answer. Please try again.', options);
+    this.name = 'AITimeoutError';
+  }
+}
+
+export class AIUnavailableError extends AIError {
+  readonly retryable = true;
+
+  constructor(options: AIErrorOptions = {}) {
+    super('The AI service cannot be reached right now. Please check your connection and try again.', options);
+    this.name = 'AIUnavailableError';
+  }
+}
+
+// The provider turned the request down, e.g. for an unknown model
+export class AIRequestError extends AIError {
+  constructor(options: AIErrorOptions = {}) {
+    super('The AI service could not handle this request. Please check the model chosen in AI settings.', options);
+    this.name = 'AIRequestError';
+  }
+}
+
+/**
+ * A wait in milliseconds from a Retry-After header (seconds or an HTTP date) or
+ * a Gemini retry delay such as "17s"
+ */
+export const parseRetryAfter = (value: unknown): number | undefined => {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const text = String(value).trim();
+  const seconds = Number(text.replace(/s$/, ''));
+  if (text !== '' && Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(text);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Providers report the wait differently: our own errors carry it, Groq passes on
+// the response headers, and Gemini lists a RetryInfo among the error details
+const findRetryAfter = (error: Record<string, unknown>): number | undefined => {
+  if (typeof error.retryAfterMs === 'number') return error.retryAfterMs;
+  const headers = error.headers as Record<string, unknown> | Headers | undefined;
+  const header = headers instanceof Headers ? headers.get('retry-after') : headers?.['retry-after'];
+  if (header !== undefined && header !== null) return parseRetryAfter(header);
+  const details = Array.isArray(error.errorDetails) ? error.errorDetails : [];
+  const retryInfo = details.find(detail => typeof detail?.retryDelay === 'string');
+  return retryInfo ? parseRetryAfter(retryInfo.retryDelay) : undefined;
+};
+
+// Gemini answers an invalid key with a 400 and says so in an ErrorInfo detail
+const isInvalidKey = (error: Record<string, unknown>): boolean =>
+  Array.isArray(error.errorDetails) && error.errorDetails.some(detail => detail?.reason === 'API_KEY_INVALID');
+
+/**
+ * The AIError for anything a provider throws. Providers throw AIErrors themselves
+ * for cases without an HTTP status, such as a missing key or a timeout.
+ */
+export const toAIError = (error: unknown): AIError => {
+  if (error instanceof AIError) return error;
+  const record = (typeof error === 'object' && error !== null ? error : {}) as Record<string, unknown>;
+  const status = typeof record.status === 'number' ? record.status : undefined;
+  const options = { status, cause: error };
+
+  if (status === 429) return new AIRateLimitError(findRetryAfter(record), options);
+  if (status === 401 || status === 403 || isInvalidKey(record)) return new AIAuthError(options);
+  if (status === 408 || status === 504) return new AITimeoutError(options);
+  // fetch rejects with a TypeError when the server cannot be reached
+  if ((status !== undefined && status >= 500) || error instanceof TypeError) {
+    return new AIUnavailableError(options);
+  }
+  if (status !== undefined && status >= 400) return new AIRequestError(options);
+  return new AIError('Something went wrong with the AI service. Please try again.', options);
+};
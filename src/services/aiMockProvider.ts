@@ -0,0 +1,198 @@
+/**
+ * Offline stand-in for a real provider, turned on with VITE_AI_MOCK. Answers are
+ * built from fixtures and the text each prompt is about, so the same note always
+ * gets the same answer, and each scenario exercises a different path of the
+ * response parsing in AIService.
+ */
+
+import { AIProviderError } from './aiProviders';
+import type { AIProvider, AIRequest, AITask } from './aiProviders';
+
+export type MockScenario = 'ok' | 'malformed' | 'rate-limit' | 'timeout';
+
+export const MOCK_SCENARIOS: readonly MockScenario[] = ['ok', 'malformed', 'rate-limit', 'timeout'];
+
+// Delay before an answer, long enough for loading states to show
+const MOCK_LATENCY_MS = 250;
+// Delay between streamed words
+const MOCK_TOKEN_MS = 40;
+const MOCK_TIMEOUT_MS = 15000;
+// Wait the rate-limit scenario asks for, as a Retry-After header would
+const MOCK_RETRY_AFTER_MS = 2000;
+
+// Misspellings the grammar fixture reports, with their corrections
+const MISSPELLINGS: Record<string, string> = {
+  teh: 'the',
+  recieve: 'receive',
+  seperate: 'separate',
+  definately: 'definitely',
+  occured: 'occurred',
+  untill: 'until',
+  wich: 'which',
+  alot: 'a lot'
+};
+
+const STOP_WORDS = new Set([
+  'about', 'after', 'also', 'because', 'been', 'before', 'being', 'could', 'every', 'from', 'have',
+  'into', 'just', 'more', 'most', 'only', 'other', 'should', 'some', 'than', 'that', 'their', 'them',
+  'then', 'there', 'these', 'they', 'this', 'those', 'very', 'were', 'what', 'when', 'where', 'which',
+  'while', 'will', 'with', 'would', 'your'
+]);
+
+/**
+ * Most frequent longer words of a text, ties in order of first appearance
+ */
+const topWords = (text: string, count: number): string[] => {
+  const counts = new Map<string, number>();
+  (text.toLowerCase().match(/[a-z][a-z'-]{3,}/g) || [])
+    .filter(word => !STOP_WORDS.has(word))
+    .forEach(word => counts.set(word, (counts.get(word) || 0) + 1));
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, count)
+    .map(([word]) => word);
+};
+
+const firstSentence = (text: string): string => {
+  const match = text.match(/^.*?[.!?](?=\s|$)/);
+  return (match ? match[0] : text).trim();
+};
+
+const grammarIssues = (text: string) => {
+  const issues: Array<{ original: string; corrected: string; type: string; explanation: string; severity: string }> = [];
+  for (const match of text.matchAll(/\b[a-z]+\b/gi)) {
+    const correction = MISSPELLINGS[match[0].toLowerCase()];
+    if (correction) {
+      issues.push({
+        original: match[0],
+        corrected: match[0][0] === match[0][0].toUpperCase()
+          ? correction[0].toUpperCase() + correction.slice(1)
+          : correction,
+        type: 'spelling',
+        explanation: `"${match[0]}" is misspelled.`,
+        severity: 'high'
+      });
+    }
+  }
+  for (const match of text.matchAll(/\b(\w+) \1\b/gi)) {
+    issues.push({
+      original: match[0],
+      corrected: match[1],
+      type: 'grammar',
+      explanation: 'The word is repeated.',
+      severity: 'medium'
+    });
+  }
+  return issues.slice(0, 8);
+};
+
+// Well-formed answers, shaped like the ones real models give
+const OK_FIXTURES: Record<AITask, (input: string) => string> = {
+  definition: (term) => `${term} is a placeholder definition from the offline mock AI provider.`,
+  summary: (text) => firstSentence(text).slice(0, 100),
+  keywords: (text) => topWords(text, 4).join(', '),
+  tags: (text) => topWords(text, 3).join(', '),
+  // Wrapped in a code fence, which AIService strips
+  grammar: (text) => {
+    const issues = grammarIssues(text);
+    return issues.length > 0 ? `\`\`\`json\n${JSON.stringify(issues, null, 2)}\n\`\`\`` : '[]';
+  },
+  suggestions: () => [
+    '- Add a one-line summary at the top.',
+    '- Group related points under headings.',
+    '- Link to notes on the same topic.'
+  ].join('\n'),
+  translate: (text) => `[Source: English] ${text.split('\n').map(line => line && `(translated) ${line}`).join('\n')}`,
+  detectLanguage: () => 'English',
+  title: (text) => text
+    .replace(/[^\w\s-]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 5)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join(' ')
+};
+
+// Answers AIService has to recover from: broken JSON, missing markers and empty text
+const MALFORMED_FIXTURES: Record<AITask, string> = {
+  definition: '',
+  summary: '',
+  keywords: '',
+  tags: ' , ,,',
+  grammar: '[{"original": "teh", "corrected": "the", "type": "spelling", "explanation": "Mis',
+  suggestions: '',
+  translate: 'Texte traduit sans indication de la langue source',
+  detectLanguage: '',
+  title: '"**Title:**"'
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const abort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('The request was cancelled', 'AbortError'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', abort);
+    resolve();
+  }, ms);
+  if (signal?.aborted) abort();
+  signal?.addEventListener('abort', abort, { once: true });
+});
+
+export const parseMockScenario = (value: unknown): MockScenario | null => {
+  if (typeof value !== 'string' || value === '' || value === 'false' || value === '0') return null;
+  if (value === 'true' || value === '1') return 'ok';
+  if ((MOCK_SCENARIOS as readonly string[]).includes(value)) return value as MockScenario;
+  console.warn(`Unknown VITE_AI_MOCK scenario "${value}", using "ok"`);
+  return 'ok';
+};
+
+export class MockAIProvider implements AIProvider {
+  readonly id = 'mock';
+  readonly label = 'Mock (offline)';
+  readonly suggestedModels = ['fixtures'];
+  readonly setupHint = 'Set VITE_AI_MOCK in .env.local';
+  private scenario: MockScenario;
+
+  constructor(scenario: MockScenario) {
+    this.scenario = scenario;
+  }
+
+  getScenario(): MockScenario {
+    return this.scenario;
+  }
+
+  setScenario(scenario: MockScenario): void {
+    this.scenario = scenario;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async generate(request: AIRequest, _model?: string, signal?: AbortSignal): Promise<string> {
+    switch (this.scenario) {
+      case 'rate-limit':
+        await wait(MOCK_LATENCY_MS, signal);
+        throw new AIProviderError('Mock provider: rate limit exceeded (429)', 429, MOCK_RETRY_AFTER_MS);
+      case 'timeout':
+        await wait(MOCK_TIMEOUT_MS, signal);
+        throw new AIProviderError('Mock provider: request timed out', 504);
+      case 'malformed':
+        await wait(MOCK_LATENCY_MS, signal);
+        return request.task ? MALFORMED_FIXTURES[request.task] : '';
+      default:
+        await wait(MOCK_LATENCY_MS, signal);
+        return request.task ? OK_FIXTURES[request.task](request.input ?? '') : '';
+    }
+  }
+
+  // The whole answer, handed out a word at a time
+  async *stream(request: AIRequest, model?: string, signal?: AbortSignal): AsyncIterable<string> {
+    const answer = await this.generate(request, model, signal);
+    for (const word of answer.match(/\s*\S+/g) || []) {
+      await wait(MOCK_TOKEN_MS, signal);
+      yield word;
+    }
+  }
+}
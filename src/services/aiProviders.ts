@@ -0,0 +1,266 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import Groq from 'groq-sdk';
+import { AINotConfiguredError, AITimeoutError, AIUnavailableError, parseRetryAfter } from './aiErrors';
+import type { AIProviderId } from '../types';
+
+// What a prompt asks for; several features send more than one kind of prompt
+export type AITask =
+  | 'definition'
+  | 'summary'
+  | 'keywords'
+  | 'tags'
+  | 'grammar'
+  | 'suggestions'
+  | 'translate'
+  | 'detectLanguage'
+  | 'title';
+
+export interface AIRequest {
+  prompt: string;
+  system?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // The task and the text the prompt is built around; only the mock provider reads them
+  task?: AITask;
+  input?: string;
+}
+
+/**
+ * A backend AIService sends prompts to. Providers only turn a prompt into text;
+ * prompts, parsing and caching stay in AIService.
+ */
+export interface AIProvider {
+  readonly id: AIProviderId;
+  readonly label: string;
+  // Models offered in settings; any other model name the backend knows works too
+  readonly suggestedModels: readonly string[];
+  // Shown in settings while the provider is not configured
+  readonly setupHint: string;
+  // Requests AIService lets through in a burst and per minute after it; none for local servers
+  readonly rateLimit?: { burst: number; perMinute: number };
+  isConfigured(): boolean;
+  generate(request: AIRequest, model: string, signal?: AbortSignal): Promise<string>;
+  // Yields the answer piece by piece as the model produces it
+  stream(request: AIRequest, model: string, signal?: AbortSignal): AsyncIterable<string>;
+}
+
+/**
+ * Failed request to a provider, with the HTTP status and Retry-After wait when
+ * there are any
+ */
+export class AIProviderError extends Error {
+  status?: number;
+  retryAfterMs?: number;
+
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+const chatMessages = (request: AIRequest) => [
+  ...(request.system ? [{ role: 'system' as const, content: request.system }] : []),
+  { role: 'user' as const, content: request.prompt }
+];
+
+export class GeminiProvider implements AIProvider {
+  readonly id = 'gemini';
+  readonly label = 'Google Gemini';
+  readonly suggestedModels = ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro'];
+  readonly setupHint = 'Set VITE_GEMINI_API_KEY in .env.local';
+  // Free tier limits of the flash models
+  readonly rateLimit = { burst: 4, perMinute: 10 };
+  private client: GoogleGenerativeAI | null = null;
+
+  isConfigured(): boolean {
+    return !!import.meta.env.VITE_GEMINI_API_KEY;
+  }
+
+  private getModel(request: AIRequest, model: string) {
+    if (!this.client) {
+      if (!this.isConfigured()) throw new AINotConfiguredError();
+      this.client = new GoogleGenerativeAI(import.meta.env.VITE_GEMINI_API_KEY);
+    }
+
+    return this.client.getGenerativeModel({
+      model,
+      systemInstruction: request.system,
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens
+      }
+    });
+  }
+
+  async generate(request: AIRequest, model: string, signal?: AbortSignal): Promise<string> {
+    const result = await this.getModel(request, model).generateContent(request.prompt, { signal });
+    return result.response.text();
+  }
+
+  async *stream(request: AIRequest, model: string, signal?: AbortSignal): AsyncIterable<string> {
+    const result = await this.getModel(request, model).generateContentStream(request.prompt, { signal });
+    for await (const chunk of result.stream) {
+      yield chunk.text();
+    }
+  }
+}
+
+export class GroqProvider implements AIProvider {
+  readonly id = 'groq';
+  readonly label = 'Groq';
+  readonly suggestedModels = ['llama-3.1-8b-instant', 'llama-3.3-70b-versatile', 'openai/gpt-oss-20b'];
+  readonly setupHint = 'Set VITE_GROQ_API_KEY in .env.local';
+  readonly rateLimit = { burst: 5, perMinute: 30 };
+  private client: Groq | null = null;
+
+  isConfigured(): boolean {
+    return !!import.meta.env.VITE_GROQ_API_KEY;
+  }
+
+  private getClient(): Groq {
+    if (!this.client) {
+      if (!this.isConfigured()) throw new AINotConfiguredError();
+      // The key comes from the build environment, as it does for Gemini
+      this.client = new Groq({ apiKey: import.meta.env.VITE_GROQ_API_KEY, dangerouslyAllowBrowser: true });
+    }
+    return this.client;
+  }
+
+  // Groq reports timeouts and unreachable servers as errors without a status
+  private async send<T>(create: () => Promise<T>): Promise<T> {
+    try {
+      return await create();
+    } catch (error) {
+      if (error instanceof Groq.APIConnectionTimeoutError) throw new AITimeoutError({ cause: error });
+      if (error instanceof Groq.APIConnectionError) throw new AIUnavailableError({ cause: error });
+      throw error;
+    }
+  }
+
+  async generate(request: AIRequest, model: string, signal?: AbortSignal): Promise<string> {
+    const response = await this.send(() => this.getClient().chat.completions.create({
+      model,
+      messages: chatMessages(request),
+      temperature: request.temperature,
+      max_tokens: request.maxTokens
+    }, { signal }));
+    return response.choices[0]?.message?.content ?? '';
+  }
+
+  async *stream(request: AIRequest, model: string, signal?: AbortSignal): AsyncIterable<string> {
+    const chunks = await this.send(() => this.getClient().chat.completions.create({
+      model,
+      messages: chatMessages(request),
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stream: true
+    }, { signal }));
+    for await (const chunk of chunks) {
+      const text = chunk.choices[0]?.delta?.content;
+      if (text) yield text;
+    }
+  }
+}
+
+// Scheme, host and port of a URL, or null when it cannot be parsed
+const originOf = (url: string): string | null => {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Any server with an OpenAI-style /chat/completions endpoint: OpenAI itself, or a
+ * local Ollama or llama.cpp server, which need no API key. The key is only sent
+ * to the server it was configured for, never to whatever address is entered.
+ */
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly id = 'openai';
+  readonly label = 'OpenAI-compatible';
+  readonly suggestedModels = ['llama3.2', 'qwen2.5', 'gpt-4o-mini'];
+  readonly setupHint = 'Enter the server address below';
+  private baseUrl = '';
+
+  setBaseUrl(baseUrl: string): void {
+    this.baseUrl = baseUrl.trim().replace(/\/+$/, '');
+  }
+
+  isConfigured(): boolean {
+    return !!this.baseUrl;
+  }
+
+  private async post(request: AIRequest, model: string, stream: boolean, signal?: AbortSignal): Promise<Response> {
+    if (!this.baseUrl) throw new AINotConfiguredError();
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const keyOrigin = originOf(import.meta.env.VITE_OPENAI_API_URL || '');
+    if (import.meta.env.VITE_OPENAI_API_KEY && keyOrigin && keyOrigin === originOf(this.baseUrl)) {
+      headers.Authorization = `Bearer ${import.meta.env.VITE_OPENAI_API_KEY}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model,
+        messages: chatMessages(request),
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        stream
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new AIProviderError(
+        `${this.baseUrl} returned ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+    return response;
+  }
+
+  async generate(request: AIRequest, model: string, signal?: AbortSignal): Promise<string> {
+    const response = await this.post(request, model, false, signal);
+    const data = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new AIProviderError(`${this.baseUrl} sent a response without a message`);
+    }
+    return content;
+  }
+  // Streamed answers arrive as server-sent events, one "data:" line per chunk
+  async *stream(request: AIRequest, model: string, signal?: AbortSignal): AsyncIterable<string> {
+    const response = await this.post(request, model, true, signal);
+    if (!response.body) throw new AIProviderError(`${this.baseUrl} sent an empty response`);
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          const data = line.trim().replace(/^data:\s*/, '');
+          if (!line.trim().startsWith('data:') || !data) continue;
+          if (data === '[DONE]') return;
+          const text = JSON.parse(data)?.choices?.[0]?.delta?.content;
+          if (typeof text === 'string' && text) yield text;
+        }
+      }
+    } finally {
+      // Stops the download when the caller gives up early
+      reader.cancel().catch(() => undefined);
+    }
+  }
+}
@@ -0,0 +1,407 @@
+/**
+ * Decides when AI requests reach their provider. A token bucket per provider
+ * keeps bursts under its rate limit, requests the user asked for go ahead of
+ * background ones, failures that may pass later are retried with backoff, and
+ * identical requests already on their way share one call.
+ */
+
+import { AIRateLimitError, toAIError } from './aiErrors';
+import type { AIProvider } from './aiProviders';
+
+// User requests are waited on; background ones (auto grammar checks, tag and
+// title suggestions) only fill in the page
+export type AIPriority = 'user' | 'background';
+
+export interface ScheduleOptions {
+  provider: Pick<AIProvider, 'id' | 'rateLimit'>;
+  priority: AIPriority;
+  signal?: AbortSignal;
+  // Requests with the same key share one call while it is running
+  dedupeKey?: string;
+}
+
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+// A longer wait fails the request, so the user hears about it
+const MAX_DELAY_MS = 30000;
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  // Set when the provider asks for a break, e.g. with Retry-After
+  pausedUntil: number;
+}
+
+// Shared between a request and the calls joining it, which may raise its priority
+interface Ticket {
+  priority: AIPriority;
+}
+
+interface Waiter {
+  provider: ScheduleOptions['provider'];
+  ticket: Ticket;
+  order: number;
+  start: () => void;
+}
+
+interface SharedRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  ticket: Ticket;
+  callers: number;
+}
+
+// A streamed answer shared by identical requests. Callers that join late are
+// first given the chunks received so far.
+interface SharedStream {
+  chunks: string[];
+  done: boolean;
+  failed: boolean;
+  error: unknown;
+  controller: AbortController;
+  ticket: Ticket;
+  callers: number;
+  // Woken whenever a chunk arrives or the stream ends
+  listeners: Set<() => void>;
+}
+
+const abortError = () => new DOMException('The request was cancelled', 'AbortError');
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const abort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', abort);
+    resolve();
+  }, ms);
+  if (signal?.aborted) abort();
+  signal?.addEventListener('abort', abort, { once: true });
+});
+
+export class AIRequestScheduler {
+  private buckets = new Map<string, Bucket>();
+  private queue: Waiter[] = [];
+  private order = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private inFlight = new Map<string, SharedRequest>();
+  private inFlightStreams = new Map<string, SharedStream>();
+
+  /**
+   * Runs a request once the provider's limit allows, retrying it while it fails
+   * in a way that may pass. Rejects with an AIError, or an AbortError once signal
+   * is aborted.
+   */
+  run<T>(task: (signal?: AbortSignal) => Promise<T>, options: ScheduleOptions): Promise<T> {
+    const { dedupeKey } = options;
+    if (!dedupeKey) {
+      return this.withRetries(task, options, options.signal, { priority: options.priority });
+    }
+
+    let shared = this.inFlight.get(dedupeKey);
+    if (shared) {
+      shared.callers++;
+      if (options.priority === 'user' && shared.ticket.priority !== 'user') {
+        shared.ticket.priority = 'user';
+        this.pump();
+      }
+    } else {
+      // The call gets its own signal, so one caller giving up leaves it running for the others
+      const controller = new AbortController();
+      const ticket = { priority: options.priority };
+      const promise = this.withRetries(task, options, controller.signal, ticket).finally(() => {
+        if (this.inFlight.get(dedupeKey) === shared) this.inFlight.delete(dedupeKey);
+      });
+      shared = { promise, controller, ticket, callers: 1 };
+      this.inFlight.set(dedupeKey, shared);
+    }
+    return this.follow<T>(shared, dedupeKey, options.signal);
+  }
+
+  /**
+   * Like run for a streamed answer. Failures are only retried before the first
+   * chunk; after that the caller has already shown part of the answer.
+   */
+  stream(start: (signal?: AbortSignal) => AsyncIterable<string>, options: ScheduleOptions): AsyncGenerator<string> {
+    const { dedupeKey } = options;
+    if (!dedupeKey) {
+      return this.streamWithRetries(start, options, options.signal, { priority: options.priority });
+    }
+
+    let shared = this.inFlightStreams.get(dedupeKey);
+    if (shared) {
+      shared.callers++;
+      if (options.priority === 'user' && shared.ticket.priority !== 'user') {
+        shared.ticket.priority = 'user';
+        this.pump();
+      }
+    } else {
+      shared = {
+        chunks: [],
+        done: false,
+        failed: false,
+        error: undefined,
+        controller: new AbortController(),
+        ticket: { priority: options.priority },
+        callers: 1,
+        listeners: new Set()
+      };
+      this.inFlightStreams.set(dedupeKey, shared);
+      this.produce(shared, dedupeKey, start, options);
+    }
+    return this.followStream(shared, dedupeKey, options.signal);
+  }
+
+  private async *streamWithRetries(
+    start: (signal?: AbortSignal) => AsyncIterable<string>,
+    options: ScheduleOptions,
+    signal: AbortSignal | undefined,
+    ticket: Ticket
+  ): AsyncGenerator<string> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(options.provider, ticket, signal);
+      let received = false;
+      try {
+        for await (const chunk of start(signal)) {
+          received = true;
+          yield chunk;
+        }
+        return;
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        if (received) throw toAIError(error);
+        await sleep(this.retryDelay(error, attempt, options.provider), signal);
+      }
+    }
+  }
+
+  /**
+   * Reads a shared stream to its end, handing each chunk to the callers following it
+   */
+  private async produce(
+    shared: SharedStream,
+    key: string,
+    start: (signal?: AbortSignal) => AsyncIterable<string>,
+    options: ScheduleOptions
+  ): Promise<void> {
+    try {
+      for await (const chunk of this.streamWithRetries(start, options, shared.controller.signal, shared.ticket)) {
+        shared.chunks.push(chunk);
+        shared.listeners.forEach(listener => listener());
+      }
+    } catch (error) {
+      shared.failed = true;
+      shared.error = error;
+    } finally {
+      shared.done = true;
+      if (this.inFlightStreams.get(key) === shared) this.inFlightStreams.delete(key);
+      shared.listeners.forEach(listener => listener());
+    }
+  }
+
+  /**
+   * Yields a shared stream's chunks from the start, or stops early once this
+   * caller's signal is aborted. The stream itself is cancelled when its last
+   * caller gives up or stops reading.
+   */
+  private async *followStream(shared: SharedStream, key: string, signal?: AbortSignal): AsyncGenerator<string> {
+    let next = 0;
+    try {
+      while (true) {
+        while (next < shared.chunks.length) {
+          yield shared.chunks[next++];
+        }
+        if (shared.done) {
+          if (shared.failed) throw shared.error;
+          return;
+        }
+        await new Promise<void>((resolve, reject) => {
+          const wake = () => {
+            shared.listeners.delete(wake);
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+          };
+          const onAbort = () => {
+            shared.listeners.delete(wake);
+            reject(abortError());
+          };
+          if (signal?.aborted) {
+            onAbort();
+            return;
+          }
+          shared.listeners.add(wake);
+          signal?.addEventListener('abort', onAbort, { once: true });
+        });
+      }
+    } finally {
+      shared.callers--;
+      if (shared.callers === 0 && !shared.done) {
+        shared.controller.abort();
+        if (this.inFlightStreams.get(key) === shared) this.inFlightStreams.delete(key);
+      }
+    }
+  }
+
+  private async withRetries<T>(
+    task: (signal?: AbortSignal) => Promise<T>,
+    options: ScheduleOptions,
+    signal: AbortSignal | undefined,
+    ticket: Ticket
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(options.provider, ticket, signal);
+      try {
+        return await task(signal);
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        await sleep(this.retryDelay(error, attempt, options.provider), signal);
+      }
+    }
+  }
+
+  /**
+   * Wait before retrying a failed request; throws the error as an AIError when
+   * it should not be retried. Exponential with jitter, unless the provider said
+   * how long to wait, and a rate limit holds back the provider's other requests too.
+   */
+  private retryDelay(error: unknown, attempt: number, provider: ScheduleOptions['provider']): number {
+    const aiError = toAIError(error);
+    if (!aiError.retryable || attempt >= MAX_RETRIES) throw aiError;
+
+    const ceiling = BASE_DELAY_MS * 2 ** attempt;
+    const retryAfter = aiError instanceof AIRateLimitError ? aiError.retryAfterMs : undefined;
+    const delay = retryAfter ?? ceiling / 2 + Math.random() * ceiling / 2;
+    if (delay > MAX_DELAY_MS) throw aiError;
+
+    if (aiError instanceof AIRateLimitError) {
+      const bucket = this.bucket(provider);
+      bucket.pausedUntil = Math.max(bucket.pausedUntil, Date.now() + delay);
+    }
+    return delay;
+  }
+
+  /**
+   * Settles with a shared request, or rejects early once this caller's signal is
+   * aborted. The call itself is cancelled when its last caller gives up.
+   */
+  private follow<T>(shared: SharedRequest, key: string, signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        reject(abortError());
+        shared.callers--;
+        if (shared.callers === 0) {
+          shared.controller.abort();
+          if (this.inFlight.get(key) === shared) this.inFlight.delete(key);
+        }
+      };
+      shared.promise.then(
+        value => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(value as T);
+        },
+        error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+      if (signal?.aborted) {
+        onAbort();
+      } else {
+        signal?.addEventListener('abort', onAbort, { once: true });
+      }
+    });
+  }
+
+  /**
+   * Resolves when the request may go out, taking a token from its provider's bucket
+   */
+  private acquire(provider: ScheduleOptions['provider'], ticket: Ticket, signal?: AbortSignal): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+      const onAbort = () => {
+        this.queue = this.queue.filter(waiter => waiter !== entry);
+        reject(abortError());
+        this.pump();
+      };
+      const entry: Waiter = {
+        provider,
+        ticket,
+        order: this.order++,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(entry);
+      this.pump();
+    });
+  }
+
+  /**
+   * Starts every waiting request whose provider has a token to spare, user
+   * requests first, and sets a timer for when the next token comes in
+   */
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const now = Date.now();
+    const rank = (waiter: Waiter) => (waiter.ticket.priority === 'user' ? 0 : 1);
+    const waiting = [...this.queue].sort((a, b) => rank(a) - rank(b) || a.order - b.order);
+    // Once a provider has run out, later requests for it wait their turn
+    const blocked = new Set<string>();
+    let nextCheck = Infinity;
+
+    for (const waiter of waiting) {
+      if (blocked.has(waiter.provider.id)) continue;
+      const wait = this.takeToken(waiter.provider, now);
+      if (wait === 0) {
+        this.queue = this.queue.filter(entry => entry !== waiter);
+        waiter.start();
+      } else {
+        blocked.add(waiter.provider.id);
+        nextCheck = Math.min(nextCheck, wait);
+      }
+    }
+
+    if (nextCheck !== Infinity) {
+      this.timer = setTimeout(() => this.pump(), nextCheck);
+    }
+  }
+
+  private bucket(provider: ScheduleOptions['provider']): Bucket {
+    let bucket = this.buckets.get(provider.id);
+    if (!bucket) {
+      bucket = { tokens: provider.rateLimit?.burst ?? 0, updatedAt: Date.now(), pausedUntil: 0 };
+      this.buckets.set(provider.id, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Takes a token and returns 0, or returns how long until one is available
+   */
+  private takeToken(provider: ScheduleOptions['provider'], now: number): number {
+    const bucket = this.bucket(provider);
+    if (bucket.pausedUntil > now) return bucket.pausedUntil - now;
+
+    const limit = provider.rateLimit;
+    if (!limit) return 0;
+
+    const perMs = limit.perMinute / 60000;
+    bucket.tokens = Math.min(limit.burst, bucket.tokens + (now - bucket.updatedAt) * perMs);
+    bucket.updatedAt = now;
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil((1 - bucket.tokens) / perMs);
+  }
+}
@@ -1,24 +1,65 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { GeminiProvider, GroqProvider, OpenAICompatibleProvider } from './aiProviders';
+import type { AIProvider, AIRequest } from './aiProviders';
+import { MockAIProvider, parseMockScenario } from './aiMockProvider';
+import type { MockScenario } from './aiMockProvider';
+import { AIRequestScheduler } from './aiScheduler';
+import type { AIPriority } from './aiScheduler';
+import { AINotConfiguredError, toAIError } from './aiErrors';
+import { AICacheService, hashCacheKey } from './aiCache';
+import type { AICacheSource } from './aiCache';
+import { htmlToPlainText } from '../utils/plainText';
+import type { AIFeature, AIModelChoice, AIProviderId, AISettings } from '../types';
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  default: { provider: 'gemini', model: 'gemini-2.5-flash' },
+  features: {},
+  openaiBaseUrl: 'http://localhost:11434/v1'
+};
 
-// Initialize Gemini client only if API key is available
-let genAI: GoogleGenerativeAI | null = null;
-let model: ReturnType<GoogleGenerativeAI['getGenerativeModel']> | null = null;
+export interface AIRequestOptions {
+  signal?: AbortSignal;
+  // Defaults to user for definitions and translations, background for the rest
+  priority?: AIPriority;
+  // Asks the provider again even when a cached answer exists, and caches the new one
+  fresh?: boolean;
+  // Called with the time a cached answer was stored when one is used
+  onCacheHit?: (cachedAt: Date) => void;
+  // The note the content comes from; answers about a note are only cached with it
+  noteId?: string;
+}
 
-const initializeGemini = () => {
-  if (!genAI && import.meta.env.VITE_GEMINI_API_KEY) {
-    try {
-      genAI = new GoogleGenerativeAI(import.meta.env.VITE_GEMINI_API_KEY);
-      model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
-      console.log('Gemini AI initialized successfully');
-    } catch (error) {
-      console.warn('Failed to initialize Gemini client:', error);
-    }
-  }
-  return model;
+// Features that only run when the user asks for them
+const FEATURE_PRIORITY: Record<AIFeature, AIPriority> = {
+  definitions: 'user',
+  insights: 'background',
+  tags: 'background',
+  grammar: 'background',
+  suggestions: 'background',
+  translation: 'user',
+  titles: 'background'
 };
 
-// Initialize on module load
-initializeGemini();
+type CachedFeature = 'definitions' | 'insights' | 'grammar';
+
+// Answers that quote the note. They are deleted with it when it is encrypted or purged,
+// so they are not cached when the note is unknown.
+const NOTE_TEXT_FEATURES = new Set<CachedFeature>(['insights', 'grammar']);
+
+// Bump a version when its prompt changes, so answers to the old prompt are not reused
+const PROMPT_VERSIONS: Record<CachedFeature, number> = {
+  definitions: 1,
+  insights: 1,
+  grammar: 1
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Definitions hardly change; grammar results only matter while the text is edited
+const CACHE_TTL_MS: Record<CachedFeature, number> = {
+  definitions: 90 * DAY_MS,
+  insights: 14 * DAY_MS,
+  grammar: 7 * DAY_MS
+};
 
 export interface GrammarError {
   text: string;
@@ -38,6 +79,21 @@ export interface ContentInsight {
   confidence: number;
 }
 
+export interface TranslationResult {
+  translatedContent: string;
+  detectedSourceLanguage?: string;
+}
+
+/**
+ * A cached glossary definition with the provider, model and prompt version
+ * that wrote it, as saved in backups
+ */
+export interface GlossaryEntry {
+  term: string;
+  definition: string;
+  source: AICacheSource;
+}
+
 export interface NoteSuggestion {
   type: 'related' | 'improve' | 'organize' | 'expand';
   message: string;
@@ -47,9 +103,19 @@ export interface NoteSuggestion {
 
 export class AIService {
   private static instance: AIService;
-  private termCache = new Map<string, string>();
-  private insightsCache = new Map<string, ContentInsight[]>();
-  private grammarCache = new Map<string, GrammarError[]>();
+  private cache = AICacheService.getInstance();
+  private providers = new Map<AIProviderId, AIProvider>();
+  private openaiProvider = new OpenAICompatibleProvider();
+  private settings: AISettings = DEFAULT_AI_SETTINGS;
+  // Answers every feature while set, whatever the settings say
+  private mockProvider: MockAIProvider | null = null;
+  private scheduler = new AIRequestScheduler();
+
+  constructor() {
+    [new GeminiProvider(), new GroqProvider(), this.openaiProvider].forEach(provider => this.registerProvider(provider));
+    this.configure(DEFAULT_AI_SETTINGS);
+    this.setMockScenario(parseMockScenario(import.meta.env.VITE_AI_MOCK));
+  }
 
   static getInstance(): AIService {
     if (!AIService.instance) {
@@ -59,44 +125,224 @@ export class AIService {
   }
 
   /**
-   * Get definition for a term using Gemini
+   * Features that can be routed to their own model
    */
-  async getTermDefinition(term: string): Promise<string> {
-    // Check cache first
-    if (this.termCache.has(term.toLowerCase())) {
-      return this.termCache.get(term.toLowerCase())!;
+  static readonly FEATURES: ReadonlyArray<{ id: AIFeature; label: string }> = [
+    { id: 'definitions', label: 'Glossary definitions' },
+    { id: 'insights', label: 'Insights' },
+    { id: 'tags', label: 'Tag suggestions' },
+    { id: 'grammar', label: 'Grammar check' },
+    { id: 'suggestions', label: 'Note suggestions' },
+    { id: 'translation', label: 'Translation' },
+    { id: 'titles', label: 'Titles' }
+  ];
+
+  /**
+   * Adds a provider, replacing any registered with the same id
+   */
+  registerProvider(provider: AIProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  getProviders(): AIProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * Applies provider and model settings from the user preferences
+   */
+  configure(settings: AISettings): void {
+    this.settings = settings;
+    this.openaiProvider.setBaseUrl(settings.openaiBaseUrl);
+  }
+
+  getMockScenario(): MockScenario | null {
+    return this.mockProvider?.getScenario() ?? null;
+  }
+
+  /**
+   * Switches to the offline mock provider with the given scenario, or back to the
+   * configured providers for null. Answers are cached per scenario, so the next
+   * request shows the new one.
+   */
+  setMockScenario(scenario: MockScenario | null): void {
+    if (scenario === this.getMockScenario()) return;
+    if (scenario && this.mockProvider) {
+      this.mockProvider.setScenario(scenario);
+    } else {
+      this.mockProvider = scenario ? new MockAIProvider(scenario) : null;
     }
+  }
 
-    // Ensure model is initialized
-    const aiModel = initializeGemini();
-    
-    // Return fallback if Gemini is not available
-    if (!aiModel) {
-      return 'AI definitions are not available. Please check your API key configuration.';
+  /**
+   * Provider and model a feature uses: its own choice when that provider is set
+   * up, otherwise the default. Null when neither can be used.
+   */
+  getRoute(feature: AIFeature): AIModelChoice | null {
+    if (this.mockProvider) return { provider: 'mock', model: this.mockProvider.suggestedModels[0] };
+    const usable = (choice?: AIModelChoice) =>
+      !!choice?.model.trim() && !!this.providers.get(choice.provider)?.isConfigured();
+    const own = this.settings.features[feature];
+    if (usable(own)) return own!;
+    return usable(this.settings.default) ? this.settings.default : null;
+  }
+
+  /**
+   * Whether a feature, or without one any feature, can reach a provider
+   */
+  isAvailable(feature?: AIFeature): boolean {
+    return feature
+      ? this.getRoute(feature) !== null
+      : AIService.FEATURES.some(({ id }) => this.getRoute(id) !== null);
+  }
+
+  private resolve(feature: AIFeature): { provider: AIProvider; model: string } {
+    const route = this.getRoute(feature);
+    const provider = route?.provider === 'mock' ? this.mockProvider : route && this.providers.get(route.provider);
+    if (!route || !provider) {
+      throw new AINotConfiguredError();
     }
+    return { provider, model: route.model.trim() };
+  }
 
+  /**
+   * Sends a prompt to the provider and model routed for a feature, through the
+   * scheduler. An identical prompt already on its way is answered by the same call.
+   */
+  private async generate(feature: AIFeature, request: AIRequest, options: AIRequestOptions = {}): Promise<string> {
+    const { provider, model } = this.resolve(feature);
+    return this.scheduler.run(signal => provider.generate(request, model, signal), {
+      provider,
+      priority: options.priority ?? FEATURE_PRIORITY[feature],
+      signal: options.signal,
+      dedupeKey: JSON.stringify([provider.id, model, request.system, request.prompt, request.temperature, request.maxTokens])
+    });
+  }
+
+  /**
+   * Like generate, yielding the text received so far after each chunk. An
+   * identical prompt already streaming is answered by the same call.
+   */
+  private async *streamText(feature: AIFeature, request: AIRequest, options: AIRequestOptions = {}): AsyncGenerator<string> {
+    const { provider, model } = this.resolve(feature);
+    const chunks = this.scheduler.stream(signal => provider.stream(request, model, signal), {
+      provider,
+      priority: options.priority ?? FEATURE_PRIORITY[feature],
+      signal: options.signal,
+      dedupeKey: JSON.stringify([provider.id, model, request.system, request.prompt, request.temperature, request.maxTokens])
+    });
+    let text = '';
+    for await (const chunk of chunks) {
+      text += chunk;
+      yield text;
+    }
+  }
+
+  /**
+   * Provider, model and prompt version that currently answer a feature
+   */
+  private cacheSource(feature: CachedFeature): AICacheSource | null {
+    const route = this.getRoute(feature);
+    if (!route) return null;
+    // Mock answers depend on the scenario rather than the model
+    const model = route.provider === 'mock' ? `${route.model}:${this.getMockScenario()}` : route.model.trim();
+    return { provider: route.provider, model, promptVersion: PROMPT_VERSIONS[feature] };
+  }
+
+  /**
+   * Cache key of an answer: the content hashed together with the prompt version
+   * and the provider and model that answer it. Null when nothing can be cached.
+   */
+  private async cacheKey(
+    feature: CachedFeature,
+    content: string,
+    source: AICacheSource | null = this.cacheSource(feature)
+  ): Promise<string | null> {
+    if (!source) return null;
     try {
-      const prompt = `Define the term "${term}" in simple, clear language. Provide a concise definition in 1-2 sentences (max 60 words). If it's a technical term, explain it in an accessible way.`;
+      return await hashCacheKey([feature, source.promptVersion, source.provider, source.model, content]);
+    } catch (error) {
+      console.warn('AI cache is not available:', error);
+      return null;
+    }
+  }
 
-      const result = await aiModel.generateContent(prompt);
-      const response = await result.response;
-      const definition = response.text() || 'Definition not available';
+  private async readCache<T>(key: string | null, options: AIRequestOptions): Promise<T | undefined> {
+    if (!key || options.fresh) return undefined;
+    try {
+      const entry = await this.cache.get<T>(key);
+      if (!entry) return undefined;
+      options.onCacheHit?.(new Date(entry.createdAt));
+      return entry.value;
+    } catch (error) {
+      console.warn('Could not read the AI cache:', error);
+      return undefined;
+    }
+  }
 
-      // Cache the result
-      this.termCache.set(term.toLowerCase(), definition);
+  // Saving happens in the background; a failed save only costs a later request
+  private writeCache(
+    feature: CachedFeature,
+    key: string | null,
+    value: unknown,
+    { term, noteId, source }: { term?: string; noteId?: string; source?: AICacheSource } = {}
+  ): void {
+    if (!key || (NOTE_TEXT_FEATURES.has(feature) && !noteId)) return;
+    this.cache.set({ key, feature, value, term, noteId, source }, CACHE_TTL_MS[feature]).catch(error => {
+      console.warn('Could not save to the AI cache:', error);
+    });
+  }
 
-      return definition;
-    } catch (error: any) {
-      console.error('Error fetching definition:', error);
+  /**
+   * Get definition for a term. Rejects with an AIError when the request fails,
+   * or an AbortError once the signal is aborted.
+   */
+  async getTermDefinition(term: string, options: AIRequestOptions = {}): Promise<string> {
+    let definition = '';
+    for await (const partial of this.streamTermDefinition(term, options)) {
+      definition = partial;
+    }
+    return definition;
+  }
+
+  /**
+   * Yields the definition of a term as it arrives, each time with the text so far.
+   * Rejects with an AIError when the request fails.
+   */
+  async *streamTermDefinition(term: string, options: AIRequestOptions = {}): AsyncGenerator<string> {
+    // Check cache first
+    const source = this.cacheSource('definitions');
+    const cacheKey = await this.cacheKey('definitions', term.toLowerCase(), source);
+    const cached = await this.readCache<string>(cacheKey, options);
+    if (cached !== undefined) {
+      yield cached;
+      return;
+    }
+
+    if (!this.isAvailable('definitions')) {
+      throw new AINotConfiguredError();
+    }
 
-      // Handle specific API errors
-      if (error.status === 403 || error.message?.includes('API key')) {
-        return 'API access denied. Please check your API key permissions.';
-      } else if (error.status === 429) {
-        return 'Rate limit exceeded. Please try again later.';
+    try {
+      const prompt = `Define the term "${term}" in simple, clear language. Provide a concise definition in 1-2 sentences (max 60 words). If it's a technical term, explain it in an accessible way.`;
+
+      let definition = '';
+      for await (const partial of this.streamText('definitions', { prompt, task: 'definition', input: term }, options)) {
+        definition = partial;
+        yield definition;
+      }
+      // An empty answer is not cached, so the term is asked again next time
+      if (!definition) {
+        yield 'Definition not available';
+        return;
       }
 
-      return 'Unable to fetch definition at this time.';
+      // Cache the result
+      this.writeCache('definitions', cacheKey, definition, { term: term.toLowerCase(), source: source ?? undefined });
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      console.error('Error fetching definition:', error);
+      throw toAIError(error);
     }
   }
 
@@ -130,95 +376,109 @@ export class AIService {
   }
 
   /**
-   * Generate content insights using Gemini
+   * Generate content insights. Rejects with an AIError when the request fails,
+   * or an AbortError once the signal is aborted.
+   */
+  async generateInsights(content: string, title: string = '', options: AIRequestOptions = {}): Promise<ContentInsight[]> {
+    let insights: ContentInsight[] = [];
+    for await (const partial of this.streamInsights(content, title, options)) {
+      insights = partial;
+    }
+    return insights;
+  }
+
+  /**
+   * Yields the insights as they arrive: the summary as it is written, then the
+   * key themes. Each value holds everything received so far.
    */
-  async generateInsights(content: string, title: string = ''): Promise<ContentInsight[]> {
-    const cacheKey = `${title}-${content}`.slice(0, 100);
+  async *streamInsights(content: string, title: string = '', options: AIRequestOptions = {}): AsyncGenerator<ContentInsight[]> {
+    const plainText = htmlToPlainText(content);
 
     // Check cache first
-    if (this.insightsCache.has(cacheKey)) {
-      return this.insightsCache.get(cacheKey)!;
+    const cacheKey = await this.cacheKey('insights', JSON.stringify([title, plainText]));
+    const cached = await this.readCache<ContentInsight[]>(cacheKey, options);
+    if (cached) {
+      yield cached;
+      return;
     }
 
-    // Ensure model is initialized
-    const aiModel = initializeGemini();
-
-    if (!aiModel || !content.trim()) {
+    if (!this.isAvailable('insights') || !content.trim()) {
       console.warn('AI model not available or content empty for insights generation');
-      return [];
+      return;
     }
 
     try {
-      const plainText = content.replace(/<[^>]*>/g, '').trim();
       if (plainText.length < 50) {
-        return [];
+        return;
       }
 
       const insights: ContentInsight[] = [];
+      const summaryInsight = (summary: string): ContentInsight => ({
+        type: 'summary',
+        title: 'Quick Summary',
+        content: summary.trim().slice(0, 150),
+        confidence: 0.85
+      });
+      const keywordsInsight = (keywords: string): ContentInsight => ({
+        type: 'keywords',
+        title: 'Key Themes',
+        content: keywords.trim(),
+        confidence: 0.75
+      });
 
       // Generate summary
       const summaryPrompt = `Summarize this note in ONE concise sentence (max 100 characters):\n\nTitle: ${title}\n\nContent: ${plainText.slice(0, 500)}`;
-      const summaryResult = await aiModel.generateContent(summaryPrompt);
-      const summaryResponse = await summaryResult.response;
-      const summary = summaryResponse.text();
+      let summary = '';
+      for await (const partial of this.streamText('insights', { prompt: summaryPrompt, task: 'summary', input: plainText }, options)) {
+        summary = partial;
+        yield [summaryInsight(summary)];
+      }
 
       if (summary) {
-        insights.push({
-          type: 'summary',
-          title: 'Quick Summary',
-          content: summary.trim().slice(0, 150),
-          confidence: 0.85
-        });
+        insights.push(summaryInsight(summary));
       }
 
       // Extract keywords
       const keywordsPrompt = `Extract 3-5 key themes or topics from this note. Return as comma-separated list:\n\n${plainText.slice(0, 500)}`;
-      const keywordsResult = await aiModel.generateContent(keywordsPrompt);
-      const keywordsResponse = await keywordsResult.response;
-      const keywords = keywordsResponse.text();
+      let keywords = '';
+      for await (const partial of this.streamText('insights', { prompt: keywordsPrompt, task: 'keywords', input: plainText }, options)) {
+        keywords = partial;
+        yield [...insights, keywordsInsight(keywords)];
+      }
 
       if (keywords) {
-        insights.push({
-          type: 'keywords',
-          title: 'Key Themes',
-          content: keywords.trim(),
-          confidence: 0.75
-        });
+        insights.push(keywordsInsight(keywords));
       }
 
-      // Cache the results
-      this.insightsCache.set(cacheKey, insights);
+      // Cache the results; an empty answer is worth asking for again
+      if (insights.length > 0) this.writeCache('insights', cacheKey, insights, { noteId: options.noteId });
 
-      return insights;
+      yield insights;
     } catch (error) {
+      if (options.signal?.aborted) throw error;
       console.error('Error generating insights:', error);
-      return [];
+      throw toAIError(error);
     }
   }
 
   /**
-   * Generate tags for a note using Gemini
+   * Generate tags for a note. Rejects with an AIError when the request fails.
    */
-  async generateTags(content: string, title: string = ''): Promise<string[]> {
-    // Ensure model is initialized
-    const aiModel = initializeGemini();
-    
-    if (!aiModel || !content.trim()) {
+  async generateTags(content: string, title: string = '', options: AIRequestOptions = {}): Promise<string[]> {
+    if (!this.isAvailable('tags') || !content.trim()) {
       console.warn('AI model not available or content empty for tag generation');
       return [];
     }
 
     try {
-      const plainText = content.replace(/<[^>]*>/g, '').trim();
+      const plainText = htmlToPlainText(content);
       if (plainText.length < 30) {
         return ['draft'];
       }
 
       const prompt = `Generate 3-5 specific, actionable tags for this note. Tags should be:\n- Single words or short 2-3 word phrases\n- Lowercase\n- Specific (not generic like 'notes' or 'information')\n- Comma-separated\n\nTitle: ${title}\nContent: ${plainText.slice(0, 400)}\n\nReturn ONLY the tags as a comma-separated list:`;
 
-      const result = await aiModel.generateContent(prompt);
-      const response = await result.response;
-      const tagsString = response.text().trim();
+      const tagsString = (await this.generate('tags', { prompt, task: 'tags', input: plainText }, options)).trim();
 
       // Parse tags
       const tags = tagsString
@@ -229,27 +489,26 @@ export class AIService {
 
       return tags;
     } catch (error: unknown) {
+      if (options.signal?.aborted) throw error;
       console.error('Error generating tags:', error);
-      return [];
+      throw toAIError(error);
     }
   }
 
   /**
-   * Check grammar using Gemini
+   * Check grammar. Rejects with an AIError when the request fails.
    */
-  async checkGrammar(text: string): Promise<GrammarError[]> {
-    const plainText = this.htmlToText(text);
-    const cacheKey = plainText.slice(0, 100);
+  async checkGrammar(text: string, options: AIRequestOptions = {}): Promise<GrammarError[]> {
+    const plainText = htmlToPlainText(text);
 
     // Check cache
-    if (this.grammarCache.has(cacheKey)) {
-      return this.grammarCache.get(cacheKey)!;
+    const cacheKey = await this.cacheKey('grammar', plainText);
+    const cached = await this.readCache<GrammarError[]>(cacheKey, options);
+    if (cached) {
+      return cached;
     }
 
-    // Ensure model is initialized
-    const aiModel = initializeGemini();
-
-    if (!aiModel || plainText.length < 10) {
+    if (!this.isAvailable('grammar') || plainText.length < 10) {
       console.warn('AI model not available or text too short for grammar check');
       return [];
     }
@@ -280,16 +539,14 @@ ${plainText.slice(0, 2000)}
 
 Return ONLY valid JSON array, no other text:`;
 
-      const result = await aiModel.generateContent(prompt);
-      const response = await result.response;
-      let resultText = response.text().trim();
+      let resultText = (await this.generate('grammar', { prompt, task: 'grammar', input: plainText }, options)).trim();
 
       // Clean up the response - remove markdown code blocks if present
       resultText = resultText.replace(/```json\s*/gi, '').replace(/```\s*/g, '').trim();
 
       // Check for empty result
       if (resultText === '[]' || !resultText) {
-        this.grammarCache.set(cacheKey, []);
+        this.writeCache('grammar', cacheKey, [], { noteId: options.noteId });
         return [];
       }
 
@@ -366,31 +623,30 @@ Return ONLY valid JSON array, no other text:`;
         .filter(error => error.offset >= 0) // Only keep errors we can locate in text
         .slice(0, 10); // Limit to 10 errors
 
-      this.grammarCache.set(cacheKey, errors);
+      this.writeCache('grammar', cacheKey, errors, { noteId: options.noteId });
       return errors;
     } catch (error) {
+      if (options.signal?.aborted) throw error;
       console.error('Error checking grammar:', error);
-      return [];
+      throw toAIError(error);
     }
   }
 
   /**
-   * Generate note suggestions using Gemini
+   * Generate note suggestions. Rejects with an AIError when the request fails.
    */
   async generateNoteSuggestions(
     currentNote: { title: string; content: string },
-    allNotes: Array<{ id: string; title: string; content: string }>
+    allNotes: Array<{ id: string; title: string; content: string }>,
+    options: AIRequestOptions = {}
   ): Promise<NoteSuggestion[]> {
-    // Ensure model is initialized
-    const aiModel = initializeGemini();
-    
-    if (!aiModel || !currentNote.content.trim()) {
+    if (!this.isAvailable('suggestions') || !currentNote.content.trim()) {
       console.warn('AI model not available or content empty for note suggestions');
       return [];
     }
 
     try {
-      const plainText = currentNote.content.replace(/<[^>]*>/g, '').trim();
+      const plainText = htmlToPlainText(currentNote.content);
       const otherTitles = allNotes
         .map(note => note.title)
         .filter(t => t)
@@ -399,9 +655,7 @@ Return ONLY valid JSON array, no other text:`;
 
       const prompt = `Based on this note, suggest 2-3 ways to improve it:\n\nTitle: ${currentNote.title}\nContent: ${plainText.slice(0, 300)}\n\nOther notes: ${otherTitles}\n\nProvide actionable suggestions (one per line):`;
 
-      const result = await aiModel.generateContent(prompt);
-      const response = await result.response;
-      const suggestions = response.text();
+      const suggestions = await this.generate('suggestions', { prompt, task: 'suggestions', input: plainText }, options);
 
       const lines = suggestions.split('\n').filter(line => line.trim());
       return lines.slice(0, 3).map((line, index) => ({
@@ -409,28 +663,59 @@ Return ONLY valid JSON array, no other text:`;
         message: line.replace(/^[\d\-\*\.]\s*/, '').trim()
       })) as NoteSuggestion[];
     } catch (error) {
+      if (options.signal?.aborted) throw error;
       console.error('Error generating suggestions:', error);
+      throw toAIError(error);
+    }
+  }
+
+  /**
+   * Cached glossary definitions with the model that wrote each (included in backups)
+   */
+  async getGlossaryEntries(): Promise<GlossaryEntry[]> {
+    try {
+      const entries = await this.cache.getAll<string>('definitions');
+      return entries
+        .filter(entry => entry.term && entry.source)
+        .map(entry => ({ term: entry.term!, definition: entry.value, source: entry.source! }));
+    } catch (error) {
+      console.warn('Could not read the AI cache:', error);
       return [];
     }
   }
 
   /**
-   * Convert HTML to plain text
+   * Adds glossary definitions restored from a backup without overwriting newer
+   * ones. Each is cached for the model that wrote it, so it is only used while
+   * that model answers definitions; ones from an older prompt are dropped.
    */
-  private htmlToText(html: string): string {
-    const tempDiv = document.createElement('div');
-    tempDiv.innerHTML = html;
-    let text = tempDiv.textContent || tempDiv.innerText || '';
-    return text.replace(/\s+/g, ' ').trim();
+  async importGlossaryEntries(entries: GlossaryEntry[]): Promise<void> {
+    for (const { term, definition, source } of entries) {
+      if (source.promptVersion !== PROMPT_VERSIONS.definitions) continue;
+      const key = await this.cacheKey('definitions', term.toLowerCase(), source);
+      if (key && (await this.readCache<string>(key, {})) === undefined) {
+        this.writeCache('definitions', key, definition, { term: term.toLowerCase(), source });
+      }
+    }
+  }
+
+  /**
+   * Number of answers in the AI cache
+   */
+  async getCacheSize(): Promise<number> {
+    try {
+      return await this.cache.count();
+    } catch (error) {
+      console.warn('Could not read the AI cache:', error);
+      return 0;
+    }
   }
 
   /**
    * Clear all caches
    */
-  clearCaches(): void {
-    this.termCache.clear();
-    this.insightsCache.clear();
-    this.grammarCache.clear();
+  async clearCaches(): Promise<void> {
+    await this.cache.clear();
   }
 
   /**
@@ -464,22 +749,38 @@ Return ONLY valid JSON array, no other text:`;
   ] as const;
 
   /**
-   * Translate content to a target language using Gemini
+   * Translate content to a target language. Rejects with an AIError when the
+   * request fails, or an AbortError once the signal is aborted.
    */
   async translateContent(
     content: string,
     targetLanguage: string,
-    preserveFormatting: boolean = true
-  ): Promise<{ translatedContent: string; detectedSourceLanguage?: string }> {
-    // Ensure model is initialized
-    const aiModel = initializeGemini();
+    preserveFormatting: boolean = true,
+    options: AIRequestOptions = {}
+  ): Promise<TranslationResult> {
+    let result: TranslationResult = { translatedContent: '' };
+    for await (const partial of this.streamTranslation(content, targetLanguage, preserveFormatting, options)) {
+      result = partial;
+    }
+    return result;
+  }
 
-    if (!aiModel) {
-      throw new Error('AI translation is not available. Please check your API key configuration.');
+  /**
+   * Yields the translation as it arrives, each time with the text so far
+   */
+  async *streamTranslation(
+    content: string,
+    targetLanguage: string,
+    preserveFormatting: boolean = true,
+    options: AIRequestOptions = {}
+  ): AsyncGenerator<TranslationResult> {
+    if (!this.isAvailable('translation')) {
+      throw new AINotConfiguredError();
     }
 
     if (!content.trim()) {
-      return { translatedContent: '' };
+      yield { translatedContent: '' };
+      return;
     }
 
     try {
@@ -487,7 +788,7 @@ Return ONLY valid JSON array, no other text:`;
       const targetLang = AIService.SUPPORTED_LANGUAGES.find(l => l.code === targetLanguage);
       const targetLangName = targetLang?.name || targetLanguage;
 
-      const plainText = content.replace(/<[^>]*>/g, '').trim();
+      const plainText = htmlToPlainText(content);
       
       // Build the translation prompt
       const prompt = preserveFormatting
@@ -506,76 +807,67 @@ ${plainText}
 
 First identify the source language in brackets like [Source: English], then provide only the translated text.`;
 
-      const result = await aiModel.generateContent(prompt);
-      const response = await result.response;
-      const translatedText = response.text().trim();
-
-      // Extract source language if detected
-      let detectedSourceLanguage: string | undefined;
-      let cleanedTranslation = translatedText;
-
-      const sourceMatch = translatedText.match(/\[Source:\s*([^\]]+)\]/i);
-      if (sourceMatch) {
-        detectedSourceLanguage = sourceMatch[1].trim();
-        cleanedTranslation = translatedText.replace(/\[Source:\s*[^\]]+\]\s*/i, '').trim();
+      for await (const partial of this.streamText('translation', { prompt, task: 'translate', input: plainText }, options)) {
+        yield this.parseTranslation(partial.trim());
       }
+    } catch (error: unknown) {
+      if (options.signal?.aborted) throw error;
+      console.error('Error translating content:', error);
+      throw toAIError(error);
+    }
+  }
 
+  /**
+   * Splits the source language marker off a translation, which may still be
+   * arriving; a marker that is not complete yet is held back
+   */
+  private parseTranslation(text: string): TranslationResult {
+    const sourceMatch = text.match(/\[Source:\s*([^\]]+)\]/i);
+    if (sourceMatch) {
       return {
-        translatedContent: cleanedTranslation,
-        detectedSourceLanguage
+        translatedContent: text.replace(/\[Source:\s*[^\]]+\]\s*/i, '').trim(),
+        detectedSourceLanguage: sourceMatch[1].trim()
       };
-    } catch (error: unknown) {
-      console.error('Error translating content:', error);
-      
-      if (error instanceof Error) {
-        if (error.message?.includes('API key')) {
-          throw new Error('API access denied. Please check your API key permissions.');
-        } else if (error.message?.includes('429')) {
-          throw new Error('Rate limit exceeded. Please try again later.');
-        }
-      }
-      
-      throw new Error('Unable to translate content at this time. Please try again.');
     }
+    return { translatedContent: /^\[[^\]]*$/.test(text) ? '' : text };
   }
 
   /**
-   * Detect the language of the content
+   * Detect the language of the content. Rejects with an AIError when the request fails.
    */
-  async detectLanguage(content: string): Promise<string> {
-    const aiModel = initializeGemini();
+  async detectLanguage(content: string, options: AIRequestOptions = {}): Promise<string> {
+    if (!this.isAvailable('translation')) {
+      throw new AINotConfiguredError();
+    }
 
-    if (!aiModel || !content.trim()) {
+    if (!content.trim()) {
       return 'unknown';
     }
 
     try {
-      const plainText = content.replace(/<[^>]*>/g, '').trim().slice(0, 500);
+      const plainText = htmlToPlainText(content).slice(0, 500);
       
       const prompt = `Identify the language of the following text. Return ONLY the language name in English (e.g., "English", "Spanish", "French", etc.):
 
 ${plainText}`;
 
-      const result = await aiModel.generateContent(prompt);
-      const response = await result.response;
-      const detectedLanguage = response.text().trim();
+      const detectedLanguage = (await this.generate('translation', { prompt, task: 'detectLanguage', input: plainText }, options)).trim();
 
       return detectedLanguage;
     } catch (error) {
+      if (options.signal?.aborted) throw error;
       console.error('Error detecting language:', error);
-      return 'unknown';
+      throw toAIError(error);
     }
   }
 
   /**
-   * Generate a title for a note based on its content using Gemini
+   * Generate a title for a note based on its content, or 'Untitled Note' when there
+   * is too little to go on. Rejects with an AIError when the request fails.
    */
-  async generateTitle(content: string): Promise<string> {
-    // Ensure model is initialized
-    const aiModel = initializeGemini();
-
-    if (!aiModel) {
-      return 'Untitled Note';
+  async generateTitle(content: string, options: AIRequestOptions = {}): Promise<string> {
+    if (!this.isAvailable('titles')) {
+      throw new AINotConfiguredError();
     }
 
     if (!content.trim()) {
@@ -583,7 +875,7 @@ ${plainText}`;
     }
 
     try {
-      const plainText = content.replace(/<[^>]*>/g, '').trim();
+      const plainText = htmlToPlainText(content);
       
       // Need at least some content to generate a meaningful title
       if (plainText.length < 10) {
@@ -602,9 +894,7 @@ ${plainText.slice(0, 500)}
 
 Return ONLY the title, nothing else:`;
 
-      const result = await aiModel.generateContent(prompt);
-      const response = await result.response;
-      let title = response.text().trim();
+      let title = (await this.generate('titles', { prompt, task: 'title', input: plainText }, options)).trim();
 
       // Clean up the title
       title = title
@@ -625,8 +915,9 @@ Return ONLY the title, nothing else:`;
 
       return title;
     } catch (error) {
+      if (options.signal?.aborted) throw error;
       console.error('Error generating title:', error);
-      return 'Untitled Note';
+      throw toAIError(error);
     }
   }
 }
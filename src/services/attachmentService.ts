@@ -0,0 +1,379 @@
+import type { Attachment } from '../types';
+import {
+  openDatabase,
+  requestToPromise,
+  transactionToPromise,
+  toStorageError,
+  ATTACHMENTS_STORE
+} from './database';
+import { EncryptionService } from './encryptionService';
+import type { BackupAttachment, RestoreStrategy } from './backupService';
+import { ATTACHMENT_URL_PREFIX, MAX_ATTACHMENT_SIZE, createAttachmentId, formatFileSize } from '../utils/attachments';
+
+type AttachmentListener = (noteId: string) => void;
+
+const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // Chunked, since spreading a large file into one call overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const base64ToBlob = (base64: string, type: string): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type });
+};
+
+const urlKey = (noteId: string, id: string) => `${noteId}/${id}`;
+
+// Stores the images and files attached to notes. Attachments of encrypted notes
+// hold ciphertext, encrypted with the note password like the note itself.
+export class AttachmentService {
+  private static instance: AttachmentService;
+  // Object URLs handed out for shown attachments, by note and attachment id
+  private objectUrls = new Map<string, string>();
+  private listeners = new Set<AttachmentListener>();
+
+  static getInstance(): AttachmentService {
+    if (!AttachmentService.instance) {
+      AttachmentService.instance = new AttachmentService();
+    }
+    return AttachmentService.instance;
+  }
+
+  /**
+   * Stores a file as an attachment of a note
+   */
+  async add(noteId: string, file: File): Promise<Attachment> {
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      throw new Error(`"${file.name}" is too large to attach. Files can be up to ${formatFileSize(MAX_ATTACHMENT_SIZE)}.`);
+    }
+
+    const type = file.type || 'application/octet-stream';
+    const attachment: Attachment = {
+      id: createAttachmentId(),
+      noteId,
+      name: file.name || 'Attachment',
+      type,
+      size: file.size,
+      createdAt: new Date(),
+      data: file.slice(0, file.size, type)
+    };
+
+    await this.write(store => store.put(attachment), 'Failed to save the attachment');
+    this.notify([noteId]);
+    return attachment;
+  }
+
+  /**
+   * Lists the attachments of a note, oldest first
+   */
+  async getForNote(noteId: string): Promise<Attachment[]> {
+    const db = await openDatabase();
+    const transaction = db.transaction(ATTACHMENTS_STORE, 'readonly');
+    const index = transaction.objectStore(ATTACHMENTS_STORE).index('noteId');
+    const attachments = await requestToPromise(index.getAll(noteId) as IDBRequest<Attachment[]>);
+    return attachments.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async get(noteId: string, id: string): Promise<Attachment | undefined> {
+    const db = await openDatabase();
+    const transaction = db.transaction(ATTACHMENTS_STORE, 'readonly');
+    return requestToPromise(
+      transaction.objectStore(ATTACHMENTS_STORE).get([noteId, id]) as IDBRequest<Attachment | undefined>
+    );
+  }
+
+  /**
+   * An object URL for showing or downloading an attachment, or null when it is
+   * missing or encrypted. URLs are reused until the attachment changes.
+   */
+  async getObjectUrl(noteId: string, id: string): Promise<string | null> {
+    const key = urlKey(noteId, id);
+    const cached = this.objectUrls.get(key);
+    if (cached) return cached;
+
+    const attachment = await this.get(noteId, id);
+    if (!attachment || attachment.encryption) return null;
+    // Another call may have created one while this one was reading
+    const url = this.objectUrls.get(key) ?? URL.createObjectURL(attachment.data);
+    this.objectUrls.set(key, url);
+    return url;
+  }
+
+  /**
+   * Downloads an attachment under its file name
+   */
+  async download(noteId: string, id: string): Promise<void> {
+    const attachment = await this.get(noteId, id);
+    const url = await this.getObjectUrl(noteId, id);
+    if (!attachment || !url) throw new Error('This attachment is no longer available.');
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = attachment.name;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  }
+
+  /**
+   * Points the attachment images inside an element at their stored data
+   */
+  async showImages(root: HTMLElement, noteId: string): Promise<void> {
+    const images = Array.from(root.querySelectorAll<HTMLImageElement>(`img[src^="${ATTACHMENT_URL_PREFIX}"]`));
+    await Promise.all(images.map(async image => {
+      const id = image.getAttribute('src')!.slice(ATTACHMENT_URL_PREFIX.length);
+      // Known URLs are set right away so re-rendered images do not flicker
+      const cached = this.objectUrls.get(urlKey(noteId, id));
+      if (cached) {
+        image.src = cached;
+        return;
+      }
+      try {
+        const url = await this.getObjectUrl(noteId, id);
+        if (url) image.src = url;
+      } catch (error) {
+        console.error('Error loading attachment:', error);
+      }
+    }));
+  }
+
+  async delete(noteId: string, id: string): Promise<void> {
+    await this.write(store => store.delete([noteId, id]), 'Failed to delete the attachment');
+    this.revokeUrls(noteId, id);
+    this.notify([noteId]);
+  }
+
+  /**
+   * Removes every attachment of the given notes (used when notes are purged)
+   */
+  async deleteForNotes(noteIds: string[]): Promise<void> {
+    if (noteIds.length === 0) return;
+
+    await this.write(store => this.deleteInStore(store, noteIds), 'Failed to delete attachments');
+    noteIds.forEach(noteId => this.revokeUrls(noteId));
+    this.notify(noteIds);
+  }
+
+  /**
+   * Removes attachments whose note no longer exists, e.g. when a note was purged
+   * in a tab that closed before its attachments were deleted. Returns how many
+   * were removed.
+   */
+  async removeOrphans(noteIds: Iterable<string>): Promise<number> {
+    const keep = new Set(noteIds);
+    let removed = 0;
+
+    await this.write(store => {
+      const request = store.index('noteId').openKeyCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        if (!keep.has(cursor.key as string)) {
+          store.delete(cursor.primaryKey);
+          removed++;
+        }
+        cursor.continue();
+      };
+    }, 'Failed to clean up attachments');
+    return removed;
+  }
+
+  /**
+   * Gives a copied note its own copies of the original's attachments, under the
+   * same ids so its content keeps referring to them
+   */
+  async copyForNote(fromNoteId: string, toNoteId: string): Promise<void> {
+    const attachments = await this.getForNote(fromNoteId);
+    if (attachments.length === 0) return;
+
+    await this.write(store => {
+      attachments.forEach(attachment => store.put({ ...attachment, noteId: toNoteId }));
+    }, 'Failed to copy attachments');
+    this.notify([toNoteId]);
+  }
+
+  /**
+   * Encrypts the attachments of a note with the note password. All of them are
+   * encrypted before any is written, so a failure leaves them unchanged.
+   */
+  async encryptForNote(noteId: string, password: string): Promise<void> {
+    const encryption = EncryptionService.getInstance();
+    const attachments = (await this.getForNote(noteId)).filter(attachment => !attachment.encryption);
+    if (attachments.length === 0) return;
+
+    const encrypted = await Promise.all(attachments.map(async (attachment): Promise<Attachment> => {
+      const result = await encryption.encryptBytes(await attachment.data.arrayBuffer(), password);
+      return {
+        ...attachment,
+        data: new Blob([result.encrypted], { type: 'application/octet-stream' }),
+        encryption: { salt: result.salt, iv: result.iv }
+      };
+    }));
+
+    await this.write(store => encrypted.forEach(attachment => store.put(attachment)), 'Failed to encrypt attachments');
+    this.revokeUrls(noteId);
+    this.notify([noteId]);
+  }
+
+  /**
+   * Decrypts the attachments of a note; rejects without changing any of them when
+   * the password does not fit
+   */
+  async decryptForNote(noteId: string, password: string): Promise<void> {
+    const encryption = EncryptionService.getInstance();
+    const attachments = (await this.getForNote(noteId)).filter(attachment => attachment.encryption);
+    if (attachments.length === 0) return;
+
+    const decrypted = await Promise.all(attachments.map(async (attachment): Promise<Attachment> => {
+      const { salt, iv } = attachment.encryption!;
+      const data = await encryption.decryptBytes(await attachment.data.arrayBuffer(), password, salt, iv);
+      return { ...attachment, data: new Blob([data], { type: attachment.type }), encryption: undefined };
+    }));
+
+    await this.write(store => decrypted.forEach(attachment => store.put(attachment)), 'Failed to decrypt attachments');
+    this.notify([noteId]);
+  }
+
+  /**
+   * The attachments of the given notes in backup form. Encrypted attachments stay
+   * encrypted.
+   */
+  async exportForBackup(noteIds: string[]): Promise<BackupAttachment[]> {
+    const included = new Set(noteIds);
+    const db = await openDatabase();
+    const transaction = db.transaction(ATTACHMENTS_STORE, 'readonly');
+    const attachments = (await requestToPromise(
+      transaction.objectStore(ATTACHMENTS_STORE).getAll() as IDBRequest<Attachment[]>
+    )).filter(attachment => included.has(attachment.noteId));
+
+    return Promise.all(attachments.map(async attachment => ({
+      id: attachment.id,
+      noteId: attachment.noteId,
+      name: attachment.name,
+      type: attachment.type,
+      size: attachment.size,
+      createdAt: attachment.createdAt.toISOString(),
+      data: await blobToBase64(attachment.data),
+      ...(attachment.encryption ? { encryption: { ...attachment.encryption } } : {})
+    })));
+  }
+
+  /**
+   * Stores the attachments of a restored backup. Replace swaps the attachments of
+   * the backed-up notes for the backup's, merge only adds missing ones, and
+   * copies attaches them to the copied notes given by copyIds.
+   */
+  async restoreFromBackup(
+    attachments: BackupAttachment[],
+    strategy: RestoreStrategy,
+    copyIds?: Map<string, string>
+  ): Promise<void> {
+    const restored: Attachment[] = [];
+    attachments.forEach(backup => {
+      const noteId = strategy === 'copies' ? copyIds?.get(backup.noteId) : backup.noteId;
+      if (!noteId) return;
+      restored.push({
+        id: backup.id,
+        noteId,
+        name: backup.name,
+        type: backup.type,
+        size: backup.size,
+        createdAt: new Date(backup.createdAt),
+        data: base64ToBlob(backup.data, backup.encryption ? 'application/octet-stream' : backup.type),
+        encryption: backup.encryption ? { ...backup.encryption } : undefined
+      });
+    });
+
+    const noteIds = [...new Set(restored.map(attachment => attachment.noteId))];
+
+    // Replacing deletes and stores in one transaction, so a failure keeps the old attachments
+    await this.write(store => {
+      if (strategy === 'replace') {
+        // A note's attachments go in once its old ones are gone, or the delete cursor would reach them
+        this.deleteInStore(store, noteIds, noteId => restored
+          .filter(attachment => attachment.noteId === noteId)
+          .forEach(attachment => store.put(attachment)));
+        return;
+      }
+
+      restored.forEach(attachment => {
+        if (strategy !== 'merge') {
+          store.put(attachment);
+          return;
+        }
+        // Existing attachments may have been encrypted since the backup was made
+        const request = store.add(attachment);
+        request.onerror = (event) => {
+          event.preventDefault();
+          event.stopPropagation();
+        };
+      });
+    }, 'Failed to restore attachments');
+    noteIds.forEach(noteId => this.revokeUrls(noteId));
+    this.notify(noteIds);
+  }
+
+  /**
+   * Calls the listener with the note id whenever that note's attachments change
+   */
+  subscribe(listener: AttachmentListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async write(apply: (store: IDBObjectStore) => void, fallbackMessage: string): Promise<void> {
+    const db = await openDatabase();
+    try {
+      const transaction = db.transaction(ATTACHMENTS_STORE, 'readwrite');
+      apply(transaction.objectStore(ATTACHMENTS_STORE));
+      await transactionToPromise(transaction);
+    } catch (error) {
+      throw toStorageError(error, fallbackMessage);
+    }
+  }
+
+  /**
+   * Deletes the attachments of the given notes within a transaction, calling
+   * onDeleted for each note once all of its attachments are gone
+   */
+  private deleteInStore(store: IDBObjectStore, noteIds: string[], onDeleted?: (noteId: string) => void): void {
+    const index = store.index('noteId');
+    noteIds.forEach(noteId => {
+      const request = index.openKeyCursor(IDBKeyRange.only(noteId));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          store.delete(cursor.primaryKey);
+          cursor.continue();
+        } else {
+          onDeleted?.(noteId);
+        }
+      };
+    });
+  }
+
+  private revokeUrls(noteId: string, id?: string): void {
+    const prefix = id ? urlKey(noteId, id) : `${noteId}/`;
+    Array.from(this.objectUrls.keys()).forEach(key => {
+      if (id ? key === prefix : key.startsWith(prefix)) {
+        URL.revokeObjectURL(this.objectUrls.get(key)!);
+        this.objectUrls.delete(key);
+      }
+    });
+  }
+
+  private notify(noteIds: string[]): void {
+    noteIds.forEach(noteId => this.listeners.forEach(listener => listener(noteId)));
+  }
+}
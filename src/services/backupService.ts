@@ -0,0 +1,397 @@
+import type { Note, Notebook } from '../types';
+import type { UserPreferences } from '../hooks/useUserPreferences';
+import { PREFERENCES_SCHEMA } from '../hooks/useUserPreferences';
+import { upgradeRecord, NOTE_SCHEMA, NOTEBOOK_SCHEMA } from './schema';
+import { normalizeHtml } from '../utils/documentHtml';
+import type { GlossaryEntry } from './aiService';
+
+const BACKUP_FORMAT = 'smart-notes-backup';
+// v2 added notebooks, v3 attachments, v4 the model behind each glossary definition
+const BACKUP_VERSION = 4;
+
+export type RestoreStrategy = 'replace' | 'merge' | 'copies';
+
+/**
+ * An attachment in a backup file, its data base64 encoded. Attachments of
+ * encrypted notes keep their ciphertext and encryption details.
+ */
+export interface BackupAttachment {
+  id: string;
+  noteId: string;
+  name: string;
+  type: string;
+  size: number;
+  createdAt: string;
+  data: string;
+  encryption?: {
+    salt: string;
+    iv: string;
+  };
+}
+
+/**
+ * On-disk backup layout. Dates are ISO strings and encrypted notes keep their
+ * encryptionData, so a backup never contains plaintext of locked notes.
+ */
+export interface WorkspaceBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  noteSchemaVersion: number;
+  preferencesSchemaVersion: number;
+  notes: Array<Record<string, unknown>>;
+  notebooks: Array<Record<string, unknown>>;
+  preferences: Record<string, unknown>;
+  glossary: GlossaryEntry[];
+  attachments: BackupAttachment[];
+}
+
+export interface ParsedBackup {
+  exportedAt: Date;
+  notes: Note[];
+  notebooks: Notebook[];
+  preferences: UserPreferences;
+  glossary: GlossaryEntry[];
+  attachments: BackupAttachment[];
+}
+
+export interface RestorePreview {
+  added: number;
+  newerInBackup: number;
+  newerLocally: number;
+  unchanged: number;
+  onlyLocal: number;
+}
+
+// Raised when a backup file cannot be restored; nothing is changed in that case
+export class BackupValidationError extends Error {
+  readonly errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Backup file is invalid: ${errors[0]}${errors.length > 1 ? ` (and ${errors.length - 1} more problems)` : ''}`);
+    this.name = 'BackupValidationError';
+    this.errors = errors;
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isGlossaryEntry = (value: unknown): boolean =>
+  isPlainObject(value) &&
+  typeof value.term === 'string' &&
+  typeof value.definition === 'string' &&
+  isPlainObject(value.source) &&
+  typeof value.source.provider === 'string' &&
+  typeof value.source.model === 'string' &&
+  typeof value.source.promptVersion === 'number';
+
+const DATE_FIELDS = ['createdAt', 'updatedAt', 'deletedAt'] as const;
+
+const serializeDates = (item: Note | Notebook): Record<string, unknown> => {
+  const record: Record<string, unknown> = { ...item };
+  DATE_FIELDS.forEach(field => {
+    const value = record[field];
+    if (value instanceof Date) record[field] = value.toISOString();
+  });
+  return record;
+};
+
+const hydrateDates = (record: Record<string, unknown>): Record<string, unknown> => {
+  const hydrated = { ...record };
+  DATE_FIELDS.forEach(field => {
+    if (typeof hydrated[field] === 'string') {
+      hydrated[field] = new Date(hydrated[field] as string);
+    }
+  });
+  return hydrated;
+};
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+const validateAttachment = (raw: unknown, label: string): string[] => {
+  if (!isPlainObject(raw)) return [`${label} is not an object`];
+  const errors: string[] = [];
+  (['id', 'noteId', 'name', 'type', 'data'] as const).forEach(field => {
+    if (typeof raw[field] !== 'string') errors.push(`${label}: ${field} must be a string`);
+  });
+  if (typeof raw.size !== 'number' || raw.size < 0) errors.push(`${label}: size must be a number`);
+  if (typeof raw.createdAt !== 'string' || isNaN(new Date(raw.createdAt).getTime())) {
+    errors.push(`${label}: createdAt must be a valid date`);
+  }
+  if (typeof raw.data === 'string' && !BASE64_PATTERN.test(raw.data)) errors.push(`${label}: data is not base64`);
+  if (raw.encryption !== undefined &&
+      (!isPlainObject(raw.encryption) || typeof raw.encryption.salt !== 'string' || typeof raw.encryption.iv !== 'string')) {
+    errors.push(`${label}: encryption must have a salt and iv`);
+  }
+  return errors;
+};
+
+// Ids of notebooks whose parent chain loops back on itself; the sidebar could never reach them
+const findNotebookCycles = (notebooks: Notebook[]): string[] => {
+  const parents = new Map(notebooks.map(notebook => [notebook.id, notebook.parentId]));
+  return notebooks
+    .filter(notebook => {
+      const seen = new Set<string>();
+      let id: string | null | undefined = notebook.id;
+      while (id && parents.has(id)) {
+        if (seen.has(id)) return true;
+        seen.add(id);
+        id = parents.get(id);
+      }
+      return false;
+    })
+    .map(notebook => notebook.id);
+};
+
+const newNoteId = () => `note-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+// Creates and validates workspace backups and merges them into existing notes
+export class BackupService {
+  private static instance: BackupService;
+
+  static getInstance(): BackupService {
+    if (!BackupService.instance) {
+      BackupService.instance = new BackupService();
+    }
+    return BackupService.instance;
+  }
+
+  createBackup(
+    notes: Note[],
+    notebooks: Notebook[],
+    preferences: UserPreferences,
+    glossary: GlossaryEntry[],
+    attachments: BackupAttachment[] = []
+  ): WorkspaceBackup {
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: new Date().toISOString(),
+      noteSchemaVersion: NOTE_SCHEMA.currentVersion,
+      preferencesSchemaVersion: PREFERENCES_SCHEMA.currentVersion,
+      // Notes saved by a newer version of the app belong in that version's backups
+      notes: notes.filter(note => !note.readOnly).map(serializeDates),
+      notebooks: notebooks.map(serializeDates),
+      preferences: { ...preferences },
+      glossary,
+      attachments
+    };
+  }
+
+  /**
+   * Downloads the backup as a JSON file
+   */
+  downloadBackup(backup: WorkspaceBackup): void {
+    const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `smart-notes-backup-${backup.exportedAt.slice(0, 10)}.json`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+
+  /**
+   * Parses and validates a backup file. Any invalid note or setting rejects the
+   * whole backup with a BackupValidationError so a partial restore never happens.
+   */
+  parseBackup(text: string): ParsedBackup {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new BackupValidationError(['File is not valid JSON']);
+    }
+
+    if (!isPlainObject(parsed) || parsed.format !== BACKUP_FORMAT) {
+      throw new BackupValidationError(['File is not a Smart Notes backup']);
+    }
+    if (typeof parsed.version !== 'number' || parsed.version > BACKUP_VERSION) {
+      throw new BackupValidationError([`Backup format version ${String(parsed.version)} is not supported`]);
+    }
+    if (!Array.isArray(parsed.notes)) {
+      throw new BackupValidationError(['Backup does not contain a notes list']);
+    }
+
+    const errors: string[] = [];
+    const notes: Note[] = [];
+    const seenIds = new Set<string>();
+    const noteSchemaVersion = typeof parsed.noteSchemaVersion === 'number' ? parsed.noteSchemaVersion : 0;
+
+    parsed.notes.forEach((raw: unknown, index: number) => {
+      const label = isPlainObject(raw) && typeof raw.id === 'string' ? `Note ${raw.id}` : `Note #${index + 1}`;
+      if (!isPlainObject(raw)) {
+        errors.push(`${label} is not an object`);
+        return;
+      }
+
+      const upgrade = upgradeRecord<Note>(hydrateDates(raw), noteSchemaVersion, NOTE_SCHEMA);
+      if (upgrade.status === 'invalid') {
+        errors.push(`${label}: ${upgrade.errors.join('; ')}`);
+      } else if (upgrade.status === 'newer') {
+        errors.push(`${label} uses schema version ${upgrade.fromVersion}, newer than supported version ${NOTE_SCHEMA.currentVersion}`);
+      } else if (upgrade.status !== 'retired') {
+        if (seenIds.has(upgrade.value.id)) {
+          errors.push(`${label} appears more than once`);
+        }
+        seenIds.add(upgrade.value.id);
+        // Restored HTML goes through the editor's sanitizer, as pasted HTML does;
+        // encrypted notes only hold a placeholder
+        const note = upgrade.value;
+        notes.push(note.isEncrypted ? note : { ...note, content: normalizeHtml(note.content) });
+      }
+    });
+
+    // Backups from before notebooks existed have none
+    const notebooks: Notebook[] = [];
+    const rawNotebooks: unknown = parsed.notebooks ?? [];
+    if (!Array.isArray(rawNotebooks)) {
+      errors.push('Notebooks must be a list');
+    } else {
+      rawNotebooks.forEach((raw: unknown, index: number) => {
+        const label = isPlainObject(raw) && typeof raw.id === 'string' ? `Notebook ${raw.id}` : `Notebook #${index + 1}`;
+        const upgrade = upgradeRecord<Notebook>(
+          isPlainObject(raw) ? hydrateDates(raw) : raw,
+          NOTEBOOK_SCHEMA.currentVersion,
+          NOTEBOOK_SCHEMA
+        );
+        if (upgrade.status === 'invalid') {
+          errors.push(`${label}: ${upgrade.errors.join('; ')}`);
+        } else if (upgrade.status !== 'retired' && upgrade.value) {
+          notebooks.push(upgrade.value);
+        }
+      });
+      findNotebookCycles(notebooks).forEach(id => {
+        errors.push(`Notebook ${id}: its parent notebooks form a cycle`);
+      });
+    }
+
+    // Backups from before attachments existed have none
+    const attachments: BackupAttachment[] = [];
+    const rawAttachments: unknown = parsed.attachments ?? [];
+    if (!Array.isArray(rawAttachments)) {
+      errors.push('Attachments must be a list');
+    } else {
+      rawAttachments.forEach((raw: unknown, index: number) => {
+        const label = isPlainObject(raw) && typeof raw.id === 'string' ? `Attachment ${raw.id}` : `Attachment #${index + 1}`;
+        const attachmentErrors = validateAttachment(raw, label);
+        if (attachmentErrors.length > 0) {
+          errors.push(...attachmentErrors);
+        } else {
+          attachments.push(raw as unknown as BackupAttachment);
+        }
+      });
+    }
+
+    const preferencesUpgrade = upgradeRecord(
+      parsed.preferences,
+      typeof parsed.preferencesSchemaVersion === 'number' ? parsed.preferencesSchemaVersion : 0,
+      PREFERENCES_SCHEMA
+    );
+    if (preferencesUpgrade.status === 'invalid') {
+      errors.push(`Preferences: ${preferencesUpgrade.errors.join('; ')}`);
+    } else if (preferencesUpgrade.status === 'newer') {
+      errors.push(`Preferences use schema version ${preferencesUpgrade.fromVersion}, newer than supported version ${PREFERENCES_SCHEMA.currentVersion}`);
+    }
+
+    // Older backups do not say which model wrote a definition, so theirs are left out
+    const glossary = parsed.version >= 4 ? parsed.glossary ?? [] : [];
+    if (!Array.isArray(glossary) || !glossary.every(isGlossaryEntry)) {
+      errors.push('Glossary must list terms with their definitions and the model that wrote them');
+    }
+
+    const exportedAt = new Date(typeof parsed.exportedAt === 'string' ? parsed.exportedAt : NaN);
+    if (isNaN(exportedAt.getTime())) {
+      errors.push('exportedAt must be a valid date');
+    }
+
+    if (errors.length > 0 || preferencesUpgrade.status === 'invalid' || preferencesUpgrade.status === 'retired' ||
+        preferencesUpgrade.status === 'newer') {
+      throw new BackupValidationError(errors.length > 0 ? errors : ['Preferences could not be read']);
+    }
+
+    return {
+      exportedAt,
+      notes,
+      notebooks,
+      preferences: preferencesUpgrade.value,
+      glossary: glossary as GlossaryEntry[],
+      attachments
+    };
+  }
+
+  /**
+   * Summarizes how a backup differs from the current notes, matched by id
+   */
+  previewRestore(current: Note[], incoming: Note[]): RestorePreview {
+    const currentById = new Map(current.map(note => [note.id, note]));
+    const incomingIds = new Set(incoming.map(note => note.id));
+    const preview: RestorePreview = { added: 0, newerInBackup: 0, newerLocally: 0, unchanged: 0, onlyLocal: 0 };
+
+    incoming.forEach(note => {
+      const existing = currentById.get(note.id);
+      if (!existing) {
+        preview.added++;
+      } else if (note.updatedAt.getTime() > existing.updatedAt.getTime()) {
+        preview.newerInBackup++;
+      } else if (note.updatedAt.getTime() < existing.updatedAt.getTime()) {
+        preview.newerLocally++;
+      } else {
+        preview.unchanged++;
+      }
+    });
+    preview.onlyLocal = current.filter(note => !incomingIds.has(note.id)).length;
+
+    return preview;
+  }
+
+  /**
+   * New ids for restoring notes as copies, by original id
+   */
+  createCopyIds(notes: Note[]): Map<string, string> {
+    return new Map(notes.map(note => [note.id, newNoteId()]));
+  }
+
+  /**
+   * Returns the note list that results from restoring a backup with the given
+   * strategy. Copies take their ids from copyIds when given.
+   */
+  applyRestore(current: Note[], incoming: Note[], strategy: RestoreStrategy, copyIds?: Map<string, string>): Note[] {
+    switch (strategy) {
+      case 'replace':
+        return incoming;
+      case 'merge': {
+        const merged = new Map(current.map(note => [note.id, note]));
+        incoming.forEach(note => {
+          const existing = merged.get(note.id);
+          if (!existing || note.updatedAt.getTime() > existing.updatedAt.getTime()) {
+            merged.set(note.id, note);
+          }
+        });
+        return Array.from(merged.values());
+      }
+      case 'copies':
+        return [...incoming.map(note => ({ ...note, id: copyIds?.get(note.id) ?? newNoteId() })), ...current];
+    }
+  }
+
+  /**
+   * Returns the notebooks that result from a restore. Only replace drops existing
+   * notebooks; otherwise they are merged by id so copied notes keep their notebook.
+   */
+  applyNotebookRestore(current: Notebook[], incoming: Notebook[], strategy: RestoreStrategy): Notebook[] {
+    if (strategy === 'replace') return incoming;
+
+    const merged = new Map(current.map(notebook => [notebook.id, notebook]));
+    incoming.forEach(notebook => {
+      const existing = merged.get(notebook.id);
+      if (!existing || notebook.updatedAt.getTime() > existing.updatedAt.getTime()) {
+        merged.set(notebook.id, notebook);
+      }
+    });
+    return Array.from(merged.values());
+  }
+}
@@ -0,0 +1,146 @@
+// Shared IndexedDB connection and helpers used by the storage services
+const DB_NAME = 'smart-notes-db';
+const DB_VERSION = 6;
+
+export const NOTES_STORE = 'notes';
+export const META_STORE = 'meta';
+export const QUARANTINE_STORE = 'quarantine';
+export const REVISIONS_STORE = 'revisions';
+export const NOTEBOOKS_STORE = 'notebooks';
+export const ATTACHMENTS_STORE = 'attachments';
+export const AI_CACHE_STORE = 'aiCache';
+
+/**
+ * Raised when the browser refuses a write because the storage quota is exhausted
+ */
+export class StorageQuotaError extends Error {
+  constructor(message = 'Browser storage is full. Free up space by deleting notes or clearing site data.') {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+/**
+ * Checks whether an error thrown by localStorage or IndexedDB is a quota error
+ */
+export const isQuotaError = (error: unknown): boolean => {
+  if (error instanceof StorageQuotaError) return true;
+  if (error instanceof DOMException) {
+    return error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED';
+  }
+  return false;
+};
+
+/**
+ * Normalizes storage failures so callers only deal with StorageQuotaError or Error
+ */
+export const toStorageError = (error: unknown, fallbackMessage: string): Error => {
+  if (isQuotaError(error)) {
+    return error instanceof StorageQuotaError ? error : new StorageQuotaError();
+  }
+  if (error instanceof Error) return error;
+  return new Error(fallbackMessage);
+};
+
+const upgradeDatabase = (db: IDBDatabase, oldVersion: number) => {
+  // Steps run in order so a fresh install applies every schema upgrade
+  if (oldVersion < 1) {
+    const notes = db.createObjectStore(NOTES_STORE, { keyPath: 'id' });
+    notes.createIndex('updatedAt', 'updatedAt');
+    notes.createIndex('pinned', 'pinned');
+    notes.createIndex('tags', 'tags', { multiEntry: true });
+    db.createObjectStore(META_STORE);
+  }
+
+  if (oldVersion < 2) {
+    const quarantine = db.createObjectStore(QUARANTINE_STORE, { keyPath: 'quarantineId', autoIncrement: true });
+    quarantine.createIndex('source', 'source');
+  }
+
+  if (oldVersion < 3) {
+    const revisions = db.createObjectStore(REVISIONS_STORE, { keyPath: 'id' });
+    revisions.createIndex('noteId', 'noteId');
+  }
+
+  if (oldVersion < 4) {
+    db.createObjectStore(NOTEBOOKS_STORE, { keyPath: 'id' });
+  }
+
+  if (oldVersion < 5) {
+    // Keyed per note, so a copied note can keep the attachment ids its content refers to
+    const attachments = db.createObjectStore(ATTACHMENTS_STORE, { keyPath: ['noteId', 'id'] });
+    attachments.createIndex('noteId', 'noteId');
+  }
+
+  if (oldVersion < 6) {
+    const aiCache = db.createObjectStore(AI_CACHE_STORE, { keyPath: 'key' });
+    aiCache.createIndex('feature', 'feature');
+    aiCache.createIndex('lastUsedAt', 'lastUsedAt');
+    aiCache.createIndex('expiresAt', 'expiresAt');
+    aiCache.createIndex('noteId', 'noteId');
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and upgrades if needed) the application database, reusing a single connection
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not supported in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      upgradeDatabase(request.result, event.oldVersion);
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer tab upgrade the schema instead of blocking it
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => {
+      dbPromise = null;
+      reject(toStorageError(request.error, 'Failed to open the notes database'));
+    };
+
+    request.onblocked = () => {
+      console.warn('Notes database upgrade is blocked by another open tab');
+    };
+  });
+
+  return dbPromise;
+};
+
+/**
+ * Wraps an IDBRequest in a promise
+ */
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(toStorageError(request.error, 'Storage request failed'));
+  });
+};
+
+/**
+ * Resolves once a transaction has committed, rejecting on error or abort
+ */
+export const transactionToPromise = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(toStorageError(transaction.error, 'Storage transaction failed'));
+    transaction.onabort = () => reject(toStorageError(transaction.error, 'Storage transaction was aborted'));
+  });
+};
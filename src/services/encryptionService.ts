@@ -108,6 +108,53 @@ export class EncryptionService {
     }
   }
 
+  /**
+   * Encrypts binary data, such as an attachment, with a password
+   */
+  async encryptBytes(data: ArrayBuffer, password: string): Promise<{
+    encrypted: ArrayBuffer;
+    salt: string;
+    iv: string;
+  }> {
+    try {
+      const salt = crypto.getRandomValues(new Uint8Array(16));
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const key = await this.deriveKey(password, salt);
+      const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv: iv }, key, data);
+
+      return {
+        encrypted,
+        salt: this.arrayBufferToBase64(salt.buffer),
+        iv: this.arrayBufferToBase64(iv.buffer)
+      };
+    } catch (error) {
+      console.error('Encryption failed:', error);
+      throw new Error('Failed to encrypt data');
+    }
+  }
+
+  /**
+   * Decrypts binary data encrypted with encryptBytes
+   */
+  async decryptBytes(
+    encrypted: ArrayBuffer,
+    password: string,
+    salt: string,
+    iv: string
+  ): Promise<ArrayBuffer> {
+    try {
+      const key = await this.deriveKey(password, new Uint8Array(this.base64ToArrayBuffer(salt)));
+      return await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: new Uint8Array(this.base64ToArrayBuffer(iv)) },
+        key,
+        encrypted
+      );
+    } catch (error) {
+      console.error('Decryption failed:', error);
+      throw new Error('Failed to decrypt data - wrong password or corrupted data');
+    }
+  }
+
   /**
    * Validates if a password can decrypt the encrypted data
    */
@@ -0,0 +1,179 @@
+import JSZip from 'jszip';
+import type { Note } from '../types';
+import { htmlToMarkdown, markdownToHtml } from '../utils/markdown';
+import { parseFrontMatter, stringifyFrontMatter } from '../utils/frontMatter';
+import type { FrontMatter } from '../utils/frontMatter';
+
+const MARKDOWN_EXTENSIONS = /\.(md|markdown)$/i;
+
+export interface MarkdownExportResult {
+  exported: number;
+  skippedEncrypted: number;
+}
+
+export interface MarkdownImportResult {
+  notes: Note[];
+  failed: string[];
+}
+
+const slugify = (title: string): string =>
+  title
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80) || 'untitled-note';
+
+const parseDate = (value: unknown): Date | undefined => {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke after the click has been handled so the download can start
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Converts notes to and from Markdown files with YAML front matter
+export class MarkdownService {
+  private static instance: MarkdownService;
+
+  static getInstance(): MarkdownService {
+    if (!MarkdownService.instance) {
+      MarkdownService.instance = new MarkdownService();
+    }
+    return MarkdownService.instance;
+  }
+
+  /**
+   * Serializes a note as Markdown with its metadata in front matter
+   */
+  noteToMarkdown(note: Note): string {
+    const frontMatter: FrontMatter = {
+      title: note.title || 'Untitled Note',
+      tags: note.tags || [],
+      isPinned: note.isPinned,
+      createdAt: note.createdAt.toISOString(),
+      updatedAt: note.updatedAt.toISOString()
+    };
+    if (note.category) {
+      frontMatter.category = note.category;
+    }
+    return `${stringifyFrontMatter(frontMatter)}\n${htmlToMarkdown(note.content)}`;
+  }
+
+  /**
+   * Builds a new note from a Markdown document. The title falls back to a leading
+   * heading and then to the file name.
+   */
+  markdownToNote(markdown: string, fileName: string): Note {
+    const { data, body } = parseFrontMatter(markdown);
+    let content = body;
+    let title = typeof data.title === 'string' || typeof data.title === 'number' ? String(data.title) : '';
+
+    if (!title) {
+      const heading = body.match(/^\s*#\s+(.+?)\s*#*\s*(?:\n|$)/);
+      if (heading) {
+        title = heading[1];
+        content = body.slice(heading[0].length);
+      } else {
+        title = fileName.replace(/^.*\//, '').replace(MARKDOWN_EXTENSIONS, '');
+      }
+    }
+
+    const tags = Array.isArray(data.tags)
+      ? data.tags
+      : typeof data.tags === 'string' ? data.tags.split(',') : [];
+    const now = new Date();
+
+    return {
+      id: `note-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      title: title.trim() || 'Untitled Note',
+      content: markdownToHtml(content),
+      isPinned: data.isPinned === true,
+      createdAt: parseDate(data.createdAt) ?? now,
+      updatedAt: parseDate(data.updatedAt) ?? now,
+      tags: Array.from(new Set(tags.map(tag => tag.trim().replace(/^#/, '')).filter(Boolean))),
+      ...(data.category !== undefined && { category: String(data.category) })
+    };
+  }
+
+  /**
+   * Downloads a single note as a Markdown file
+   */
+  exportNote(note: Note): void {
+    if (note.isEncrypted) {
+      throw new Error('Encrypted notes must be unlocked before they can be exported');
+    }
+    const blob = new Blob([this.noteToMarkdown(note)], { type: 'text/markdown;charset=utf-8' });
+    downloadBlob(blob, `${slugify(note.title)}.md`);
+  }
+
+  /**
+   * Downloads every note as a zip of Markdown files. Encrypted notes are skipped
+   * because their content is only available as ciphertext.
+   */
+  async exportWorkspace(notes: Note[]): Promise<MarkdownExportResult> {
+    const zip = new JSZip();
+    const usedNames = new Set<string>();
+    const exportable = notes.filter(note => !note.isEncrypted);
+
+    exportable.forEach(note => {
+      const base = slugify(note.title);
+      let fileName = `${base}.md`;
+      for (let suffix = 2; usedNames.has(fileName); suffix++) {
+        fileName = `${base}-${suffix}.md`;
+      }
+      usedNames.add(fileName);
+      zip.file(fileName, this.noteToMarkdown(note), { date: note.updatedAt });
+    });
+
+    const blob = await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+    downloadBlob(blob, `notes-${new Date().toISOString().slice(0, 10)}.zip`);
+
+    return { exported: exportable.length, skippedEncrypted: notes.length - exportable.length };
+  }
+
+  /**
+   * Reads `.md` files and zip archives (e.g. from a folder picker or a previous export)
+   */
+  async importFiles(files: File[]): Promise<MarkdownImportResult> {
+    const result: MarkdownImportResult = { notes: [], failed: [] };
+
+    for (const file of files) {
+      const path = file.webkitRelativePath || file.name;
+      try {
+        if (/\.zip$/i.test(file.name)) {
+          const zip = await JSZip.loadAsync(file);
+          const entries = Object.values(zip.files).filter(entry =>
+            !entry.dir && MARKDOWN_EXTENSIONS.test(entry.name) && !entry.name.startsWith('__MACOSX/')
+          );
+          for (const entry of entries) {
+            try {
+              result.notes.push(this.markdownToNote(await entry.async('string'), entry.name));
+            } catch (error) {
+              console.error(`Error importing ${entry.name}:`, error);
+              result.failed.push(`${file.name}/${entry.name}`);
+            }
+          }
+        } else if (MARKDOWN_EXTENSIONS.test(file.name)) {
+          result.notes.push(this.markdownToNote(await file.text(), path));
+        }
+      } catch (error) {
+        console.error(`Error importing ${path}:`, error);
+        result.failed.push(path);
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,282 @@
+import type { Note, QuarantinedRecord } from '../types';
+import {
+  openDatabase,
+  requestToPromise,
+  transactionToPromise,
+  toStorageError,
+  NOTES_STORE,
+  META_STORE,
+  QUARANTINE_STORE
+} from './database';
+import { upgradeRecord, isFromNewerSchema, NOTE_SCHEMA } from './schema';
+
+const LEGACY_STORAGE_KEY = 'notes-app-data';
+const LEGACY_IMPORTED_KEY = 'legacyLocalStorageImported';
+
+// Booleans are not valid IndexedDB keys, so pinned state is indexed as 0/1
+interface NoteRecord extends Note {
+  pinned: 0 | 1;
+  schemaVersion: number;
+}
+
+interface LoadResult {
+  notes: Note[];
+  upgraded: Note[];
+  removedIds: string[];
+  quarantined: QuarantinedRecord[];
+}
+
+const toRecord = (note: Note): NoteRecord => ({
+  ...note,
+  pinned: note.isPinned ? 1 : 0,
+  schemaVersion: NOTE_SCHEMA.currentVersion
+});
+
+const stripRecordFields = (record: Record<string, unknown>): Record<string, unknown> => {
+  const data = { ...record };
+  delete data.pinned;
+  delete data.schemaVersion;
+  return data;
+};
+
+/**
+ * Runs stored (or legacy) records through the note migrations and validation
+ */
+const loadRecords = (records: Array<Record<string, unknown>>, source: 'indexeddb' | 'legacy'): LoadResult => {
+  const result: LoadResult = { notes: [], upgraded: [], removedIds: [], quarantined: [] };
+
+  records.forEach(record => {
+    const fromVersion = typeof record.schemaVersion === 'number' ? record.schemaVersion : 0;
+    const recordId = typeof record.id === 'string' ? record.id : undefined;
+    const upgrade = upgradeRecord<Note>(stripRecordFields(record), fromVersion, NOTE_SCHEMA);
+
+    switch (upgrade.status) {
+      case 'current':
+        result.notes.push(upgrade.value);
+        break;
+      case 'migrated':
+        result.notes.push(upgrade.value);
+        result.upgraded.push(upgrade.value);
+        break;
+      case 'retired':
+        console.info(`Retired note ${recordId} during schema v${upgrade.fromVersion} upgrade`);
+        if (recordId && source === 'indexeddb') result.removedIds.push(recordId);
+        break;
+      case 'newer':
+        // Left in place for the version that wrote it, and shown read-only if it can be
+        if (upgrade.value) {
+          result.notes.push({ ...upgrade.value, readOnly: true });
+        } else {
+          console.warn(`Note ${recordId ?? '(no id)'} uses schema v${upgrade.fromVersion}, which this version cannot read`);
+        }
+        break;
+      case 'invalid':
+        console.warn(`Quarantined note ${recordId ?? '(no id)'}:`, upgrade.errors);
+        if (recordId && source === 'indexeddb') result.removedIds.push(recordId);
+        result.quarantined.push({
+          source: 'note',
+          recordId,
+          schemaVersion: upgrade.fromVersion,
+          errors: upgrade.errors,
+          raw: record,
+          quarantinedAt: new Date()
+        });
+        break;
+    }
+  });
+
+  return result;
+};
+
+// IndexedDB-backed note storage with one record per note
+export class NoteRepository {
+  private static instance: NoteRepository;
+  private initPromise: Promise<void> | null = null;
+
+  static getInstance(): NoteRepository {
+    if (!NoteRepository.instance) {
+      NoteRepository.instance = new NoteRepository();
+    }
+    return NoteRepository.instance;
+  }
+
+  /**
+   * Opens the database and imports the legacy localStorage blob once
+   */
+  init(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.importLegacyNotes().catch((error) => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  /**
+   * Loads every stored note, most recently updated first
+   */
+  async getAll(): Promise<Note[]> {
+    await this.init();
+    const db = await openDatabase();
+    const transaction = db.transaction(NOTES_STORE, 'readonly');
+    const index = transaction.objectStore(NOTES_STORE).index('updatedAt');
+    const records = await requestToPromise(index.getAll() as IDBRequest<Array<Record<string, unknown>>>);
+    const result = loadRecords(records, 'indexeddb');
+
+    // Persist upgrades and move rejected records out of the notes store atomically
+    if (result.upgraded.length > 0 || result.removedIds.length > 0) {
+      await this.commitLoadResult(result);
+    }
+
+    return result.notes.reverse();
+  }
+
+  /**
+   * Number of records that failed validation and are held in quarantine
+   */
+  async getQuarantinedCount(): Promise<number> {
+    await this.init();
+    const db = await openDatabase();
+    const transaction = db.transaction(QUARANTINE_STORE, 'readonly');
+    const index = transaction.objectStore(QUARANTINE_STORE).index('source');
+    return requestToPromise(index.count('note'));
+  }
+
+  /**
+   * Loads notes carrying the given tag using the multi-entry tags index
+   */
+  async getByTag(tag: string): Promise<Note[]> {
+    await this.init();
+    const db = await openDatabase();
+    const transaction = db.transaction(NOTES_STORE, 'readonly');
+    const index = transaction.objectStore(NOTES_STORE).index('tags');
+    const records = await requestToPromise(index.getAll(tag) as IDBRequest<Array<Record<string, unknown>>>);
+    return loadRecords(records, 'indexeddb').notes;
+  }
+
+  /**
+   * Loads pinned notes using the pinned index. Notes in the trash keep their
+   * pin for when they are restored, but are left out.
+   */
+  async getPinned(): Promise<Note[]> {
+    await this.init();
+    const db = await openDatabase();
+    const transaction = db.transaction(NOTES_STORE, 'readonly');
+    const index = transaction.objectStore(NOTES_STORE).index('pinned');
+    const records = await requestToPromise(index.getAll(1) as IDBRequest<Array<Record<string, unknown>>>);
+    return loadRecords(records, 'indexeddb').notes.filter(note => !note.deletedAt);
+  }
+
+  /**
+   * Loads the given notes; ids without a valid stored record are omitted
+   */
+  async getByIds(ids: string[]): Promise<Note[]> {
+    if (ids.length === 0) return [];
+
+    await this.init();
+    const db = await openDatabase();
+    const transaction = db.transaction(NOTES_STORE, 'readonly');
+    const store = transaction.objectStore(NOTES_STORE);
+    const records = await Promise.all(
+      ids.map(id => requestToPromise(store.get(id) as IDBRequest<Record<string, unknown> | undefined>))
+    );
+    return loadRecords(records.filter((record): record is Record<string, unknown> => !!record), 'indexeddb').notes;
+  }
+
+  /**
+   * Writes changed notes and removes deleted ones in a single transaction.
+   * Records saved by a newer version of the app are left as they are.
+   */
+  async applyChanges(upserts: Note[], deletedIds: string[] = []): Promise<void> {
+    if (upserts.length === 0 && deletedIds.length === 0) return;
+
+    await this.init();
+    const db = await openDatabase();
+
+    try {
+      const transaction = db.transaction(NOTES_STORE, 'readwrite');
+      const store = transaction.objectStore(NOTES_STORE);
+      const unlessNewer = (id: string, write: () => void) => {
+        const request = store.get(id);
+        request.onsuccess = () => {
+          if (!isFromNewerSchema(request.result, NOTE_SCHEMA)) write();
+        };
+      };
+      upserts
+        .filter(note => !note.readOnly)
+        .forEach(note => unlessNewer(note.id, () => store.put(toRecord(note))));
+      deletedIds.forEach(id => unlessNewer(id, () => store.delete(id)));
+      await transactionToPromise(transaction);
+    } catch (error) {
+      throw toStorageError(error, 'Failed to save notes');
+    }
+  }
+
+  async put(note: Note): Promise<void> {
+    return this.applyChanges([note]);
+  }
+
+  async delete(id: string): Promise<void> {
+    return this.applyChanges([], [id]);
+  }
+
+  /**
+   * Imports notes saved by older versions under the single localStorage key
+   */
+  private async importLegacyNotes(): Promise<void> {
+    const db = await openDatabase();
+
+    const metaTransaction = db.transaction(META_STORE, 'readonly');
+    const alreadyImported = await requestToPromise(
+      metaTransaction.objectStore(META_STORE).get(LEGACY_IMPORTED_KEY)
+    );
+    if (alreadyImported) return;
+
+    let legacy: LoadResult = { notes: [], upgraded: [], removedIds: [], quarantined: [] };
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (stored) {
+      try {
+        const parsed: unknown = JSON.parse(stored);
+        if (!Array.isArray(parsed)) {
+          throw new Error('Legacy notes data is not an array');
+        }
+        legacy = loadRecords(parsed, 'legacy');
+      } catch (error) {
+        console.error('Error parsing legacy notes from localStorage:', error);
+        // Leave the legacy key in place so the data is not lost
+        return;
+      }
+    }
+
+    try {
+      const transaction = db.transaction([NOTES_STORE, META_STORE, QUARANTINE_STORE], 'readwrite');
+      const notesStore = transaction.objectStore(NOTES_STORE);
+      const quarantineStore = transaction.objectStore(QUARANTINE_STORE);
+      legacy.notes.forEach(note => notesStore.put(toRecord(note)));
+      legacy.quarantined.forEach(record => quarantineStore.add(record));
+      transaction.objectStore(META_STORE).put(true, LEGACY_IMPORTED_KEY);
+      await transactionToPromise(transaction);
+    } catch (error) {
+      throw toStorageError(error, 'Failed to import notes from localStorage');
+    }
+
+    // Only drop the legacy blob once the import has committed
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }
+
+  private async commitLoadResult(result: LoadResult): Promise<void> {
+    const db = await openDatabase();
+    try {
+      const transaction = db.transaction([NOTES_STORE, QUARANTINE_STORE], 'readwrite');
+      const notesStore = transaction.objectStore(NOTES_STORE);
+      const quarantineStore = transaction.objectStore(QUARANTINE_STORE);
+      result.upgraded.forEach(note => notesStore.put(toRecord(note)));
+      result.removedIds.forEach(id => notesStore.delete(id));
+      result.quarantined.forEach(record => quarantineStore.add(record));
+      await transactionToPromise(transaction);
+    } catch (error) {
+      throw toStorageError(error, 'Failed to upgrade stored notes');
+    }
+  }
+}
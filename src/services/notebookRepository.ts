@@ -0,0 +1,115 @@
+import type { Notebook, QuarantinedRecord } from '../types';
+import {
+  openDatabase,
+  requestToPromise,
+  transactionToPromise,
+  toStorageError,
+  NOTEBOOKS_STORE,
+  QUARANTINE_STORE
+} from './database';
+import { upgradeRecord, isFromNewerSchema, NOTEBOOK_SCHEMA } from './schema';
+
+interface NotebookRecord extends Notebook {
+  schemaVersion: number;
+}
+
+// IndexedDB-backed storage for the notebook hierarchy
+export class NotebookRepository {
+  private static instance: NotebookRepository;
+
+  static getInstance(): NotebookRepository {
+    if (!NotebookRepository.instance) {
+      NotebookRepository.instance = new NotebookRepository();
+    }
+    return NotebookRepository.instance;
+  }
+
+  /**
+   * Loads every notebook, moving records that fail validation to quarantine.
+   * Records saved by a newer version of the app are left in place.
+   */
+  async getAll(): Promise<Notebook[]> {
+    const db = await openDatabase();
+    const transaction = db.transaction(NOTEBOOKS_STORE, 'readonly');
+    const records = await requestToPromise(
+      transaction.objectStore(NOTEBOOKS_STORE).getAll() as IDBRequest<Array<Record<string, unknown>>>
+    );
+
+    const notebooks: Notebook[] = [];
+    const quarantined: QuarantinedRecord[] = [];
+
+    records.forEach(record => {
+      const data = { ...record };
+      delete data.schemaVersion;
+      const fromVersion = typeof record.schemaVersion === 'number' ? record.schemaVersion : 0;
+      const upgrade = upgradeRecord<Notebook>(data, fromVersion, NOTEBOOK_SCHEMA);
+
+      if (upgrade.status === 'current' || upgrade.status === 'migrated') {
+        notebooks.push(upgrade.value);
+      } else if (upgrade.status === 'newer') {
+        if (upgrade.value) notebooks.push(upgrade.value);
+      } else {
+        const errors = upgrade.status === 'invalid' ? upgrade.errors : ['Notebook record was retired'];
+        console.warn(`Quarantined notebook ${String(record.id)}:`, errors);
+        quarantined.push({
+          source: 'notebook',
+          recordId: typeof record.id === 'string' ? record.id : undefined,
+          schemaVersion: fromVersion,
+          errors,
+          raw: record,
+          quarantinedAt: new Date()
+        });
+      }
+    });
+
+    if (quarantined.length > 0) {
+      await this.quarantine(quarantined);
+    }
+
+    return notebooks;
+  }
+
+  /**
+   * Writes changed notebooks and removes deleted ones in a single transaction,
+   * leaving records saved by a newer version of the app as they are
+   */
+  async applyChanges(upserts: Notebook[], deletedIds: string[] = []): Promise<void> {
+    if (upserts.length === 0 && deletedIds.length === 0) return;
+
+    const db = await openDatabase();
+    try {
+      const transaction = db.transaction(NOTEBOOKS_STORE, 'readwrite');
+      const store = transaction.objectStore(NOTEBOOKS_STORE);
+      const unlessNewer = (id: string, write: () => void) => {
+        const request = store.get(id);
+        request.onsuccess = () => {
+          if (!isFromNewerSchema(request.result, NOTEBOOK_SCHEMA)) write();
+        };
+      };
+      upserts.forEach(notebook => {
+        const record: NotebookRecord = { ...notebook, schemaVersion: NOTEBOOK_SCHEMA.currentVersion };
+        unlessNewer(notebook.id, () => store.put(record));
+      });
+      deletedIds.forEach(id => unlessNewer(id, () => store.delete(id)));
+      await transactionToPromise(transaction);
+    } catch (error) {
+      throw toStorageError(error, 'Failed to save notebooks');
+    }
+  }
+
+  private async quarantine(records: QuarantinedRecord[]): Promise<void> {
+    const db = await openDatabase();
+    try {
+      const transaction = db.transaction([NOTEBOOKS_STORE, QUARANTINE_STORE], 'readwrite');
+      const notebooksStore = transaction.objectStore(NOTEBOOKS_STORE);
+      const quarantineStore = transaction.objectStore(QUARANTINE_STORE);
+      records.forEach(record => {
+        quarantineStore.add(record);
+        if (record.recordId) notebooksStore.delete(record.recordId);
+      });
+      await transactionToPromise(transaction);
+    } catch (error) {
+      throw toStorageError(error, 'Failed to quarantine notebooks');
+    }
+  }
+}
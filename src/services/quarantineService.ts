@@ -0,0 +1,61 @@
+import type { QuarantinedRecord } from '../types';
+import {
+  openDatabase,
+  requestToPromise,
+  transactionToPromise,
+  toStorageError,
+  QUARANTINE_STORE
+} from './database';
+
+// Holds persisted records that failed migration or validation so they are never silently lost
+export class QuarantineService {
+  private static instance: QuarantineService;
+
+  static getInstance(): QuarantineService {
+    if (!QuarantineService.instance) {
+      QuarantineService.instance = new QuarantineService();
+    }
+    return QuarantineService.instance;
+  }
+
+  /**
+   * Stores rejected records alongside the reasons they were rejected
+   */
+  async add(records: QuarantinedRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    const db = await openDatabase();
+    try {
+      const transaction = db.transaction(QUARANTINE_STORE, 'readwrite');
+      const store = transaction.objectStore(QUARANTINE_STORE);
+      records.forEach(record => store.add(record));
+      await transactionToPromise(transaction);
+    } catch (error) {
+      throw toStorageError(error, 'Failed to quarantine invalid records');
+    }
+  }
+
+  async getAll(): Promise<QuarantinedRecord[]> {
+    const db = await openDatabase();
+    const transaction = db.transaction(QUARANTINE_STORE, 'readonly');
+    return requestToPromise(
+      transaction.objectStore(QUARANTINE_STORE).getAll() as IDBRequest<QuarantinedRecord[]>
+    );
+  }
+
+  async count(): Promise<number> {
+    const db = await openDatabase();
+    const transaction = db.transaction(QUARANTINE_STORE, 'readonly');
+    return requestToPromise(transaction.objectStore(QUARANTINE_STORE).count());
+  }
+
+  /**
+   * Permanently discards a quarantined record once it has been inspected
+   */
+  async remove(quarantineId: number): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(QUARANTINE_STORE, 'readwrite');
+    transaction.objectStore(QUARANTINE_STORE).delete(quarantineId);
+    await transactionToPromise(transaction);
+  }
+}
@@ -0,0 +1,141 @@
+import type { NoteRevision, RevisionAction } from '../types';
+import {
+  openDatabase,
+  requestToPromise,
+  transactionToPromise,
+  toStorageError,
+  REVISIONS_STORE
+} from './database';
+
+// Consecutive manual edits within this window update one revision instead of adding new ones
+const COALESCE_WINDOW_MS = 5 * 60 * 1000;
+const MAX_REVISIONS_PER_NOTE = 50;
+
+export interface RevisionSnapshot {
+  title: string;
+  content: string;
+  tags: string[];
+}
+
+export const REVISION_ACTION_LABELS: Record<RevisionAction, string> = {
+  edit: 'Manual edit',
+  grammar: 'Grammar fix',
+  translation: 'Translation',
+  decrypt: 'Decrypted',
+  restore: 'Restored'
+};
+
+const isSameSnapshot = (revision: NoteRevision, snapshot: RevisionSnapshot): boolean =>
+  revision.title === snapshot.title &&
+  revision.content === snapshot.content &&
+  revision.tags.join('\u0000') === snapshot.tags.join('\u0000');
+
+// Stores per-note snapshots so edits and AI actions can be reviewed and undone
+export class RevisionService {
+  private static instance: RevisionService;
+  // Serializes writes per note so coalescing always sees the latest revision
+  private pending = new Map<string, Promise<unknown>>();
+
+  static getInstance(): RevisionService {
+    if (!RevisionService.instance) {
+      RevisionService.instance = new RevisionService();
+    }
+    return RevisionService.instance;
+  }
+
+  /**
+   * Lists revisions for a note, newest first
+   */
+  async getRevisions(noteId: string): Promise<NoteRevision[]> {
+    const db = await openDatabase();
+    const transaction = db.transaction(REVISIONS_STORE, 'readonly');
+    const index = transaction.objectStore(REVISIONS_STORE).index('noteId');
+    const revisions = await requestToPromise(index.getAll(noteId) as IDBRequest<NoteRevision[]>);
+    return revisions.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Records a snapshot. Manual edits are coalesced with a recent manual-edit revision,
+   * and snapshots identical to the latest revision are skipped.
+   */
+  record(noteId: string, snapshot: RevisionSnapshot, action: RevisionAction): Promise<NoteRevision | null> {
+    const previous = this.pending.get(noteId) ?? Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(() => this.write(noteId, snapshot, action));
+    this.pending.set(noteId, next);
+    const cleanup = () => {
+      if (this.pending.get(noteId) === next) this.pending.delete(noteId);
+    };
+    next.then(cleanup, cleanup);
+    return next;
+  }
+
+  /**
+   * Removes every revision of the given notes (used on purge and on encryption,
+   * since revisions hold plaintext)
+   */
+  async deleteForNotes(noteIds: string[]): Promise<void> {
+    if (noteIds.length === 0) return;
+
+    const db = await openDatabase();
+    try {
+      const transaction = db.transaction(REVISIONS_STORE, 'readwrite');
+      const index = transaction.objectStore(REVISIONS_STORE).index('noteId');
+      noteIds.forEach(noteId => {
+        const request = index.openKeyCursor(IDBKeyRange.only(noteId));
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (cursor) {
+            transaction.objectStore(REVISIONS_STORE).delete(cursor.primaryKey);
+            cursor.continue();
+          }
+        };
+      });
+      await transactionToPromise(transaction);
+    } catch (error) {
+      throw toStorageError(error, 'Failed to delete note history');
+    }
+  }
+
+  private async write(noteId: string, snapshot: RevisionSnapshot, action: RevisionAction): Promise<NoteRevision | null> {
+    const revisions = await this.getRevisions(noteId);
+    const latest = revisions[0];
+
+    if (latest && isSameSnapshot(latest, snapshot)) {
+      return null;
+    }
+
+    const now = new Date();
+    const shouldCoalesce = action === 'edit' &&
+      latest?.action === 'edit' &&
+      now.getTime() - latest.createdAt.getTime() < COALESCE_WINDOW_MS;
+
+    const revision: NoteRevision = {
+      id: shouldCoalesce ? latest.id : `rev-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      noteId,
+      title: snapshot.title,
+      content: snapshot.content,
+      tags: [...snapshot.tags],
+      action,
+      createdAt: shouldCoalesce ? latest.createdAt : now
+    };
+
+    const db = await openDatabase();
+    try {
+      const transaction = db.transaction(REVISIONS_STORE, 'readwrite');
+      const store = transaction.objectStore(REVISIONS_STORE);
+      store.put(revision);
+
+      // Drop the oldest revisions beyond the per-note limit
+      const keep = shouldCoalesce ? MAX_REVISIONS_PER_NOTE : MAX_REVISIONS_PER_NOTE - 1;
+      revisions.slice(keep).forEach(old => store.delete(old.id));
+
+      await transactionToPromise(transaction);
+    } catch (error) {
+      throw toStorageError(error, 'Failed to save note history');
+    }
+
+    return revision;
+  }
+}
@@ -0,0 +1,195 @@
+import type { Note, Notebook } from '../types';
+
+/**
+ * A single step that upgrades persisted data from `version - 1` to `version`.
+ * Returning null retires the record (used only for app-generated seed data).
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  up: (data: Record<string, unknown>) => Record<string, unknown> | null;
+}
+
+export interface SchemaDefinition<T> {
+  currentVersion: number;
+  migrations: Migration[];
+  validate: (data: Record<string, unknown>) => string[];
+  hydrate?: (data: Record<string, unknown>) => T;
+}
+
+/**
+ * Versioned wrapper for data persisted outside the notes database (e.g. localStorage)
+ */
+export interface PersistedEnvelope<T> {
+  schemaVersion: number;
+  data: T;
+}
+
+export type UpgradeResult<T> =
+  | { status: 'current'; value: T }
+  | { status: 'migrated'; value: T }
+  | { status: 'retired'; fromVersion: number }
+  | { status: 'invalid'; errors: string[]; fromVersion: number }
+  // Saved by a newer version of the app. The value is only set when the record
+  // also passes this version's validation, so it can at least be shown.
+  | { status: 'newer'; fromVersion: number; value?: T };
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Whether a stored record was written by a newer version of the app, which this
+ * one must not overwrite or delete
+ */
+export const isFromNewerSchema = <T>(record: unknown, schema: SchemaDefinition<T>): boolean =>
+  isPlainObject(record) && typeof record.schemaVersion === 'number' && record.schemaVersion > schema.currentVersion;
+
+/**
+ * Runs every pending migration in order and validates the result. Records from
+ * a newer schema are not migrated or rejected; they are not this version's to change.
+ */
+export const upgradeRecord = <T>(
+  raw: unknown,
+  fromVersion: number,
+  schema: SchemaDefinition<T>
+): UpgradeResult<T> => {
+  if (!isPlainObject(raw)) {
+    return { status: 'invalid', errors: ['Record is not an object'], fromVersion };
+  }
+
+  if (fromVersion > schema.currentVersion) {
+    const readable = schema.validate(raw).length === 0;
+    return {
+      status: 'newer',
+      fromVersion,
+      value: readable ? (schema.hydrate ? schema.hydrate(raw) : (raw as T)) : undefined
+    };
+  }
+
+  let data: Record<string, unknown> | null = raw;
+  const pending = schema.migrations
+    .filter(migration => migration.version > fromVersion && migration.version <= schema.currentVersion)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    try {
+      data = migration.up(data);
+    } catch (error) {
+      return {
+        status: 'invalid',
+        errors: [`Migration to v${migration.version} (${migration.description}) failed: ${error instanceof Error ? error.message : String(error)}`],
+        fromVersion
+      };
+    }
+    if (data === null) {
+      return { status: 'retired', fromVersion };
+    }
+  }
+
+  const errors = schema.validate(data);
+  if (errors.length > 0) {
+    return { status: 'invalid', errors, fromVersion };
+  }
+
+  const value = schema.hydrate ? schema.hydrate(data) : (data as T);
+  return pending.length > 0 ? { status: 'migrated', value } : { status: 'current', value };
+};
+
+const isValidDate = (value: unknown): boolean =>
+  value instanceof Date && !isNaN(value.getTime());
+
+const isOptional = (value: unknown, check: (v: unknown) => boolean): boolean =>
+  value === undefined || check(value);
+
+const isString = (value: unknown): boolean => typeof value === 'string';
+const isNumber = (value: unknown): boolean => typeof value === 'number' && !isNaN(value);
+const isBoolean = (value: unknown): boolean => typeof value === 'boolean';
+
+/**
+ * Validates a record against the Note shape from types/index.ts
+ */
+export const validateNote = (data: Record<string, unknown>): string[] => {
+  const errors: string[] = [];
+
+  if (typeof data.id !== 'string' || !data.id) errors.push('id must be a non-empty string');
+  if (!isString(data.title)) errors.push('title must be a string');
+  if (!isString(data.content)) errors.push('content must be a string');
+  if (!isBoolean(data.isPinned)) errors.push('isPinned must be a boolean');
+  if (!isValidDate(data.createdAt)) errors.push('createdAt must be a valid date');
+  if (!isValidDate(data.updatedAt)) errors.push('updatedAt must be a valid date');
+  if (!isOptional(data.isEncrypted, isBoolean)) errors.push('isEncrypted must be a boolean');
+  if (!isOptional(data.category, isString)) errors.push('category must be a string');
+  if (!isOptional(data.wordCount, isNumber)) errors.push('wordCount must be a number');
+  if (!isOptional(data.readingTime, isNumber)) errors.push('readingTime must be a number');
+  if (!isOptional(data.deletedAt, isValidDate)) errors.push('deletedAt must be a valid date');
+  if (!isOptional(data.notebookId, isString)) errors.push('notebookId must be a string');
+
+  if (data.tags !== undefined && !(Array.isArray(data.tags) && data.tags.every(isString))) {
+    errors.push('tags must be an array of strings');
+  }
+
+  if (data.encryptionData !== undefined) {
+    const encryptionData = data.encryptionData;
+    if (!isPlainObject(encryptionData) ||
+        !isString(encryptionData.encrypted) ||
+        !isString(encryptionData.salt) ||
+        !isString(encryptionData.iv)) {
+      errors.push('encryptionData must contain encrypted, salt and iv strings');
+    }
+  }
+
+  if (data.isEncrypted === true && data.encryptionData === undefined) {
+    errors.push('encrypted notes must carry encryptionData');
+  }
+
+  return errors;
+};
+
+// IDs of sample notes shipped by early versions of the app
+const RETIRED_SAMPLE_NOTE_IDS = ['welcome-note', 'grammar-test-note'];
+
+export const NOTE_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Hydrate date strings and retire built-in sample notes',
+    up: (data) => {
+      if (typeof data.id === 'string' && RETIRED_SAMPLE_NOTE_IDS.includes(data.id)) {
+        return null;
+      }
+      return {
+        ...data,
+        createdAt: data.createdAt instanceof Date ? data.createdAt : new Date(data.createdAt as string),
+        updatedAt: data.updatedAt instanceof Date ? data.updatedAt : new Date(data.updatedAt as string)
+      };
+    }
+  }
+];
+
+export const NOTE_SCHEMA: SchemaDefinition<Note> = {
+  currentVersion: NOTE_MIGRATIONS.length,
+  migrations: NOTE_MIGRATIONS,
+  validate: validateNote
+};
+
+/**
+ * Validates a record against the Notebook shape from types/index.ts
+ */
+export const validateNotebook = (data: Record<string, unknown>): string[] => {
+  const errors: string[] = [];
+
+  if (typeof data.id !== 'string' || !data.id) errors.push('id must be a non-empty string');
+  if (typeof data.name !== 'string' || !data.name.trim()) errors.push('name must be a non-empty string');
+  if (data.parentId !== null && typeof data.parentId !== 'string') errors.push('parentId must be a string or null');
+  if (data.parentId === data.id) errors.push('a notebook cannot be its own parent');
+  if (!isValidDate(data.createdAt)) errors.push('createdAt must be a valid date');
+  if (!isValidDate(data.updatedAt)) errors.push('updatedAt must be a valid date');
+
+  return errors;
+};
+
+// Notebooks were introduced after schema versioning, so they start at v1 with no migrations
+export const NOTEBOOK_SCHEMA: SchemaDefinition<Notebook> = {
+  currentVersion: 1,
+  migrations: [],
+  validate: validateNotebook
+};
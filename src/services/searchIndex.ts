@@ -0,0 +1,329 @@
+import type { Note, SearchMatch, SearchSnippet } from '../types';
+import { tokenize, findHighlights, foldText, editDistance } from '../utils/textSearch';
+import { htmlToPlainText } from '../utils/plainText';
+import type { QueryTextMatcher } from '../utils/searchQuery';
+
+const FIELD_WEIGHTS = { title: 3, tags: 2, body: 1 };
+// Prefix hits ("meet" for "meeting") count for less than whole words
+const PREFIX_WEIGHT = 0.6;
+// Typo matches count for this much, divided by the number of edits
+const FUZZY_WEIGHT = 0.4;
+const FUZZY_MIN_LENGTH = 4;
+// BM25 term-frequency saturation and length normalization for the body
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Recently edited notes get up to this much extra score, halving every RECENCY_HALF_LIFE_DAYS
+const RECENCY_BOOST = 0.3;
+const RECENCY_HALF_LIFE_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 40;
+
+type Field = keyof typeof FIELD_WEIGHTS;
+
+interface IndexedNote {
+  note: Note;
+  // Term frequencies per field
+  terms: Record<Field, Map<string, number>>;
+  bodyText: string;
+  bodyLength: number;
+}
+
+export interface SearchResult extends SearchMatch {
+  note: Note;
+}
+
+const countTerms = (text: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  tokenize(text).forEach(({ term }) => counts.set(term, (counts.get(term) || 0) + 1));
+  return counts;
+};
+
+/**
+ * Cuts a window of text around the first highlight and shifts the highlights into it
+ */
+const buildSnippet = (text: string, matchedTerms: Set<string>): SearchSnippet | null => {
+  const highlights = findHighlights(text, matchedTerms);
+  if (highlights.length === 0) return null;
+
+  let start = Math.max(0, highlights[0].start - SNIPPET_LEAD);
+  if (start > 0) {
+    // Start at a word boundary
+    const space = text.indexOf(' ', start);
+    start = space !== -1 && space < highlights[0].start ? space + 1 : start;
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+
+  return {
+    text: `${prefix}${text.slice(start, end)}${end < text.length ? '…' : ''}`,
+    highlights: highlights
+      .filter(h => h.start >= start && h.end <= end)
+      .map(h => ({ start: h.start - start + prefix.length, end: h.end - start + prefix.length }))
+  };
+};
+
+/**
+ * Inverted index over note titles, tags and content. It is updated incrementally:
+ * only notes whose object changed since the last update are re-indexed. Encrypted
+ * notes are indexed by title and tags only. Query words may also match title and
+ * tag words with typos, within the fuzzy threshold.
+ */
+export class SearchIndex implements QueryTextMatcher {
+  private static instance: SearchIndex;
+  private docs = new Map<string, IndexedNote>();
+  // term -> ids of the notes containing it
+  private postings = new Map<string, Set<string>>();
+  private sortedTerms: string[] | null = null;
+  private totalBodyLength = 0;
+  // Title and tag terms -> number of notes using them, the vocabulary for typo matching
+  private fuzzyTerms = new Map<string, number>();
+  private fuzzyThreshold = 0;
+
+  static getInstance(): SearchIndex {
+    if (!SearchIndex.instance) {
+      SearchIndex.instance = new SearchIndex();
+    }
+    return SearchIndex.instance;
+  }
+
+  /**
+   * Brings the index in line with the given notes
+   */
+  update(notes: Note[]): void {
+    const currentIds = new Set<string>();
+    notes.forEach(note => {
+      currentIds.add(note.id);
+      if (this.docs.get(note.id)?.note !== note) {
+        this.remove(note.id);
+        this.add(note);
+      }
+    });
+    Array.from(this.docs.keys())
+      .filter(id => !currentIds.has(id))
+      .forEach(id => this.remove(id));
+  }
+
+  /**
+   * Share of a word's characters that may be wrong for it to still match a title
+   * or tag word, e.g. 0.25 allows 2 edits in "kuberntes". 0 turns typo matching off.
+   */
+  setFuzzyThreshold(threshold: number): void {
+    this.fuzzyThreshold = Math.min(Math.max(threshold, 0), 0.5);
+  }
+
+  /**
+   * Ranks notes against a free-text query. Every query word has to match, either
+   * as a whole word, as a prefix or with typos; the last word may also be a partly
+   * typed word. Exact matches rank above prefix and typo matches.
+   */
+  search(query: string): SearchResult[] {
+    const { scores, matchedTerms } = this.score(query);
+
+    const now = Date.now();
+    return Array.from(scores.entries())
+      .map(([id, score]) => {
+        const doc = this.docs.get(id)!;
+        const terms = matchedTerms.get(id)!;
+        const ageDays = Math.max(0, now - doc.note.updatedAt.getTime()) / DAY_MS;
+        return {
+          note: doc.note,
+          score: score * (1 + RECENCY_BOOST * Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS)),
+          titleHighlights: findHighlights(doc.note.title, terms),
+          snippet: doc.bodyText ? buildSnippet(doc.bodyText, terms) : null
+        };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Runs several searches, e.g. the alternatives of an OR query, and combines them
+   * per note: scores add up, highlights merge and the best match provides the snippet
+   */
+  searchEach(queries: string[]): Map<string, SearchResult> {
+    const combined = new Map<string, SearchResult>();
+    const bestScores = new Map<string, number>();
+    queries.forEach(query => this.search(query).forEach(result => {
+      const id = result.note.id;
+      const existing = combined.get(id);
+      if (!existing) {
+        combined.set(id, result);
+        bestScores.set(id, result.score);
+        return;
+      }
+      const useSnippet = result.snippet && result.score > bestScores.get(id)!;
+      if (useSnippet) bestScores.set(id, result.score);
+      combined.set(id, {
+        ...existing,
+        score: existing.score + result.score,
+        titleHighlights: [...existing.titleHighlights, ...result.titleHighlights],
+        snippet: useSnippet ? result.snippet : existing.snippet
+      });
+    }));
+    return combined;
+  }
+
+  /**
+   * Ids of the notes matching every word of the text. Text without any words
+   * (e.g. punctuation) matches all notes.
+   */
+  matchText(text: string): Set<string> {
+    if (tokenize(text).length === 0) return new Set(this.docs.keys());
+    return new Set(this.score(text).scores.keys());
+  }
+
+  /**
+   * Ids of the notes whose title or readable content contains the exact phrase,
+   * ignoring case, accents and repeated whitespace
+   */
+  matchPhrase(phrase: string): Set<string> {
+    const normalize = (text: string) => foldText(text).replace(/\s+/g, ' ');
+    const needle = normalize(phrase).trim();
+    const ids = new Set<string>();
+    this.docs.forEach((doc, id) => {
+      if (normalize(doc.note.title).includes(needle) || normalize(doc.bodyText).includes(needle)) {
+        ids.add(id);
+      }
+    });
+    return ids;
+  }
+
+  private score(query: string): { scores: Map<string, number>; matchedTerms: Map<string, Set<string>> } {
+    const queryTerms = Array.from(new Set(tokenize(query).map(token => token.term)));
+    const scores = new Map<string, number>();
+    const matchedTerms = new Map<string, Set<string>>();
+    if (queryTerms.length === 0) return { scores, matchedTerms };
+
+    const avgBodyLength = this.docs.size > 0 ? Math.max(1, this.totalBodyLength / this.docs.size) : 1;
+
+    for (const [index, queryTerm] of queryTerms.entries()) {
+      const expansions = this.expand(queryTerm, index === queryTerms.length - 1);
+      const termScores = new Map<string, number>();
+
+      expansions.forEach((weight, term) => {
+        const ids = this.postings.get(term);
+        if (!ids) return;
+        const idf = Math.log(1 + (this.docs.size - ids.size + 0.5) / (ids.size + 0.5));
+
+        ids.forEach(id => {
+          const doc = this.docs.get(id)!;
+          const bodyTf = doc.terms.body.get(term) || 0;
+          const bodyScore = bodyTf === 0 ? 0 : (bodyTf * (BM25_K1 + 1)) /
+            (bodyTf + BM25_K1 * (1 - BM25_B + BM25_B * doc.bodyLength / avgBodyLength));
+          const fieldScore =
+            (doc.terms.title.has(term) ? FIELD_WEIGHTS.title : 0) +
+            (doc.terms.tags.has(term) ? FIELD_WEIGHTS.tags : 0) +
+            bodyScore * FIELD_WEIGHTS.body;
+
+          const score = idf * fieldScore * weight;
+          if (score > (termScores.get(id) || 0)) termScores.set(id, score);
+          if (!matchedTerms.has(id)) matchedTerms.set(id, new Set());
+          matchedTerms.get(id)!.add(term);
+        });
+      });
+
+      if (index === 0) {
+        termScores.forEach((score, id) => scores.set(id, score));
+      } else {
+        // Notes missing this word drop out
+        Array.from(scores.keys()).forEach(id => {
+          const score = termScores.get(id);
+          if (score === undefined) {
+            scores.delete(id);
+          } else {
+            scores.set(id, scores.get(id)! + score);
+          }
+        });
+      }
+    }
+    return { scores, matchedTerms };
+  }
+
+  private add(note: Note): void {
+    const bodyText = note.isEncrypted ? '' : htmlToPlainText(note.content);
+    const terms = {
+      title: countTerms(note.title),
+      tags: countTerms((note.tags || []).join(' ')),
+      body: countTerms(bodyText)
+    };
+    const bodyLength = Array.from(terms.body.values()).reduce((sum, count) => sum + count, 0);
+
+    this.docs.set(note.id, { note, terms, bodyText, bodyLength });
+    this.totalBodyLength += bodyLength;
+    new Set([...terms.title.keys(), ...terms.tags.keys()]).forEach(term => {
+      this.fuzzyTerms.set(term, (this.fuzzyTerms.get(term) || 0) + 1);
+    });
+    Object.values(terms).forEach(counts => counts.forEach((_, term) => {
+      if (!this.postings.has(term)) {
+        this.postings.set(term, new Set());
+        this.sortedTerms = null;
+      }
+      this.postings.get(term)!.add(note.id);
+    }));
+  }
+
+  private remove(id: string): void {
+    const doc = this.docs.get(id);
+    if (!doc) return;
+
+    this.docs.delete(id);
+    this.totalBodyLength -= doc.bodyLength;
+    new Set([...doc.terms.title.keys(), ...doc.terms.tags.keys()]).forEach(term => {
+      const count = (this.fuzzyTerms.get(term) || 0) - 1;
+      if (count > 0) this.fuzzyTerms.set(term, count); else this.fuzzyTerms.delete(term);
+    });
+    Object.values(doc.terms).forEach(counts => counts.forEach((_, term) => {
+      const ids = this.postings.get(term);
+      ids?.delete(id);
+      if (ids && ids.size === 0) {
+        this.postings.delete(term);
+        this.sortedTerms = null;
+      }
+    }));
+  }
+
+  /**
+   * Index terms a query term matches, with their weight. Besides exact and prefix
+   * matches, the word being typed also matches stems it extends ("meetin" -> "meet"),
+   * and words of at least FUZZY_MIN_LENGTH letters match title and tag terms within
+   * the fuzzy threshold.
+   */
+  private expand(queryTerm: string, isLast: boolean): Map<string, number> {
+    const expansions = new Map<string, number>();
+    if (this.postings.has(queryTerm)) expansions.set(queryTerm, 1);
+
+    if (!this.sortedTerms) {
+      this.sortedTerms = Array.from(this.postings.keys()).sort();
+    }
+
+    // Binary search for the first term >= queryTerm, then walk the prefix range
+    let low = 0;
+    let high = this.sortedTerms.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.sortedTerms[mid] < queryTerm) low = mid + 1; else high = mid;
+    }
+    for (let i = low; i < this.sortedTerms.length && this.sortedTerms[i].startsWith(queryTerm); i++) {
+      if (!expansions.has(this.sortedTerms[i])) expansions.set(this.sortedTerms[i], PREFIX_WEIGHT);
+    }
+
+    if (isLast) {
+      for (let length = queryTerm.length - 1; length >= 4; length--) {
+        const stemmed = queryTerm.slice(0, length);
+        if (this.postings.has(stemmed) && !expansions.has(stemmed)) {
+          expansions.set(stemmed, PREFIX_WEIGHT);
+        }
+      }
+    }
+
+    const maxEdits = Math.floor(queryTerm.length * this.fuzzyThreshold);
+    if (queryTerm.length >= FUZZY_MIN_LENGTH && maxEdits > 0) {
+      this.fuzzyTerms.forEach((_, term) => {
+        if (expansions.has(term)) return;
+        const distance = editDistance(queryTerm, term, maxEdits);
+        if (distance <= maxEdits) expansions.set(term, FUZZY_WEIGHT / distance);
+      });
+    }
+    return expansions;
+  }
+}
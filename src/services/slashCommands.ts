@@ -0,0 +1,208 @@
+import {
+  Pilcrow,
+  Heading1,
+  Heading2,
+  Heading3,
+  List,
+  ListOrdered,
+  ListChecks,
+  TextQuote,
+  SquareCode,
+  Table,
+  Minus,
+  Sparkles,
+  FileText,
+  Languages
+} from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { AIService } from './aiService';
+import { blockLength, blockText, createParagraph, createTextBlock } from '../utils/documentModel';
+import type { Block, BlockAttrs, DocPosition, EditorState } from '../utils/documentModel';
+import type { Transaction } from '../utils/documentTransactions';
+
+export interface SlashCommandContext {
+  // Where the command was chosen, after the typed "/query" was removed
+  position: DocPosition;
+  // The editor state right now; AI commands read it again once their answer arrives
+  getState: () => EditorState;
+  dispatch: (transaction: Transaction) => void;
+  // Note HTML and title, for commands that work on the whole note
+  html: string;
+  title: string;
+  noteId?: string;
+}
+
+export interface SlashCommand {
+  id: string;
+  label: string;
+  description: string;
+  group: string;
+  icon: LucideIcon;
+  // Extra words the menu filter matches
+  keywords?: string[];
+  // Only listed once something is typed after the slash, for long families of commands
+  searchOnly?: boolean;
+  // Commands that return a promise show progress and errors in the editor
+  run: (context: SlashCommandContext) => void | Promise<void>;
+}
+
+const setBlockType = (attrs: BlockAttrs) => ({ dispatch }: SlashCommandContext) =>
+  dispatch({ type: 'setBlockType', attrs });
+
+const insertBlocks = (context: SlashCommandContext, blocks: Block[]) =>
+  context.dispatch({ type: 'insertBlocks', blocks, position: context.position });
+
+/**
+ * Commands offered by the editor's "/" menu. Block commands are built in and AI
+ * commands use AIService; other features can register their own commands.
+ */
+export class SlashCommandRegistry {
+  private static instance: SlashCommandRegistry;
+  private commands: SlashCommand[] = [];
+
+  private constructor() {
+    this.registerDefaults();
+  }
+
+  static getInstance(): SlashCommandRegistry {
+    if (!SlashCommandRegistry.instance) {
+      SlashCommandRegistry.instance = new SlashCommandRegistry();
+    }
+    return SlashCommandRegistry.instance;
+  }
+
+  /**
+   * Adds a command, replacing any command with the same id
+   */
+  register(command: SlashCommand): void {
+    const index = this.commands.findIndex(existing => existing.id === command.id);
+    if (index === -1) {
+      this.commands.push(command);
+    } else {
+      this.commands[index] = command;
+    }
+  }
+
+  unregister(id: string): void {
+    this.commands = this.commands.filter(command => command.id !== id);
+  }
+
+  getCommands(): SlashCommand[] {
+    return [...this.commands];
+  }
+
+  /**
+   * Commands whose label, group or keywords have words starting with every word of
+   * the query, those whose label starts with the query first
+   */
+  search(query: string): SlashCommand[] {
+    const normalized = query.trim().toLowerCase();
+    const words = normalized.split(/\s+/).filter(Boolean);
+    if (words.length === 0) return this.commands.filter(command => !command.searchOnly);
+
+    return this.commands
+      .filter(command => {
+        const terms = [command.label, command.group, ...(command.keywords ?? [])].join(' ').toLowerCase().split(/\s+/);
+        return words.every(word => terms.some(term => term.startsWith(word)));
+      })
+      .sort((a, b) =>
+        Number(b.label.toLowerCase().startsWith(normalized)) - Number(a.label.toLowerCase().startsWith(normalized))
+      );
+  }
+
+  private registerDefaults(): void {
+    const blockCommands: Omit<SlashCommand, 'group'>[] = [
+      { id: 'paragraph', label: 'Text', description: 'Plain paragraph', icon: Pilcrow, keywords: ['paragraph'], run: setBlockType({ kind: 'paragraph' }) },
+      { id: 'heading1', label: 'Heading 1', description: 'Large section heading', icon: Heading1, keywords: ['h1', 'title'], run: setBlockType({ kind: 'heading', level: 1 }) },
+      { id: 'heading2', label: 'Heading 2', description: 'Medium section heading', icon: Heading2, keywords: ['h2', 'subtitle'], run: setBlockType({ kind: 'heading', level: 2 }) },
+      { id: 'heading3', label: 'Heading 3', description: 'Small section heading', icon: Heading3, keywords: ['h3'], run: setBlockType({ kind: 'heading', level: 3 }) },
+      { id: 'bulletList', label: 'Bulleted list', description: 'Simple list of items', icon: List, keywords: ['ul', 'unordered', 'bullets'], run: setBlockType({ kind: 'bulletList' }) },
+      { id: 'orderedList', label: 'Numbered list', description: 'List with numbers', icon: ListOrdered, keywords: ['ol', 'ordered'], run: setBlockType({ kind: 'orderedList' }) },
+      { id: 'checkList', label: 'Checklist', description: 'Items you can tick off', icon: ListChecks, keywords: ['todo', 'task', 'checkbox'], run: setBlockType({ kind: 'checkList' }) },
+      { id: 'quote', label: 'Quote', description: 'Quoted text', icon: TextQuote, keywords: ['blockquote', 'citation'], run: setBlockType({ kind: 'quote' }) },
+      { id: 'codeBlock', label: 'Code block', description: 'Preformatted code', icon: SquareCode, keywords: ['pre', 'snippet'], run: setBlockType({ kind: 'codeBlock' }) },
+      {
+        id: 'table',
+        label: 'Table',
+        description: 'Three columns with a header row',
+        icon: Table,
+        keywords: ['grid'],
+        run: ({ dispatch }) => dispatch({ type: 'insertTable', rows: 3, columns: 3 })
+      },
+      {
+        id: 'divider',
+        label: 'Divider',
+        description: 'Horizontal line between sections',
+        icon: Minus,
+        keywords: ['hr', 'rule', 'separator', 'line'],
+        run: context => insertBlocks(context, [{ type: 'html', html: '<hr>' }])
+      }
+    ];
+    blockCommands.forEach(command => this.register({ ...command, group: 'Blocks' }));
+
+    const ai = AIService.getInstance();
+
+    this.register({
+      id: 'ai-title',
+      label: 'Generate title',
+      description: 'Insert a heading with a title for this note',
+      group: 'AI',
+      icon: Sparkles,
+      keywords: ['heading', 'name'],
+      run: async context => {
+        const title = await ai.generateTitle(context.html, { priority: 'user' });
+        // generateTitle falls back to this when the note is too short or the answer is unusable
+        if (title === 'Untitled Note') throw new Error('Could not generate a title for this note. Add a few more words first.');
+        insertBlocks(context, [createTextBlock([{ text: title, marks: {} }], { kind: 'heading', level: 1 })]);
+      }
+    });
+
+    this.register({
+      id: 'ai-summary',
+      label: 'Summarize note',
+      description: 'Insert a one-sentence summary',
+      group: 'AI',
+      icon: FileText,
+      keywords: ['summary', 'tldr', 'insights'],
+      run: async context => {
+        const insights = await ai.generateInsights(context.html, context.title, { priority: 'user', noteId: context.noteId });
+        const summary = insights.find(insight => insight.type === 'summary');
+        if (!summary) throw new Error('Could not summarize this note. Notes need a few sentences to summarize.');
+        insertBlocks(context, [createParagraph([
+          { text: 'Summary: ', marks: { bold: true } },
+          { text: summary.content, marks: {} }
+        ])]);
+      }
+    });
+
+    AIService.SUPPORTED_LANGUAGES.forEach(language => {
+      this.register({
+        id: `ai-translate-${language.code}`,
+        label: `Translate block to ${language.name}`,
+        description: `Replace this block with its ${language.nativeName} translation`,
+        group: 'AI',
+        icon: Languages,
+        keywords: [language.nativeName, language.code],
+        searchOnly: true,
+        run: async context => {
+          const block = context.getState().doc.blocks[context.position.block];
+          const text = block ? blockText(block) : '';
+          if (!text.trim()) throw new Error('Type some text in this block first, then translate it.');
+
+          const { translatedContent } = await ai.translateContent(text, language.code);
+          // The block may have been edited in the meantime; it is replaced as it is now
+          const current = context.getState().doc.blocks[context.position.block];
+          if (!current || current.type !== 'text') return;
+          context.dispatch({
+            type: 'replaceRange',
+            blocks: [createParagraph([{ text: translatedContent, marks: {} }])],
+            range: {
+              start: { block: context.position.block, offset: 0 },
+              end: { block: context.position.block, offset: blockLength(current) }
+            }
+          });
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,87 @@
+const CHANNEL_NAME = 'smart-notes-sync';
+// Fallback for browsers without BroadcastChannel: messages travel through storage events
+const FALLBACK_STORAGE_KEY = 'smart-notes-sync-message';
+
+export interface NotesChangedMessage {
+  type: 'notes-changed';
+  sourceId: string;
+  upsertedIds: string[];
+  deletedIds: string[];
+}
+
+export interface NotebooksChangedMessage {
+  type: 'notebooks-changed';
+  sourceId: string;
+}
+
+export type SyncMessage = NotesChangedMessage | NotebooksChangedMessage;
+
+// Distributes Omit over the union so each message type is checked on its own
+type OutgoingMessage<T = SyncMessage> = T extends SyncMessage ? Omit<T, 'sourceId'> : never;
+
+type SyncListener = (message: SyncMessage) => void;
+
+// Notifies other open tabs about changes; messages carry ids only and receivers re-read IndexedDB
+export class SyncService {
+  private static instance: SyncService;
+  readonly tabId = `tab-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  private channel: BroadcastChannel | null = null;
+  private listeners = new Set<SyncListener>();
+
+  static getInstance(): SyncService {
+    if (!SyncService.instance) {
+      SyncService.instance = new SyncService();
+    }
+    return SyncService.instance;
+  }
+
+  constructor() {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent<SyncMessage>) => this.dispatch(event.data);
+    } else {
+      window.addEventListener('storage', this.handleStorage);
+    }
+  }
+
+  /**
+   * Sends a message to every other tab of the app
+   */
+  publish(message: OutgoingMessage): void {
+    const payload: SyncMessage = { ...message, sourceId: this.tabId };
+    try {
+      if (this.channel) {
+        this.channel.postMessage(payload);
+      } else {
+        // A nonce makes every write a change so repeated messages still fire events
+        localStorage.setItem(FALLBACK_STORAGE_KEY, JSON.stringify({ ...payload, nonce: Math.random() }));
+      }
+    } catch (error) {
+      console.error('Error broadcasting change to other tabs:', error);
+    }
+  }
+
+  /**
+   * Registers a listener for messages from other tabs; returns an unsubscribe function
+   */
+  subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private handleStorage = (event: StorageEvent) => {
+    if (event.key !== FALLBACK_STORAGE_KEY || !event.newValue) return;
+    try {
+      this.dispatch(JSON.parse(event.newValue) as SyncMessage);
+    } catch (error) {
+      console.error('Error reading change from another tab:', error);
+    }
+  };
+
+  private dispatch(message: SyncMessage) {
+    if (!message || message.sourceId === this.tabId) return;
+    this.listeners.forEach(listener => listener(message));
+  }
+}
@@ -15,6 +15,45 @@ export interface Note {
   category?: string;
   wordCount?: number;
   readingTime?: number; // in minutes
+  deletedAt?: Date; // set while the note sits in the trash
+  notebookId?: string; // unset for notes that are not filed in a notebook
+  readOnly?: boolean; // set on notes saved by a newer version of the app; never stored
+}
+
+export interface Notebook {
+  id: string;
+  name: string;
+  parentId: string | null; // null for top-level notebooks
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// How multiple selected tags combine when filtering the notes list
+export type TagFilterMode = 'and' | 'or';
+
+// A named search query shown as a smart folder in the sidebar
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+}
+
+// Character range of a search hit within a piece of text
+export interface TextHighlight {
+  start: number;
+  end: number;
+}
+
+export interface SearchSnippet {
+  text: string;
+  highlights: TextHighlight[];
+}
+
+// Where a note matched a search, for highlighting it in the notes list
+export interface SearchMatch {
+  score: number;
+  titleHighlights: TextHighlight[];
+  snippet: SearchSnippet | null;
 }
 
 export interface EncryptedNote extends Omit<Note, 'title' | 'content'> {
@@ -28,12 +67,28 @@ export interface EncryptedNote extends Omit<Note, 'title' | 'content'> {
   };
 }
 
+export type BlockFormat =
+  | 'paragraph'
+  | 'heading1'
+  | 'heading2'
+  | 'heading3'
+  | 'bulletList'
+  | 'orderedList'
+  | 'checkList'
+  | 'quote'
+  | 'codeBlock'
+  | 'tableCell';
+
 export interface RichTextFormat {
   bold: boolean;
   italic: boolean;
   underline: boolean;
   fontSize: number;
   alignment: 'left' | 'center' | 'right';
+  block: BlockFormat;
+  codeLanguage: string | null; // Set when the selection starts in a code block
+  table: { header: boolean } | null; // Set when the selection starts in a table
+  link: string | null; // Target of the link at the caret, or shared by all selected text
 }
 
 export interface GlossaryTerm {
@@ -46,7 +101,20 @@ export interface GlossaryTerm {
 }
 
 export interface ToolbarAction {
-  type: 'bold' | 'italic' | 'underline' | 'fontSize' | 'alignment';
+  type:
+    | 'bold'
+    | 'italic'
+    | 'underline'
+    | 'fontSize'
+    | 'alignment'
+    | 'block'
+    | 'indent'
+    | 'outdent'
+    | 'codeLanguage'
+    | 'insertTable'
+    | 'table'
+    | 'link'
+    | 'attachFile';
   value?: string | number;
 }
 
@@ -73,3 +141,59 @@ export interface AppSettings {
   touchGestures: boolean;
   showInsights: boolean;
 }
+
+export interface QuarantinedRecord {
+  quarantineId?: number;
+  source: 'note' | 'notebook' | 'preferences';
+  recordId?: string;
+  schemaVersion: number;
+  errors: string[];
+  raw: unknown;
+  quarantinedAt: Date;
+}
+
+export type RevisionAction = 'edit' | 'grammar' | 'translation' | 'decrypt' | 'restore';
+
+export interface NoteRevision {
+  id: string;
+  noteId: string;
+  title: string;
+  content: string;
+  tags: string[];
+  action: RevisionAction;
+  createdAt: Date;
+}
+
+export interface Attachment {
+  id: string;
+  noteId: string;
+  name: string;
+  type: string;
+  size: number;
+  createdAt: Date;
+  // Ciphertext while the note is encrypted
+  data: Blob;
+  encryption?: {
+    salt: string;
+    iv: string;
+  };
+}
+
+// 'mock' answers from fixtures and is only used when VITE_AI_MOCK is set
+export type AIProviderId = 'gemini' | 'groq' | 'openai' | 'mock';
+
+// Parts of the app that call the AI, each of which can use its own model
+export type AIFeature = 'definitions' | 'insights' | 'tags' | 'grammar' | 'suggestions' | 'translation' | 'titles';
+
+export interface AIModelChoice {
+  provider: AIProviderId;
+  model: string;
+}
+
+export interface AISettings {
+  default: AIModelChoice;
+  // Features without an entry use the default
+  features: Partial<Record<AIFeature, AIModelChoice>>;
+  // OpenAI-compatible server, e.g. a local Ollama or llama.cpp
+  openaiBaseUrl: string;
+}
@@ -0,0 +1,116 @@
+/**
+ * Images and files attached to notes. Note content refers to an attachment with
+ * a <figure> holding its id and details; the data itself is kept by
+ * AttachmentService, and the "attachment:" URL of an image is swapped for an
+ * object URL whenever the note is shown.
+ */
+
+import { escapeHtml } from './markdown';
+
+export const ATTACHMENT_URL_PREFIX = 'attachment:';
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+// Narrowest width an image can be resized to, in pixels
+export const MIN_IMAGE_WIDTH = 48;
+
+// Image types browsers show inline; other files are listed with their name and size
+const IMAGE_TYPES = new Set([
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'image/avif',
+  'image/bmp',
+  'image/svg+xml'
+]);
+
+const ID_PATTERN = /^[\w-]+$/;
+
+/**
+ * What note content records about an attachment
+ */
+export interface AttachmentRef {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  // Display width of an image in pixels; images are shown at their natural size without it
+  width?: number;
+}
+
+export const isImageType = (type: string): boolean => IMAGE_TYPES.has(type);
+
+export const createAttachmentId = (): string =>
+  `att-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * A file size such as "820 B", "14 KB" or "3.2 MB"
+ */
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let size = bytes / 1024;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${size < 10 ? size.toFixed(1) : Math.round(size)} ${units[unit]}`;
+};
+
+/**
+ * Canonical HTML for an attachment in note content
+ */
+export const attachmentHtml = (ref: AttachmentRef): string => {
+  const id = escapeHtml(ref.id);
+  const name = escapeHtml(ref.name);
+  const attrs = `data-attachment-id="${id}" data-name="${name}" data-type="${escapeHtml(ref.type)}" data-size="${ref.size}" contenteditable="false"`;
+  if (isImageType(ref.type)) {
+    const width = ref.width ? ` width="${Math.round(ref.width)}"` : '';
+    return `<figure class="attachment attachment-image" ${attrs}><img src="${ATTACHMENT_URL_PREFIX}${id}" alt="${name}"${width}></figure>`;
+  }
+  return `<figure class="attachment attachment-file" ${attrs}><span class="attachment-name">${name}</span><span class="attachment-size">${formatFileSize(ref.size)}</span></figure>`;
+};
+
+/**
+ * The attachment an element of note content refers to, or null when it is not
+ * an attachment figure
+ */
+export const readAttachmentElement = (element: Element): AttachmentRef | null => {
+  const id = element.getAttribute('data-attachment-id');
+  if (element.tagName !== 'FIGURE' || !id || !ID_PATTERN.test(id)) return null;
+  const size = Number(element.getAttribute('data-size'));
+  const width = Number(element.querySelector('img')?.getAttribute('width'));
+  return {
+    id,
+    name: element.getAttribute('data-name') || 'Attachment',
+    type: element.getAttribute('data-type') || 'application/octet-stream',
+    size: Number.isFinite(size) && size > 0 ? size : 0,
+    width: Number.isFinite(width) && width > 0 ? width : undefined
+  };
+};
+
+/**
+ * Canonical attachment HTML with the image shown at the given width, or at its
+ * natural size for null
+ */
+export const setAttachmentWidth = (html: string, width: number | null): string => {
+  if (!html.startsWith('<figure class="attachment attachment-image"')) return html;
+  return html.replace(/<img ([^>]*?)(?: width="\d+")?>/, (_match, attrs: string) =>
+    `<img ${attrs}${width ? ` width="${Math.round(Math.max(width, MIN_IMAGE_WIDTH))}"` : ''}>`
+  );
+};
+
+const figurePattern = (id: string) =>
+  new RegExp(`<figure [^>]*data-attachment-id="${id}"[^>]*>[\\s\\S]*?</figure>`, 'g');
+
+/**
+ * Ids of the attachments note content refers to
+ */
+export const getAttachmentIds = (html: string): string[] =>
+  [...new Set(Array.from(html.matchAll(/<figure [^>]*data-attachment-id="([\w-]+)"/g), match => match[1]))];
+
+/**
+ * Note content without its references to an attachment
+ */
+export const removeAttachmentFromHtml = (html: string, id: string): string =>
+  ID_PATTERN.test(id) ? html.replace(figurePattern(id), '') : html;
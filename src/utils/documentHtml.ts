@@ -0,0 +1,740 @@
+import { escapeHtml } from './markdown';
+import { normalizeUrl } from './links';
+import { ATTACHMENT_URL_PREFIX, attachmentHtml, readAttachmentElement } from './attachments';
+import {
+  DOCUMENT_SCHEMA,
+  blockLength,
+  blockText,
+  createDocument,
+  createTextBlock,
+  isListKind,
+  isValidFontSize,
+  startsTable,
+  tableRows
+} from './documentModel';
+import type {
+  Alignment,
+  Block,
+  BlockAttrs,
+  DocPosition,
+  EditorDocument,
+  HeadingLevel,
+  ListKind,
+  Marks,
+  TextBlock,
+  TextRun
+} from './documentModel';
+
+/**
+ * Converts between the document model and the HTML stored in notes. Serializing
+ * always produces the same canonical HTML for a document; parsing accepts that
+ * HTML as well as what older versions of the editor (document.execCommand) and
+ * the Markdown importer produced.
+ */
+
+// Container elements whose children are read as blocks of their own
+const CONTAINER_TAGS = new Set(['DIV', 'P', 'SECTION', 'ARTICLE', 'MAIN', 'BODY']);
+// Block elements read into text blocks
+const TEXT_BLOCK_TAGS = new Set(['H1', 'H2', 'H3', 'UL', 'OL', 'BLOCKQUOTE', 'PRE', 'TABLE']);
+// Block elements the model does not support; kept as HTML blocks
+const PRESERVED_BLOCK_TAGS = new Set(['H4', 'H5', 'H6', 'HR', 'FIGURE', 'DL']);
+// Inline content the model cannot represent; its paragraph is kept as HTML
+const UNSUPPORTED_INLINE_TAGS = new Set(['IMG', 'INPUT', 'IFRAME', 'VIDEO', 'AUDIO', 'SVG', 'CANVAS', 'OBJECT', 'EMBED']);
+const IGNORED_TAGS = new Set(['SCRIPT', 'STYLE', 'TEMPLATE', 'META', 'LINK', 'TITLE']);
+
+// Tags kept in HTML blocks; others are dropped but their content is kept
+const SAFE_HTML_TAGS = new Set([
+  'P', 'DIV', 'SPAN', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'UL', 'OL', 'LI', 'DL', 'DT', 'DD',
+  'TABLE', 'CAPTION', 'COLGROUP', 'COL', 'THEAD', 'TBODY', 'TFOOT', 'TR', 'TH', 'TD',
+  'FIGURE', 'FIGCAPTION', 'BLOCKQUOTE', 'PRE', 'CODE', 'HR', 'BR', 'IMG', 'A',
+  'STRONG', 'B', 'EM', 'I', 'U', 'S', 'STRIKE', 'DEL', 'INS', 'SUB', 'SUP', 'MARK', 'SMALL',
+  'ABBR', 'CITE', 'Q', 'KBD'
+]);
+// Tags dropped from HTML blocks together with their content
+const UNSAFE_HTML_TAGS = new Set([
+  ...IGNORED_TAGS, 'IFRAME', 'FRAME', 'FRAMESET', 'OBJECT', 'EMBED', 'APPLET', 'SVG', 'MATH', 'CANVAS',
+  'VIDEO', 'AUDIO', 'SOURCE', 'TRACK', 'FORM', 'INPUT', 'BUTTON', 'SELECT', 'TEXTAREA', 'NOSCRIPT', 'BASE'
+]);
+const VOID_HTML_TAGS = new Set(['BR', 'HR', 'IMG', 'COL']);
+// Attributes kept in HTML blocks besides href and src, which are checked on their own
+const SAFE_HTML_ATTRIBUTES = new Set([
+  'alt', 'title', 'width', 'height', 'colspan', 'rowspan', 'span', 'start', 'reversed', 'class',
+  'data-checked', 'data-language'
+]);
+
+// Sizes used by <font size="1-7">, which document.execCommand('fontSize') produced
+const LEGACY_FONT_SIZES = [10, 13, 16, 18, 24, 32, 48];
+
+// Serializing
+
+const renderText = (text: string): string => escapeHtml(text).replace(/\n/g, '<br>');
+
+const wrapMark = (mark: keyof Marks, value: Marks[keyof Marks], inner: string): string => {
+  switch (mark) {
+    case 'link':
+      return `<a href="${escapeHtml(String(value))}" rel="noopener noreferrer">${inner}</a>`;
+    case 'fontSize':
+      return `<span style="font-size: ${value}px">${inner}</span>`;
+    case 'bold':
+      return `<strong>${inner}</strong>`;
+    case 'italic':
+      return `<em>${inner}</em>`;
+    case 'underline':
+      return `<u>${inner}</u>`;
+    case 'strike':
+      return `<s>${inner}</s>`;
+    case 'code':
+      return `<code>${inner}</code>`;
+  }
+};
+
+// Groups neighbouring runs that share a mark so each mark opens once, e.g.
+// <strong>a<em>b</em></strong> rather than <strong>a</strong><strong><em>b</em></strong>
+const renderRuns = (runs: TextRun[], depth = 0): string => {
+  if (depth === DOCUMENT_SCHEMA.markOrder.length) {
+    return runs.map(run => renderText(run.text)).join('');
+  }
+
+  const mark = DOCUMENT_SCHEMA.markOrder[depth];
+  let html = '';
+  let group: TextRun[] = [];
+  const flush = () => {
+    if (group.length === 0) return;
+    const value = group[0].marks[mark];
+    const inner = renderRuns(group, depth + 1);
+    html += value ? wrapMark(mark, value, inner) : inner;
+    group = [];
+  };
+  runs.forEach(run => {
+    if (group.length > 0 && group[0].marks[mark] !== run.marks[mark]) flush();
+    group.push(run);
+  });
+  flush();
+  return html;
+};
+
+const alignStyle = (block: TextBlock): string =>
+  block.align !== 'left' ? ` style="text-align: ${block.align}"` : '';
+
+const renderInline = (block: TextBlock): string => {
+  const text = blockText(block);
+  // A trailing line break needs a second <br> to show; an empty block needs one to have height
+  const placeholder = text === '' || text.endsWith('\n') ? '<br>' : '';
+  return `${renderRuns(block.runs)}${placeholder}`;
+};
+
+// List items are stored flat with an indent and rendered as nested lists
+const renderList = (items: TextBlock[]): string => {
+  let html = '';
+  let i = 0;
+  while (i < items.length) {
+    const kind = items[i].kind;
+    const tag = kind === 'orderedList' ? 'ol' : 'ul';
+    html += `<${tag}${kind === 'checkList' ? ' class="checklist"' : ''}>`;
+    while (i < items.length && items[i].kind === kind) {
+      const item = items[i++];
+      const childStart = i;
+      while (i < items.length && (items[i].indent ?? 0) > (item.indent ?? 0)) i++;
+      const checked = kind === 'checkList' ? ` data-checked="${item.checked ? 'true' : 'false'}"` : '';
+      const children = i > childStart ? renderList(items.slice(childStart, i)) : '';
+      html += `<li${checked}${alignStyle(item)}>${renderInline(item)}${children}</li>`;
+    }
+    html += `</${tag}>`;
+  }
+  return html;
+};
+
+const renderTextBlock = (block: TextBlock): string => {
+  switch (block.kind) {
+    case 'heading':
+      return `<h${block.level}${alignStyle(block)}>${renderInline(block)}</h${block.level}>`;
+    case 'codeBlock': {
+      const text = blockText(block);
+      const language = block.language ? ` data-language="${escapeHtml(block.language)}"` : '';
+      // Like <br> in paragraphs, a final newline only shows when followed by another
+      const placeholder = text === '' || text.endsWith('\n') ? '\n' : '';
+      return `<pre${language}><code>${escapeHtml(text)}${placeholder}</code></pre>`;
+    }
+    default:
+      return `<p${alignStyle(block)}>${renderInline(block)}</p>`;
+  }
+};
+
+const renderTable = (cells: TextBlock[]): string => {
+  const rows = tableRows(cells).map(row => {
+    const tag = row[0].header ? 'th' : 'td';
+    return `<tr>${row.map(cell => `<${tag}${alignStyle(cell)}>${renderInline(cell)}</${tag}>`).join('')}</tr>`;
+  });
+  const head = cells[0].header ? `<thead>${rows.shift()}</thead>` : '';
+  const body = rows.length > 0 ? `<tbody>${rows.join('')}</tbody>` : '';
+  return `<table>${head}${body}</table>`;
+};
+
+// Consecutive list items, quote paragraphs or cells of one table render as one element
+const groupOf = (block: Block): 'list' | 'quote' | 'table' | null => {
+  if (block.type !== 'text') return null;
+  if (isListKind(block.kind)) return 'list';
+  return block.kind === 'quote' ? 'quote' : block.kind === 'tableCell' ? 'table' : null;
+};
+
+const groupBlocks = (blocks: Block[]): Block[][] => {
+  const groups: Block[][] = [];
+  blocks.forEach((block, index) => {
+    const group = groupOf(block);
+    const previous = blocks[index - 1];
+    if (group && index > 0 && groupOf(previous) === group &&
+        !(group === 'table' && startsTable(block as TextBlock, previous))) {
+      groups[groups.length - 1].push(block);
+    } else {
+      groups.push([block]);
+    }
+  });
+  return groups;
+};
+
+/**
+ * Canonical HTML for a document. A document holding only an empty paragraph
+ * serializes to an empty string.
+ */
+export const serializeDocument = (doc: EditorDocument): string => {
+  const [first] = doc.blocks;
+  if (doc.blocks.length === 1 && first.type === 'text' && first.kind === 'paragraph' && first.runs.length === 0) {
+    return '';
+  }
+  return groupBlocks(doc.blocks).map(group => {
+    const [block] = group;
+    if (block.type === 'html') return block.html;
+    const textBlocks = group as TextBlock[];
+    switch (groupOf(block)) {
+      case 'list':
+        return renderList(textBlocks);
+      case 'quote':
+        return `<blockquote>${textBlocks.map(quote => `<p${alignStyle(quote)}>${renderInline(quote)}</p>`).join('')}</blockquote>`;
+      case 'table':
+        return renderTable(textBlocks);
+      default:
+        return renderTextBlock(block);
+    }
+  }).join('');
+};
+
+// Parsing
+
+export interface DomPoint {
+  node: Node;
+  offset: number;
+}
+
+const getAlignment = (element: HTMLElement): Alignment | null => {
+  const align = (element.style.textAlign || element.getAttribute('align') || '').toLowerCase();
+  return DOCUMENT_SCHEMA.alignments.find(option => option === align) ?? null;
+};
+
+const getFontSize = (element: HTMLElement): number | undefined => {
+  if (element.tagName === 'FONT' && element.getAttribute('size')) {
+    return LEGACY_FONT_SIZES[Math.min(Math.max(Number(element.getAttribute('size')), 1), 7) - 1];
+  }
+  const match = element.style.fontSize.match(/^(\d+(?:\.\d+)?)px$/);
+  const size = match ? Math.round(Number(match[1])) : NaN;
+  return isValidFontSize(size) ? size : undefined;
+};
+
+// Marks an inline element adds to its content
+const getElementMarks = (element: HTMLElement, marks: Marks): Marks => {
+  const next = { ...marks };
+  switch (element.tagName) {
+    case 'B':
+    case 'STRONG':
+      next.bold = true;
+      break;
+    case 'I':
+    case 'EM':
+      next.italic = true;
+      break;
+    case 'U':
+      next.underline = true;
+      break;
+    case 'S':
+    case 'STRIKE':
+    case 'DEL':
+      next.strike = true;
+      break;
+    case 'CODE':
+      next.code = true;
+      break;
+    case 'A': {
+      // Links the editor cannot open safely are kept as plain text
+      const href = normalizeUrl(element.getAttribute('href') || '');
+      if (href) next.link = href;
+      break;
+    }
+  }
+
+  const { fontWeight, fontStyle, textDecorationLine, textDecoration } = element.style;
+  if (fontWeight === 'bold' || Number(fontWeight) >= 600) next.bold = true;
+  if (fontStyle === 'italic') next.italic = true;
+  const decoration = textDecorationLine || textDecoration;
+  if (decoration.includes('underline')) next.underline = true;
+  if (decoration.includes('line-through')) next.strike = true;
+  const fontSize = getFontSize(element);
+  if (fontSize) next.fontSize = fontSize;
+  return next;
+};
+
+const isElement = (node: Node): node is HTMLElement => node.nodeType === Node.ELEMENT_NODE;
+
+const isBlockElement = (node: Node): boolean =>
+  isElement(node) && (CONTAINER_TAGS.has(node.tagName) || TEXT_BLOCK_TAGS.has(node.tagName) ||
+    PRESERVED_BLOCK_TAGS.has(node.tagName) || node.tagName === 'LI');
+
+const hasUnsupportedContent = (element: HTMLElement): boolean =>
+  Array.from(element.querySelectorAll('*')).some(child =>
+    UNSUPPORTED_INLINE_TAGS.has(child.tagName) || PRESERVED_BLOCK_TAGS.has(child.tagName)
+  );
+
+// Images may only show attachments or web images
+const safeImageSource = (src: string): string | null => {
+  if (src.startsWith(ATTACHMENT_URL_PREFIX)) return /^[\w-]+$/.test(src.slice(ATTACHMENT_URL_PREFIX.length)) ? src : null;
+  const url = normalizeUrl(src);
+  return url && /^https?:/i.test(url) ? url : null;
+};
+
+const sanitizeAttributes = (element: HTMLElement): string => {
+  const attributes: string[] = [];
+  Array.from(element.attributes).forEach(({ name, value }) => {
+    let safe: string | null = null;
+    if (name === 'href' && element.tagName === 'A') {
+      safe = normalizeUrl(value);
+    } else if (name === 'src' && element.tagName === 'IMG') {
+      safe = safeImageSource(value);
+    } else if (SAFE_HTML_ATTRIBUTES.has(name)) {
+      safe = value;
+    }
+    if (safe !== null) attributes.push(` ${name}="${escapeHtml(safe)}"`);
+  });
+  if (element.tagName === 'A') attributes.push(' rel="noopener noreferrer"');
+  return attributes.join('');
+};
+
+/**
+ * HTML for content the model keeps as it is, e.g. pasted from a web page. Only
+ * known tags and attributes are kept, so scripts, event handlers, styles and
+ * embedded frames never reach the editor. Attachments are stored without the
+ * image URLs and resize handles added to show them.
+ */
+const sanitizeHtmlBlock = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE) return escapeHtml(node.textContent || '');
+  if (!isElement(node) || UNSAFE_HTML_TAGS.has(node.tagName)) return '';
+  const attachment = readAttachmentElement(node);
+  if (attachment) return attachmentHtml(attachment);
+
+  const inner = Array.from(node.childNodes).map(sanitizeHtmlBlock).join('');
+  if (!SAFE_HTML_TAGS.has(node.tagName)) return inner;
+  if (node.tagName === 'IMG' && !safeImageSource(node.getAttribute('src') || '')) return '';
+  const tag = node.tagName.toLowerCase();
+  const attributes = sanitizeAttributes(node);
+  return VOID_HTML_TAGS.has(node.tagName) ? `<${tag}${attributes}>` : `<${tag}${attributes}>${inner}</${tag}>`;
+};
+
+/**
+ * Reads a document from a DOM tree, e.g. the live editor or parsed HTML. Also maps
+ * the given DOM points (such as the browser selection) to document positions.
+ */
+export const readDocument = (
+  root: Node,
+  points: DomPoint[] = []
+): { doc: EditorDocument; positions: (DocPosition | null)[] } => {
+  const blocks: Block[] = [];
+  const positions: (DocPosition | null)[] = points.map(() => null);
+  let runs: TextRun[] = [];
+  let attrs: BlockAttrs = { kind: 'paragraph' };
+  let align: Alignment = 'left';
+  let open = false;
+  let length = 0;
+  // Inside <pre>: whitespace is kept as typed
+  let preserveWhitespace = false;
+  // What loose text turns into, e.g. quote paragraphs inside a <blockquote>
+  let context: { kind: 'paragraph' | 'quote'; align: Alignment } = { kind: 'paragraph', align: 'left' };
+
+  // Points located in the current block, resolved once its final index is known
+  let pending: { index: number; offset: number }[] = [];
+
+  const markPoint = (node: Node, childIndex: number) => {
+    points.forEach((point, index) => {
+      if (point.node === node && point.offset === childIndex && positions[index] === null) {
+        pending.push({ index, offset: length });
+      }
+    });
+  };
+
+  // A point between blocks belongs to the start of the next block
+  const markPointBefore = (node: Node, childIndex: number) => {
+    points.forEach((point, index) => {
+      if (point.node === node && point.offset === childIndex && positions[index] === null) {
+        positions[index] = { block: blocks.length, offset: 0 };
+      }
+    });
+  };
+
+  const markChild = (node: Node, childIndex: number) => {
+    if (open) markPoint(node, childIndex); else markPointBefore(node, childIndex);
+  };
+
+  // Points inside an HTML block map to its start
+  const resolvePointsInside = (element: Node, block: number) => {
+    points.forEach((point, index) => {
+      if (positions[index] === null && element.contains(point.node)) {
+        positions[index] = { block, offset: 0 };
+      }
+    });
+  };
+
+  const flush = () => {
+    if (!open) return;
+    // A trailing <br> (or newline in code) only gives the line height, it is not a line break of its own
+    const last = runs[runs.length - 1];
+    if (last?.text.endsWith('\n')) {
+      runs[runs.length - 1] = { ...last, text: last.text.slice(0, -1) };
+      pending.forEach(point => {
+        point.offset = Math.min(point.offset, length - 1);
+      });
+    }
+    blocks.push(createTextBlock(runs, attrs, align));
+    pending.forEach(({ index, offset }) => {
+      positions[index] = { block: blocks.length - 1, offset };
+    });
+    pending = [];
+    runs = [];
+    open = false;
+    length = 0;
+  };
+
+  const startBlock = (blockAttrs: BlockAttrs, blockAlign: Alignment) => {
+    flush();
+    open = true;
+    attrs = blockAttrs;
+    align = blockAlign;
+  };
+
+  const pushHtmlBlock = (element: HTMLElement) => {
+    flush();
+    const html = sanitizeHtmlBlock(element);
+    // Nothing is left of e.g. an embedded frame; points inside go to the next block
+    if (html) blocks.push({ type: 'html', html });
+    resolvePointsInside(element, html ? blocks.length - 1 : blocks.length);
+  };
+
+  const addText = (text: string, marks: Marks) => {
+    runs.push({ text, marks });
+    length += text.length;
+  };
+
+  const readInline = (node: Node, marks: Marks) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const raw = node.textContent || '';
+      if (!open && !raw.trim()) return;
+      if (!open) startBlock({ kind: context.kind }, context.align);
+      const collapse = (text: string) => preserveWhitespace ? text : text.replace(/[\t\n\r ]+/g, ' ');
+      points.forEach((point, index) => {
+        if (point.node === node && positions[index] === null) {
+          pending.push({ index, offset: length + collapse(raw.slice(0, point.offset)).length });
+        }
+      });
+      addText(collapse(raw), marks);
+      return;
+    }
+    if (!isElement(node) || IGNORED_TAGS.has(node.tagName)) return;
+    if (UNSUPPORTED_INLINE_TAGS.has(node.tagName)) {
+      // Loose images and embeds become HTML blocks of their own
+      pushHtmlBlock(node);
+      return;
+    }
+    if (!open) startBlock({ kind: context.kind }, context.align);
+
+    if (node.tagName === 'BR') {
+      addText('\n', marks);
+      return;
+    }
+    const childMarks = getElementMarks(node, marks);
+    node.childNodes.forEach((child, index) => {
+      markPoint(node, index);
+      readInline(child, childMarks);
+    });
+    markPoint(node, node.childNodes.length);
+  };
+
+  // Reads an element's children as the content of a single block
+  const readBlockContent = (element: HTMLElement, blockAttrs: BlockAttrs, blockAlign: Alignment) => {
+    startBlock(blockAttrs, blockAlign);
+    element.childNodes.forEach((child, index) => {
+      markPoint(element, index);
+      readInline(child, {});
+    });
+    markPoint(element, element.childNodes.length);
+    flush();
+  };
+
+  const readList = (list: HTMLElement, depth: number) => {
+    const listKind: ListKind = list.tagName === 'OL' ? 'orderedList'
+      : list.classList.contains('checklist') ? 'checkList' : 'bulletList';
+
+    list.childNodes.forEach((child, index) => {
+      markChild(list, index);
+      if (!isElement(child)) return;
+      if (child.tagName === 'UL' || child.tagName === 'OL') {
+        readList(child, depth + 1);
+      } else if (child.tagName === 'LI') {
+        readListItem(child, listKind, depth);
+      }
+    });
+    markChild(list, list.childNodes.length);
+  };
+
+  const readListItem = (item: HTMLElement, listKind: ListKind, depth: number) => {
+    // Task list items may also sit in a plain list
+    const checked = item.getAttribute('data-checked');
+    const itemAttrs: BlockAttrs = {
+      kind: checked !== null ? 'checkList' : listKind,
+      indent: depth,
+      checked: checked === 'true'
+    };
+    const itemAlign = getAlignment(item) ?? 'left';
+    startBlock(itemAttrs, itemAlign);
+
+    item.childNodes.forEach((child, index) => {
+      markChild(item, index);
+      if (isElement(child) && (child.tagName === 'UL' || child.tagName === 'OL')) {
+        flush();
+        readList(child, depth + 1);
+        return;
+      }
+      if (!open) {
+        if (child.nodeType === Node.TEXT_NODE && !(child.textContent || '').trim()) return;
+        // Text after a nested list continues as another item at this level
+        startBlock({ ...itemAttrs, checked: false }, itemAlign);
+      }
+      if (isElement(child) && CONTAINER_TAGS.has(child.tagName)) {
+        // Paragraphs of a loose list item become lines of the item
+        if (length > 0) addText('\n', {});
+        child.childNodes.forEach((grandchild, childIndex) => {
+          markPoint(child, childIndex);
+          readInline(grandchild, {});
+        });
+        markPoint(child, child.childNodes.length);
+      } else {
+        readInline(child, {});
+      }
+    });
+    markChild(item, item.childNodes.length);
+    flush();
+  };
+
+  // Tables with merged or nested cells are kept as HTML blocks
+  const isSimpleTable = (table: HTMLTableElement): boolean =>
+    table.rows.length > 0 && table.querySelector('table') === null &&
+    Array.from(table.querySelectorAll('td, th')).every(cell =>
+      (cell as HTMLTableCellElement).colSpan === 1 && (cell as HTMLTableCellElement).rowSpan === 1
+    );
+
+  const readTable = (table: HTMLTableElement) => {
+    flush();
+    const first = blocks.length;
+    const rows = Array.from(table.rows);
+    const columns = Math.max(...rows.map(row => row.cells.length));
+    // A header row is a <thead> row, or a first row of <th> cells
+    const header = rows[0].parentElement?.tagName === 'THEAD' ||
+      Array.from(rows[0].cells).every(cell => cell.tagName === 'TH');
+
+    rows.forEach((row, rowIndex) => {
+      for (let column = 0; column < columns; column++) {
+        const cell = row.cells[column];
+        const attrs: BlockAttrs = { kind: 'tableCell', row: rowIndex, column, header };
+        if (cell) {
+          readBlockContent(cell, attrs, getAlignment(cell) ?? 'left');
+        } else {
+          // Short rows are padded so every row has the same cells
+          blocks.push(createTextBlock([], attrs));
+        }
+      }
+    });
+    // Points between rows or cells go to the first cell
+    resolvePointsInside(table, first);
+  };
+
+  const readBlock = (node: Node) => {
+    if (!isBlockElement(node)) {
+      readInline(node, {});
+      return;
+    }
+    const element = node as HTMLElement;
+    const elementAlign = getAlignment(element) ?? context.align;
+    const heading = element.tagName.match(/^H([1-3])$/);
+
+    if (heading || element.tagName === 'PRE' || element.tagName === 'UL' || element.tagName === 'OL' ||
+        element.tagName === 'TABLE') {
+      if (hasUnsupportedContent(element) ||
+          (element.tagName === 'TABLE' && !isSimpleTable(element as HTMLTableElement))) {
+        pushHtmlBlock(element);
+      } else if (element.tagName === 'TABLE') {
+        readTable(element as HTMLTableElement);
+      } else if (heading) {
+        readBlockContent(element, { kind: 'heading', level: Number(heading[1]) as HeadingLevel }, elementAlign);
+      } else if (element.tagName === 'PRE') {
+        const language = element.getAttribute('data-language') ??
+          element.querySelector('code')?.className.match(/language-(\S+)/)?.[1];
+        preserveWhitespace = true;
+        readBlockContent(element, { kind: 'codeBlock', language }, 'left');
+        preserveWhitespace = false;
+      } else {
+        flush();
+        readList(element, 0);
+      }
+      return;
+    }
+
+    if (element.tagName === 'BLOCKQUOTE') {
+      const outer = context;
+      flush();
+      context = { kind: 'quote', align: elementAlign };
+      element.childNodes.forEach((child, index) => {
+        markChild(element, index);
+        readBlock(child);
+      });
+      markChild(element, element.childNodes.length);
+      flush();
+      context = outer;
+      return;
+    }
+
+    const hasBlockChildren = Array.from(element.childNodes).some(isBlockElement);
+    if (PRESERVED_BLOCK_TAGS.has(element.tagName) || element.tagName === 'LI' ||
+        (!hasBlockChildren && hasUnsupportedContent(element))) {
+      pushHtmlBlock(element);
+      return;
+    }
+
+    if (!hasBlockChildren) {
+      readBlockContent(element, { kind: context.kind }, elementAlign);
+      return;
+    }
+
+    // Containers like <div> holding both text and blocks, as contentEditable produces
+    const outer = context;
+    flush();
+    context = { ...context, align: elementAlign };
+    element.childNodes.forEach((child, index) => {
+      markChild(element, index);
+      readBlock(child);
+    });
+    flush();
+    markPointBefore(element, element.childNodes.length);
+    context = outer;
+  };
+
+  root.childNodes.forEach((child, index) => {
+    markChild(root, index);
+    readBlock(child);
+  });
+  markChild(root, root.childNodes.length);
+  flush();
+
+  const doc = createDocument(blocks);
+  return {
+    doc,
+    positions: positions.map(position => {
+      if (!position) return null;
+      const block = Math.min(position.block, doc.blocks.length - 1);
+      const offset = block === position.block ? position.offset : blockLength(doc.blocks[block]);
+      return { block, offset: Math.min(offset, blockLength(doc.blocks[block])) };
+    })
+  };
+};
+
+/**
+ * Parses stored note HTML into a document
+ */
+export const parseDocument = (html: string): EditorDocument => {
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  return readDocument(body).doc;
+};
+
+/**
+ * Normalizes HTML to its canonical form
+ */
+export const normalizeHtml = (html: string): string => serializeDocument(parseDocument(html));
+
+const isList = (element: Element): boolean => element.tagName === 'UL' || element.tagName === 'OL';
+
+// List items in document order, including nested ones
+const collectListItems = (list: Element, items: Element[]) => {
+  Array.from(list.children).forEach(child => {
+    if (child.tagName === 'LI') {
+      items.push(child);
+      Array.from(child.children).filter(isList).forEach(nested => collectListItems(nested, items));
+    } else if (isList(child)) {
+      collectListItems(child, items);
+    }
+  });
+};
+
+/**
+ * The element rendered for each block, in an element holding the serialized document
+ */
+const mapBlockElements = (root: HTMLElement, doc: EditorDocument): Element[] => {
+  const elements: Element[] = [];
+  let child = 0;
+  groupBlocks(doc.blocks).forEach(group => {
+    const groupType = groupOf(group[0]);
+    if (groupType === 'list') {
+      const items: Element[] = [];
+      while (items.length < group.length && root.children[child]) {
+        collectListItems(root.children[child++], items);
+      }
+      elements.push(...items.slice(0, group.length));
+    } else if (groupType === 'quote') {
+      elements.push(...Array.from(root.children[child++]?.children ?? []));
+    } else if (groupType === 'table') {
+      elements.push(...Array.from(root.children[child++]?.querySelectorAll('th, td') ?? []));
+    } else {
+      elements.push(root.children[child++]);
+    }
+  });
+  return elements;
+};
+
+/**
+ * DOM point for a document position, in an element holding the serialized document
+ */
+export const findDomPoint = (root: HTMLElement, doc: EditorDocument, position: DocPosition): DomPoint => {
+  const block = doc.blocks[position.block];
+  const blockElement = mapBlockElements(root, doc)[position.block];
+  if (!block || !blockElement) return { node: root, offset: root.childNodes.length };
+  if (block.type === 'html') {
+    // HTML blocks: before or after the element
+    const parent = blockElement.parentNode!;
+    const index = Array.from(parent.childNodes).indexOf(blockElement);
+    return { node: parent, offset: index + (position.offset > 0 ? 1 : 0) };
+  }
+
+  let remaining = position.offset;
+  const walker = document.createTreeWalker(blockElement, NodeFilter.SHOW_TEXT | NodeFilter.SHOW_ELEMENT, {
+    // Nested lists belong to other blocks
+    acceptNode: node => isElement(node) && isList(node) ? NodeFilter.FILTER_REJECT : NodeFilter.FILTER_ACCEPT
+  });
+  let node = walker.nextNode();
+  while (node) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = node.textContent || '';
+      if (remaining <= text.length) return { node, offset: remaining };
+      remaining -= text.length;
+    } else if ((node as HTMLElement).tagName === 'BR') {
+      const parent = node.parentNode!;
+      const index = Array.from(parent.childNodes).indexOf(node as ChildNode);
+      if (remaining === 0) return { node: parent, offset: index };
+      remaining -= 1;
+    }
+    node = walker.nextNode();
+  }
+  return { node: blockElement, offset: 0 };
+};
+
@@ -0,0 +1,370 @@
+/**
+ * Structured document model behind the rich text editor. A document is a list of
+ * blocks; text blocks hold runs of text that share the same inline marks. Block
+ * elements the editor does not model yet are kept as opaque HTML so nothing
+ * stored in a note is lost by editing it.
+ */
+
+export type Alignment = 'left' | 'center' | 'right' | 'justify';
+
+export interface Marks {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  fontSize?: number;
+  link?: string;
+}
+
+export type ToggleMark = 'bold' | 'italic' | 'underline' | 'strike' | 'code';
+
+export interface TextRun {
+  // Soft line breaks are stored as "\n"
+  text: string;
+  marks: Marks;
+}
+
+export type TextBlockKind =
+  | 'paragraph'
+  | 'heading'
+  | 'bulletList'
+  | 'orderedList'
+  | 'checkList'
+  | 'quote'
+  | 'codeBlock'
+  | 'tableCell';
+export type ListKind = 'bulletList' | 'orderedList' | 'checkList';
+export type HeadingLevel = 1 | 2 | 3;
+
+export interface BlockAttrs {
+  kind: TextBlockKind;
+  level?: HeadingLevel; // headings only
+  indent?: number; // list items only; nesting depth starting at 0
+  checked?: boolean; // checklist items only
+  language?: string; // code blocks only
+  // Table cells only; a table is a run of cells in row order, its alignment is per cell
+  row?: number;
+  column?: number;
+  header?: boolean; // cells of a header row
+}
+
+export interface TextBlock extends BlockAttrs {
+  type: 'text';
+  align: Alignment;
+  runs: TextRun[];
+}
+
+// A block element kept verbatim; the caret can only sit before (0) or after (1) it
+export interface HtmlBlock {
+  type: 'html';
+  html: string;
+}
+
+export type Block = TextBlock | HtmlBlock;
+
+export interface EditorDocument {
+  blocks: Block[];
+}
+
+// Offsets count characters of the block's text
+export interface DocPosition {
+  block: number;
+  offset: number;
+}
+
+export interface DocSelection {
+  anchor: DocPosition;
+  focus: DocPosition;
+}
+
+export interface DocRange {
+  start: DocPosition;
+  end: DocPosition;
+}
+
+export interface EditorState {
+  doc: EditorDocument;
+  selection: DocSelection | null;
+  // Marks for the next typed text after toggling a mark with a collapsed selection
+  storedMarks: Marks | null;
+}
+
+export const DOCUMENT_SCHEMA = {
+  alignments: ['left', 'center', 'right', 'justify'] as readonly Alignment[],
+  toggleMarks: ['bold', 'italic', 'underline', 'strike', 'code'] as readonly ToggleMark[],
+  // Inline marks in the order their elements nest, outermost first
+  markOrder: ['link', 'fontSize', 'bold', 'italic', 'underline', 'strike', 'code'] as readonly (keyof Marks)[],
+  fontSizes: [12, 14, 16, 18, 20, 24, 32],
+  defaultFontSize: 16,
+  minFontSize: 8,
+  maxFontSize: 96,
+  listKinds: ['bulletList', 'orderedList', 'checkList'] as readonly ListKind[],
+  headingLevels: [1, 2, 3] as readonly HeadingLevel[],
+  maxIndent: 6,
+  maxTableSize: 50,
+  // Code block language labels, e.g. "ts" or "c++"
+  languagePattern: /^[\w+#.-]{1,20}$/
+};
+
+export const isListKind = (kind: TextBlockKind): kind is ListKind =>
+  (DOCUMENT_SCHEMA.listKinds as readonly string[]).includes(kind);
+
+/**
+ * Builds a text block, keeping only the attributes its kind allows. Code blocks
+ * hold plain, left-aligned text.
+ */
+export const createTextBlock = (
+  runs: TextRun[],
+  attrs: BlockAttrs,
+  align: Alignment = 'left'
+): TextBlock => {
+  const { kind } = attrs;
+  const block: TextBlock = {
+    type: 'text',
+    kind,
+    align: kind === 'codeBlock' ? 'left' : align,
+    runs: normalizeRuns(kind === 'codeBlock' ? runs.map(run => ({ text: run.text, marks: {} })) : runs)
+  };
+  if (kind === 'heading') {
+    block.level = DOCUMENT_SCHEMA.headingLevels.includes(attrs.level as HeadingLevel) ? attrs.level : 1;
+  }
+  if (isListKind(kind)) {
+    block.indent = Math.min(Math.max(Math.floor(attrs.indent ?? 0), 0), DOCUMENT_SCHEMA.maxIndent);
+  }
+  if (kind === 'checkList') block.checked = !!attrs.checked;
+  if (kind === 'codeBlock' && attrs.language && DOCUMENT_SCHEMA.languagePattern.test(attrs.language)) {
+    block.language = attrs.language;
+  }
+  if (kind === 'tableCell') {
+    block.row = Math.max(Math.floor(attrs.row ?? 0), 0);
+    block.column = Math.max(Math.floor(attrs.column ?? 0), 0);
+    block.header = block.row === 0 && !!attrs.header;
+  }
+  return block;
+};
+
+export const createParagraph = (runs: TextRun[] = [], align: Alignment = 'left'): TextBlock =>
+  createTextBlock(runs, { kind: 'paragraph' }, align);
+
+/**
+ * The same block with other runs or attributes
+ */
+export const updateTextBlock = (
+  block: TextBlock,
+  changes: { runs?: TextRun[]; attrs?: Partial<BlockAttrs>; align?: Alignment }
+): TextBlock => createTextBlock(
+  changes.runs ?? block.runs,
+  { ...blockAttrs(block), ...changes.attrs },
+  changes.align ?? block.align
+);
+
+export const blockAttrs = (block: TextBlock): BlockAttrs => ({
+  kind: block.kind,
+  level: block.level,
+  indent: block.indent,
+  checked: block.checked,
+  language: block.language,
+  row: block.row,
+  column: block.column,
+  header: block.header
+});
+
+export const isTableCell = (block: Block | undefined): boolean =>
+  block?.type === 'text' && block.kind === 'tableCell';
+
+/**
+ * Cells of an empty table, the first row being a header row when asked
+ */
+export const createTable = (rows: number, columns: number, header = true): TextBlock[] =>
+  Array.from({ length: rows * columns }, (_, index) => createTextBlock([], {
+    kind: 'tableCell',
+    row: Math.floor(index / columns),
+    column: index % columns,
+    header
+  }));
+
+/**
+ * Whether the cell starts a new table after the cell before it, which happens
+ * when it does not come later in reading order
+ */
+export const startsTable = (cell: TextBlock, previous: Block | undefined): boolean => {
+  if (!isTableCell(previous)) return true;
+  const { row, column } = previous as TextBlock;
+  return cell.row! < row! || (cell.row === row && cell.column! <= column!);
+};
+
+/**
+ * Table cells grouped into rows
+ */
+export const tableRows = (cells: TextBlock[]): TextBlock[][] => {
+  const rows: TextBlock[][] = [];
+  cells.forEach((cell, index) => {
+    if (index === 0 || cell.row !== cells[index - 1].row) rows.push([]);
+    rows[rows.length - 1].push(cell);
+  });
+  return rows;
+};
+
+/**
+ * Block range [start, end) of the table containing the block
+ */
+export const tableExtent = (doc: EditorDocument, index: number): { start: number; end: number } | null => {
+  if (!isTableCell(doc.blocks[index])) return null;
+  let start = index;
+  while (start > 0 && !startsTable(doc.blocks[start] as TextBlock, doc.blocks[start - 1])) start--;
+  let end = index + 1;
+  while (end < doc.blocks.length && isTableCell(doc.blocks[end]) &&
+         !startsTable(doc.blocks[end] as TextBlock, doc.blocks[end - 1])) {
+    end++;
+  }
+  return { start, end };
+};
+
+export const createDocument = (blocks: Block[] = []): EditorDocument => ({
+  blocks: blocks.length > 0 ? blocks : [createParagraph()]
+});
+
+export const isValidFontSize = (size: number): boolean =>
+  Number.isFinite(size) && size >= DOCUMENT_SCHEMA.minFontSize && size <= DOCUMENT_SCHEMA.maxFontSize;
+
+/**
+ * Drops marks that are unset or redundant, so equal formatting always compares equal
+ */
+export const normalizeMarks = (marks: Marks): Marks => {
+  const normalized: Marks = {};
+  DOCUMENT_SCHEMA.toggleMarks.forEach(mark => {
+    if (marks[mark]) normalized[mark] = true;
+  });
+  if (marks.fontSize !== undefined && isValidFontSize(marks.fontSize) &&
+      marks.fontSize !== DOCUMENT_SCHEMA.defaultFontSize) {
+    normalized.fontSize = marks.fontSize;
+  }
+  if (marks.link) normalized.link = marks.link;
+  return normalized;
+};
+
+export const marksEqual = (a: Marks, b: Marks): boolean =>
+  DOCUMENT_SCHEMA.markOrder.every(mark => a[mark] === b[mark]);
+
+/**
+ * Merges neighbouring runs with equal marks and drops empty runs
+ */
+export const normalizeRuns = (runs: TextRun[]): TextRun[] => {
+  const result: TextRun[] = [];
+  runs.forEach(run => {
+    if (!run.text) return;
+    const marks = normalizeMarks(run.marks);
+    const previous = result[result.length - 1];
+    if (previous && marksEqual(previous.marks, marks)) {
+      result[result.length - 1] = { text: previous.text + run.text, marks };
+    } else {
+      result.push({ text: run.text, marks });
+    }
+  });
+  return result;
+};
+
+export const blockLength = (block: Block): number =>
+  block.type === 'html' ? 1 : block.runs.reduce((length, run) => length + run.text.length, 0);
+
+export const blockText = (block: Block): string =>
+  block.type === 'html' ? '' : block.runs.map(run => run.text).join('');
+
+export const comparePositions = (a: DocPosition, b: DocPosition): number =>
+  a.block !== b.block ? a.block - b.block : a.offset - b.offset;
+
+export const isCollapsed = (selection: DocSelection): boolean =>
+  comparePositions(selection.anchor, selection.focus) === 0;
+
+export const selectionRange = (selection: DocSelection): DocRange =>
+  comparePositions(selection.anchor, selection.focus) <= 0
+    ? { start: selection.anchor, end: selection.focus }
+    : { start: selection.focus, end: selection.anchor };
+
+export const collapsedSelection = (position: DocPosition): DocSelection => ({ anchor: position, focus: position });
+
+/**
+ * Clamps a position into the document
+ */
+export const clampPosition = (doc: EditorDocument, position: DocPosition): DocPosition => {
+  const block = Math.min(Math.max(position.block, 0), doc.blocks.length - 1);
+  const offset = Math.min(Math.max(position.offset, 0), blockLength(doc.blocks[block]));
+  return { block, offset };
+};
+
+/**
+ * Splits runs at a character offset
+ */
+export const splitRuns = (runs: TextRun[], offset: number): [TextRun[], TextRun[]] => {
+  const before: TextRun[] = [];
+  const after: TextRun[] = [];
+  let position = 0;
+  runs.forEach(run => {
+    const end = position + run.text.length;
+    if (end <= offset) {
+      before.push(run);
+    } else if (position >= offset) {
+      after.push(run);
+    } else {
+      before.push({ text: run.text.slice(0, offset - position), marks: run.marks });
+      after.push({ text: run.text.slice(offset - position), marks: run.marks });
+    }
+    position = end;
+  });
+  return [before, after];
+};
+
+/**
+ * Runs between two offsets of a block
+ */
+export const sliceRuns = (runs: TextRun[], from: number, to: number): TextRun[] =>
+  splitRuns(splitRuns(runs, to)[0], from)[1];
+
+/**
+ * Marks that text typed at the position would get: those of the character before
+ * the caret, or after it at the start of a block
+ */
+export const marksAt = (doc: EditorDocument, position: DocPosition): Marks => {
+  const block = doc.blocks[position.block];
+  if (!block || block.type === 'html' || block.kind === 'codeBlock') return {};
+  const [before, after] = splitRuns(block.runs, position.offset);
+  const run = before[before.length - 1] ?? after[0];
+  if (!run) return {};
+  // Links do not extend past their end
+  const { link, ...marks } = run.marks;
+  return before.length > 0 && after[0]?.marks.link === link ? run.marks : marks;
+};
+
+/**
+ * The link at a position and the range of text it covers, within one block. A
+ * caret at either end of a link counts as inside it.
+ */
+export const linkAt = (doc: EditorDocument, position: DocPosition): { href: string; range: DocRange } | null => {
+  const block = doc.blocks[position.block];
+  if (!block || block.type === 'html') return null;
+
+  // Start offset of each run
+  const starts: number[] = [];
+  block.runs.reduce((start, run) => {
+    starts.push(start);
+    return start + run.text.length;
+  }, 0);
+  const index = block.runs.findIndex((run, i) =>
+    run.marks.link && position.offset >= starts[i] && position.offset <= starts[i] + run.text.length
+  );
+  if (index === -1) return null;
+
+  const href = block.runs[index].marks.link!;
+  let first = index;
+  while (first > 0 && block.runs[first - 1].marks.link === href) first--;
+  let last = index;
+  while (last < block.runs.length - 1 && block.runs[last + 1].marks.link === href) last++;
+  return {
+    href,
+    range: {
+      start: { block: position.block, offset: starts[first] },
+      end: { block: position.block, offset: starts[last] + block.runs[last].text.length }
+    }
+  };
+};
@@ -0,0 +1,685 @@
+import type { BlockFormat, RichTextFormat } from '../types';
+import {
+  DOCUMENT_SCHEMA,
+  blockLength,
+  blockText,
+  clampPosition,
+  collapsedSelection,
+  createParagraph,
+  createTable,
+  createTextBlock,
+  isCollapsed,
+  isListKind,
+  isTableCell,
+  linkAt,
+  marksAt,
+  normalizeMarks,
+  selectionRange,
+  sliceRuns,
+  splitRuns,
+  startsTable,
+  tableExtent,
+  tableRows,
+  updateTextBlock
+} from './documentModel';
+import { setAttachmentWidth } from './attachments';
+import type {
+  Alignment,
+  Block,
+  BlockAttrs,
+  DocPosition,
+  DocRange,
+  EditorDocument,
+  EditorState,
+  HeadingLevel,
+  Marks,
+  TextBlock,
+  TextBlockKind,
+  TextRun,
+  ToggleMark
+} from './documentModel';
+
+export type TableCommand =
+  | 'addRowAbove'
+  | 'addRowBelow'
+  | 'deleteRow'
+  | 'addColumnLeft'
+  | 'addColumnRight'
+  | 'deleteColumn'
+  | 'toggleHeader'
+  | 'deleteTable'
+  // Tab and Shift+Tab; Tab in the last cell adds a row
+  | 'nextCell'
+  | 'previousCell';
+
+/**
+ * Edits to the document model. Applying a transaction is a pure function of the
+ * state, so the same state and transaction always produce the same result.
+ */
+export type Transaction =
+  | { type: 'toggleMark'; mark: ToggleMark }
+  | { type: 'setFontSize'; size: number }
+  | { type: 'setAlignment'; align: Alignment }
+  // Links the selection, or the whole link at a caret; null removes the link. At a
+  // caret outside a link, the text (or the URL itself) is inserted as a link.
+  | { type: 'setLink'; href: string | null; text?: string }
+  | { type: 'insertText'; text: string; range?: DocRange }
+  | { type: 'replaceRange'; blocks: Block[]; range?: DocRange }
+  // Inserts whole blocks, e.g. a divider, without merging them into the text around
+  | { type: 'insertBlocks'; blocks: Block[]; position?: DocPosition }
+  | { type: 'setBlockType'; attrs: BlockAttrs }
+  | { type: 'indent' }
+  | { type: 'outdent' }
+  | { type: 'toggleChecked'; block: number }
+  | { type: 'setCodeLanguage'; language: string }
+  | { type: 'insertTable'; rows: number; columns: number }
+  // Sets the display width of an attached image; null shows it at its natural size
+  | { type: 'resizeImage'; block: number; width: number | null }
+  // Edits the table the selection starts in
+  | { type: 'table'; command: TableCommand }
+  // Enter: splits the block, or leaves an empty list item, quote or code block
+  | { type: 'splitBlock' }
+  // Backspace at the start of a block: turns it into a paragraph or joins it to the one before
+  | { type: 'joinBackward' };
+
+// Calls fn with the part of each text block covered by the range
+const forEachTextRange = (
+  doc: EditorDocument,
+  range: DocRange,
+  fn: (runs: TextRun[], from: number, to: number) => void
+) => {
+  for (let index = range.start.block; index <= range.end.block; index++) {
+    const block = doc.blocks[index];
+    if (block.type !== 'text') continue;
+    const from = index === range.start.block ? range.start.offset : 0;
+    const to = index === range.end.block ? range.end.offset : blockLength(block);
+    fn(block.runs, from, to);
+  }
+};
+
+// Applies a change of marks to the text covered by the range
+const mapMarks = (doc: EditorDocument, range: DocRange, update: (marks: Marks) => Marks): EditorDocument => ({
+  blocks: doc.blocks.map((block, index) => {
+    if (block.type !== 'text' || index < range.start.block || index > range.end.block) return block;
+    const from = index === range.start.block ? range.start.offset : 0;
+    const to = index === range.end.block ? range.end.offset : blockLength(block);
+    if (from >= to) return block;
+
+    const [before, rest] = splitRuns(block.runs, from);
+    const [inside, after] = splitRuns(rest, to - from);
+    return updateTextBlock(block, {
+      runs: [...before, ...inside.map(run => ({ text: run.text, marks: update(run.marks) })), ...after]
+    });
+  })
+});
+
+/**
+ * Whether every character in the range has the mark
+ */
+const rangeHasMark = (doc: EditorDocument, range: DocRange, mark: ToggleMark): boolean => {
+  let hasText = false;
+  let allMarked = true;
+  forEachTextRange(doc, range, (runs, from, to) => {
+    sliceRuns(runs, from, to).forEach(run => {
+      hasText = true;
+      if (!run.marks[mark]) allMarked = false;
+    });
+  });
+  return hasText && allMarked;
+};
+
+// Splits the document at a position into everything before and after it
+const splitDocument = (doc: EditorDocument, position: DocPosition): { left: Block[]; right: Block[] } => {
+  const block = doc.blocks[position.block];
+  const left = doc.blocks.slice(0, position.block);
+  const right = doc.blocks.slice(position.block + 1);
+  if (block.type === 'html') {
+    return position.offset === 0
+      ? { left, right: [block, ...right] }
+      : { left: [...left, block], right };
+  }
+  const [before, after] = splitRuns(block.runs, position.offset);
+  return {
+    left: [...left, updateTextBlock(block, { runs: before })],
+    right: [updateTextBlock(block, { runs: after }), ...right]
+  };
+};
+
+// Removes the text covered by the range, leaving the blocks in place
+const clearText = (doc: EditorDocument, range: DocRange): EditorDocument => ({
+  blocks: doc.blocks.map((block, index) => {
+    if (block.type !== 'text' || index < range.start.block || index > range.end.block) return block;
+    const from = index === range.start.block ? range.start.offset : 0;
+    const to = index === range.end.block ? range.end.offset : blockLength(block);
+    const [before, rest] = splitRuns(block.runs, from);
+    return updateTextBlock(block, { runs: [...before, ...splitRuns(rest, to - from)[1]] });
+  })
+});
+
+/**
+ * Deletes a range that starts or ends in a table. The cells it covers are emptied
+ * rather than removed, so the tables keep their shape; blocks between the ends of
+ * the range are removed, including tables lying wholly inside it.
+ */
+const deleteAcrossTables = (doc: EditorDocument, range: DocRange): { doc: EditorDocument; caret: DocPosition } => {
+  const { start, end } = range;
+  const startTable = tableExtent(doc, start.block);
+  const endTable = tableExtent(doc, end.block);
+  const startBlock = doc.blocks[start.block];
+  const endBlock = doc.blocks[end.block];
+  const removeFrom = startTable ? startTable.end : startBlock.type === 'html' && start.offset === 0 ? start.block : start.block + 1;
+  const removeTo = endTable ? endTable.start : endBlock.type === 'html' && end.offset > 0 ? end.block + 1 : end.block;
+
+  const cleared = clearText(doc, range).blocks;
+  const blocks = [...cleared.slice(0, removeFrom), ...cleared.slice(Math.max(removeTo, removeFrom))];
+  return {
+    doc: { blocks: blocks.length > 0 ? blocks : [createParagraph()] },
+    caret: removeFrom <= start.block ? { block: removeFrom, offset: 0 } : start
+  };
+};
+
+// A single paragraph holding the text of the blocks, for pasting into a table cell
+const flattenBlocks = (blocks: Block[]): TextBlock => {
+  const runs: TextRun[] = [];
+  blocks.filter((block): block is TextBlock => block.type === 'text').forEach((block, index) => {
+    if (index > 0) runs.push({ text: '\n', marks: {} });
+    runs.push(...block.runs);
+  });
+  return createParagraph(runs);
+};
+
+/**
+ * Replaces the range with the blocks. The first and last inserted paragraphs join
+ * the text around the range, so a single paragraph is inserted inline. Table
+ * cells are never merged with other blocks.
+ */
+const replaceRange = (state: EditorState, range: DocRange, blocks: Block[]): EditorState => {
+  if (range.start.block !== range.end.block &&
+      (isTableCell(state.doc.blocks[range.start.block]) || isTableCell(state.doc.blocks[range.end.block]))) {
+    const { doc, caret } = deleteAcrossTables(state.doc, range);
+    const cleared = { doc, selection: collapsedSelection(clampPosition(doc, caret)), storedMarks: null };
+    return blocks.length > 0 ? replaceRange(cleared, { start: caret, end: caret }, blocks) : cleared;
+  }
+  // Otherwise the range lies in one cell, which the inserted text joins
+  const inCell = isTableCell(state.doc.blocks[range.start.block]);
+  if (inCell && blocks.length > 0) {
+    blocks = [flattenBlocks(blocks)];
+  }
+
+  const { doc } = state;
+  const { left } = splitDocument(doc, range.start);
+  const { right } = splitDocument(doc, range.end);
+  // Text before and after the range, when the range starts or ends inside a paragraph
+  let head = doc.blocks[range.start.block].type === 'text' ? left.pop() as TextBlock : null;
+  const tail = doc.blocks[range.end.block].type === 'text' ? right.shift() as TextBlock : null;
+  const content = [...blocks];
+
+  // The block the range starts in keeps its kind, e.g. pasting into a list item
+  if (head && content[0]?.type === 'text' && !isTableCell(content[0])) {
+    content[0] = updateTextBlock(head, { runs: [...head.runs, ...content[0].runs] });
+    head = null;
+  } else if (head && content.length === 0) {
+    content.push(head);
+    head = null;
+  }
+  // An empty paragraph left in front of inserted blocks is dropped
+  if (head && head.runs.length > 0) left.push(head);
+
+  const last = content[content.length - 1];
+  let caret: DocPosition = { block: left.length + content.length - 1, offset: last ? blockLength(last) : 0 };
+  if (tail && last?.type === 'text' && (inCell || !isTableCell(last))) {
+    content[content.length - 1] = updateTextBlock(last, { runs: [...last.runs, ...tail.runs] });
+  } else if (tail) {
+    content.push(tail);
+    caret = { block: left.length + content.length - 1, offset: 0 };
+  }
+
+  const nextDoc = { blocks: [...left, ...content, ...right] };
+  if (nextDoc.blocks.length === 0) nextDoc.blocks.push(createParagraph());
+  return {
+    doc: nextDoc,
+    selection: collapsedSelection(clampPosition(nextDoc, caret)),
+    storedMarks: null
+  };
+};
+
+const clampRange = (doc: EditorDocument, range: DocRange): DocRange => ({
+  start: clampPosition(doc, range.start),
+  end: clampPosition(doc, range.end)
+});
+
+const replaceBlocks = (doc: EditorDocument, index: number, count: number, blocks: Block[]): EditorDocument => ({
+  blocks: [...doc.blocks.slice(0, index), ...blocks, ...doc.blocks.slice(index + count)]
+});
+
+/**
+ * Inserts blocks at a position, splitting the text block there. The caret goes to
+ * the start of the text after them, or of a new paragraph when there is none.
+ */
+const insertBlocks = (state: EditorState, position: DocPosition, blocks: Block[]): EditorState => {
+  const table = tableExtent(state.doc, position.block);
+  if (table) {
+    // Blocks are not nested in tables; they go after it
+    const next = state.doc.blocks[table.end];
+    const after = next?.type === 'text' && !isTableCell(next) ? [] : [createParagraph()];
+    return {
+      doc: replaceBlocks(state.doc, table.end, 0, [...blocks, ...after]),
+      selection: collapsedSelection({ block: table.end + blocks.length, offset: 0 }),
+      storedMarks: null
+    };
+  }
+  const block = state.doc.blocks[position.block];
+  let before: Block[] = [];
+  let after: Block[] = [];
+  if (block.type === 'html') {
+    if (position.offset === 0) after = [block]; else before = [block];
+  } else {
+    const [head, tail] = splitRuns(block.runs, position.offset);
+    if (head.length > 0) before = [updateTextBlock(block, { runs: head })];
+    after = [updateTextBlock(block, { runs: tail })];
+  }
+  if (after[0]?.type !== 'text') after.unshift(createParagraph());
+
+  const doc = replaceBlocks(state.doc, position.block, 1, [...before, ...blocks, ...after]);
+  return {
+    doc,
+    selection: collapsedSelection({ block: position.block + before.length + blocks.length, offset: 0 }),
+    storedMarks: null
+  };
+};
+
+// Updates the text blocks in the range; table cells keep their kind
+const mapTextBlocks = (state: EditorState, range: DocRange, update: (block: TextBlock) => TextBlock): EditorState => ({
+  ...state,
+  doc: {
+    blocks: state.doc.blocks.map((block, index) =>
+      block.type === 'text' && !isTableCell(block) && index >= range.start.block && index <= range.end.block
+        ? update(block)
+        : block
+    )
+  }
+});
+
+const sameBlockType = (block: TextBlock, attrs: BlockAttrs): boolean =>
+  block.kind === attrs.kind && (attrs.kind !== 'heading' || block.level === (attrs.level ?? 1));
+
+/**
+ * Gives the blocks in the range a block type, or turns them back into paragraphs
+ * when they all have it already. Several lines made into a code block become one.
+ */
+const setBlockType = (state: EditorState, range: DocRange, attrs: BlockAttrs): EditorState => {
+  const textBlocks = state.doc.blocks
+    .slice(range.start.block, range.end.block + 1)
+    .filter((block): block is TextBlock => block.type === 'text' && !isTableCell(block));
+  if (textBlocks.length === 0) return state;
+
+  if (textBlocks.every(block => sameBlockType(block, attrs))) {
+    return mapTextBlocks(state, range, block => updateTextBlock(block, { attrs: { kind: 'paragraph' } }));
+  }
+
+  if (attrs.kind === 'codeBlock' && range.end.block > range.start.block) {
+    const code = createTextBlock(
+      [{ text: textBlocks.map(blockText).join('\n'), marks: {} }],
+      attrs
+    );
+    const count = range.end.block - range.start.block + 1;
+    const untouched = state.doc.blocks.slice(range.start.block, range.end.block + 1)
+      .filter(block => block.type === 'html' || isTableCell(block));
+    const doc = replaceBlocks(state.doc, range.start.block, count, [code, ...untouched]);
+    return { ...state, doc, selection: collapsedSelection({ block: range.start.block, offset: blockLength(code) }) };
+  }
+
+  return mapTextBlocks(state, range, block => updateTextBlock(block, {
+    attrs: { ...attrs, indent: block.indent, checked: block.checked }
+  }));
+};
+
+/**
+ * Nests list items one level deeper or shallower. An item can be at most one level
+ * deeper than the item before it; outdenting a top-level item makes it a paragraph.
+ */
+const changeIndent = (doc: EditorDocument, range: DocRange, delta: 1 | -1): EditorDocument => {
+  const blocks = [...doc.blocks];
+  for (let index = range.start.block; index <= range.end.block; index++) {
+    const block = blocks[index];
+    if (block.type !== 'text' || !isListKind(block.kind)) continue;
+
+    const indent = (block.indent ?? 0) + delta;
+    if (indent < 0) {
+      blocks[index] = updateTextBlock(block, { attrs: { kind: 'paragraph' } });
+      continue;
+    }
+    const previous = blocks[index - 1];
+    const maxIndent = previous?.type === 'text' && isListKind(previous.kind) ? (previous.indent ?? 0) + 1 : 0;
+    blocks[index] = updateTextBlock(block, { attrs: { indent: Math.min(indent, maxIndent) } });
+  }
+  return { blocks };
+};
+
+const splitBlock = (state: EditorState): EditorState => {
+  const position = state.selection!.focus;
+  const block = state.doc.blocks[position.block];
+  if (block.type !== 'text') {
+    // Enter next to an HTML block adds a paragraph on that side
+    const index = position.block + (position.offset > 0 ? 1 : 0);
+    return {
+      ...state,
+      doc: replaceBlocks(state.doc, index, 0, [createParagraph()]),
+      selection: collapsedSelection({ block: index, offset: 0 })
+    };
+  }
+
+  const text = blockText(block);
+  const isEmpty = text === '';
+
+  // Enter in a table cell starts a new line in the cell
+  if (block.kind === 'tableCell') {
+    return applyTransaction(state, { type: 'insertText', text: '\n' });
+  }
+  if (block.kind === 'codeBlock') {
+    // Enter on an empty last line leaves the code block
+    if (position.offset === text.length && text.endsWith('\n')) {
+      const code = updateTextBlock(block, { runs: [{ text: text.slice(0, -1), marks: {} }] });
+      return {
+        ...state,
+        doc: replaceBlocks(state.doc, position.block, 1, [code, createParagraph()]),
+        selection: collapsedSelection({ block: position.block + 1, offset: 0 })
+      };
+    }
+    return applyTransaction(state, { type: 'insertText', text: '\n' });
+  }
+
+  if (isEmpty && isListKind(block.kind)) {
+    return { ...state, doc: changeIndent(state.doc, { start: position, end: position }, -1) };
+  }
+  if (isEmpty && block.kind !== 'paragraph') {
+    return { ...state, doc: replaceBlocks(state.doc, position.block, 1, [updateTextBlock(block, { attrs: { kind: 'paragraph' } })]) };
+  }
+
+  const [before, after] = splitRuns(block.runs, position.offset);
+  const nextAttrs: Partial<BlockAttrs> = block.kind === 'heading' && after.length === 0
+    ? { kind: 'paragraph' }
+    : { checked: false };
+  const doc = replaceBlocks(state.doc, position.block, 1, [
+    updateTextBlock(block, { runs: before }),
+    updateTextBlock(block, { runs: after, attrs: nextAttrs })
+  ]);
+  return { ...state, doc, selection: collapsedSelection({ block: position.block + 1, offset: 0 }), storedMarks: null };
+};
+
+const joinBackward = (state: EditorState, position: DocPosition): EditorState => {
+  const block = state.doc.blocks[position.block];
+  if (block.type !== 'text' || position.offset !== 0 || block.kind === 'tableCell') return state;
+
+  if (isListKind(block.kind)) {
+    return { ...state, doc: changeIndent(state.doc, { start: position, end: position }, -1) };
+  }
+  if (block.kind !== 'paragraph') {
+    return { ...state, doc: replaceBlocks(state.doc, position.block, 1, [updateTextBlock(block, { attrs: { kind: 'paragraph' } })]) };
+  }
+
+  const previous = state.doc.blocks[position.block - 1];
+  if (previous?.type !== 'text') return state;
+  if (isTableCell(previous)) {
+    // Moves into the last cell, dropping the paragraph when it is empty
+    const caret = collapsedSelection({ block: position.block - 1, offset: blockLength(previous) });
+    const doc = block.runs.length === 0 ? replaceBlocks(state.doc, position.block, 1, []) : state.doc;
+    return { ...state, doc, selection: caret };
+  }
+  return replaceRange(state, { start: { block: position.block - 1, offset: blockLength(previous) }, end: position }, []);
+};
+
+const emptyCell = (align: Alignment = 'left'): TextBlock => createTextBlock([], { kind: 'tableCell' }, align);
+
+/**
+ * Applies a table command to the table holding the focused cell. Rows and columns
+ * are edited as a grid and written back as cells in row order; the caret goes to
+ * the cell the command leads to.
+ */
+const editTable = (state: EditorState, focus: DocPosition, command: TableCommand): EditorState => {
+  const extent = tableExtent(state.doc, focus.block);
+  if (!extent) return state;
+  const rows = tableRows(state.doc.blocks.slice(extent.start, extent.end) as TextBlock[]);
+  const columnCount = rows[0].length;
+  let index = focus.block - extent.start;
+  let row = Math.floor(index / columnCount);
+  let column = index % columnCount;
+  let header = !!rows[0][0].header;
+
+  const removeTable = (): EditorState => {
+    const doc = replaceBlocks(state.doc, extent.start, extent.end - extent.start, [createParagraph()]);
+    return { doc, selection: collapsedSelection({ block: extent.start, offset: 0 }), storedMarks: null };
+  };
+
+  switch (command) {
+    case 'nextCell':
+    case 'previousCell':
+      index += command === 'nextCell' ? 1 : -1;
+      if (index < 0) return state;
+      if (index < extent.end - extent.start) {
+        // Selects the cell's text, so typing replaces it
+        const block = extent.start + index;
+        return {
+          ...state,
+          selection: { anchor: { block, offset: 0 }, focus: { block, offset: blockLength(state.doc.blocks[block]) } },
+          storedMarks: null
+        };
+      }
+      if (rows.length >= DOCUMENT_SCHEMA.maxTableSize) return state;
+      rows.push(rows[row].map(cell => emptyCell(cell.align)));
+      row++;
+      column = 0;
+      break;
+    case 'addRowAbove':
+    case 'addRowBelow':
+      if (rows.length >= DOCUMENT_SCHEMA.maxTableSize) return state;
+      if (command === 'addRowBelow') row++;
+      // New rows keep the column alignment
+      rows.splice(row, 0, rows[0].map(cell => emptyCell(cell.align)));
+      break;
+    case 'deleteRow':
+      if (rows.length === 1) return removeTable();
+      rows.splice(row, 1);
+      row = Math.min(row, rows.length - 1);
+      break;
+    case 'addColumnLeft':
+    case 'addColumnRight':
+      if (columnCount >= DOCUMENT_SCHEMA.maxTableSize) return state;
+      if (command === 'addColumnRight') column++;
+      rows.forEach(cells => cells.splice(column, 0, emptyCell()));
+      break;
+    case 'deleteColumn':
+      if (columnCount === 1) return removeTable();
+      rows.forEach(cells => cells.splice(column, 1));
+      column = Math.min(column, columnCount - 2);
+      break;
+    case 'toggleHeader':
+      header = !header;
+      break;
+    case 'deleteTable':
+      return removeTable();
+  }
+
+  const cells = rows.flatMap((cells, rowIndex) => cells.map((cell, columnIndex) =>
+    updateTextBlock(cell, { attrs: { row: rowIndex, column: columnIndex, header: header && rowIndex === 0 } })
+  ));
+  const doc = replaceBlocks(state.doc, extent.start, extent.end - extent.start, cells);
+  const selection = command === 'toggleHeader'
+    ? state.selection
+    : collapsedSelection({ block: extent.start + row * rows[0].length + column, offset: 0 });
+  return { doc, selection, storedMarks: null };
+};
+
+/**
+ * Sets the alignment of the text blocks in the range. In tables it applies to
+ * the whole columns of the selected cells.
+ */
+const setAlignment = (doc: EditorDocument, range: DocRange, align: Alignment): EditorDocument => {
+  // Table start and column of each cell
+  const columnKeys: (string | null)[] = [];
+  let tableStart = 0;
+  doc.blocks.forEach((block, index) => {
+    if (block.type !== 'text' || block.kind !== 'tableCell') {
+      columnKeys.push(null);
+      return;
+    }
+    if (startsTable(block, doc.blocks[index - 1])) tableStart = index;
+    columnKeys.push(`${tableStart}:${block.column}`);
+  });
+
+  const inRange = (index: number) => index >= range.start.block && index <= range.end.block;
+  const selectedColumns = new Set(columnKeys.filter((key, index) => key && inRange(index)));
+  return {
+    blocks: doc.blocks.map((block, index) => {
+      const key = columnKeys[index];
+      const aligned = key ? selectedColumns.has(key) : inRange(index);
+      return block.type === 'text' && aligned ? updateTextBlock(block, { align }) : block;
+    })
+  };
+};
+
+export const applyTransaction = (state: EditorState, transaction: Transaction): EditorState => {
+  const selection = state.selection
+    ? { anchor: clampPosition(state.doc, state.selection.anchor), focus: clampPosition(state.doc, state.selection.focus) }
+    : collapsedSelection({ block: 0, offset: 0 });
+  const range = selectionRange(selection);
+
+  switch (transaction.type) {
+    case 'toggleMark': {
+      const { mark } = transaction;
+      if (isCollapsed(selection)) {
+        // Applies to the next typed text instead
+        const marks = state.storedMarks ?? marksAt(state.doc, selection.focus);
+        return { ...state, storedMarks: normalizeMarks({ ...marks, [mark]: !marks[mark] }) };
+      }
+      const enable = !rangeHasMark(state.doc, range, mark);
+      return {
+        ...state,
+        doc: mapMarks(state.doc, range, marks => normalizeMarks({ ...marks, [mark]: enable })),
+        storedMarks: null
+      };
+    }
+    case 'setFontSize': {
+      const { size } = transaction;
+      if (isCollapsed(selection)) {
+        const marks = state.storedMarks ?? marksAt(state.doc, selection.focus);
+        return { ...state, storedMarks: normalizeMarks({ ...marks, fontSize: size }) };
+      }
+      return {
+        ...state,
+        doc: mapMarks(state.doc, range, marks => normalizeMarks({ ...marks, fontSize: size })),
+        storedMarks: null
+      };
+    }
+    case 'setAlignment':
+      return { ...state, doc: setAlignment(state.doc, range, transaction.align) };
+    case 'setLink': {
+      const { href, text } = transaction;
+      const target = isCollapsed(selection) ? linkAt(state.doc, selection.focus)?.range ?? range : range;
+      if (isCollapsed({ anchor: target.start, focus: target.end })) {
+        if (!href) return state;
+        const marks = state.storedMarks ?? marksAt(state.doc, target.start);
+        return replaceRange(state, target, [createParagraph([{ text: text || href, marks: { ...marks, link: href } }])]);
+      }
+      return {
+        ...state,
+        doc: mapMarks(state.doc, target, marks => normalizeMarks({ ...marks, link: href ?? undefined })),
+        storedMarks: null
+      };
+    }
+    case 'insertText': {
+      const target = transaction.range ? clampRange(state.doc, transaction.range) : range;
+      const marks = state.storedMarks ?? marksAt(state.doc, target.start);
+      return replaceRange(state, target, [createParagraph([{ text: transaction.text, marks }])]);
+    }
+    case 'replaceRange':
+      return replaceRange(state, transaction.range ? clampRange(state.doc, transaction.range) : range, transaction.blocks);
+    case 'insertBlocks':
+      return insertBlocks(state, transaction.position ? clampPosition(state.doc, transaction.position) : range.start, transaction.blocks);
+    case 'setBlockType':
+      return setBlockType(state, range, transaction.attrs);
+    case 'indent':
+    case 'outdent':
+      return { ...state, doc: changeIndent(state.doc, range, transaction.type === 'indent' ? 1 : -1) };
+    case 'toggleChecked': {
+      const block = state.doc.blocks[transaction.block];
+      if (block?.type !== 'text' || block.kind !== 'checkList') return state;
+      return { ...state, doc: replaceBlocks(state.doc, transaction.block, 1, [updateTextBlock(block, { attrs: { checked: !block.checked } })]) };
+    }
+    case 'setCodeLanguage':
+      return mapTextBlocks(state, range, block =>
+        block.kind === 'codeBlock' ? updateTextBlock(block, { attrs: { language: transaction.language.trim() || undefined } }) : block
+      );
+    case 'insertTable': {
+      const size = (count: number) => Math.min(Math.max(Math.floor(count), 1), DOCUMENT_SCHEMA.maxTableSize);
+      const rows = size(transaction.rows);
+      const columns = size(transaction.columns);
+      const next = insertBlocks(state, range.start, createTable(rows, columns));
+      // The caret goes into the first cell
+      return { ...next, selection: collapsedSelection({ block: next.selection!.focus.block - rows * columns, offset: 0 }) };
+    }
+    case 'resizeImage': {
+      const block = state.doc.blocks[transaction.block];
+      if (block?.type !== 'html') return state;
+      const html = setAttachmentWidth(block.html, transaction.width);
+      return html === block.html ? state : { ...state, doc: replaceBlocks(state.doc, transaction.block, 1, [{ type: 'html', html }]) };
+    }
+    case 'table':
+      return editTable(state, selection.focus, transaction.command);
+    case 'splitBlock':
+      return splitBlock(isCollapsed(selection) ? state : replaceRange(state, range, []));
+    case 'joinBackward':
+      return joinBackward(state, selection.focus);
+  }
+};
+
+export const toBlockFormat = (block: Block | undefined): BlockFormat => {
+  if (block?.type !== 'text') return 'paragraph';
+  return block.kind === 'heading' ? `heading${block.level ?? 1}` as BlockFormat : block.kind;
+};
+
+export const blockFormatAttrs = (format: BlockFormat): BlockAttrs => {
+  const heading = format.match(/^heading([1-3])$/);
+  return heading
+    ? { kind: 'heading', level: Number(heading[1]) as HeadingLevel }
+    : { kind: format as Exclude<TextBlockKind, 'heading'> };
+};
+
+/**
+ * Toolbar state for the selection: a mark shows as active when all selected text
+ * has it, or, for a caret, when text typed there would get it
+ */
+export const getActiveFormat = (state: EditorState): RichTextFormat => {
+  const selection = state.selection;
+  const startBlock = selection ? state.doc.blocks[selectionRange(selection).start.block] : undefined;
+  const alignment = startBlock?.type === 'text' && startBlock.align !== 'justify' ? startBlock.align : 'left';
+  const table = selection ? tableExtent(state.doc, selectionRange(selection).start.block) : null;
+
+  let marks: Marks;
+  if (!selection || isCollapsed(selection)) {
+    marks = state.storedMarks ?? (selection ? marksAt(state.doc, selection.focus) : {});
+  } else {
+    const range = selectionRange(selection);
+    const runs: TextRun[] = [];
+    forEachTextRange(state.doc, range, (blockRuns, from, to) => runs.push(...sliceRuns(blockRuns, from, to)));
+    marks = {
+      ...Object.fromEntries(DOCUMENT_SCHEMA.toggleMarks.map(mark => [mark, runs.length > 0 && runs.every(run => run.marks[mark])])),
+      fontSize: runs[0]?.marks.fontSize,
+      link: runs.length > 0 && runs.every(run => run.marks.link === runs[0].marks.link) ? runs[0].marks.link : undefined
+    };
+  }
+  // A caret at the end of a link still shows it, though typing there leaves it
+  const link = selection && isCollapsed(selection) ? linkAt(state.doc, selection.focus)?.href : marks.link;
+
+  return {
+    bold: !!marks.bold,
+    italic: !!marks.italic,
+    underline: !!marks.underline,
+    fontSize: marks.fontSize ?? DOCUMENT_SCHEMA.defaultFontSize,
+    alignment,
+    block: toBlockFormat(startBlock),
+    codeLanguage: startBlock?.type === 'text' && startBlock.kind === 'codeBlock' ? startBlock.language ?? '' : null,
+    table: table ? { header: !!(state.doc.blocks[table.start] as TextBlock).header } : null,
+    link: link ?? null
+  };
+};
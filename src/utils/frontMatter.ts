@@ -0,0 +1,108 @@
+// Minimal YAML front matter support covering the scalar and list fields notes use
+
+export type FrontMatterValue = string | number | boolean | string[];
+export type FrontMatter = Record<string, FrontMatterValue>;
+
+const FRONT_MATTER = /^---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+const RESERVED_SCALARS = /^(true|false|yes|no|on|off|null|~|[-+]?(\d[\d_]*)?\.?\d+([eE][-+]?\d+)?)$/i;
+
+const formatScalar = (value: string | number | boolean): string => {
+  if (typeof value !== 'string') return String(value);
+  // Plain scalars are used only when YAML would read them back as the same string
+  if (/^[A-Za-z0-9][\w\-. /@]*(:[\w\-.]+)*$/.test(value) && value === value.trim() && !RESERVED_SCALARS.test(value)) {
+    return value;
+  }
+  return JSON.stringify(value);
+};
+
+const parseScalar = (raw: string): string | number | boolean => {
+  const value = raw.trim();
+  if (value.startsWith('"')) {
+    try {
+      return JSON.parse(value) as string;
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.startsWith("'")) return value.slice(1, -1).replace(/''/g, "'");
+  if (/^(true|yes|on)$/i.test(value)) return true;
+  if (/^(false|no|off)$/i.test(value)) return false;
+  if (/^[-+]?\d+(\.\d+)?$/.test(value)) return Number(value);
+  // Drop trailing comments from plain scalars
+  return value.replace(/\s+#.*$/, '');
+};
+
+// Splits a flow sequence like [a, "b, c"] while respecting quotes
+const parseFlowList = (raw: string): string[] => {
+  const items: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (const char of raw.trim().slice(1, -1)) {
+    if (quote) {
+      if (char === quote) quote = null;
+      current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === ',') {
+      items.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) items.push(current);
+
+  return items.map(item => String(parseScalar(item))).filter(Boolean);
+};
+
+export const stringifyFrontMatter = (data: FrontMatter): string => {
+  const lines = Object.entries(data).map(([key, value]) => {
+    if (Array.isArray(value)) {
+      return value.length === 0
+        ? `${key}: []`
+        : `${key}:\n${value.map(item => `  - ${formatScalar(item)}`).join('\n')}`;
+    }
+    return `${key}: ${formatScalar(value)}`;
+  });
+  return `---\n${lines.join('\n')}\n---\n`;
+};
+
+/**
+ * Splits a Markdown document into its front matter fields and body.
+ * Documents without front matter return an empty object.
+ */
+export const parseFrontMatter = (text: string): { data: FrontMatter; body: string } => {
+  const match = text.match(FRONT_MATTER);
+  if (!match) return { data: {}, body: text };
+
+  const data: FrontMatter = {};
+  let listKey: string | null = null;
+
+  match[1].split(/\r?\n/).forEach(line => {
+    if (!line.trim() || line.trim().startsWith('#')) return;
+
+    const listItem = line.match(/^\s+-\s+(.*)$/) || line.match(/^-\s+(.*)$/);
+    if (listItem && listKey) {
+      (data[listKey] as string[]).push(String(parseScalar(listItem[1])));
+      return;
+    }
+
+    const entry = line.match(/^([\w-]+):\s*(.*)$/);
+    if (!entry) return;
+
+    const [, key, value] = entry;
+    listKey = null;
+    if (!value) {
+      data[key] = [];
+      listKey = key;
+    } else if (value.trim().startsWith('[')) {
+      data[key] = parseFlowList(value);
+    } else {
+      data[key] = parseScalar(value);
+    }
+  });
+
+  return { data, body: text.slice(match[0].length) };
+};
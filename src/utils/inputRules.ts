@@ -0,0 +1,98 @@
+/**
+ * Markdown-style shortcuts applied while typing, e.g. "# " at the start of a
+ * paragraph makes it a heading and "**text**" makes the text bold. Rules match
+ * the text before the caret with the typed character added.
+ */
+
+import {
+  blockText,
+  collapsedSelection,
+  createParagraph,
+  isCollapsed,
+  normalizeMarks,
+  sliceRuns,
+  splitRuns,
+  updateTextBlock
+} from './documentModel';
+import type { BlockAttrs, EditorState, HeadingLevel, TextBlockKind, ToggleMark } from './documentModel';
+import { applyTransaction } from './documentTransactions';
+
+interface BlockRule {
+  pattern: RegExp;
+  // Kinds of block the rule applies in
+  from: TextBlockKind[];
+  attrs: (match: RegExpMatchArray) => BlockAttrs;
+}
+
+const BLOCK_RULES: BlockRule[] = [
+  { pattern: /^(#{1,3}) $/, from: ['paragraph'], attrs: match => ({ kind: 'heading', level: match[1].length as HeadingLevel }) },
+  { pattern: /^[-*] $/, from: ['paragraph'], attrs: () => ({ kind: 'bulletList' }) },
+  { pattern: /^1\. $/, from: ['paragraph'], attrs: () => ({ kind: 'orderedList' }) },
+  // "- [ ] " works too, as "- " has made the line a list item by then
+  { pattern: /^\[([ xX])\] $/, from: ['paragraph', 'bulletList'], attrs: match => ({ kind: 'checkList', checked: match[1] !== ' ' }) },
+  { pattern: /^> $/, from: ['paragraph'], attrs: () => ({ kind: 'quote' }) },
+  // "```" or "```lang" followed by Enter or a space
+  { pattern: /^```([\w+#.-]*)[ \n]$/, from: ['paragraph'], attrs: match => ({ kind: 'codeBlock', language: match[1] || undefined }) }
+];
+
+interface MarkRule {
+  // Group 1 is the formatted text; the match ends with the closing delimiter
+  pattern: RegExp;
+  delimiter: string;
+  mark: ToggleMark;
+}
+
+const MARK_RULES: MarkRule[] = [
+  { pattern: /\*\*([^*\s](?:[^*\n]*[^*\s])?)\*\*$/, delimiter: '**', mark: 'bold' },
+  // Not inside words, so snake_case_names stay as typed
+  { pattern: /(?:^|[^\w])_([^_\s](?:[^_\n]*[^_\s])?)_$/, delimiter: '_', mark: 'italic' }
+];
+
+// Typed characters that can complete a rule
+export const INPUT_RULE_TRIGGERS = new Set([' ', '\n', '*', '_']);
+
+/**
+ * The state after typing the text (a single character, or "\n" for Enter) when
+ * that completes an input rule, or null when typing should go ahead as usual
+ */
+export const applyInputRule = (state: EditorState, text: string): EditorState | null => {
+  const { selection } = state;
+  if (!selection || !isCollapsed(selection) || !INPUT_RULE_TRIGGERS.has(text)) return null;
+
+  const caret = selection.focus;
+  const block = state.doc.blocks[caret.block];
+  if (block?.type !== 'text' || block.kind === 'codeBlock') return null;
+  const typed = blockText(block).slice(0, caret.offset) + text;
+
+  for (const rule of BLOCK_RULES) {
+    const match = typed.match(rule.pattern);
+    if (!match || !rule.from.includes(block.kind)) continue;
+    // The markup goes; any text after the caret stays in the block
+    const [, after] = splitRuns(block.runs, caret.offset);
+    const converted = updateTextBlock(block, { runs: after, attrs: rule.attrs(match) });
+    return {
+      doc: { blocks: state.doc.blocks.map((other, index) => index === caret.block ? converted : other) },
+      selection: collapsedSelection({ block: caret.block, offset: 0 }),
+      storedMarks: null
+    };
+  }
+
+  for (const rule of MARK_RULES) {
+    const match = typed.match(rule.pattern);
+    if (!match) continue;
+    const start = typed.length - match[1].length - rule.delimiter.length * 2;
+    const runs = sliceRuns(block.runs, start + rule.delimiter.length, start + rule.delimiter.length + match[1].length);
+    if (runs.some(run => run.marks.code)) continue;
+
+    const formatted = runs.map(run => ({ text: run.text, marks: normalizeMarks({ ...run.marks, [rule.mark]: true }) }));
+    const next = applyTransaction(state, {
+      type: 'replaceRange',
+      blocks: [createParagraph(formatted)],
+      range: { start: { block: caret.block, offset: start }, end: caret }
+    });
+    // Text typed next is not formatted
+    return { ...next, storedMarks: normalizeMarks({ ...runs[runs.length - 1].marks, [rule.mark]: false }) };
+  }
+
+  return null;
+};
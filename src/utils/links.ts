@@ -0,0 +1,89 @@
+/**
+ * Web links in notes. Only http(s) and mailto targets are kept; anything else,
+ * such as javascript: URLs, is rejected wherever a link is created or shown.
+ */
+
+import { normalizeRuns, updateTextBlock } from './documentModel';
+import type { Block, TextRun } from './documentModel';
+
+// Web addresses in plain text, with a scheme or starting with "www."
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"]+/gi;
+const EMAIL_PATTERN = /^[^\s@<>":]+@[^\s@<>"]+\.[a-z]{2,}$/i;
+// A bare host name such as "example.com/page", typed without a scheme
+const HOST_PATTERN = /^[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}(?::\d+)?(?:[/?#]\S*)?$/i;
+
+/**
+ * The link target for a stored URL, or null when it is not a valid http(s) or
+ * mailto URL
+ */
+export const normalizeUrl = (input: string): string | null => {
+  const trimmed = input.trim();
+  if (!trimmed || /\s/.test(trimmed)) return null;
+  try {
+    const url = new URL(trimmed);
+    if (url.protocol === 'mailto:') return EMAIL_PATTERN.test(url.pathname) ? trimmed : null;
+    return (url.protocol === 'http:' || url.protocol === 'https:') && url.hostname ? trimmed : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Like normalizeUrl, for an address typed or pasted by the user, which may leave
+ * out the scheme, e.g. "example.com" or "me@example.com"
+ */
+export const normalizeTypedUrl = (input: string): string | null => {
+  const trimmed = input.trim();
+  if (EMAIL_PATTERN.test(trimmed)) return normalizeUrl(`mailto:${trimmed}`);
+  if (/^www\./i.test(trimmed) || HOST_PATTERN.test(trimmed)) return normalizeUrl(`https://${trimmed}`);
+  return normalizeUrl(trimmed);
+};
+
+// Trailing punctuation belongs to the sentence, and a closing parenthesis only to
+// a URL that opened one
+const trimUrlMatch = (match: string): string => {
+  let url = match.replace(/[.,;:!?'"]+$/, '');
+  while (url.endsWith(')') && (url.match(/\(/g) || []).length < (url.match(/\)/g) || []).length) {
+    url = url.slice(0, -1).replace(/[.,;:!?'"]+$/, '');
+  }
+  return url;
+};
+
+/**
+ * Runs with the web addresses in their text made into links. Text that is a link
+ * or code already is left alone.
+ */
+export const linkifyRuns = (runs: TextRun[]): TextRun[] => normalizeRuns(runs.flatMap(run => {
+  if (run.marks.link || run.marks.code) return [run];
+  const result: TextRun[] = [];
+  let lastIndex = 0;
+  for (const match of run.text.matchAll(URL_PATTERN)) {
+    const text = trimUrlMatch(match[0]);
+    const href = normalizeTypedUrl(text);
+    if (!href) continue;
+    result.push({ text: run.text.slice(lastIndex, match.index), marks: run.marks });
+    result.push({ text, marks: { ...run.marks, link: href } });
+    lastIndex = match.index + text.length;
+  }
+  result.push({ text: run.text.slice(lastIndex), marks: run.marks });
+  return result;
+}));
+
+/**
+ * Pasted blocks with the web addresses in their text made into links
+ */
+export const linkifyBlocks = (blocks: Block[]): Block[] => blocks.map(block =>
+  block.type === 'text' && block.kind !== 'codeBlock' ? updateTextBlock(block, { runs: linkifyRuns(block.runs) }) : block
+);
+
+/**
+ * Host name shown for a link, e.g. "example.com", or the address of a mailto link
+ */
+export const linkLabel = (href: string): string => {
+  try {
+    const url = new URL(href);
+    return url.protocol === 'mailto:' ? url.pathname : url.hostname.replace(/^www\./, '');
+  } catch {
+    return href;
+  }
+};
@@ -0,0 +1,458 @@
+// Converts between the editor's contentEditable HTML and Markdown
+
+import { normalizeUrl } from './links';
+
+const BLOCK_TAGS = new Set([
+  'P', 'DIV', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6',
+  'UL', 'OL', 'LI', 'BLOCKQUOTE', 'PRE', 'HR', 'TABLE'
+]);
+
+// Inline HTML kept as-is because Markdown has no syntax for it
+const ALLOWED_INLINE_TAGS = ['u', 'b', 'i', 's', 'strong', 'em', 'sub', 'sup', 'br'];
+
+const ALIGNMENTS = ['left', 'center', 'right', 'justify'];
+
+const isBlock = (node: Node): node is HTMLElement =>
+  node.nodeType === Node.ELEMENT_NODE && BLOCK_TAGS.has((node as HTMLElement).tagName);
+
+export const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const escapeMarkdown = (text: string): string => text.replace(/([\\`*_[\]<>~|])/g, '\\$1');
+
+// Characters at the start of a paragraph that would otherwise start a block construct
+const escapeBlockStart = (text: string): string =>
+  text.replace(/^(#{1,6}\s|[-+]\s|\d+[.)]\s)/, '\\$1');
+
+const getAlignment = (element: HTMLElement): string | null => {
+  const align = (element.style.textAlign || element.getAttribute('align') || '').toLowerCase();
+  return ALIGNMENTS.includes(align) && align !== 'left' ? align : null;
+};
+
+// Moves surrounding whitespace outside emphasis markers, which Markdown requires
+const wrapInline = (inner: string, open: string, close = open): string => {
+  const match = inner.match(/^(\s*)([\s\S]*?)(\s*)$/);
+  if (!match || !match[2]) return inner;
+  return `${match[1]}${open}${match[2]}${close}${match[3]}`;
+};
+
+const inlineToMarkdown = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return escapeMarkdown((node.textContent || '').replace(/\s+/g, ' '));
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const element = node as HTMLElement;
+  const inner = () => Array.from(element.childNodes).map(inlineToMarkdown).join('');
+
+  switch (element.tagName) {
+    case 'BR':
+      return '  \n';
+    case 'B':
+    case 'STRONG':
+      return wrapInline(inner(), '**');
+    case 'I':
+    case 'EM':
+      return wrapInline(inner(), '*');
+    case 'U':
+      return wrapInline(inner(), '<u>', '</u>');
+    case 'S':
+    case 'STRIKE':
+    case 'DEL':
+      return wrapInline(inner(), '~~');
+    case 'CODE':
+      return `\`${element.textContent || ''}\``;
+    case 'A': {
+      const href = normalizeUrl(element.getAttribute('href') || '');
+      return href ? `[${inner()}](${href})` : inner();
+    }
+    case 'IMG': {
+      const src = element.getAttribute('src') || '';
+      return src ? `![${escapeMarkdown(element.getAttribute('alt') || '')}](${src})` : '';
+    }
+    default:
+      // Font, span and other wrappers only carry styling Markdown cannot express
+      return inner();
+  }
+};
+
+const indentLines = (text: string, prefix: string, firstPrefix = prefix): string =>
+  text.split('\n').map((line, index) => (index === 0 ? firstPrefix : line ? prefix : '') + line).join('\n');
+
+const childrenToBlocks = (element: HTMLElement): string[] => {
+  const blocks: string[] = [];
+  let inline = '';
+  const flush = () => {
+    const text = inline.replace(/^[ \t]+|\s+$/g, '');
+    if (text) blocks.push(text.split('\n').map(escapeBlockStart).join('\n'));
+    inline = '';
+  };
+
+  element.childNodes.forEach(node => {
+    if (isBlock(node)) {
+      flush();
+      const block = blockToMarkdown(node);
+      if (block) blocks.push(block);
+    } else {
+      inline += inlineToMarkdown(node);
+    }
+  });
+  flush();
+  return blocks;
+};
+
+const listToMarkdown = (list: HTMLElement): string => {
+  const ordered = list.tagName === 'OL';
+  let number = Number(list.getAttribute('start')) || 1;
+
+  return Array.from(list.children)
+    .filter(child => child.tagName === 'LI')
+    .map(item => {
+      const marker = ordered ? `${number++}.` : '-';
+      // Checklist items become GitHub-style task list items
+      const checked = item.getAttribute('data-checked');
+      const task = checked === null ? '' : checked === 'true' ? '[x] ' : '[ ] ';
+      const content = task + childrenToBlocks(item as HTMLElement).join('\n');
+      return indentLines(content, ' '.repeat(marker.length + 1), `${marker} `);
+    })
+    .join('\n');
+};
+
+// Markdown tables always have a header row, so the first row of a table without one becomes it
+const tableToMarkdown = (table: HTMLElement): string => {
+  const rowElements = Array.from(table.querySelectorAll('tr'));
+  const rows = rowElements.map(row =>
+    Array.from(row.children).map(cell =>
+      // Line breaks inside a cell stay as <br>, since a Markdown table row is a single line
+      Array.from(cell.childNodes).map(inlineToMarkdown).join('').replace(/ {2}\n/g, '<br>').replace(/\s*\n\s*/g, ' ').trim()
+    )
+  );
+  if (rows.length === 0) return '';
+
+  const columns = Math.max(...rows.map(row => row.length));
+  const alignments = Array.from({ length: columns }, (_, i) => {
+    const cell = rowElements[0].children[i] as HTMLElement | undefined;
+    return cell ? getAlignment(cell) : null;
+  });
+  const separator = alignments.map(align =>
+    align === 'center' ? ':---:' : align === 'right' ? '---:' : align === 'left' ? ':---' : '---'
+  );
+  const formatRow = (cells: string[]) =>
+    `| ${Array.from({ length: columns }, (_, i) => cells[i] || '').join(' | ')} |`;
+  return [
+    formatRow(rows[0]),
+    formatRow(separator),
+    ...rows.slice(1).map(formatRow)
+  ].join('\n');
+};
+
+function blockToMarkdown(element: HTMLElement): string {
+  const alignment = getAlignment(element);
+  if (alignment && element.tagName !== 'LI') {
+    // Markdown has no alignment; GitHub-style HTML blocks keep the Markdown inside them readable
+    const unaligned = element.cloneNode(true) as HTMLElement;
+    unaligned.removeAttribute('align');
+    unaligned.style.textAlign = '';
+    const inner = blockToMarkdown(unaligned);
+    return inner ? `<div align="${alignment}">\n\n${inner}\n\n</div>` : '';
+  }
+
+  switch (element.tagName) {
+    case 'H1':
+    case 'H2':
+    case 'H3':
+    case 'H4':
+    case 'H5':
+    case 'H6': {
+      const text = Array.from(element.childNodes).map(inlineToMarkdown).join('').replace(/\s*\n\s*/g, ' ').trim();
+      return text ? `${'#'.repeat(Number(element.tagName[1]))} ${text}` : '';
+    }
+    case 'UL':
+    case 'OL':
+      return listToMarkdown(element);
+    case 'BLOCKQUOTE':
+      return indentLines(childrenToBlocks(element).join('\n\n'), '> ').replace(/^$/gm, '>');
+    case 'PRE': {
+      const language = element.getAttribute('data-language') ??
+        element.querySelector('code')?.className.match(/language-(\S+)/)?.[1] ?? '';
+      return `\`\`\`${language}\n${(element.textContent || '').replace(/\n$/, '')}\n\`\`\``;
+    }
+    case 'HR':
+      return '---';
+    case 'TABLE':
+      return tableToMarkdown(element);
+    default:
+      return childrenToBlocks(element).join('\n\n');
+  }
+}
+
+/**
+ * Converts stored note HTML to Markdown. Underline stays as inline HTML and
+ * aligned blocks are wrapped in `<div align>` since Markdown has no syntax for either.
+ */
+export const htmlToMarkdown = (html: string): string => {
+  // A parsed document is inert, so handlers in the content do not run during export
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  const markdown = childrenToBlocks(body).join('\n\n').replace(/\n{3,}/g, '\n\n').trim();
+  return markdown ? `${markdown}\n` : '';
+};
+
+// Markdown to HTML
+
+const PLACEHOLDER = '\u0000';
+
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TASK_ITEM = /^\[([ xX])\]\s+/;
+const FENCE = /^\s*(`{3,}|~{3,})/;
+const HEADING = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^\s*([-*_])(?:\s*\1){2,}\s*$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const ALIGN_OPEN = /^<(?:div|p)\s+align="(left|center|right|justify)"\s*>\s*$/i;
+const ALIGN_CLOSE = /^<\/(?:div|p)>\s*$/i;
+
+/**
+ * Converts inline Markdown (emphasis, code, links, images) to HTML.
+ * Everything else is escaped, apart from a few harmless inline tags.
+ */
+const parseInline = (text: string): string => {
+  const stash: string[] = [];
+  const hold = (html: string) => `${PLACEHOLDER}${stash.push(html) - 1}${PLACEHOLDER}`;
+
+  let result = text.replace(new RegExp(PLACEHOLDER, 'g'), '');
+
+  // Code spans and backslash escapes are never parsed further
+  result = result.replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, __, code: string) =>
+    hold(`<code>${escapeHtml(code.trim())}</code>`));
+  result = result.replace(/\\([\\`*_{}[\]()#+\-.!<>~|])/g, (_, char: string) => hold(escapeHtml(char)));
+
+  result = escapeHtml(result);
+  result = result.replace(
+    new RegExp(`&lt;(/?)(${ALLOWED_INLINE_TAGS.join('|')})\\s*/?&gt;`, 'gi'),
+    (_, slash: string, tag: string) => `<${slash}${tag.toLowerCase()}>`
+  );
+
+  result = result.replace(/!\[([^\]]*)\]\(([^)\s]+)(?:\s+&quot;[^&]*&quot;)?\)/g, (match, alt: string, src: string) => {
+    const url = normalizeUrl(src.replace(/&amp;/g, '&'));
+    return url ? hold(`<img src="${escapeHtml(url)}" alt="${alt}">`) : match;
+  });
+  result = result.replace(/\[([^\]]+)\]\(([^)\s]+)(?:\s+&quot;[^&]*&quot;)?\)/g, (match, label: string, href: string) => {
+    const url = normalizeUrl(href.replace(/&amp;/g, '&'));
+    return url ? hold(`<a href="${escapeHtml(url)}">${label}</a>`) : match;
+  });
+
+  result = result
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '<strong>$2</strong>')
+    .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<em>$1</em>')
+    .replace(/(^|[^\w])_(?=\S)([\s\S]*?\S)_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<s>$1</s>');
+
+  // Restore stashed fragments; links may contain other stashed fragments
+  const placeholderPattern = new RegExp(`${PLACEHOLDER}(\\d+)${PLACEHOLDER}`, 'g');
+  while (placeholderPattern.test(result)) {
+    result = result.replace(placeholderPattern, (_, index: string) => stash[Number(index)]);
+  }
+  return result;
+};
+
+const startsBlock = (line: string): boolean =>
+  FENCE.test(line) || HEADING.test(line) || RULE.test(line) || LIST_ITEM.test(line) ||
+  /^\s*>/.test(line) || ALIGN_OPEN.test(line);
+
+const indentOf = (line: string): number => (line.match(/^\s*/)?.[0].length ?? 0);
+
+const splitTableRow = (line: string): string[] =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim());
+
+const parseList = (lines: string[], start: number): { html: string; next: number } => {
+  const first = lines[start].match(LIST_ITEM)!;
+  const baseIndent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: Array<{ lines: string[]; loose: boolean }> = [];
+  let contentIndent = 0;
+  let i = start;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const item = line.match(LIST_ITEM);
+
+    if (item && item[1].length === baseIndent) {
+      if (/\d/.test(item[2]) !== ordered) break;
+      contentIndent = baseIndent + item[2].length + 1;
+      items.push({ lines: [item[3]], loose: false });
+      i++;
+      continue;
+    }
+
+    if (!line.trim()) {
+      // A blank line continues the list only if more indented content or another item follows
+      let next = i + 1;
+      while (next < lines.length && !lines[next].trim()) next++;
+      const following = lines[next];
+      if (following === undefined) break;
+      const followingItem = following.match(LIST_ITEM);
+      const continues = indentOf(following) >= contentIndent ||
+        (followingItem && followingItem[1].length === baseIndent && /\d/.test(followingItem[2]) === ordered);
+      if (!continues) break;
+      const current = items[items.length - 1];
+      current.lines.push('');
+      if (indentOf(following) >= contentIndent) current.loose = true;
+      i++;
+      continue;
+    }
+
+    if (indentOf(line) > baseIndent) {
+      items[items.length - 1].lines.push(line.slice(Math.min(indentOf(line), contentIndent)));
+      i++;
+      continue;
+    }
+
+    // Lazy continuation of the item's paragraph
+    if (!startsBlock(line) && items[items.length - 1].lines[items[items.length - 1].lines.length - 1]) {
+      items[items.length - 1].lines.push(line.trim());
+      i++;
+      continue;
+    }
+    break;
+  }
+
+  const tag = ordered ? 'ol' : 'ul';
+  const startNumber = ordered ? parseInt(first[2], 10) : 1;
+  const startAttr = ordered && startNumber !== 1 ? ` start="${startNumber}"` : '';
+  const tasks = items.map(item => item.lines[0].match(TASK_ITEM));
+  const itemsHtml = items.map((item, index) => {
+    const task = tasks[index];
+    const html = parseBlocks(task ? [item.lines[0].slice(task[0].length), ...item.lines.slice(1)] : item.lines);
+    const checked = task ? ` data-checked="${task[1] === ' ' ? 'false' : 'true'}"` : '';
+    // Tight list items hold their text directly instead of in paragraphs
+    return `<li${checked}>${item.loose ? html : html.replace(/<p>([\s\S]*?)<\/p>/g, '$1')}</li>`;
+  }).join('');
+  const listClass = !ordered && tasks.every(Boolean) ? ' class="checklist"' : '';
+
+  return { html: `<${tag}${startAttr}${listClass}>${itemsHtml}</${tag}>`, next: i };
+};
+
+function parseBlocks(lines: string[]): string {
+  const html: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      const language = line.trim().slice(fence[1].length).trim().split(/\s+/)[0];
+      const languageAttr = language ? ` data-language="${escapeHtml(language)}"` : '';
+      html.push(`<pre${languageAttr}><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const align = line.match(ALIGN_OPEN);
+    if (align) {
+      const inner: string[] = [];
+      let depth = 1;
+      i++;
+      while (i < lines.length) {
+        if (ALIGN_OPEN.test(lines[i])) depth++;
+        if (ALIGN_CLOSE.test(lines[i]) && --depth === 0) break;
+        inner.push(lines[i]);
+        i++;
+      }
+      i++;
+      html.push(`<div style="text-align: ${align[1].toLowerCase()}">${parseBlocks(inner)}</div>`);
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      const level = heading[1].length;
+      html.push(`<h${level}>${parseInline(heading[2])}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      html.push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (/^\s*>/.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && /^\s*>/.test(lines[i])) {
+        quoted.push(lines[i].replace(/^\s*> ?/, ''));
+        i++;
+      }
+      html.push(`<blockquote>${parseBlocks(quoted)}</blockquote>`);
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const list = parseList(lines, i);
+      html.push(list.html);
+      i = list.next;
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+      const header = splitTableRow(line);
+      const alignStyles = splitTableRow(lines[i + 1]).map(separator => {
+        const align = separator.startsWith(':') && separator.endsWith(':') ? 'center'
+          : separator.endsWith(':') ? 'right' : separator.startsWith(':') ? 'left' : null;
+        return align && align !== 'left' ? ` style="text-align: ${align}"` : '';
+      });
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        rows.push(splitTableRow(lines[i]));
+        i++;
+      }
+      const headHtml = header.map((cell, c) => `<th${alignStyles[c] ?? ''}>${parseInline(cell)}</th>`).join('');
+      const bodyHtml = rows
+        .map(row => `<tr>${header.map((_, c) => `<td${alignStyles[c] ?? ''}>${parseInline(row[c] || '')}</td>`).join('')}</tr>`)
+        .join('');
+      html.push(`<table><thead><tr>${headHtml}</tr></thead><tbody>${bodyHtml}</tbody></table>`);
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines[i]))) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    // Two trailing spaces or a backslash mark a hard line break
+    const text = paragraph
+      .map((part, index) => {
+        const isLast = index === paragraph.length - 1;
+        const hardBreak = !isLast && /( {2,}|\\)$/.test(part);
+        const trimmed = part.trim().replace(/\\$/, '');
+        return hardBreak ? `${trimmed}<br>` : `${trimmed}${isLast ? '' : ' '}`;
+      })
+      .join('');
+    html.push(`<p>${parseInline(text)}</p>`);
+  }
+
+  return html.join('');
+}
+
+/**
+ * Converts Markdown to HTML for the editor. Raw HTML is escaped except for a
+ * small set of inline tags and the `<div align>` blocks written by htmlToMarkdown.
+ */
+export const markdownToHtml = (markdown: string): string =>
+  parseBlocks(markdown.replace(/\r\n?/g, '\n').split('\n'));
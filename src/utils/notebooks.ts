@@ -0,0 +1,69 @@
+import type { Notebook } from '../types';
+
+// dataTransfer types used when dragging notes and notebooks onto a notebook
+export const NOTE_DRAG_TYPE = 'application/x-smart-notes-note-id';
+export const NOTEBOOK_DRAG_TYPE = 'application/x-smart-notes-notebook-id';
+
+export interface NotebookTreeItem {
+  notebook: Notebook;
+  depth: number;
+}
+
+const byName = (a: Notebook, b: Notebook) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' });
+
+/**
+ * Flattens the hierarchy depth-first with siblings sorted by name. Notebooks whose
+ * parent no longer exists are shown at the top level.
+ */
+export const flattenNotebookTree = (notebooks: Notebook[]): NotebookTreeItem[] => {
+  const ids = new Set(notebooks.map(notebook => notebook.id));
+  const children = new Map<string | null, Notebook[]>();
+  notebooks.forEach(notebook => {
+    const parentId = notebook.parentId && ids.has(notebook.parentId) ? notebook.parentId : null;
+    children.set(parentId, [...(children.get(parentId) || []), notebook]);
+  });
+
+  const items: NotebookTreeItem[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    (children.get(parentId) || []).sort(byName).forEach(notebook => {
+      items.push({ notebook, depth });
+      visit(notebook.id, depth + 1);
+    });
+  };
+  visit(null, 0);
+  return items;
+};
+
+/**
+ * Returns the notebook and every notebook nested below it
+ */
+export const getNotebookSubtreeIds = (notebooks: Notebook[], rootId: string): Set<string> => {
+  const subtree = new Set([rootId]);
+  let added = true;
+  while (added) {
+    added = false;
+    notebooks.forEach(notebook => {
+      if (notebook.parentId && subtree.has(notebook.parentId) && !subtree.has(notebook.id)) {
+        subtree.add(notebook.id);
+        added = true;
+      }
+    });
+  }
+  return subtree;
+};
+
+/**
+ * Full path of a notebook, e.g. "Work / Projects"
+ */
+export const getNotebookPath = (notebooks: Notebook[], id: string): string => {
+  const byId = new Map(notebooks.map(notebook => [notebook.id, notebook]));
+  const names: string[] = [];
+  const seen = new Set<string>();
+  let current = byId.get(id);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    names.unshift(current.name);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return names.join(' / ');
+};
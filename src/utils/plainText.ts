@@ -0,0 +1,24 @@
+// Blocks and table rows end with a line break
+const BLOCK_END_PATTERN = /<\/(p|div|li|h[1-6]|blockquote|pre|tr|table|figure)>/gi;
+// Table cells end with a space, so words in neighbouring cells stay apart
+const CELL_END_PATTERN = /<\/(td|th)>/gi;
+
+/**
+ * Plain text of stored note HTML, with one line per block and table row. Used
+ * for search, revision diffs and whatever is sent to the AI provider.
+ */
+export const htmlToPlainText = (html: string): string => {
+  if (!html) return '';
+  // The breaks go inside the closing elements, where the parser keeps them as text
+  const marked = html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(BLOCK_END_PATTERN, '\n$&')
+    .replace(CELL_END_PATTERN, ' $&');
+  // A parsed document is inert: unlike innerHTML on an element, nothing loads or runs
+  const body = new DOMParser().parseFromString(marked, 'text/html').body;
+  return (body.textContent || '')
+    .replace(/[^\S\n]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
@@ -0,0 +1,308 @@
+import type { Note } from '../types';
+import { foldText } from './textSearch';
+import { tagKey } from './tags';
+
+/**
+ * Search box query language, e.g.
+ *   tag:meeting is:pinned updated:>2026-01-01 "exact phrase" -draft (budget OR invoice)
+ * Words and filters separated by spaces must all match; OR and parentheses group
+ * alternatives and a leading "-" negates a word, filter or group.
+ */
+
+export type IsFilter = 'pinned' | 'encrypted' | 'untagged';
+export type DateField = 'updated' | 'created';
+export type DateOperator = '>' | '>=' | '<' | '<=' | '=';
+
+export type QueryNode =
+  | { type: 'text'; value: string }
+  | { type: 'phrase'; value: string }
+  | { type: 'tag'; value: string }
+  | { type: 'title'; value: string }
+  | { type: 'is'; value: IsFilter }
+  | { type: 'date'; field: DateField; operator: DateOperator; day: Date }
+  | { type: 'not'; operand: QueryNode }
+  | { type: 'and'; operands: QueryNode[] }
+  | { type: 'or'; operands: QueryNode[] };
+
+// Full-text lookups the evaluator delegates to the search index
+export interface QueryTextMatcher {
+  matchText: (text: string) => Set<string>;
+  matchPhrase: (phrase: string) => Set<string>;
+}
+
+// Raised for malformed queries; start/end locate the problem in the query string
+export class QuerySyntaxError extends Error {
+  readonly start: number;
+  readonly end: number;
+
+  constructor(message: string, start: number, end: number) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+    this.start = start;
+    this.end = end;
+  }
+}
+
+const IS_FILTERS: readonly IsFilter[] = ['pinned', 'encrypted', 'untagged'];
+const FIELDS = ['tag', 'title', 'is', 'updated', 'created'] as const;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'or' | 'not'; start: number; end: number }
+  | { kind: 'term'; field: string | null; value: string; quoted: boolean; start: number; end: number };
+
+const readQuoted = (query: string, start: number): { value: string; end: number } => {
+  const close = query.indexOf('"', start + 1);
+  if (close === -1) {
+    throw new QuerySyntaxError('Missing closing quote', start, query.length);
+  }
+  return { value: query.slice(start + 1, close), end: close + 1 };
+};
+
+const tokenizeQuery = (query: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', start: i, end: i + 1 });
+      i++;
+    } else if (char === '-' && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+      tokens.push({ kind: 'not', start: i, end: i + 1 });
+      i++;
+    } else if (char === '"') {
+      const { value, end } = readQuoted(query, i);
+      tokens.push({ kind: 'term', field: null, value, quoted: true, start: i, end });
+      i = end;
+    } else {
+      const start = i;
+      while (i < query.length && !/[\s()"]/.test(query[i])) i++;
+      const word = query.slice(start, i);
+      const field = word.match(/^([a-z]+):(.*)$/i);
+
+      if (word === 'OR') {
+        tokens.push({ kind: 'or', start, end: i });
+      } else if (field) {
+        let value = field[2];
+        let quoted = false;
+        // field:"quoted value"
+        if (!value && query[i] === '"') {
+          const phrase = readQuoted(query, i);
+          value = phrase.value;
+          quoted = true;
+          i = phrase.end;
+        }
+        tokens.push({ kind: 'term', field: field[1].toLowerCase(), value, quoted, start, end: i });
+      } else {
+        tokens.push({ kind: 'term', field: null, value: word, quoted: false, start, end: i });
+      }
+    }
+  }
+  return tokens;
+};
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Dates are YYYY-MM-DD or relative to today, e.g. 7d, 2w, 3m, 1y
+ */
+const parseDay = (value: string): Date | null => {
+  const absolute = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (absolute) {
+    const date = new Date(Number(absolute[1]), Number(absolute[2]) - 1, Number(absolute[3]));
+    return date.getMonth() === Number(absolute[2]) - 1 ? date : null;
+  }
+
+  const relative = value.match(/^(\d+)([dwmy])$/);
+  if (relative) {
+    const amount = Number(relative[1]);
+    const date = startOfDay(new Date());
+    if (relative[2] === 'd') date.setDate(date.getDate() - amount);
+    if (relative[2] === 'w') date.setDate(date.getDate() - amount * 7);
+    if (relative[2] === 'm') date.setMonth(date.getMonth() - amount);
+    if (relative[2] === 'y') date.setFullYear(date.getFullYear() - amount);
+    return date;
+  }
+  return null;
+};
+
+const termToNode = (token: Extract<Token, { kind: 'term' }>): QueryNode => {
+  const { field, value, start, end } = token;
+  if (field === null) {
+    return token.quoted ? { type: 'phrase', value } : { type: 'text', value };
+  }
+  if (!(FIELDS as readonly string[]).includes(field)) {
+    throw new QuerySyntaxError(
+      `Unknown filter "${field}:". Use ${FIELDS.map(name => `${name}:`).join(', ')}`,
+      start,
+      end
+    );
+  }
+  if (!value) {
+    throw new QuerySyntaxError(`Missing value after "${field}:"`, start, end);
+  }
+
+  switch (field) {
+    case 'tag':
+    case 'title':
+      return { type: field, value };
+    case 'is': {
+      const filter = IS_FILTERS.find(option => option === value.toLowerCase());
+      if (!filter) {
+        throw new QuerySyntaxError(`Unknown value "${value}" for is:. Use ${IS_FILTERS.join(', ')}`, start, end);
+      }
+      return { type: 'is', value: filter };
+    }
+    default: {
+      const [, operator = '=', dayText] = value.match(/^(>=|<=|>|<|=)?(.*)$/)!;
+      const day = parseDay(dayText);
+      if (!day) {
+        throw new QuerySyntaxError(`"${dayText}" is not a date. Use YYYY-MM-DD or e.g. 7d`, start, end);
+      }
+      return { type: 'date', field: field as DateField, operator: operator as DateOperator, day };
+    }
+  }
+};
+
+/**
+ * Parses a query into its AST; returns null for an empty query. Throws
+ * QuerySyntaxError for malformed input.
+ */
+export const parseQuery = (query: string): QueryNode | null => {
+  const tokens = tokenizeQuery(query);
+  let position = 0;
+
+  const peek = () => tokens[position];
+
+  const parseOr = (): QueryNode => {
+    const operands = [parseAnd()];
+    while (peek()?.kind === 'or') {
+      const or = tokens[position++];
+      if (!peek() || peek().kind === 'rparen' || peek().kind === 'or') {
+        throw new QuerySyntaxError('OR needs something on both sides', or.start, or.end);
+      }
+      operands.push(parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { type: 'or', operands };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const operands: QueryNode[] = [];
+    while (peek() && peek().kind !== 'or' && peek().kind !== 'rparen') {
+      operands.push(parseUnary());
+    }
+    if (operands.length === 0) {
+      const token = peek();
+      throw token?.kind === 'or'
+        ? new QuerySyntaxError('OR needs something on both sides', token.start, token.end)
+        : new QuerySyntaxError('Expected a search term', token?.start ?? query.length, token?.end ?? query.length);
+    }
+    return operands.length === 1 ? operands[0] : { type: 'and', operands };
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = tokens[position++];
+    if (token.kind === 'not') {
+      if (!peek() || peek().kind === 'rparen' || peek().kind === 'or') {
+        throw new QuerySyntaxError('"-" must be followed by a term', token.start, token.end);
+      }
+      return { type: 'not', operand: parseUnary() };
+    }
+    if (token.kind === 'lparen') {
+      if (peek()?.kind === 'rparen') {
+        throw new QuerySyntaxError('Empty parentheses', token.start, peek().end);
+      }
+      const inner = parseOr();
+      if (peek()?.kind !== 'rparen') {
+        throw new QuerySyntaxError('Missing closing parenthesis', token.start, token.end);
+      }
+      position++;
+      return inner;
+    }
+    if (token.kind === 'term') {
+      return termToNode(token);
+    }
+    throw new QuerySyntaxError(`Unexpected "${query.slice(token.start, token.end)}"`, token.start, token.end);
+  };
+
+  if (tokens.length === 0) return null;
+  const ast = parseOr();
+  if (position < tokens.length) {
+    const token = tokens[position];
+    throw new QuerySyntaxError(`Unexpected "${query.slice(token.start, token.end)}"`, token.start, token.end);
+  }
+  return ast;
+};
+
+const matchesDate = (time: number, operator: DateOperator, day: Date): boolean => {
+  const start = day.getTime();
+  const end = start + DAY_MS;
+  switch (operator) {
+    case '>': return time >= end;
+    case '>=': return time >= start;
+    case '<': return time < start;
+    case '<=': return time < end;
+    case '=': return time >= start && time < end;
+  }
+};
+
+/**
+ * Builds a predicate for the query. Full-text lookups are cached so each word is
+ * only searched once however many notes are tested.
+ */
+export const createQueryPredicate = (ast: QueryNode, matcher: QueryTextMatcher): ((note: Note) => boolean) => {
+  const textCache = new Map<string, Set<string>>();
+  const phraseCache = new Map<string, Set<string>>();
+  const cached = (cache: Map<string, Set<string>>, key: string, lookup: (key: string) => Set<string>) => {
+    if (!cache.has(key)) cache.set(key, lookup(key));
+    return cache.get(key)!;
+  };
+
+  const test = (node: QueryNode, note: Note): boolean => {
+    switch (node.type) {
+      case 'text':
+        return cached(textCache, node.value, matcher.matchText).has(note.id);
+      case 'phrase':
+        return cached(phraseCache, node.value, matcher.matchPhrase).has(note.id);
+      case 'tag':
+        return (note.tags || []).some(tag => tagKey(tag) === tagKey(node.value));
+      case 'title':
+        return foldText(note.title).includes(foldText(node.value));
+      case 'is':
+        if (node.value === 'pinned') return note.isPinned && !note.deletedAt;
+        if (node.value === 'encrypted') return !!note.isEncrypted;
+        return !note.tags || note.tags.length === 0;
+      case 'date':
+        return matchesDate((node.field === 'updated' ? note.updatedAt : note.createdAt).getTime(), node.operator, node.day);
+      case 'not':
+        return !test(node.operand, note);
+      case 'and':
+        return node.operands.every(operand => test(operand, note));
+      case 'or':
+        return node.operands.some(operand => test(operand, note));
+    }
+  };
+
+  return (note: Note) => test(ast, note);
+};
+
+/**
+ * The words and phrases a query searches for (ignoring negated ones), used to
+ * rank results and highlight matches
+ */
+export const getQuerySearchTerms = (ast: QueryNode | null): string[] => {
+  if (!ast) return [];
+  switch (ast.type) {
+    case 'text':
+    case 'phrase':
+      return [ast.value];
+    case 'and':
+    case 'or':
+      return ast.operands.flatMap(getQuerySearchTerms);
+    default:
+      return [];
+  }
+};
@@ -0,0 +1,70 @@
+import type { Note, TagFilterMode } from '../types';
+
+export interface TagSummary {
+  name: string;
+  count: number;
+}
+
+/**
+ * Tags are compared case-insensitively, the same way TagSuggestions dedupes them
+ */
+export const tagKey = (tag: string): string => tag.trim().toLowerCase();
+
+/**
+ * Lists every tag with the number of notes using it. Spelling variants that only
+ * differ in case are grouped under the most common spelling.
+ */
+export const summarizeTags = (notes: Note[]): TagSummary[] => {
+  const groups = new Map<string, { count: number; spellings: Map<string, number> }>();
+
+  notes.forEach(note => {
+    const seen = new Set<string>();
+    (note.tags || []).forEach(tag => {
+      const key = tagKey(tag);
+      if (!key || seen.has(key)) return;
+      seen.add(key);
+
+      const group = groups.get(key) || { count: 0, spellings: new Map<string, number>() };
+      group.count++;
+      group.spellings.set(tag.trim(), (group.spellings.get(tag.trim()) || 0) + 1);
+      groups.set(key, group);
+    });
+  });
+
+  return Array.from(groups.values())
+    .map(group => ({
+      name: Array.from(group.spellings.entries()).sort((a, b) => b[1] - a[1])[0][0],
+      count: group.count
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+};
+
+/**
+ * Replaces any of the source tags with the target, or removes them when target is
+ * null, then drops case-insensitive duplicates. Returns the same array when none of
+ * the source tags are present so unchanged notes are not rewritten.
+ */
+export const replaceTags = (tags: string[], sources: string[], target: string | null): string[] => {
+  const sourceKeys = new Set(sources.map(tagKey));
+  if (!tags.some(tag => sourceKeys.has(tagKey(tag)))) return tags;
+
+  const result: string[] = [];
+  tags.forEach(tag => {
+    const next = sourceKeys.has(tagKey(tag)) ? target : tag;
+    if (next && !result.some(existing => tagKey(existing) === tagKey(next))) {
+      result.push(next);
+    }
+  });
+  return result;
+};
+
+/**
+ * Whether a note carries all (and) or any (or) of the selected tag keys
+ */
+export const matchesTagFilter = (note: Note, selectedKeys: string[], mode: TagFilterMode): boolean => {
+  if (selectedKeys.length === 0) return true;
+  const noteKeys = new Set((note.tags || []).map(tagKey));
+  return mode === 'and'
+    ? selectedKeys.every(key => noteKeys.has(key))
+    : selectedKeys.some(key => noteKeys.has(key));
+};
@@ -0,0 +1,77 @@
+export interface DiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Above this many token pairs the LCS table gets too large; fall back to a coarse diff
+const MAX_LCS_CELLS = 4_000_000;
+
+// Splits into words and the whitespace between them so the diff can be re-joined exactly
+const tokenize = (text: string): string[] => text.match(/\s+|[^\s]+/g) || [];
+
+const pushSegment = (segments: DiffSegment[], type: DiffSegment['type'], text: string) => {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+};
+
+/**
+ * Word-level diff between two plain-text strings using the longest common subsequence
+ */
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Trim the common prefix and suffix to keep the LCS table small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const segments: DiffSegment[] = [];
+  if (start > 0) pushSegment(segments, 'equal', a.slice(0, start).join(''));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    if (midA.length) pushSegment(segments, 'removed', midA.join(''));
+    if (midB.length) pushSegment(segments, 'added', midB.join(''));
+  } else {
+    // lengths[i][j] = LCS length of midA[i..] and midB[j..]
+    const lengths: Uint32Array[] = Array.from({ length: midA.length + 1 }, () => new Uint32Array(midB.length + 1));
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lengths[i][j] = midA[i] === midB[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        pushSegment(segments, 'equal', midA[i]);
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        pushSegment(segments, 'removed', midA[i++]);
+      } else {
+        pushSegment(segments, 'added', midB[j++]);
+      }
+    }
+    while (i < midA.length) pushSegment(segments, 'removed', midA[i++]);
+    while (j < midB.length) pushSegment(segments, 'added', midB[j++]);
+  }
+
+  if (endA < a.length) pushSegment(segments, 'equal', a.slice(endA).join(''));
+  return segments;
+};
@@ -0,0 +1,117 @@
+import type { TextHighlight } from '../types';
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+export interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Lowercases and strips accents so "Café" and "cafe" index the same way
+ */
+export const foldText = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const isVowel = (word: string, i: number): boolean =>
+  /[aeiou]/.test(word[i]) || (word[i] === 'y' && i > 0 && !isVowel(word, i - 1));
+
+// Porter's measure: the number of vowel-consonant sequences in the word
+const measure = (word: string): number => {
+  let count = 0;
+  for (let i = 1; i < word.length; i++) {
+    if (!isVowel(word, i) && isVowel(word, i - 1)) count++;
+  }
+  return count;
+};
+
+const hasVowel = (word: string): boolean => word.split('').some((_, i) => isVowel(word, i));
+
+// consonant-vowel-consonant ending where the last consonant is not w, x or y
+const endsCvc = (word: string): boolean => {
+  const n = word.length;
+  return n >= 3 && !isVowel(word, n - 1) && isVowel(word, n - 2) && !isVowel(word, n - 3) && !/[wxy]$/.test(word);
+};
+
+/**
+ * Step 1 of the Porter stemmer: folds plurals and -ed/-ing forms together
+ * ("meetings", "meeting" -> "meet"). Words with non-ASCII letters are left alone.
+ */
+export const stem = (word: string): string => {
+  if (word.length <= 3 || !/^[a-z]+$/.test(word)) return word;
+
+  let result = word;
+  if (result.endsWith('sses')) result = result.slice(0, -2);
+  else if (result.endsWith('ies')) result = result.slice(0, -2);
+  else if (result.endsWith('s') && !result.endsWith('ss')) result = result.slice(0, -1);
+
+  if (result.endsWith('eed')) {
+    if (measure(result.slice(0, -3)) > 0) result = result.slice(0, -1);
+  } else {
+    const suffix = result.endsWith('ed') ? 'ed' : result.endsWith('ing') ? 'ing' : null;
+    const base = suffix ? result.slice(0, -suffix.length) : '';
+    if (suffix && hasVowel(base)) {
+      result = base;
+      if (/(at|bl|iz)$/.test(result)) {
+        result += 'e';
+      } else if (/([^aeiouylsz])\1$/.test(result)) {
+        result = result.slice(0, -1);
+      } else if (measure(result) === 1 && endsCvc(result)) {
+        result += 'e';
+      }
+    }
+  }
+
+  if (result.endsWith('y') && hasVowel(result.slice(0, -1))) {
+    result = result.slice(0, -1) + 'i';
+  }
+  return result;
+};
+
+/**
+ * Splits text into folded, stemmed terms with their positions in the original text
+ */
+export const tokenize = (text: string): Token[] =>
+  Array.from(text.matchAll(WORD_PATTERN), match => ({
+    term: stem(foldText(match[0])),
+    start: match.index,
+    end: match.index + match[0].length
+  }));
+
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions and swaps
+ * of adjacent characters each count as one edit. Gives up early and returns
+ * maxDistance + 1 once the words are known to be further apart than maxDistance.
+ */
+export const editDistance = (a: string, b: string, maxDistance: number): number => {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const beforePrevious = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, beforePrevious[j - 2] + 1);
+      }
+      row[j] = distance;
+      rowMin = Math.min(rowMin, distance);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+  }
+  return Math.min(row[b.length], maxDistance + 1);
+};
+
+/**
+ * Ranges of the tokens in the text whose term is in the matched set
+ */
+export const findHighlights = (text: string, matchedTerms: Set<string>): TextHighlight[] =>
+  tokenize(text)
+    .filter(token => matchedTerms.has(token.term))
+    .map(({ start, end }) => ({ start, end }));
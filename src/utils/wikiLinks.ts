@@ -0,0 +1,85 @@
+import type { Note } from '../types';
+import { escapeHtml } from './markdown';
+
+/**
+ * [[Note Title]] references between notes. Links are stored as plain text in the
+ * note HTML and resolved by title, case-insensitively.
+ */
+export const WIKI_LINK_PATTERN = /\[\[([^[\]<>\n]+?)\]\]/g;
+
+// Text typed after an unclosed "[[" right before the caret
+export const WIKI_LINK_QUERY_PATTERN = /\[\[([^[\]\n]*)$/;
+
+const decodeEntities = (html: string): string =>
+  html
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+
+export const wikiLinkKey = (title: string): string => title.replace(/\s+/g, ' ').trim().toLowerCase();
+
+/**
+ * Titles linked from a note's HTML content, without duplicates
+ */
+export const extractWikiLinks = (html: string): string[] => {
+  const titles = new Map<string, string>();
+  for (const match of html.matchAll(WIKI_LINK_PATTERN)) {
+    const title = decodeEntities(match[1]).trim();
+    if (title && !titles.has(wikiLinkKey(title))) {
+      titles.set(wikiLinkKey(title), title);
+    }
+  }
+  return Array.from(titles.values());
+};
+
+/**
+ * The note a link points to. When several notes share the title, the most
+ * recently updated one wins.
+ */
+export const findNoteByTitle = (notes: Note[], title: string): Note | undefined => {
+  const key = wikiLinkKey(title);
+  return notes
+    .filter(note => wikiLinkKey(note.title) === key)
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())[0];
+};
+
+/**
+ * Notes whose content links to the given note. Encrypted notes are skipped since
+ * their content cannot be read.
+ */
+export const getBacklinks = (notes: Note[], target: Note): Note[] => {
+  const key = wikiLinkKey(target.title);
+  if (!key) return [];
+  return notes.filter(note =>
+    note.id !== target.id &&
+    !note.isEncrypted &&
+    extractWikiLinks(note.content).some(title => wikiLinkKey(title) === key)
+  );
+};
+
+/**
+ * Points [[oldTitle]] links in the HTML at newTitle. Returns the same string
+ * when nothing links to oldTitle.
+ */
+export const renameWikiLinks = (html: string, oldTitle: string, newTitle: string): string => {
+  const oldKey = wikiLinkKey(oldTitle);
+  return html.replace(WIKI_LINK_PATTERN, (match, title: string) =>
+    wikiLinkKey(decodeEntities(title)) === oldKey ? `[[${escapeHtml(newTitle)}]]` : match
+  );
+};
+
+/**
+ * Plain text around the first link to the title, for showing backlinks in context
+ */
+export const getWikiLinkSnippet = (html: string, title: string, radius = 60): string => {
+  const text = decodeEntities(html.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+  const index = text.toLowerCase().indexOf(`[[${wikiLinkKey(title)}]]`);
+  if (index === -1) return text.slice(0, radius * 2);
+
+  const start = Math.max(0, index - radius);
+  const end = Math.min(text.length, index + title.length + 4 + radius);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+};